@@ -0,0 +1,199 @@
+import {TFile} from "obsidian";
+import {MetaFlowApi} from "./MetaFlowApi";
+import {METAFLOW_EVENTS} from "./types";
+import {MetaFlowEventService} from "../services/MetaFlowEventService";
+import {PropertyManagementService} from "../services/PropertyManagementService";
+import {MetaFlowException} from "../MetaFlowException";
+import {DEFAULT_SETTINGS} from "../settings/defaultSettings";
+import type {MetaFlowSettings} from "../settings/types";
+
+describe('MetaFlowApi', () => {
+  let api: MetaFlowApi;
+  let settings: MetaFlowSettings;
+  let mockApp: any;
+  let mockMetadataMenuAdapter: any;
+  let mockMetaFlowService: any;
+  let mockPreviewService: any;
+  let mockFileClassDeductionService: any;
+  let mockFileOperationsService: any;
+  let mockPropertyManagementService: any;
+  let mockLogManager: any;
+  let file: TFile;
+
+  beforeEach(() => {
+    file = Object.assign(Object.create(TFile.prototype), {path: 'Books/dune.md', name: 'dune.md', basename: 'dune', extension: 'md'});
+    settings = {
+      ...DEFAULT_SETTINGS,
+      autoRenameNote: false,
+      autoMoveNoteToRightFolder: false,
+      folderFileClassMappings: [{...DEFAULT_SETTINGS.folderFileClassMappings[0], folder: 'Books', fileClass: 'book'}],
+      propertyDefaultValueScripts: [
+        {propertyName: 'created', script: '', enabled: true},
+        {propertyName: 'isbn', script: '', enabled: true, fileClasses: ['book']},
+        {propertyName: 'url', script: '', enabled: true, fileClasses: ['article']},
+        {propertyName: 'summary', script: '', enabled: true, fileClasses: ['default']},
+        {propertyName: 'author', script: '', enabled: false},
+      ],
+    };
+    mockApp = {
+      vault: {
+        getAbstractFileByPath: jest.fn((path: string) => path === file.path ? file : null),
+        read: jest.fn().mockResolvedValue('---\ntitle: Dune\n---\nBody'),
+        cachedRead: jest.fn().mockResolvedValue('---\ntitle: Dune\n---\nBody'),
+        modify: jest.fn().mockResolvedValue(undefined),
+      },
+      metadataCache: {getFileCache: jest.fn(() => ({frontmatter: {title: 'Dune'}}))},
+      workspace: {trigger: jest.fn()},
+    };
+    mockMetadataMenuAdapter = {
+      getFileClassByName: jest.fn((name: string) => {
+        const fields: {[name: string]: any[]} = {
+          default: [{name: 'title', type: 'Input'}],
+          book: [{name: 'author', type: 'File', isRequired: true}],
+        };
+        if (!fields[name]) {
+          throw new MetaFlowException(`File class "${name}" not found in MetadataMenu`, 'warning');
+        }
+        return fields[name];
+      }),
+      getFileClassAncestorChain: jest.fn(() => ['default', 'book']),
+    };
+    mockMetaFlowService = {
+      computeContentUpdate: jest.fn().mockResolvedValue({
+        fileClass: 'book',
+        originalFrontmatter: {title: 'Dune'},
+        frontmatter: {fileClass: 'book', title: 'Dune', author: null},
+        content: '---\nfileClass: book\ntitle: Dune\nauthor:\n---\nBody',
+      }),
+      formatNoteTitle: jest.fn().mockResolvedValue('Dune (1965)'),
+    };
+    mockPreviewService = {
+      buildPreview: jest.fn().mockResolvedValue({
+        fileClass: 'book',
+        originalFrontmatter: {title: 'Dune'},
+        updatedFrontmatter: {fileClass: 'book', title: 'Dune'},
+        changes: [{key: 'fileClass', status: 'added', after: 'book'}],
+        diagnostics: [],
+      }),
+      getPlannedPath: jest.fn().mockReturnValue('Books/Dune (1965).md'),
+    };
+    const mockFrontMatterService: any = {
+      parseFrontmatter: jest.fn(() => ({restOfContent: 'Body'})),
+    };
+    mockFileClassDeductionService = {
+      getFileClassFromMetadata: jest.fn((metadata: any) => metadata?.fileClass || null),
+      deduceFileClass: jest.fn().mockReturnValue({fileClass: 'book'}),
+    };
+    mockFileOperationsService = {
+      renameNote: jest.fn().mockResolvedValue(null),
+      moveNote: jest.fn().mockResolvedValue(undefined),
+    };
+    mockPropertyManagementService = new PropertyManagementService(settings, mockMetadataMenuAdapter, {} as any);
+    jest.spyOn(mockPropertyManagementService, 'runPropertyScript').mockResolvedValue('978-0441013593');
+    mockLogManager = {
+      addError: jest.fn(),
+      addWarning: jest.fn(),
+      addInfo: jest.fn(),
+      addDebug: jest.fn(),
+      addMessage: jest.fn(),
+    };
+    api = new MetaFlowApi(
+      mockApp, settings, mockLogManager, mockMetadataMenuAdapter, mockMetaFlowService, mockPreviewService,
+      mockFrontMatterService, mockFileClassDeductionService, mockFileOperationsService, mockPropertyManagementService,
+      new MetaFlowEventService(mockApp)
+    );
+  });
+
+  describe('updateFile', () => {
+    it('should write the updated content between the update events', async () => {
+      const result = await api.updateFile('Books/dune.md');
+
+      expect(mockApp.vault.modify).toHaveBeenCalledWith(file, '---\nfileClass: book\ntitle: Dune\nauthor:\n---\nBody');
+      const event = {
+        file, oldPath: 'Books/dune.md', path: 'Books/dune.md',
+        before: {title: 'Dune'}, after: {fileClass: 'book', title: 'Dune', author: null},
+      };
+      expect(mockApp.workspace.trigger).toHaveBeenNthCalledWith(1, METAFLOW_EVENTS.beforeUpdate, event);
+      expect(mockApp.workspace.trigger).toHaveBeenNthCalledWith(2, METAFLOW_EVENTS.afterUpdate, event);
+      expect(mockFileOperationsService.renameNote).not.toHaveBeenCalled();
+      expect(mockFileOperationsService.moveNote).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        path: 'Books/dune.md', fileClass: 'book', before: event.before, after: event.after, changed: true, errors: [],
+      });
+    });
+
+    it('should rename and move the note when asked', async () => {
+      await api.updateFile('Books/dune.md', {rename: true, move: true});
+
+      const metadata = {fileClass: 'book', title: 'Dune', author: null};
+      expect(mockFileOperationsService.renameNote).toHaveBeenCalledWith(file, 'book', metadata, mockLogManager);
+      expect(mockFileOperationsService.moveNote).toHaveBeenCalledWith(file, 'book', metadata, mockLogManager);
+    });
+
+    it('should report the move failure once the frontmatter is written', async () => {
+      mockFileOperationsService.moveNote.mockRejectedValue(new MetaFlowException('No target folder defined for fileClass "book"', 'warning'));
+
+      const result = await api.updateFile('Books/dune.md', {move: true});
+
+      expect(mockApp.vault.modify).toHaveBeenCalled();
+      expect(result.errors).toEqual(['Move failed: No target folder defined for fileClass "book"']);
+    });
+
+    it('should throw when the note does not exist', async () => {
+      await expect(api.updateFile('Books/missing.md')).rejects.toThrow('Note "Books/missing.md" not found');
+    });
+  });
+
+  describe('deduceFileClass', () => {
+    it('should give the fileClass of the note, or deduce it', async () => {
+      expect(await api.deduceFileClass('Books/dune.md')).toBe('book');
+      expect(mockFileClassDeductionService.deduceFileClass).toHaveBeenCalledWith('Books/dune.md', {title: 'Dune'}, 'Body');
+
+      mockApp.metadataCache.getFileCache.mockReturnValue({frontmatter: {fileClass: 'novel'}});
+      expect(await api.deduceFileClass('Books/dune.md')).toBe('novel');
+    });
+  });
+
+  it('should format the title and run the scripts with the fileClass of the note', async () => {
+    expect(await api.formatTitle('Books/dune.md')).toBe('Dune (1965)');
+    expect(await api.runScript('isbn', 'Books/dune.md')).toBe('978-0441013593');
+
+    expect(mockMetaFlowService.formatNoteTitle).toHaveBeenCalledWith(file, 'book', {title: 'Dune'}, mockLogManager);
+    expect(mockPropertyManagementService.runPropertyScript).toHaveBeenCalledWith('isbn', file, 'book', {title: 'Dune'}, mockLogManager);
+  });
+
+  describe('getSchema', () => {
+    it('should list the fields of the fileClass and its ancestors', () => {
+      expect(api.getSchema('book')).toEqual({
+        fileClass: 'book',
+        ancestors: ['default'],
+        fields: [
+          {name: 'title', type: 'Input', fileClass: 'default', options: undefined, isRequired: undefined, defaultValue: undefined},
+          {name: 'author', type: 'File', fileClass: 'book', options: undefined, isRequired: true, defaultValue: undefined},
+        ],
+        scriptedProperties: ['created', 'isbn', 'summary'],
+        folder: 'Books',
+      });
+    });
+
+    it('should throw for an unknown fileClass', () => {
+      expect(() => api.getSchema('movie')).toThrow('File class "movie" not found in MetadataMenu');
+    });
+  });
+
+  it('should preview the changes without writing anything', async () => {
+    const preview = await api.previewChanges('Books/dune.md');
+
+    expect(preview).toEqual({
+      path: 'Books/dune.md',
+      plannedPath: 'Books/Dune (1965).md',
+      fileClass: 'book',
+      before: {title: 'Dune'},
+      after: {fileClass: 'book', title: 'Dune'},
+      changes: [{key: 'fileClass', status: 'added', after: 'book'}],
+      diagnostics: [],
+    });
+    expect(mockApp.vault.modify).not.toHaveBeenCalled();
+    expect(mockApp.workspace.trigger).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+import {injectable, inject} from 'inversify';
+import type {App} from "obsidian";
+import {TFile} from "obsidian";
+import type {MetaFlowSettings} from "../settings/types";
+import type {LogManagerInterface} from "../managers/types";
+import {MetaFlowException} from "../MetaFlowException";
+import type {MetadataMenuAdapter} from "../externalApi/MetadataMenuAdapter";
+import type {MetaFlowService} from "../services/MetaFlowService";
+import type {PreviewService} from "../services/PreviewService";
+import type {FrontMatterService} from "../services/FrontMatterService";
+import type {FileClassDeductionService} from "../services/FileClassDeductionService";
+import type {FileOperationsService} from "../services/FileOperationsService";
+import type {PropertyManagementService} from "../services/PropertyManagementService";
+import type {MetaFlowEventService} from "../services/MetaFlowEventService";
+import type {FileChangesPreview, FileClassSchema, MetaFlowApiInterface, UpdateFileOptions, UpdateFileResult} from "./types";
+import {TYPES} from '../di/types';
+
+/**
+ * Public API of the plugin, every method throws a MetaFlowException when the note or the fileClass cannot be found
+ */
+@injectable()
+export class MetaFlowApi implements MetaFlowApiInterface {
+  constructor(
+    @inject(TYPES.App) private app: App,
+    @inject(TYPES.MetaFlowSettings) private settings: MetaFlowSettings,
+    @inject(TYPES.LogManagerInterface) private logManager: LogManagerInterface,
+    @inject(TYPES.MetadataMenuAdapter) private metadataMenuAdapter: MetadataMenuAdapter,
+    @inject(TYPES.MetaFlowService) private metaFlowService: MetaFlowService,
+    @inject(TYPES.PreviewService) private previewService: PreviewService,
+    @inject(TYPES.FrontMatterService) private frontMatterService: FrontMatterService,
+    @inject(TYPES.FileClassDeductionService) private fileClassDeductionService: FileClassDeductionService,
+    @inject(TYPES.FileOperationsService) private fileOperationsService: FileOperationsService,
+    @inject(TYPES.PropertyManagementService) private propertyManagementService: PropertyManagementService,
+    @inject(TYPES.MetaFlowEventService) private metaFlowEventService: MetaFlowEventService
+  ) { }
+
+  /**
+   * Run the metadata pipeline on the note like "Update metadata properties", then rename and move it,
+   * the rename and move failures are reported in the result as the frontmatter is already written
+   */
+  async updateFile(path: string, options: UpdateFileOptions = {}): Promise<UpdateFileResult> {
+    let file = this.getFile(path);
+    const content = await this.app.vault.read(file);
+    const result = await this.metaFlowService.computeContentUpdate(content, file, this.logManager);
+    const changed = result.content !== content;
+    if (changed) {
+      await this.metaFlowEventService.update(file, result.originalFrontmatter, result.frontmatter, async () => {
+        await this.app.vault.modify(file, result.content);
+      });
+    }
+    const errors: string[] = [];
+    if (options.rename ?? this.settings.autoRenameNote) {
+      try {
+        file = await this.fileOperationsService.renameNote(file, result.fileClass, result.frontmatter, this.logManager) || file;
+      } catch (error) {
+        errors.push(`Rename failed: ${error.message || error}`);
+      }
+    }
+    if (options.move ?? this.settings.autoMoveNoteToRightFolder) {
+      try {
+        await this.fileOperationsService.moveNote(file, result.fileClass, result.frontmatter, this.logManager);
+      } catch (error) {
+        errors.push(`Move failed: ${error.message || error}`);
+      }
+    }
+    return {
+      path: file.path,
+      fileClass: result.fileClass,
+      before: result.originalFrontmatter,
+      after: result.frontmatter,
+      changed,
+      errors,
+    };
+  }
+
+  /**
+   * The fileClass of the note, or the one given by the deduction rules and the folder/fileClass mappings
+   */
+  async deduceFileClass(path: string): Promise<string | null> {
+    const file = this.getFile(path);
+    const frontmatter = this.getFrontmatter(file);
+    const fileClass = this.fileClassDeductionService.getFileClassFromMetadata(frontmatter);
+    if (fileClass) {
+      return fileClass;
+    }
+    const content = await this.app.vault.cachedRead(file);
+    const body = this.frontMatterService.parseFrontmatter(content)?.restOfContent ?? content;
+    return this.fileClassDeductionService.deduceFileClass(file.path, frontmatter, body)?.fileClass ?? null;
+  }
+
+  /**
+   * The title the rename rules of its fileClass give to the note, without renaming it
+   */
+  async formatTitle(path: string): Promise<string> {
+    const file = this.getFile(path);
+    const fileClass = await this.getFileClass(file);
+    return this.metaFlowService.formatNoteTitle(file, fileClass, this.getFrontmatter(file), this.logManager);
+  }
+
+  /**
+   * The value the default value script of the property gives for the note, without writing it
+   */
+  async runScript(property: string, path: string): Promise<any> {
+    const file = this.getFile(path);
+    const fileClass = await this.getFileClass(file);
+    return this.propertyManagementService.runPropertyScript(property, file, fileClass, this.getFrontmatter(file), this.logManager);
+  }
+
+  getSchema(fileClass: string): FileClassSchema {
+    // throws when MetadataMenu does not know the fileClass
+    this.metadataMenuAdapter.getFileClassByName(fileClass);
+    const chain = this.metadataMenuAdapter.getFileClassAncestorChain(fileClass, this.logManager);
+    const fields = chain.flatMap(name => this.metadataMenuAdapter.getFileClassByName(name).map(field => ({
+      name: field.name,
+      type: field.type,
+      fileClass: name,
+      options: field.options,
+      isRequired: field.isRequired,
+      defaultValue: field.defaultValue,
+    })));
+    return {
+      fileClass,
+      ancestors: chain.filter(name => name !== fileClass),
+      fields,
+      // the scripts of the ancestors apply too, as when the default values are added
+      scriptedProperties: this.propertyManagementService.selectScriptsForFileClass(
+        this.settings.propertyDefaultValueScripts.filter(script => script.enabled), fileClass, this.logManager
+      ).map(script => script.propertyName),
+      folder: this.settings.folderFileClassMappings.find(mapping => mapping.fileClass === fileClass)?.folder ?? null,
+    };
+  }
+
+  /**
+   * What `updateFile` would write, rename and move, without touching the vault
+   */
+  async previewChanges(path: string): Promise<FileChangesPreview> {
+    const file = this.getFile(path);
+    const preview = await this.previewService.buildPreview(await this.app.vault.read(file), file, this.logManager);
+    return {
+      path: file.path,
+      plannedPath: this.previewService.getPlannedPath(preview),
+      fileClass: preview.fileClass,
+      before: preview.originalFrontmatter,
+      after: preview.updatedFrontmatter,
+      changes: preview.changes,
+      diagnostics: preview.diagnostics,
+    };
+  }
+
+  private getFile(path: string): TFile {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      throw new MetaFlowException(`Note "${path}" not found`, 'warning');
+    }
+    return file;
+  }
+
+  private getFrontmatter(file: TFile): {[key: string]: any} {
+    return {...(this.app.metadataCache.getFileCache(file)?.frontmatter || {})};
+  }
+
+  private async getFileClass(file: TFile): Promise<string> {
+    const fileClass = await this.deduceFileClass(file.path);
+    if (!fileClass) {
+      throw new MetaFlowException(`No fileClass found for note "${file.path}"`, 'warning');
+    }
+    return fileClass;
+  }
+}
@@ -0,0 +1,88 @@
+import type {TFile} from "obsidian";
+import type {FrontmatterChange} from "../services/PreviewService";
+import type {FieldDiagnostic} from "../services/FieldValidationService";
+import type {MetadataMenuField} from "../externalApi/types.MetadataMenu";
+
+/**
+ * Workspace events triggered by MetaFlow, listen to them with `app.workspace.on('metaflow:after-update', (event) => ...)`
+ */
+export const METAFLOW_EVENTS = {
+  beforeUpdate: 'metaflow:before-update',
+  afterUpdate: 'metaflow:after-update',
+  renamed: 'metaflow:renamed',
+  moved: 'metaflow:moved',
+} as const;
+
+export type MetaFlowEventName = typeof METAFLOW_EVENTS[keyof typeof METAFLOW_EVENTS];
+
+export interface MetaFlowEvent {
+  file: TFile;
+  // path of the note before a rename or a move, its current path otherwise
+  oldPath: string;
+  path: string;
+  before: {[key: string]: any};
+  after: {[key: string]: any};
+}
+
+export interface UpdateFileOptions {
+  // rename the note by the rules of its fileClass, defaults to the auto-rename setting
+  rename?: boolean;
+  // move the note to the right folder, defaults to the auto-move setting
+  move?: boolean;
+}
+
+export interface UpdateFileResult {
+  // path of the note once renamed and moved
+  path: string;
+  fileClass: string;
+  before: {[key: string]: any};
+  after: {[key: string]: any};
+  changed: boolean;
+  // the rename and move failures, the frontmatter is written anyway
+  errors: string[];
+}
+
+export interface FileChangesPreview {
+  path: string;
+  // path of the note once renamed and moved
+  plannedPath: string;
+  fileClass: string;
+  before: {[key: string]: any};
+  after: {[key: string]: any};
+  changes: FrontmatterChange[];
+  diagnostics: FieldDiagnostic[];
+}
+
+export interface FileClassSchemaField {
+  name: string;
+  type: MetadataMenuField['type'];
+  // fileClass defining the field, the fileClass itself or one of its ancestors
+  fileClass: string;
+  options?: MetadataMenuField['options'];
+  isRequired?: boolean;
+  defaultValue?: any;
+}
+
+export interface FileClassSchema {
+  fileClass: string;
+  // from the most basic ancestor to the direct parent
+  ancestors: string[];
+  fields: FileClassSchemaField[];
+  // properties having an enabled default value script
+  scriptedProperties: string[];
+  // folder of the folder/fileClass mapping of the fileClass
+  folder: string | null;
+}
+
+/**
+ * Public API of MetaFlow, available to other plugins and user scripts as
+ * `app.plugins.plugins['metaflow'].api`, every path is a vault path such as `Books/Dune.md`
+ */
+export interface MetaFlowApiInterface {
+  updateFile(path: string, options?: UpdateFileOptions): Promise<UpdateFileResult>;
+  deduceFileClass(path: string): Promise<string | null>;
+  formatTitle(path: string): Promise<string>;
+  runScript(property: string, path: string): Promise<any>;
+  getSchema(fileClass: string): FileClassSchema;
+  previewChanges(path: string): Promise<FileChangesPreview>;
+}
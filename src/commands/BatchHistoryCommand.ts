@@ -0,0 +1,42 @@
+import {injectable, inject} from 'inversify';
+import type {App} from 'obsidian';
+import type {LogManagerInterface} from '../managers/types';
+import type {BatchJournal, BatchJournalService} from '../services/BatchJournalService';
+import {BatchHistoryModal} from '../ui/BatchHistoryModal';
+import {SimpleCommand} from './types';
+import {TYPES} from '../di/types';
+
+/**
+ * Command to browse the recorded mass updates and revert a whole batch or some of its notes
+ */
+@injectable()
+export class BatchHistoryCommand implements SimpleCommand {
+  constructor(
+    @inject(TYPES.App) private app: App,
+    @inject(TYPES.BatchJournalService) private batchJournalService: BatchJournalService
+  ) { }
+
+  async execute(logManager: LogManagerInterface): Promise<void> {
+    const batches = await this.batchJournalService.listBatches();
+    if (batches.length === 0) {
+      logManager.addInfo('No MetaFlow batch recorded');
+      return;
+    }
+
+    new BatchHistoryModal(
+      this.app,
+      batches,
+      async (batch: BatchJournal, paths: string[] | null) => {
+        const result = await this.batchJournalService.revertBatch(batch, paths, logManager);
+        if (result.skipped > 0 || result.failed > 0) {
+          logManager.addWarning(
+            `Reverted ${result.reverted} files, skipped ${result.skipped} modified files, ` +
+            `failed to revert ${result.failed} files.`
+          );
+        } else {
+          logManager.addInfo(`Successfully reverted ${result.reverted} files`);
+        }
+      }
+    ).open();
+  }
+}
@@ -0,0 +1,182 @@
+// Mock ProgressModal
+jest.mock('../ui/ProgressModal', () => ({
+  ProgressModal: jest.fn().mockImplementation((app, total, title, description, onCancel, onExecute) => ({
+    open: jest.fn(() => onExecute()),
+    setCurrentItem: jest.fn(),
+    addInfo: jest.fn(),
+    addError: jest.fn(),
+    finish: jest.fn(),
+  }))
+}));
+
+// Mock BulkRenameModal
+const mockBulkRenameModalOpen = jest.fn();
+jest.mock('../ui/BulkRenameModal', () => ({
+  BulkRenameModal: jest.fn().mockImplementation((app, title, entries, applyCallback) => ({
+    open: () => mockBulkRenameModalOpen(entries, applyCallback),
+  }))
+}));
+
+// Mock FileClassSuggestModal
+const mockFileClassSuggestModalOpen = jest.fn();
+jest.mock('../ui/FileClassSuggestModal', () => ({
+  FileClassSuggestModal: jest.fn().mockImplementation((app, fileClasses, placeholder, chooseCallback) => ({
+    open: () => mockFileClassSuggestModalOpen(fileClasses, chooseCallback),
+  }))
+}));
+
+jest.mock('../utils/Utils', () => ({
+  Utils: {
+    sleep: jest.fn().mockResolvedValue(undefined),
+  }
+}));
+
+import {Container} from 'inversify';
+import {TFile} from 'obsidian';
+import {BulkRenameCommand} from './BulkRenameCommand';
+import {TYPES} from '../di/types';
+import {DEFAULT_SETTINGS} from '../settings/defaultSettings';
+import type {LogManagerInterface} from '../managers/types';
+
+describe('BulkRenameCommand', () => {
+  let command: BulkRenameCommand;
+  let mockApp: any;
+  let mockObsidianAdapter: any;
+  let mockFileOperationsService: any;
+  let mockNoteTitleService: any;
+  let mockLogManager: jest.Mocked<LogManagerInterface>;
+  const frontmatters: {[path: string]: any} = {
+    'Books/dune.md': {fileClass: 'book', title: 'Dune'},
+    'Books/Foundation.md': {fileClass: 'book', title: 'Foundation'},
+    'Books/untitled.md': {fileClass: 'book'},
+    'Books/copy.md': {fileClass: 'book', title: 'Emma'},
+    'Books/other copy.md': {fileClass: 'book', title: 'Hyperion'},
+    'Books/second copy.md': {fileClass: 'book', title: 'Hyperion'},
+    'Books/loose.md': {},
+    'Books/article.md': {fileClass: 'article'},
+  };
+
+  const createFile = (path: string): TFile => {
+    const file = Object.create(TFile.prototype);
+    const name = path.split('/').pop() as string;
+    return Object.assign(file, {path, name, basename: name.replace(/\.md$/, ''), extension: 'md', parent: {path: path.substring(0, path.lastIndexOf('/'))}});
+  };
+  const files = Object.keys(frontmatters).map(createFile);
+  // the progress modal runs the renames without awaiting them
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockApp = {
+      vault: {getMarkdownFiles: jest.fn().mockReturnValue(files)},
+      metadataCache: {getFileCache: jest.fn().mockImplementation((file: TFile) => ({frontmatter: frontmatters[file.path]}))},
+    };
+    mockObsidianAdapter = {
+      folderPrefix: jest.fn().mockImplementation((folder: string) => `${folder}/`),
+      normalizePath: jest.fn().mockImplementation((path: string) => path),
+      isFileExists: jest.fn().mockImplementation((path: string) => path === 'Books/Emma.md'),
+    };
+    mockFileOperationsService = {
+      renameNote: jest.fn().mockImplementation(async (file: TFile) => file),
+    };
+    mockNoteTitleService = {
+      formatNoteTitle: jest.fn().mockImplementation(async (file: TFile, fileClass: string, metadata: any) => metadata.title || 'Untitled'),
+    };
+    mockLogManager = {
+      addError: jest.fn(),
+      addWarning: jest.fn(),
+      addInfo: jest.fn(),
+      addDebug: jest.fn(),
+      addMessage: jest.fn(),
+    } as any;
+
+    const container = new Container();
+    container.bind(TYPES.App).toConstantValue(mockApp);
+    container.bind(TYPES.MetaFlowSettings).toConstantValue({
+      ...DEFAULT_SETTINGS,
+      excludeFolders: ['Templates'],
+      folderFileClassMappings: [
+        {folder: 'Books', fileClass: 'book', moveToFolder: false, templateMode: 'template', noteTitleTemplates: [], noteTitleScript: {enabled: false, script: ''}},
+      ],
+    });
+    container.bind(TYPES.ObsidianAdapter).toConstantValue(mockObsidianAdapter);
+    container.bind(TYPES.FileOperationsService).toConstantValue(mockFileOperationsService);
+    container.bind(TYPES.FileClassDeductionService).toConstantValue({
+      getFileClassFromMetadata: jest.fn().mockImplementation((metadata: any) => metadata?.fileClass || null),
+    });
+    container.bind(TYPES.NoteTitleService).toConstantValue(mockNoteTitleService);
+    container.bind(TYPES.BulkRenameCommand).to(BulkRenameCommand);
+    command = container.get<BulkRenameCommand>(TYPES.BulkRenameCommand);
+  });
+
+  it('should give a status to the new name of every note', async () => {
+    const entries = await command.buildEntries(files, mockLogManager);
+
+    expect(entries.map(entry => [entry.file.basename, entry.newName, entry.status])).toEqual([
+      ['dune', 'Dune', 'rename'],
+      ['Foundation', 'Foundation', 'unchanged'],
+      ['untitled', 'Untitled', 'untitled'],
+      ['copy', 'Emma', 'collision'],
+      ['other copy', 'Hyperion', 'rename'],
+      ['second copy', 'Hyperion', 'collision'],
+      ['loose', 'loose', 'invalid'],
+      ['article', 'article', 'invalid'],
+    ]);
+    expect(entries[7].message).toBe('no mapping for fileClass "article"');
+  });
+
+  it('should report the title errors as invalid', async () => {
+    mockNoteTitleService.formatNoteTitle.mockRejectedValueOnce(new Error('Template error'));
+
+    const [entry] = await command.buildEntries([files[0]], mockLogManager);
+
+    expect(entry.status).toBe('invalid');
+    expect(entry.message).toBe('Template error');
+  });
+
+  it('should preview the notes of the chosen fileClass and rename the selected ones', async () => {
+    await command.execute(mockLogManager);
+    const [fileClasses, chooseCallback] = mockFileClassSuggestModalOpen.mock.calls[0];
+    expect(fileClasses).toEqual(['book']);
+
+    await chooseCallback('book');
+    const [entries, applyCallback] = mockBulkRenameModalOpen.mock.calls[0];
+    expect(entries).toHaveLength(6);
+    await applyCallback([entries[0], entries[3]]);
+    await flushPromises();
+
+    expect(mockFileOperationsService.renameNote).toHaveBeenCalledTimes(2);
+    expect(mockFileOperationsService.renameNote).toHaveBeenCalledWith(files[0], 'book', frontmatters['Books/dune.md'], expect.anything());
+    expect(mockLogManager.addInfo).toHaveBeenCalledWith('Successfully renamed 2 notes.');
+  });
+
+  it('should rename with the metadata of the note when the renames are applied', async () => {
+    await command.previewRenames('fileClass "book"', [files[0]], mockLogManager);
+    const [entries, applyCallback] = mockBulkRenameModalOpen.mock.calls[0];
+    const editedFrontmatter = {fileClass: 'book', title: 'Dune Messiah'};
+    mockApp.metadataCache.getFileCache.mockReturnValue({frontmatter: editedFrontmatter});
+
+    await applyCallback(entries);
+    await flushPromises();
+
+    expect(mockFileOperationsService.renameNote).toHaveBeenCalledWith(files[0], 'book', editedFrontmatter, expect.anything());
+  });
+
+  it('should skip the excluded notes of a folder', async () => {
+    await command.previewRenames('the folder "Templates"', [createFile('Templates/book.md')], mockLogManager);
+
+    expect(mockBulkRenameModalOpen).not.toHaveBeenCalled();
+    expect(mockLogManager.addWarning).toHaveBeenCalledWith('No notes to rename - all notes are excluded or no markdown notes found.');
+  });
+
+  it('should count the failed renames', async () => {
+    mockFileOperationsService.renameNote.mockRejectedValueOnce(new Error('Rename error'));
+    await command.previewRenames('the folder "Books"', files, mockLogManager);
+    const [entries, applyCallback] = mockBulkRenameModalOpen.mock.calls[0];
+
+    await applyCallback([entries[0], entries[4]]);
+    await flushPromises();
+
+    expect(mockLogManager.addWarning).toHaveBeenCalledWith('Completed with errors. Renamed 1 notes, failed to rename 1 notes.');
+  });
+});
@@ -0,0 +1,172 @@
+import {injectable, inject} from 'inversify';
+import type {App, TFile} from 'obsidian';
+import type {LogManagerInterface} from '../managers/types';
+import {ProgressModal} from '../ui/ProgressModal';
+import {BulkRenameEntry, BulkRenameModal} from '../ui/BulkRenameModal';
+import {FileClassSuggestModal} from '../ui/FileClassSuggestModal';
+import {Utils} from '../utils/Utils';
+import type {FileOperationsService} from '../services/FileOperationsService';
+import type {FileClassDeductionService} from '../services/FileClassDeductionService';
+import type {NoteTitleService} from '../services/NoteTitleService';
+import type {ObsidianAdapter} from '../externalApi/ObsidianAdapter';
+import type {MetaFlowSettings} from '../settings/types';
+import {SimpleCommand} from './types';
+import {TYPES} from '../di/types';
+
+/**
+ * Command to preview the names given by the title rules to the notes of a fileClass or a folder, then rename the selected notes
+ */
+@injectable()
+export class BulkRenameCommand implements SimpleCommand {
+  constructor(
+    @inject(TYPES.App) private app: App,
+    @inject(TYPES.MetaFlowSettings) private settings: MetaFlowSettings,
+    @inject(TYPES.ObsidianAdapter) private obsidianAdapter: ObsidianAdapter,
+    @inject(TYPES.FileOperationsService) private fileOperationsService: FileOperationsService,
+    @inject(TYPES.FileClassDeductionService) private fileClassDeductionService: FileClassDeductionService,
+    @inject(TYPES.NoteTitleService) private noteTitleService: NoteTitleService
+  ) { }
+
+  async execute(logManager: LogManagerInterface): Promise<void> {
+    const fileClasses = [...new Set(this.settings.folderFileClassMappings.map(mapping => mapping.fileClass).filter(fileClass => fileClass))];
+    if (fileClasses.length === 0) {
+      logManager.addWarning('No fileClass mapping defined, configure the title rules in the folder/fileClass mappings');
+      return;
+    }
+    new FileClassSuggestModal(this.app, fileClasses, 'FileClass of the notes to rename', async (fileClass: string) => {
+      const files = this.app.vault.getMarkdownFiles().filter(file =>
+        this.getFileClass(file) === fileClass
+      );
+      await this.previewRenames(`fileClass "${fileClass}"`, files, logManager);
+    }).open();
+  }
+
+  /**
+   * Compute the new name of every note and open the table of the planned renames
+   * @param scope - Description of the notes, for the modal title
+   */
+  async previewRenames(scope: string, files: TFile[], logManager: LogManagerInterface): Promise<void> {
+    const filteredFiles = this.filterFiles(files);
+    if (filteredFiles.length === 0) {
+      logManager.addWarning('No notes to rename - all notes are excluded or no markdown notes found.');
+      return;
+    }
+    const entries = await this.buildEntries(filteredFiles, logManager);
+    new BulkRenameModal(
+      this.app,
+      `Rename ${filteredFiles.length} notes of ${scope} by rules`,
+      entries,
+      async (selectedEntries: BulkRenameEntry[]) => {
+        await this.applyRenames(selectedEntries, logManager);
+      }
+    ).open();
+  }
+
+  async buildEntries(files: TFile[], logManager: LogManagerInterface): Promise<BulkRenameEntry[]> {
+    const entries: BulkRenameEntry[] = [];
+    for (const file of files) {
+      entries.push(await this.buildEntry(file, logManager));
+    }
+    // two notes of the batch getting the same name collide too, the first one is renamed
+    const plannedPaths = new Map<string, BulkRenameEntry>();
+    entries.filter(entry => entry.status === 'rename').forEach(entry => {
+      const path = this.getPlannedPath(entry).toLowerCase();
+      if (plannedPaths.has(path)) {
+        entry.status = 'collision';
+      } else {
+        plannedPaths.set(path, entry);
+      }
+    });
+    return entries;
+  }
+
+  private async buildEntry(file: TFile, logManager: LogManagerInterface): Promise<BulkRenameEntry> {
+    const metadata = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+    const fileClass = this.fileClassDeductionService.getFileClassFromMetadata(metadata) || '';
+    const entry: BulkRenameEntry = {file, fileClass, metadata, newName: file.basename, status: 'invalid'};
+    if (!fileClass) {
+      entry.message = 'no fileClass';
+      return entry;
+    }
+    if (!this.settings.folderFileClassMappings.some(mapping => mapping.fileClass === fileClass)) {
+      entry.message = `no mapping for fileClass "${fileClass}"`;
+      return entry;
+    }
+    try {
+      entry.newName = await this.noteTitleService.formatNoteTitle(file, fileClass, metadata, logManager);
+    } catch (error) {
+      entry.message = error.message || String(error);
+      return entry;
+    }
+    if (entry.newName === 'Untitled') {
+      entry.status = 'untitled';
+    } else if (entry.newName === file.basename) {
+      entry.status = 'unchanged';
+    } else {
+      const plannedPath = this.getPlannedPath(entry);
+      // a change of case only is not a collision with the note itself
+      entry.status = plannedPath.toLowerCase() !== file.path.toLowerCase() && this.obsidianAdapter.isFileExists(plannedPath) ?
+        'collision' : 'rename';
+    }
+    return entry;
+  }
+
+  private async applyRenames(entries: BulkRenameEntry[], logManager: LogManagerInterface): Promise<void> {
+    if (entries.length === 0) {
+      logManager.addInfo('No notes selected');
+      return;
+    }
+    let renamedFiles = 0;
+    let errorFiles = 0;
+    const progressModal = new ProgressModal(
+      this.app,
+      entries.length,
+      `Renaming ${entries.length} notes`,
+      `Renaming ${entries.length} notes by rules`,
+      async () => {
+        // Cancel callback - just close modal
+      },
+      async () => {
+        for (const entry of entries) {
+          progressModal.setCurrentItem(entry.file.path);
+          try {
+            // the note name is computed again, the metadata may have changed since the preview
+            const metadata = this.app.metadataCache.getFileCache(entry.file)?.frontmatter || entry.metadata;
+            const renamedFile = await this.fileOperationsService.renameNote(entry.file, entry.fileClass, metadata, progressModal);
+            if (renamedFile) {
+              renamedFiles++;
+            }
+            await Utils.sleep(this.settings.frontmatterUpdateDelayMs || 10, () => { });
+          } catch (error: any) {
+            console.error(`Error renaming ${entry.file.path}:`, error);
+            errorFiles++;
+            progressModal.addError(`Error renaming ${entry.file.path}: ${error.message || error}`);
+          }
+        }
+        progressModal.finish();
+        if (errorFiles > 0) {
+          logManager.addWarning(`Completed with errors. Renamed ${renamedFiles} notes, failed to rename ${errorFiles} notes.`);
+        } else {
+          logManager.addInfo(`Successfully renamed ${renamedFiles} notes.`);
+        }
+      }
+    );
+    progressModal.open();
+  }
+
+  private getPlannedPath(entry: BulkRenameEntry): string {
+    const fileName = `${entry.newName}.${entry.file.extension}`;
+    return this.obsidianAdapter.normalizePath(entry.file.parent?.path ? `${entry.file.parent.path}/${fileName}` : fileName);
+  }
+
+  private getFileClass(file: TFile): string {
+    return this.fileClassDeductionService.getFileClassFromMetadata(this.app.metadataCache.getFileCache(file)?.frontmatter) || '';
+  }
+
+  private filterFiles(files: TFile[]): TFile[] {
+    const excludeFolders = (this.settings.excludeFolders || []);
+    return files.filter(file => {
+      return !excludeFolders.some(folder => file.path.startsWith(this.obsidianAdapter.folderPrefix(folder)));
+    }).filter(file => file.extension === 'md');
+  }
+}
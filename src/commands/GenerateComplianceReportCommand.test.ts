@@ -0,0 +1,88 @@
+import {Container} from 'inversify';
+import {GenerateComplianceReportCommand} from './GenerateComplianceReportCommand';
+import {TYPES} from '../di/types';
+import {ObsidianAdapter} from '../externalApi/ObsidianAdapter';
+import {DEFAULT_SETTINGS} from '../settings/defaultSettings';
+import type {LogManagerInterface} from '../managers/types';
+
+describe('GenerateComplianceReportCommand', () => {
+  let command: GenerateComplianceReportCommand;
+  let mockApp: any;
+  let mockObsidianAdapter: any;
+  let mockMetadataMenuAdapter: any;
+  let mockComplianceReportService: any;
+  let mockLogManager: jest.Mocked<LogManagerInterface>;
+  let leaf: any;
+  const book = ObsidianAdapter.createMockTFile('Books/Dune.md');
+  const template = ObsidianAdapter.createMockTFile('Templates/book.md');
+  const previousReport = ObsidianAdapter.createMockTFile('MetaFlow compliance report.md');
+  const report = {date: '', checkedNotes: 1, notes: [{}], stats: []};
+
+  beforeEach(() => {
+    leaf = {openFile: jest.fn().mockResolvedValue(undefined)};
+    mockApp = {
+      vault: {
+        getMarkdownFiles: jest.fn().mockReturnValue([book, template, previousReport]),
+        cachedRead: jest.fn().mockResolvedValue('content'),
+        create: jest.fn().mockImplementation(async (path: string) => ObsidianAdapter.createMockTFile(path)),
+        modify: jest.fn().mockResolvedValue(undefined),
+      },
+      workspace: {getLeaf: jest.fn().mockReturnValue(leaf)},
+    };
+    mockObsidianAdapter = {
+      folderPrefix: jest.fn().mockImplementation((folder: string) => `${folder}/`),
+      getAbstractFileByPath: jest.fn().mockReturnValue(null),
+    };
+    mockMetadataMenuAdapter = {
+      isMetadataMenuAvailable: jest.fn().mockReturnValue(true),
+    };
+    mockComplianceReportService = {
+      buildReport: jest.fn().mockResolvedValue(report),
+      renderReport: jest.fn().mockReturnValue('# Metadata compliance report\n'),
+    };
+    mockLogManager = {
+      addError: jest.fn(),
+      addWarning: jest.fn(),
+      addInfo: jest.fn(),
+      addDebug: jest.fn(),
+      addMessage: jest.fn(),
+    } as any;
+
+    const container = new Container();
+    container.bind(TYPES.App).toConstantValue(mockApp);
+    container.bind(TYPES.MetaFlowSettings).toConstantValue({...DEFAULT_SETTINGS, excludeFolders: ['Templates']});
+    container.bind(TYPES.ObsidianAdapter).toConstantValue(mockObsidianAdapter);
+    container.bind(TYPES.MetadataMenuAdapter).toConstantValue(mockMetadataMenuAdapter);
+    container.bind(TYPES.ComplianceReportService).toConstantValue(mockComplianceReportService);
+    container.bind(TYPES.GenerateComplianceReportCommand).to(GenerateComplianceReportCommand);
+    command = container.get<GenerateComplianceReportCommand>(TYPES.GenerateComplianceReportCommand);
+  });
+
+  it('should check the notes outside excluded folders and create the report note', async () => {
+    await command.execute(mockLogManager);
+
+    expect(mockComplianceReportService.buildReport).toHaveBeenCalledWith([book], expect.any(Function), mockLogManager);
+    expect(mockApp.vault.create).toHaveBeenCalledWith('MetaFlow compliance report.md', '# Metadata compliance report\n');
+    expect(leaf.openFile).toHaveBeenCalled();
+    expect(mockLogManager.addInfo).toHaveBeenCalledWith('Compliance report generated: 1 of 1 notes have issues');
+  });
+
+  it('should overwrite the previous report', async () => {
+    mockObsidianAdapter.getAbstractFileByPath.mockReturnValue(previousReport);
+
+    await command.execute(mockLogManager);
+
+    expect(mockApp.vault.modify).toHaveBeenCalledWith(previousReport, '# Metadata compliance report\n');
+    expect(mockApp.vault.create).not.toHaveBeenCalled();
+    expect(leaf.openFile).toHaveBeenCalledWith(previousReport);
+  });
+
+  it('should require MetadataMenu', async () => {
+    mockMetadataMenuAdapter.isMetadataMenuAvailable.mockReturnValue(false);
+
+    await command.execute(mockLogManager);
+
+    expect(mockComplianceReportService.buildReport).not.toHaveBeenCalled();
+    expect(mockLogManager.addError).toHaveBeenCalledWith('MetadataMenu plugin is required to generate the compliance report');
+  });
+});
@@ -0,0 +1,54 @@
+import {injectable, inject} from 'inversify';
+import type {App} from 'obsidian';
+import {TFile} from 'obsidian';
+import type {LogManagerInterface} from '../managers/types';
+import type {ObsidianAdapter} from '../externalApi/ObsidianAdapter';
+import type {MetadataMenuAdapter} from '../externalApi/MetadataMenuAdapter';
+import type {ComplianceReportService} from '../services/ComplianceReportService';
+import type {MetaFlowSettings} from '../settings/types';
+import {SimpleCommand} from './types';
+import {TYPES} from '../di/types';
+
+/**
+ * Command to check every note against its fileClass schema and write the result as a markdown note
+ */
+@injectable()
+export class GenerateComplianceReportCommand implements SimpleCommand {
+  public static readonly REPORT_PATH = 'MetaFlow compliance report.md';
+
+  constructor(
+    @inject(TYPES.App) private app: App,
+    @inject(TYPES.MetaFlowSettings) private settings: MetaFlowSettings,
+    @inject(TYPES.ObsidianAdapter) private obsidianAdapter: ObsidianAdapter,
+    @inject(TYPES.MetadataMenuAdapter) private metadataMenuAdapter: MetadataMenuAdapter,
+    @inject(TYPES.ComplianceReportService) private complianceReportService: ComplianceReportService
+  ) { }
+
+  async execute(logManager: LogManagerInterface): Promise<void> {
+    if (!this.metadataMenuAdapter.isMetadataMenuAvailable()) {
+      logManager.addError('MetadataMenu plugin is required to generate the compliance report');
+      return;
+    }
+    const excludeFolders = this.settings.excludeFolders || [];
+    const files = this.app.vault.getMarkdownFiles().filter(file =>
+      file.path !== GenerateComplianceReportCommand.REPORT_PATH &&
+      !excludeFolders.some(folder => file.path.startsWith(this.obsidianAdapter.folderPrefix(folder)))
+    );
+
+    const report = await this.complianceReportService.buildReport(
+      files, (file: TFile) => this.app.vault.cachedRead(file), logManager
+    );
+    const content = this.complianceReportService.renderReport(report);
+
+    const existingFile = this.obsidianAdapter.getAbstractFileByPath(GenerateComplianceReportCommand.REPORT_PATH);
+    let reportFile: TFile;
+    if (existingFile instanceof TFile) {
+      await this.app.vault.modify(existingFile, content);
+      reportFile = existingFile;
+    } else {
+      reportFile = await this.app.vault.create(GenerateComplianceReportCommand.REPORT_PATH, content);
+    }
+    await this.app.workspace.getLeaf(false).openFile(reportFile);
+    logManager.addInfo(`Compliance report generated: ${report.notes.length} of ${report.checkedNotes} notes have issues`);
+  }
+}
@@ -9,6 +9,14 @@ jest.mock('../ui/ProgressModal', () => ({
   }))
 }));
 
+// Mock PreviewModal
+const mockPreviewModalOpen = jest.fn();
+jest.mock('../ui/PreviewModal', () => ({
+  PreviewModal: jest.fn().mockImplementation((app, title, previews, getPlannedPath, applyCallback) => ({
+    open: () => mockPreviewModalOpen(previews, applyCallback),
+  }))
+}));
+
 // Mock Utils
 jest.mock('../utils/Utils', () => ({
   Utils: {
@@ -40,6 +48,9 @@ describe('MassUpdateMetadataCommand', () => {
   let mockApp: any;
   let mockMetaFlowService: jest.Mocked<MetaFlowService>;
   let mockObsidianAdapter: jest.Mocked<ObsidianAdapter>;
+  let mockPreviewService: any;
+  let mockBatchJournalService: any;
+  let mockMetaFlowEventService: any;
   let mockLogManager: jest.Mocked<LogManagerInterface>;
 
   beforeEach(() => {
@@ -60,6 +71,26 @@ describe('MassUpdateMetadataCommand', () => {
       createProgressModal: jest.fn()
     } as any;
 
+    mockPreviewService = {
+      buildPreview: jest.fn(),
+      hasChanges: jest.fn().mockReturnValue(true),
+      getPlannedPath: jest.fn().mockReturnValue('books/test.md'),
+      buildContent: jest.fn().mockReturnValue('new content'),
+      buildSelectedFrontmatter: jest.fn().mockReturnValue({}),
+      applyFileOperations: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockBatchJournalService = {
+      startBatch: jest.fn().mockReturnValue({id: '1', date: '', directory: 'books', entries: []}),
+      recordOriginal: jest.fn().mockReturnValue({}),
+      recordResult: jest.fn(),
+      saveBatch: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockMetaFlowEventService = {
+      update: jest.fn((file, before, after, write) => write()),
+    };
+
     mockLogManager = {
       addError: jest.fn(),
       addWarning: jest.fn(),
@@ -75,6 +106,9 @@ describe('MassUpdateMetadataCommand', () => {
     container.bind(TYPES.MetaFlowSettings).toConstantValue(DEFAULT_SETTINGS);
     container.bind(TYPES.MetaFlowService).toConstantValue(mockMetaFlowService);
     container.bind(TYPES.ObsidianAdapter).toConstantValue(mockObsidianAdapter);
+    container.bind(TYPES.PreviewService).toConstantValue(mockPreviewService);
+    container.bind(TYPES.BatchJournalService).toConstantValue(mockBatchJournalService);
+    container.bind(TYPES.MetaFlowEventService).toConstantValue(mockMetaFlowEventService);
     container.bind(TYPES.MassUpdateMetadataCommand).to(MassUpdateMetadataCommand);
 
     // Create command instance
@@ -94,4 +128,98 @@ describe('MassUpdateMetadataCommand', () => {
     await command.execute(mockLogManager);
     expect(mockApp.vault.getMarkdownFiles).toHaveBeenCalled();
   });
+
+  describe('previewMassUpdateMetadataProperties', () => {
+    const file = {path: 'books/test.md', name: 'test.md', extension: 'md'} as TFile;
+    const preview = {file, originalContent: 'content', updatedFrontmatter: {title: 'Test'}};
+
+    beforeEach(() => {
+      mockApp.vault.read = jest.fn().mockResolvedValue('content');
+      mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+      mockPreviewService.buildPreview.mockResolvedValue(preview);
+    });
+
+    it('should open the preview modal with the files having changes', async () => {
+      await command.previewMassUpdateMetadataProperties('books', [file], mockLogManager);
+
+      expect(mockPreviewService.buildPreview).toHaveBeenCalledWith('content', file, mockLogManager);
+      expect(mockPreviewModalOpen).toHaveBeenCalledWith([preview], expect.any(Function));
+      expect(mockApp.vault.modify).not.toHaveBeenCalled();
+    });
+
+    it('should not open the preview modal when nothing changes', async () => {
+      mockPreviewService.hasChanges.mockReturnValue(false);
+
+      await command.previewMassUpdateMetadataProperties('books', [file], mockLogManager);
+
+      expect(mockPreviewModalOpen).not.toHaveBeenCalled();
+      expect(mockLogManager.addInfo).toHaveBeenCalledWith('No changes needed');
+    });
+
+    it('should write the applied previews', async () => {
+      await command.previewMassUpdateMetadataProperties('books', [file], mockLogManager);
+      const applyCallback = mockPreviewModalOpen.mock.calls[0][1];
+      await applyCallback([{preview, selectedKeys: null}]);
+
+      expect(mockApp.vault.modify).toHaveBeenCalledWith(file, 'new content');
+      expect(mockPreviewService.applyFileOperations).toHaveBeenCalledWith(preview, preview.updatedFrontmatter, mockLogManager);
+      expect(mockLogManager.addInfo).toHaveBeenCalledWith('Successfully updated 1 files.');
+    });
+
+    it('should journal the applied previews', async () => {
+      await command.previewMassUpdateMetadataProperties('books', [file], mockLogManager);
+      mockApp.vault.read.mockResolvedValue('new content');
+      const applyCallback = mockPreviewModalOpen.mock.calls[0][1];
+      await applyCallback([{preview, selectedKeys: null}]);
+
+      expect(mockBatchJournalService.startBatch).toHaveBeenCalledWith('books');
+      expect(mockBatchJournalService.recordOriginal).toHaveBeenCalledWith(expect.anything(), file, 'content');
+      expect(mockBatchJournalService.recordResult).toHaveBeenLastCalledWith({}, 'books/test.md', 'new content');
+      expect(mockBatchJournalService.saveBatch).toHaveBeenCalled();
+    });
+
+    it('should journal the final path and content of the renamed and moved notes', async () => {
+      const movedFile = {path: 'archive/test (1).md', name: 'test (1).md', extension: 'md'} as TFile;
+      mockPreviewService.applyFileOperations.mockResolvedValue(movedFile);
+      await command.previewMassUpdateMetadataProperties('books', [file], mockLogManager);
+      mockApp.vault.read.mockResolvedValue('new content with alias');
+      const applyCallback = mockPreviewModalOpen.mock.calls[0][1];
+      await applyCallback([{preview, selectedKeys: null}]);
+
+      expect(mockApp.vault.read).toHaveBeenLastCalledWith(movedFile);
+      expect(mockBatchJournalService.recordResult).toHaveBeenLastCalledWith({}, 'archive/test (1).md', 'new content with alias');
+    });
+
+    it('should warn when the journal cannot be saved', async () => {
+      mockBatchJournalService.saveBatch.mockRejectedValue(new Error('disk full'));
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+      await command.previewMassUpdateMetadataProperties('books', [file], mockLogManager);
+      const applyCallback = mockPreviewModalOpen.mock.calls[0][1];
+      await applyCallback([{preview, selectedKeys: null}]);
+
+      expect(mockLogManager.addWarning).toHaveBeenCalledWith('The batch journal could not be saved, this update cannot be reverted.');
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('massUpdateMetadataProperties', () => {
+    const file = {path: 'books/test.md', name: 'test.md', extension: 'md'} as TFile;
+
+    it('should journal the updated files', async () => {
+      mockApp.vault.read = jest.fn().mockResolvedValue('content');
+      mockApp.vault.modify = jest.fn().mockResolvedValue(undefined);
+      mockMetaFlowService.computeContentUpdate = jest.fn().mockResolvedValue({
+        content: 'new content', originalFrontmatter: {}, frontmatter: {title: 'Test'},
+      });
+
+      await command.massUpdateMetadataProperties('books', [file], mockLogManager);
+      await new Promise(process.nextTick);
+
+      expect(mockApp.vault.modify).toHaveBeenCalledWith(file, 'new content');
+      expect(mockMetaFlowEventService.update).toHaveBeenCalledWith(file, {}, {title: 'Test'}, expect.any(Function));
+      expect(mockBatchJournalService.recordOriginal).toHaveBeenCalledWith(expect.anything(), file, 'content');
+      expect(mockBatchJournalService.recordResult).toHaveBeenCalledWith({}, 'books/test.md', 'new content');
+      expect(mockBatchJournalService.saveBatch).toHaveBeenCalled();
+    });
+  });
 });
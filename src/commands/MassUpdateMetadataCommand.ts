@@ -4,6 +4,11 @@ import type {LogManagerInterface} from '../managers/types';
 import {ProgressModal} from '../ui/ProgressModal';
 import {Utils} from '../utils/Utils';
 import type {MetaFlowService} from '../services/MetaFlowService';
+import type {FilePreview, PreviewService} from '../services/PreviewService';
+import type {BatchJournal, BatchJournalService} from '../services/BatchJournalService';
+import type {MetaFlowEventService} from '../services/MetaFlowEventService';
+import {PreviewModal, PreviewSelection} from '../ui/PreviewModal';
+import {MetaFlowException} from '../MetaFlowException';
 import type {ObsidianAdapter} from '../externalApi/ObsidianAdapter';
 import type {App} from 'obsidian';
 import type {MetaFlowSettings} from '../settings/types';
@@ -19,7 +24,10 @@ export class MassUpdateMetadataCommand implements SimpleCommand {
     @inject(TYPES.App) private app: App,
     @inject(TYPES.MetaFlowSettings) private settings: MetaFlowSettings,
     @inject(TYPES.MetaFlowService) private metaFlowService: MetaFlowService,
-    @inject(TYPES.ObsidianAdapter) private obsidianAdapter: ObsidianAdapter
+    @inject(TYPES.ObsidianAdapter) private obsidianAdapter: ObsidianAdapter,
+    @inject(TYPES.PreviewService) private previewService: PreviewService,
+    @inject(TYPES.BatchJournalService) private batchJournalService: BatchJournalService,
+    @inject(TYPES.MetaFlowEventService) private metaFlowEventService: MetaFlowEventService
   ) { }
 
   async execute(logManager: LogManagerInterface): Promise<void> {
@@ -32,11 +40,10 @@ export class MassUpdateMetadataCommand implements SimpleCommand {
     files: TFile[],
     noticeManager: LogManagerInterface,
   ): Promise<void> {
-    // Filter out files in excluded folders
-    const excludeFolders = (this.settings.excludeFolders || []);
-    const filteredFiles = files.filter(file => {
-      return !excludeFolders.some(folder => file.path.startsWith(this.obsidianAdapter.folderPrefix(folder)));
-    }).filter(file => file.extension === 'md');
+    if (this.settings.previewBeforeUpdate) {
+      return this.previewMassUpdateMetadataProperties(directory, files, noticeManager);
+    }
+    const filteredFiles = this.filterFiles(files);
     const totalFiles = filteredFiles.length;
     if (totalFiles === 0) {
       noticeManager.addWarning('No files to update - all files are excluded or no markdown files found.');
@@ -59,16 +66,22 @@ export class MassUpdateMetadataCommand implements SimpleCommand {
       },
       async () => {
         // Main processing function
+        const batch = this.batchJournalService.startBatch(directory);
         try {
           for (const file of filteredFiles) {
             try {
               const content = await this.app.vault.read(file);
               progressModal.setCurrentItem(file.path);
 
-              const processedContent = this.metaFlowService.processContent(content, file, noticeManager);
+              const result = await this.metaFlowService.computeContentUpdate(content, file, noticeManager);
+              const processedContent = result.content;
 
               if (processedContent !== content) {
-                await this.app.vault.modify(file, processedContent);
+                const entry = this.batchJournalService.recordOriginal(batch, file, content);
+                await this.metaFlowEventService.update(file, result.originalFrontmatter, result.frontmatter, async () => {
+                  await this.app.vault.modify(file, processedContent);
+                });
+                this.batchJournalService.recordResult(entry, file.path, processedContent);
                 updatedFiles++;
               }
 
@@ -86,6 +99,7 @@ export class MassUpdateMetadataCommand implements SimpleCommand {
           console.error('Mass update error:', error);
           progressModal.addError(`Mass update failed: ${error.message || error}`);
         }
+        await this.saveJournal(batch, noticeManager);
       }
     );
 
@@ -98,4 +112,111 @@ export class MassUpdateMetadataCommand implements SimpleCommand {
       noticeManager.addInfo(`Successfully processed ${processedFiles} files, updated ${updatedFiles} files.`);
     }
   }
+
+  /**
+   * Compute the changes of every file without writing anything,
+   * then let the user review and apply them from the preview modal
+   */
+  async previewMassUpdateMetadataProperties(
+    directory: string,
+    files: TFile[],
+    noticeManager: LogManagerInterface,
+  ): Promise<void> {
+    const filteredFiles = this.filterFiles(files);
+    if (filteredFiles.length === 0) {
+      noticeManager.addWarning('No files to update - all files are excluded or no markdown files found.');
+      return;
+    }
+
+    const previews: FilePreview[] = [];
+    let errorCount = 0;
+    for (const file of filteredFiles) {
+      try {
+        const content = await this.app.vault.read(file);
+        const preview = await this.previewService.buildPreview(content, file, noticeManager);
+        if (this.previewService.hasChanges(preview)) {
+          previews.push(preview);
+        }
+      } catch (error: any) {
+        console.error(`Error previewing file ${file.path}:`, error);
+        errorCount++;
+      }
+    }
+    if (errorCount > 0) {
+      noticeManager.addWarning(`Failed to preview ${errorCount} files, they are not part of the preview.`);
+    }
+    if (previews.length === 0) {
+      noticeManager.addInfo('No changes needed');
+      return;
+    }
+
+    new PreviewModal(
+      this.app,
+      `Preview metadata update of ${previews.length} files in the folder "${directory}"`,
+      previews,
+      this.previewService.getPlannedPath.bind(this.previewService),
+      async (selections: PreviewSelection[]) => {
+        await this.applyPreviews(directory, selections, noticeManager);
+      }
+    ).open();
+  }
+
+  private async applyPreviews(
+    directory: string,
+    selections: PreviewSelection[],
+    noticeManager: LogManagerInterface
+  ): Promise<void> {
+    let updatedFiles = 0;
+    let errorFiles = 0;
+    const batch = this.batchJournalService.startBatch(directory);
+    for (const {preview, selectedKeys} of selections) {
+      const entry = this.batchJournalService.recordOriginal(batch, preview.file, preview.originalContent);
+      try {
+        const newContent = this.previewService.buildContent(preview, selectedKeys);
+        const metadata = selectedKeys === null ?
+          preview.updatedFrontmatter :
+          this.previewService.buildSelectedFrontmatter(preview, selectedKeys);
+        if (newContent !== preview.originalContent) {
+          await this.metaFlowEventService.update(preview.file, preview.originalFrontmatter, metadata, async () => {
+            await this.app.vault.modify(preview.file, newContent);
+          });
+          this.batchJournalService.recordResult(entry, preview.file.path, newContent);
+        }
+        // the collision strategy, the move rules and the old name alias make the final path and content differ from the preview
+        const file = await this.previewService.applyFileOperations(preview, metadata, noticeManager) || preview.file;
+        this.batchJournalService.recordResult(entry, file.path, await this.app.vault.read(file));
+        updatedFiles++;
+        await Utils.sleep(this.settings.frontmatterUpdateDelayMs || 10, () => { });
+      } catch (error: any) {
+        console.error(`Error applying preview of ${preview.file.path}:`, error);
+        errorFiles++;
+        const message = error instanceof MetaFlowException ? error.message : (error.message || error);
+        noticeManager.addError(`Error updating ${preview.file.path}: ${message}`);
+      }
+    }
+
+    if (errorFiles > 0) {
+      noticeManager.addWarning(`Completed with errors. Updated ${updatedFiles} files, failed to update ${errorFiles} files.`);
+    } else {
+      noticeManager.addInfo(`Successfully updated ${updatedFiles} files.`);
+    }
+    await this.saveJournal(batch, noticeManager);
+  }
+
+  private async saveJournal(batch: BatchJournal, noticeManager: LogManagerInterface): Promise<void> {
+    try {
+      await this.batchJournalService.saveBatch(batch);
+    } catch (error: any) {
+      console.error('Error saving the batch journal:', error);
+      noticeManager.addWarning('The batch journal could not be saved, this update cannot be reverted.');
+    }
+  }
+
+  private filterFiles(files: TFile[]): TFile[] {
+    // Filter out files in excluded folders
+    const excludeFolders = (this.settings.excludeFolders || []);
+    return files.filter(file => {
+      return !excludeFolders.some(folder => file.path.startsWith(this.obsidianAdapter.folderPrefix(folder)));
+    }).filter(file => file.extension === 'md');
+  }
 }
@@ -111,7 +111,7 @@ describe('MoveNoteToRightFolderCommand', () => {
     mockFileValidationService.checkIfValidFile.mockReturnValue(undefined);
     mockFileClassDeductionService.getFileClassFromMetadata.mockReturnValue(fileClass);
     mockFileOperationsService.renameNote.mockResolvedValue(renamedFile);
-    mockFileOperationsService.moveNote.mockResolvedValue(undefined);
+    mockFileOperationsService.moveNote.mockResolvedValue(null);
 
     await command.execute(mockEditor, mockView, mockLogManager);
 
@@ -136,7 +136,7 @@ describe('MoveNoteToRightFolderCommand', () => {
     });
     mockFileValidationService.checkIfValidFile.mockReturnValue(undefined);
     mockFileClassDeductionService.getFileClassFromMetadata.mockReturnValue(fileClass);
-    mockFileOperationsService.moveNote.mockResolvedValue(undefined);
+    mockFileOperationsService.moveNote.mockResolvedValue(null);
 
     await command.execute(mockEditor, mockView, mockLogManager);
 
@@ -154,7 +154,7 @@ describe('MoveNoteToRightFolderCommand', () => {
     mockFileValidationService.checkIfValidFile.mockReturnValue(undefined);
     mockFileClassDeductionService.getFileClassFromMetadata.mockReturnValue(fileClass);
     mockFileOperationsService.renameNote.mockResolvedValue(null);
-    mockFileOperationsService.moveNote.mockResolvedValue(undefined);
+    mockFileOperationsService.moveNote.mockResolvedValue(null);
 
     await command.execute(mockEditor, mockView, mockLogManager);
 
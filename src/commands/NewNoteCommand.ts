@@ -0,0 +1,78 @@
+import {injectable, inject} from 'inversify';
+import type {App} from 'obsidian';
+import type {LogManagerInterface} from '../managers/types';
+import {MetaFlowException} from '../MetaFlowException';
+import type {MetadataMenuAdapter} from '../externalApi/MetadataMenuAdapter';
+import type {TemplaterAdapter} from '../externalApi/TemplaterAdapter';
+import type {NewNoteService} from '../services/NewNoteService';
+import {FileClassSuggestModal} from '../ui/FileClassSuggestModal';
+import {NewNoteModal} from '../ui/NewNoteModal';
+import {SimpleCommand} from './types';
+import {TYPES} from '../di/types';
+
+/**
+ * Command to pick a fileClass, fill the form of its required and scripted fields, then create and open the note
+ */
+@injectable()
+export class NewNoteCommand implements SimpleCommand {
+  constructor(
+    @inject(TYPES.App) private app: App,
+    @inject(TYPES.MetadataMenuAdapter) private metadataMenuAdapter: MetadataMenuAdapter,
+    @inject(TYPES.TemplaterAdapter) private templaterAdapter: TemplaterAdapter,
+    @inject(TYPES.NewNoteService) private newNoteService: NewNoteService
+  ) { }
+
+  execute(logManager: LogManagerInterface): void {
+    let fileClasses: string[];
+    try {
+      fileClasses = this.metadataMenuAdapter.getAllFileClasses();
+    } catch (error) {
+      if (error instanceof MetaFlowException) {
+        logManager.addMessage(`Error: ${error.message}`, error.noticeLevel);
+        return;
+      }
+      throw error;
+    }
+    new FileClassSuggestModal(this.app, fileClasses, 'FileClass of the new note', (fileClass: string) => {
+      this.newNoteOfFileClass(fileClass, logManager);
+    }).open();
+  }
+
+  /**
+   * Open the form of the new note of the fileClass, used by the command of each folder/fileClass mapping
+   */
+  newNoteOfFileClass(fileClass: string, logManager: LogManagerInterface): void {
+    let fields;
+    try {
+      fields = this.newNoteService.getFormFields(fileClass, logManager);
+    } catch (error) {
+      if (error instanceof MetaFlowException) {
+        logManager.addMessage(`Error: ${error.message}`, error.noticeLevel);
+        return;
+      }
+      throw error;
+    }
+    const templates = this.templaterAdapter.isTemplaterAvailable() ?
+      this.templaterAdapter.getTemplateFiles().map(file => file.path) : [];
+    new NewNoteModal(
+      this.app,
+      `New note of fileClass "${fileClass}"`,
+      fields,
+      templates,
+      templates.length > 0 ? this.newNoteService.getDefaultTemplate(fileClass) : null,
+      async (values: {[key: string]: any}, templatePath: string | null) => {
+        try {
+          const file = await this.newNoteService.createNote(fileClass, values, templatePath, logManager);
+          await this.app.workspace.getLeaf(true).openFile(file);
+        } catch (error) {
+          console.error('Error creating the note:', error);
+          if (error instanceof MetaFlowException) {
+            logManager.addMessage(`Error: ${error.message}`, error.noticeLevel);
+          } else {
+            logManager.addError(`Error creating the note: ${error.message || error}`);
+          }
+        }
+      }
+    ).open();
+  }
+}
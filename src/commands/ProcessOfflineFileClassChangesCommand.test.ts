@@ -0,0 +1,109 @@
+// Mock ProgressModal
+jest.mock('../ui/ProgressModal', () => ({
+  ProgressModal: jest.fn().mockImplementation((app, total, title, description, onCancel, onExecute) => ({
+    open: jest.fn(() => onExecute()),
+    setCurrentItem: jest.fn(),
+    addInfo: jest.fn(),
+    addError: jest.fn(),
+    finish: jest.fn(),
+  }))
+}));
+
+// Mock OfflineFileClassChangesModal
+const mockOfflineChangesModalOpen = jest.fn();
+jest.mock('../ui/OfflineFileClassChangesModal', () => ({
+  OfflineFileClassChangesModal: jest.fn().mockImplementation((app, changes, processCallback, dismissCallback) => ({
+    open: () => mockOfflineChangesModalOpen(changes, processCallback, dismissCallback),
+  }))
+}));
+
+import {TFile} from 'obsidian';
+import {ProcessOfflineFileClassChangesCommand} from './ProcessOfflineFileClassChangesCommand';
+import type {LogManagerInterface} from '../managers/types';
+
+describe('ProcessOfflineFileClassChangesCommand', () => {
+  let command: ProcessOfflineFileClassChangesCommand;
+  let mockFileClassSnapshotService: any;
+  let mockMetaFlowService: any;
+  let mockLogManager: jest.Mocked<LogManagerInterface>;
+
+  const createFile = (path: string): TFile => {
+    const file = Object.create(TFile.prototype);
+    return Object.assign(file, {path, name: path.split('/').pop(), extension: 'md'});
+  };
+  const changes = [
+    {file: createFile('Books/dune.md'), oldFileClass: 'article', newFileClass: 'book'},
+    {file: createFile('Books/emma.md'), oldFileClass: '', newFileClass: 'book'},
+  ];
+  // the progress modal processes the notes without awaiting them
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFileClassSnapshotService = {
+      getPendingChanges: jest.fn().mockReturnValue(changes),
+      resolveChanges: jest.fn().mockResolvedValue(undefined),
+    };
+    mockMetaFlowService = {
+      handleFileClassChanged: jest.fn().mockResolvedValue(undefined),
+    };
+    mockLogManager = {
+      addError: jest.fn(),
+      addWarning: jest.fn(),
+      addInfo: jest.fn(),
+      addDebug: jest.fn(),
+      addMessage: jest.fn(),
+    } as any;
+    const mockApp: any = {
+      metadataCache: {getFileCache: jest.fn().mockReturnValue({frontmatter: {fileClass: 'book'}})},
+    };
+    command = new ProcessOfflineFileClassChangesCommand(mockApp, mockFileClassSnapshotService, mockMetaFlowService);
+  });
+
+  it('should tell when there is no offline change', () => {
+    mockFileClassSnapshotService.getPendingChanges.mockReturnValue([]);
+
+    command.execute(mockLogManager);
+
+    expect(mockOfflineChangesModalOpen).not.toHaveBeenCalled();
+    expect(mockLogManager.addInfo).toHaveBeenCalledWith('No fileClass change made while MetaFlow was not running');
+  });
+
+  it('should process the selected notes as fileClass changes', async () => {
+    command.execute(mockLogManager);
+    const [modalChanges, processCallback] = mockOfflineChangesModalOpen.mock.calls[0];
+    expect(modalChanges).toBe(changes);
+
+    await processCallback(changes);
+    await flushPromises();
+
+    expect(mockMetaFlowService.handleFileClassChanged).toHaveBeenCalledWith(
+      changes[0].file, {frontmatter: {fileClass: 'book'}}, 'article', 'book', expect.anything()
+    );
+    expect(mockFileClassSnapshotService.resolveChanges).toHaveBeenCalledTimes(2);
+    expect(mockLogManager.addInfo).toHaveBeenCalledWith('Successfully processed 2 notes.');
+  });
+
+  it('should keep the failed notes pending', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => { });
+    mockMetaFlowService.handleFileClassChanged.mockRejectedValueOnce(new Error('Update error'));
+    command.execute(mockLogManager);
+    const [, processCallback] = mockOfflineChangesModalOpen.mock.calls[0];
+
+    await processCallback(changes);
+    await flushPromises();
+
+    expect(mockFileClassSnapshotService.resolveChanges).toHaveBeenCalledWith([changes[1]]);
+    expect(mockLogManager.addWarning).toHaveBeenCalledWith('Completed with errors. Processed 1 notes, failed to process 1 notes.');
+  });
+
+  it('should dismiss the selected notes', async () => {
+    command.execute(mockLogManager);
+    const [, , dismissCallback] = mockOfflineChangesModalOpen.mock.calls[0];
+
+    await dismissCallback([changes[0]]);
+
+    expect(mockMetaFlowService.handleFileClassChanged).not.toHaveBeenCalled();
+    expect(mockFileClassSnapshotService.resolveChanges).toHaveBeenCalledWith([changes[0]]);
+  });
+});
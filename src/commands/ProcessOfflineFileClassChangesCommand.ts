@@ -0,0 +1,82 @@
+import {injectable, inject} from 'inversify';
+import type {App} from 'obsidian';
+import type {LogManagerInterface} from '../managers/types';
+import {ProgressModal} from '../ui/ProgressModal';
+import {OfflineFileClassChangesModal} from '../ui/OfflineFileClassChangesModal';
+import type {FileClassSnapshotService, OfflineFileClassChange} from '../services/FileClassSnapshotService';
+import type {MetaFlowService} from '../services/MetaFlowService';
+import {SimpleCommand} from './types';
+import {TYPES} from '../di/types';
+
+/**
+ * Command to review the fileClass changes found at startup, made while MetaFlow was not running,
+ * and process the selected notes in a batch
+ */
+@injectable()
+export class ProcessOfflineFileClassChangesCommand implements SimpleCommand {
+  constructor(
+    @inject(TYPES.App) private app: App,
+    @inject(TYPES.FileClassSnapshotService) private fileClassSnapshotService: FileClassSnapshotService,
+    @inject(TYPES.MetaFlowService) private metaFlowService: MetaFlowService
+  ) { }
+
+  execute(logManager: LogManagerInterface): void {
+    const changes = this.fileClassSnapshotService.getPendingChanges();
+    if (changes.length === 0) {
+      logManager.addInfo('No fileClass change made while MetaFlow was not running');
+      return;
+    }
+    new OfflineFileClassChangesModal(
+      this.app,
+      changes,
+      async (selectedChanges: OfflineFileClassChange[]) => {
+        await this.processChanges(selectedChanges, logManager);
+      },
+      async (selectedChanges: OfflineFileClassChange[]) => {
+        await this.fileClassSnapshotService.resolveChanges(selectedChanges);
+        logManager.addInfo(`Dismissed ${selectedChanges.length} fileClass changes`);
+      }
+    ).open();
+  }
+
+  private async processChanges(changes: OfflineFileClassChange[], logManager: LogManagerInterface): Promise<void> {
+    if (changes.length === 0) {
+      logManager.addInfo('No notes selected');
+      return;
+    }
+    let processedFiles = 0;
+    let errorFiles = 0;
+    const progressModal = new ProgressModal(
+      this.app,
+      changes.length,
+      `Processing ${changes.length} notes`,
+      `Processing the fileClass changes of ${changes.length} notes`,
+      async () => {
+        // Cancel callback - just close modal
+      },
+      async () => {
+        for (const change of changes) {
+          progressModal.setCurrentItem(change.file.path);
+          try {
+            await this.metaFlowService.handleFileClassChanged(
+              change.file, this.app.metadataCache.getFileCache(change.file), change.oldFileClass, change.newFileClass, progressModal
+            );
+            await this.fileClassSnapshotService.resolveChanges([change]);
+            processedFiles++;
+          } catch (error: any) {
+            console.error(`Error processing ${change.file.path}:`, error);
+            errorFiles++;
+            progressModal.addError(`Error processing ${change.file.path}: ${error.message || error}`);
+          }
+        }
+        progressModal.finish();
+        if (errorFiles > 0) {
+          logManager.addWarning(`Completed with errors. Processed ${processedFiles} notes, failed to process ${errorFiles} notes.`);
+        } else {
+          logManager.addInfo(`Successfully processed ${processedFiles} notes.`);
+        }
+      }
+    );
+    progressModal.open();
+  }
+}
@@ -0,0 +1,57 @@
+import {RevertLastBatchCommand} from './RevertLastBatchCommand';
+import {Container} from 'inversify';
+import {TYPES} from '../di/types';
+import type {LogManagerInterface} from '../managers/types';
+
+describe('RevertLastBatchCommand', () => {
+  let command: RevertLastBatchCommand;
+  let mockBatchJournalService: any;
+  let mockLogManager: jest.Mocked<LogManagerInterface>;
+  const batch = {id: '1000', date: '', directory: 'Inbox', entries: []};
+
+  beforeEach(() => {
+    mockBatchJournalService = {
+      getLastRevertibleBatch: jest.fn().mockResolvedValue(batch),
+      revertBatch: jest.fn().mockResolvedValue({reverted: 2, skipped: 0, failed: 0}),
+    };
+
+    mockLogManager = {
+      addError: jest.fn(),
+      addWarning: jest.fn(),
+      addInfo: jest.fn(),
+      addDebug: jest.fn(),
+      addMessage: jest.fn(),
+    } as any;
+
+    const container = new Container();
+    container.bind(TYPES.BatchJournalService).toConstantValue(mockBatchJournalService);
+    container.bind(TYPES.RevertLastBatchCommand).to(RevertLastBatchCommand);
+    command = container.get<RevertLastBatchCommand>(TYPES.RevertLastBatchCommand);
+  });
+
+  it('should revert every note of the last batch', async () => {
+    await command.execute(mockLogManager);
+
+    expect(mockBatchJournalService.revertBatch).toHaveBeenCalledWith(batch, null, mockLogManager);
+    expect(mockLogManager.addInfo).toHaveBeenCalledWith('Successfully reverted 2 files of the batch "Inbox"');
+  });
+
+  it('should warn when some notes could not be reverted', async () => {
+    mockBatchJournalService.revertBatch.mockResolvedValue({reverted: 1, skipped: 1, failed: 0});
+
+    await command.execute(mockLogManager);
+
+    expect(mockLogManager.addWarning).toHaveBeenCalledWith(
+      'Reverted 1 files of the batch "Inbox", skipped 1 modified files, failed to revert 0 files.'
+    );
+  });
+
+  it('should do nothing when there is no batch to revert', async () => {
+    mockBatchJournalService.getLastRevertibleBatch.mockResolvedValue(null);
+
+    await command.execute(mockLogManager);
+
+    expect(mockBatchJournalService.revertBatch).not.toHaveBeenCalled();
+    expect(mockLogManager.addInfo).toHaveBeenCalledWith('No MetaFlow batch to revert');
+  });
+});
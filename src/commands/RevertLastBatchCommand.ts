@@ -0,0 +1,33 @@
+import {injectable, inject} from 'inversify';
+import type {LogManagerInterface} from '../managers/types';
+import type {BatchJournalService} from '../services/BatchJournalService';
+import {SimpleCommand} from './types';
+import {TYPES} from '../di/types';
+
+/**
+ * Command to restore the notes of the last mass update that has not been reverted yet
+ */
+@injectable()
+export class RevertLastBatchCommand implements SimpleCommand {
+  constructor(
+    @inject(TYPES.BatchJournalService) private batchJournalService: BatchJournalService
+  ) { }
+
+  async execute(logManager: LogManagerInterface): Promise<void> {
+    const batch = await this.batchJournalService.getLastRevertibleBatch();
+    if (!batch) {
+      logManager.addInfo('No MetaFlow batch to revert');
+      return;
+    }
+
+    const result = await this.batchJournalService.revertBatch(batch, null, logManager);
+    if (result.skipped > 0 || result.failed > 0) {
+      logManager.addWarning(
+        `Reverted ${result.reverted} files of the batch "${batch.directory}", ` +
+        `skipped ${result.skipped} modified files, failed to revert ${result.failed} files.`
+      );
+    } else {
+      logManager.addInfo(`Successfully reverted ${result.reverted} files of the batch "${batch.directory}"`);
+    }
+  }
+}
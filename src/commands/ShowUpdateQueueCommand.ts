@@ -0,0 +1,22 @@
+import {injectable, inject} from 'inversify';
+import type {App} from 'obsidian';
+import type {LogManagerInterface} from '../managers/types';
+import type {UpdateQueueService} from '../services/UpdateQueueService';
+import {UpdateQueueModal} from '../ui/UpdateQueueModal';
+import {SimpleCommand} from './types';
+import {TYPES} from '../di/types';
+
+/**
+ * Command to show the pending and running automatic updates, for debugging
+ */
+@injectable()
+export class ShowUpdateQueueCommand implements SimpleCommand {
+  constructor(
+    @inject(TYPES.App) private app: App,
+    @inject(TYPES.UpdateQueueService) private updateQueueService: UpdateQueueService
+  ) { }
+
+  execute(logManager: LogManagerInterface): void {
+    new UpdateQueueModal(this.app, this.updateQueueService).open();
+  }
+}
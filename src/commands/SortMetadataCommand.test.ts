@@ -60,7 +60,7 @@ describe('SortMetadataCommand', () => {
 
     await command.execute(mockEditor, mockView, mockLogManager);
 
-    expect(mockProcessSortContent).toHaveBeenCalledWith(content, mockView.file);
+    expect(mockProcessSortContent).toHaveBeenCalledWith(content, mockView.file, mockLogManager);
   });
 
   it('should handle missing file', async () => {
@@ -25,7 +25,7 @@ export class SortMetadataCommand implements EditorCommand {
     }
 
     try {
-      await this.metaFlowService.processSortContent(content, file);
+      await this.metaFlowService.processSortContent(content, file, logManager);
     } catch (error) {
       console.error('Error sorting metadata properties:', error);
       if (error instanceof MetaFlowException) {
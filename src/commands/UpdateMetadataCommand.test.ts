@@ -1,6 +1,16 @@
+// Mock PreviewModal
+const mockPreviewModalOpen = jest.fn();
+jest.mock('../ui/PreviewModal', () => ({
+  PreviewModal: jest.fn().mockImplementation((app, title, previews, getPlannedPath, applyCallback) => ({
+    open: () => mockPreviewModalOpen(previews, applyCallback),
+  }))
+}));
+
 import {UpdateMetadataCommand} from './UpdateMetadataCommand';
 import {MetaFlowException} from '../MetaFlowException';
 import {LogManagerInterface} from '../managers/types';
+import {DEFAULT_SETTINGS} from '../settings/defaultSettings';
+import {MetaFlowSettings} from '../settings/types';
 
 // Mock console.error to avoid cluttering test output
 const originalConsoleError = console.error;
@@ -14,13 +24,33 @@ afterAll(() => {
 // Mock dependencies - simplified for testing
 const mockProcessContent = jest.fn();
 const mockMetaFlowService = {
-  processContent: mockProcessContent,
+  computeContentUpdate: jest.fn(async (...args: any[]) => ({
+    content: await mockProcessContent(...args), originalFrontmatter: {}, frontmatter: {title: 'Test'},
+  })),
+};
+const mockMetaFlowEventService = {
+  update: jest.fn((file, before, after, write) => write()),
+};
+
+const mockSettings: MetaFlowSettings = {...DEFAULT_SETTINGS};
+
+const mockPreview = {
+  file: {name: 'test.md', path: 'test.md'},
+  updatedFrontmatter: {title: 'Test'},
+};
+const mockPreviewService = {
+  buildPreview: jest.fn(),
+  hasChanges: jest.fn(),
+  getPlannedPath: jest.fn(),
+  buildContent: jest.fn(),
+  buildSelectedFrontmatter: jest.fn(),
+  applyFileOperations: jest.fn().mockResolvedValue(undefined),
 };
 
 // Create command directly with mock service for testing
 class TestUpdateMetadataCommand extends UpdateMetadataCommand {
   constructor() {
-    super(mockMetaFlowService as any);
+    super(mockMetaFlowService as any, {} as any, mockSettings, mockPreviewService as any, mockMetaFlowEventService as any);
   }
 }
 
@@ -52,14 +82,14 @@ describe('UpdateMetadataCommand', () => {
     command = new TestUpdateMetadataCommand();
   });
 
-  it('should update metadata when content is changed', () => {
+  it('should update metadata when content is changed', async () => {
     const originalContent = '# Test\n\nContent';
     const processedContent = '---\ntitle: Test\n---\n# Test\n\nContent';
 
     mockEditor.getValue.mockReturnValue(originalContent);
-    mockProcessContent.mockReturnValue(processedContent);
+    mockProcessContent.mockResolvedValue(processedContent);
 
-    command.execute(mockEditor, mockView, mockLogManager);
+    await command.execute(mockEditor, mockView, mockLogManager);
 
     expect(mockProcessContent).toHaveBeenCalledWith(
       originalContent,
@@ -67,16 +97,17 @@ describe('UpdateMetadataCommand', () => {
       mockLogManager
     );
     expect(mockEditor.setValue).toHaveBeenCalledWith(processedContent);
+    expect(mockMetaFlowEventService.update).toHaveBeenCalledWith(mockView.file, {}, {title: 'Test'}, expect.any(Function));
     expect(mockLogManager.addInfo).toHaveBeenCalledWith('Successfully updated metadata fields for "test.md"');
   });
 
-  it('should not update when content is unchanged', () => {
+  it('should not update when content is unchanged', async () => {
     const content = '---\ntitle: Test\n---\n# Test\n\nContent';
 
     mockEditor.getValue.mockReturnValue(content);
-    mockProcessContent.mockReturnValue(content);
+    mockProcessContent.mockResolvedValue(content);
 
-    command.execute(mockEditor, mockView, mockLogManager);
+    await command.execute(mockEditor, mockView, mockLogManager);
 
     expect(mockProcessContent).toHaveBeenCalledWith(
       content,
@@ -87,36 +118,93 @@ describe('UpdateMetadataCommand', () => {
     expect(mockLogManager.addInfo).toHaveBeenCalledWith('No changes needed');
   });
 
-  it('should handle missing file', () => {
+  it('should handle missing file', async () => {
     const viewWithoutFile = {file: null} as any;
 
-    command.execute(mockEditor, viewWithoutFile, mockLogManager);
+    await command.execute(mockEditor, viewWithoutFile, mockLogManager);
 
     expect(mockLogManager.addWarning).toHaveBeenCalledWith('No active file');
     expect(mockProcessContent).not.toHaveBeenCalled();
   });
 
-  it('should handle MetaFlowException', () => {
+  it('should handle MetaFlowException', async () => {
     const error = new MetaFlowException('Test error', 'warning');
     mockEditor.getValue.mockReturnValue('content');
-    mockProcessContent.mockImplementation(() => {
+    mockProcessContent.mockImplementation(async () => {
       throw error;
     });
 
-    command.execute(mockEditor, mockView, mockLogManager);
+    await command.execute(mockEditor, mockView, mockLogManager);
 
     expect(mockLogManager.addMessage).toHaveBeenCalledWith('Error: Test error', 'warning');
   });
 
-  it('should handle generic error', () => {
+  it('should handle generic error', async () => {
     const error = new Error('Generic error');
     mockEditor.getValue.mockReturnValue('content');
-    mockProcessContent.mockImplementation(() => {
+    mockProcessContent.mockImplementation(async () => {
       throw error;
     });
 
-    command.execute(mockEditor, mockView, mockLogManager);
+    await command.execute(mockEditor, mockView, mockLogManager);
 
     expect(mockLogManager.addError).toHaveBeenCalledWith('Error updating metadata properties');
   });
+
+  describe('preview', () => {
+    beforeEach(() => {
+      mockEditor.getValue.mockReturnValue('content');
+      mockPreviewService.buildPreview.mockResolvedValue(mockPreview);
+    });
+
+    afterEach(() => {
+      mockSettings.previewBeforeUpdate = false;
+    });
+
+    it('should open the preview instead of writing when forced', async () => {
+      mockPreviewService.hasChanges.mockReturnValue(true);
+
+      await command.execute(mockEditor, mockView, mockLogManager, true);
+
+      expect(mockPreviewService.buildPreview).toHaveBeenCalledWith('content', mockView.file, mockLogManager);
+      expect(mockPreviewModalOpen).toHaveBeenCalledWith([mockPreview], expect.any(Function));
+      expect(mockProcessContent).not.toHaveBeenCalled();
+      expect(mockEditor.setValue).not.toHaveBeenCalled();
+    });
+
+    it('should open the preview when previewBeforeUpdate setting is enabled', async () => {
+      mockSettings.previewBeforeUpdate = true;
+      mockPreviewService.hasChanges.mockReturnValue(true);
+
+      await command.execute(mockEditor, mockView, mockLogManager);
+
+      expect(mockPreviewModalOpen).toHaveBeenCalled();
+      expect(mockProcessContent).not.toHaveBeenCalled();
+    });
+
+    it('should not open the preview when there is no change', async () => {
+      mockPreviewService.hasChanges.mockReturnValue(false);
+
+      await command.execute(mockEditor, mockView, mockLogManager, true);
+
+      expect(mockPreviewModalOpen).not.toHaveBeenCalled();
+      expect(mockLogManager.addInfo).toHaveBeenCalledWith('No changes needed');
+    });
+
+    it('should write the selected content and apply file operations on apply', async () => {
+      mockPreviewService.hasChanges.mockReturnValue(true);
+      mockPreviewService.buildContent.mockReturnValue('new content');
+      mockPreviewService.buildSelectedFrontmatter.mockReturnValue({title: 'Selected'});
+
+      await command.execute(mockEditor, mockView, mockLogManager, true);
+      const applyCallback = mockPreviewModalOpen.mock.calls[0][1];
+      const selectedKeys = new Set(['title']);
+      await applyCallback([{preview: mockPreview, selectedKeys}]);
+
+      expect(mockPreviewService.buildContent).toHaveBeenCalledWith(mockPreview, selectedKeys);
+      expect(mockEditor.setValue).toHaveBeenCalledWith('new content');
+      expect(mockPreviewService.applyFileOperations).toHaveBeenCalledWith(mockPreview, {title: 'Selected'}, mockLogManager);
+      expect(mockLogManager.addInfo).toHaveBeenCalledWith('Successfully updated metadata fields for "test.md"');
+    });
+  });
 });
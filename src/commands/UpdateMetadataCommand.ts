@@ -1,8 +1,12 @@
 import {injectable, inject} from 'inversify';
-import type {Editor, MarkdownView} from 'obsidian';
+import type {App, Editor, MarkdownView} from 'obsidian';
 import type {LogManagerInterface} from '../managers/types';
 import {MetaFlowException} from '../MetaFlowException';
 import type {MetaFlowService} from '../services/MetaFlowService';
+import type {PreviewService} from '../services/PreviewService';
+import type {MetaFlowEventService} from '../services/MetaFlowEventService';
+import type {MetaFlowSettings} from '../settings/types';
+import {PreviewModal, PreviewSelection} from '../ui/PreviewModal';
 import {EditorCommand} from './types';
 import {TYPES} from '../di/types';
 
@@ -12,10 +16,14 @@ import {TYPES} from '../di/types';
 @injectable()
 export class UpdateMetadataCommand implements EditorCommand {
   constructor(
-    @inject(TYPES.MetaFlowService) private metaFlowService: MetaFlowService
+    @inject(TYPES.MetaFlowService) private metaFlowService: MetaFlowService,
+    @inject(TYPES.App) private app: App,
+    @inject(TYPES.MetaFlowSettings) private settings: MetaFlowSettings,
+    @inject(TYPES.PreviewService) private previewService: PreviewService,
+    @inject(TYPES.MetaFlowEventService) private metaFlowEventService: MetaFlowEventService
   ) { }
 
-  execute(editor: Editor, view: MarkdownView, logManager: LogManagerInterface): void {
+  async execute(editor: Editor, view: MarkdownView, logManager: LogManagerInterface, forcePreview: boolean = false): Promise<void> {
     const content = editor.getValue();
     const file = view.file;
 
@@ -25,10 +33,18 @@ export class UpdateMetadataCommand implements EditorCommand {
     }
 
     try {
-      const processedContent = this.metaFlowService.processContent(content, file, logManager);
+      if (forcePreview || this.settings.previewBeforeUpdate) {
+        await this.openPreview(editor, view, content, logManager);
+        return;
+      }
+
+      const result = await this.metaFlowService.computeContentUpdate(content, file, logManager);
+      const processedContent = result.content;
 
       if (processedContent !== content) {
-        editor.setValue(processedContent);
+        await this.metaFlowEventService.update(file, result.originalFrontmatter, result.frontmatter, async () => {
+          editor.setValue(processedContent);
+        });
         logManager.addInfo(`Successfully updated metadata fields for "${file.name}"`);
       } else {
         logManager.addInfo('No changes needed');
@@ -42,4 +58,43 @@ export class UpdateMetadataCommand implements EditorCommand {
       }
     }
   }
+
+  private async openPreview(editor: Editor, view: MarkdownView, content: string, logManager: LogManagerInterface): Promise<void> {
+    const preview = await this.previewService.buildPreview(content, view.file!, logManager);
+    if (!this.previewService.hasChanges(preview)) {
+      logManager.addInfo('No changes needed');
+      return;
+    }
+
+    new PreviewModal(
+      this.app,
+      `Preview metadata update of "${preview.file.name}"`,
+      [preview],
+      this.previewService.getPlannedPath.bind(this.previewService),
+      async (selections: PreviewSelection[]) => {
+        for (const {selectedKeys} of selections) {
+          try {
+            const newContent = this.previewService.buildContent(preview, selectedKeys);
+            const metadata = selectedKeys === null ?
+              preview.updatedFrontmatter :
+              this.previewService.buildSelectedFrontmatter(preview, selectedKeys);
+            if (newContent !== content) {
+              await this.metaFlowEventService.update(preview.file, preview.originalFrontmatter, metadata, async () => {
+                editor.setValue(newContent);
+              });
+            }
+            await this.previewService.applyFileOperations(preview, metadata, logManager);
+            logManager.addInfo(`Successfully updated metadata fields for "${preview.file.name}"`);
+          } catch (error) {
+            console.error('Error applying metadata preview:', error);
+            if (error instanceof MetaFlowException) {
+              logManager.addMessage(`Error: ${error.message}`, error.noticeLevel);
+            } else {
+              logManager.addError('Error updating metadata properties');
+            }
+          }
+        }
+      }
+    ).open();
+  }
 }
@@ -4,4 +4,11 @@ export {MoveNoteToRightFolderCommand} from './MoveNoteToRightFolderCommand';
 export {RenameFileBasedOnRulesCommand} from './RenameFileBasedOnRulesCommand';
 export {TogglePropertiesPanelCommand} from './TogglePropertiesPanelCommand';
 export {MassUpdateMetadataCommand} from './MassUpdateMetadataCommand';
+export {RevertLastBatchCommand} from './RevertLastBatchCommand';
+export {BatchHistoryCommand} from './BatchHistoryCommand';
+export {GenerateComplianceReportCommand} from './GenerateComplianceReportCommand';
+export {BulkRenameCommand} from './BulkRenameCommand';
+export {ShowUpdateQueueCommand} from './ShowUpdateQueueCommand';
+export {ProcessOfflineFileClassChangesCommand} from './ProcessOfflineFileClassChangesCommand';
+export {NewNoteCommand} from './NewNoteCommand';
 export * from './types';
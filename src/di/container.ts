@@ -17,6 +17,16 @@ import {FileClassDeductionService} from '../services/FileClassDeductionService';
 import {PropertyManagementService} from '../services/PropertyManagementService';
 import {FileOperationsService} from '../services/FileOperationsService';
 import {NoteTitleService} from '../services/NoteTitleService';
+import {PreviewService} from '../services/PreviewService';
+import {BatchJournalService} from '../services/BatchJournalService';
+import {FieldValidationService} from '../services/FieldValidationService';
+import {ComplianceReportService} from '../services/ComplianceReportService';
+import {UpdateQueueService} from '../services/UpdateQueueService';
+import {FileClassSnapshotService} from '../services/FileClassSnapshotService';
+import {PropertyTriggerService} from '../services/PropertyTriggerService';
+import {MetaFlowEventService} from '../services/MetaFlowEventService';
+import {MetaFlowApi} from '../api/MetaFlowApi';
+import {NewNoteService} from '../services/NewNoteService';
 
 // Legacy services
 import {MetaFlowService} from '../services/MetaFlowService';
@@ -28,17 +38,27 @@ import {MoveNoteToRightFolderCommand} from '../commands/MoveNoteToRightFolderCom
 import {RenameFileBasedOnRulesCommand} from '../commands/RenameFileBasedOnRulesCommand';
 import {TogglePropertiesPanelCommand} from '../commands/TogglePropertiesPanelCommand';
 import {MassUpdateMetadataCommand} from '../commands/MassUpdateMetadataCommand';
+import {RevertLastBatchCommand} from '../commands/RevertLastBatchCommand';
+import {BatchHistoryCommand} from '../commands/BatchHistoryCommand';
+import {GenerateComplianceReportCommand} from '../commands/GenerateComplianceReportCommand';
+import {BulkRenameCommand} from '../commands/BulkRenameCommand';
+import {ShowUpdateQueueCommand} from '../commands/ShowUpdateQueueCommand';
+import {ProcessOfflineFileClassChangesCommand} from '../commands/ProcessOfflineFileClassChangesCommand';
+import {NewNoteCommand} from '../commands/NewNoteCommand';
 
 /**
  * Creates and configures the dependency injection container
  */
-export function createContainer(app: App, settings: MetaFlowSettings, saveSettings: () => Promise<void>): Container {
+export function createContainer(
+  app: App, settings: MetaFlowSettings, saveSettings: () => Promise<void>, pluginDataFolder: string
+): Container {
   const container = new Container();
 
   // Bind Obsidian instances
   container.bind<App>(TYPES.App).toConstantValue(app);
   container.bind<MetaFlowSettings>(TYPES.MetaFlowSettings).toConstantValue(settings);
   container.bind<() => Promise<void>>(TYPES.SaveSettings).toConstantValue(saveSettings);
+  container.bind<string>(TYPES.PluginDataFolder).toConstantValue(pluginDataFolder);
 
   // Bind core services
   container.bind<FrontMatterService>(TYPES.FrontMatterService).to(FrontMatterService).inSingletonScope();
@@ -47,6 +67,7 @@ export function createContainer(app: App, settings: MetaFlowSettings, saveSettin
   container.bind<TemplaterAdapter>(TYPES.TemplaterAdapter).to(TemplaterAdapter).inSingletonScope();
   container.bind<ScriptContextService>(TYPES.ScriptContextService).to(ScriptContextService).inSingletonScope();
   container.bind<UIService>(TYPES.UIService).to(UIService).inSingletonScope();
+  container.bind<MetaFlowEventService>(TYPES.MetaFlowEventService).to(MetaFlowEventService).inSingletonScope();
 
   // Bind domain services
   container.bind<FileValidationService>(TYPES.FileValidationService).to(FileValidationService).inSingletonScope();
@@ -54,9 +75,18 @@ export function createContainer(app: App, settings: MetaFlowSettings, saveSettin
   container.bind<PropertyManagementService>(TYPES.PropertyManagementService).to(PropertyManagementService).inSingletonScope();
   container.bind<NoteTitleService>(TYPES.NoteTitleService).to(NoteTitleService).inSingletonScope();
   container.bind<FileOperationsService>(TYPES.FileOperationsService).to(FileOperationsService).inSingletonScope();
+  container.bind<FieldValidationService>(TYPES.FieldValidationService).to(FieldValidationService).inSingletonScope();
 
   // Bind MetaFlowService
   container.bind<MetaFlowService>(TYPES.MetaFlowService).to(MetaFlowService).inSingletonScope();
+  container.bind<PreviewService>(TYPES.PreviewService).to(PreviewService).inSingletonScope();
+  container.bind<BatchJournalService>(TYPES.BatchJournalService).to(BatchJournalService).inSingletonScope();
+  container.bind<ComplianceReportService>(TYPES.ComplianceReportService).to(ComplianceReportService).inSingletonScope();
+  container.bind<UpdateQueueService>(TYPES.UpdateQueueService).to(UpdateQueueService).inSingletonScope();
+  container.bind<FileClassSnapshotService>(TYPES.FileClassSnapshotService).to(FileClassSnapshotService).inSingletonScope();
+  container.bind<PropertyTriggerService>(TYPES.PropertyTriggerService).to(PropertyTriggerService).inSingletonScope();
+  container.bind<MetaFlowApi>(TYPES.MetaFlowApi).to(MetaFlowApi).inSingletonScope();
+  container.bind<NewNoteService>(TYPES.NewNoteService).to(NewNoteService).inSingletonScope();
 
   // Bind commands
   container.bind<UpdateMetadataCommand>(TYPES.UpdateMetadataCommand).to(UpdateMetadataCommand);
@@ -65,6 +95,13 @@ export function createContainer(app: App, settings: MetaFlowSettings, saveSettin
   container.bind(TYPES.RenameFileBasedOnRulesCommand).to(RenameFileBasedOnRulesCommand);
   container.bind(TYPES.TogglePropertiesPanelCommand).to(TogglePropertiesPanelCommand);
   container.bind(TYPES.MassUpdateMetadataCommand).to(MassUpdateMetadataCommand);
+  container.bind(TYPES.RevertLastBatchCommand).to(RevertLastBatchCommand);
+  container.bind(TYPES.BatchHistoryCommand).to(BatchHistoryCommand);
+  container.bind(TYPES.GenerateComplianceReportCommand).to(GenerateComplianceReportCommand);
+  container.bind(TYPES.BulkRenameCommand).to(BulkRenameCommand);
+  container.bind(TYPES.ShowUpdateQueueCommand).to(ShowUpdateQueueCommand);
+  container.bind(TYPES.ProcessOfflineFileClassChangesCommand).to(ProcessOfflineFileClassChangesCommand);
+  container.bind(TYPES.NewNoteCommand).to(NewNoteCommand);
 
   return container;
 }
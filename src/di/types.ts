@@ -6,6 +6,7 @@ export const TYPES = {
   App: Symbol.for('App'),
   MetaFlowSettings: Symbol.for('MetaFlowSettings'),
   SaveSettings: Symbol.for('SaveSettings'),
+  PluginDataFolder: Symbol.for('PluginDataFolder'),
 
   // Core services
   ScriptContextService: Symbol.for('ScriptContextService'),
@@ -21,6 +22,16 @@ export const TYPES = {
   FileOperationsService: Symbol.for('FileOperationsService'),
   NoteTitleService: Symbol.for('NoteTitleService'),
   UIService: Symbol.for('UIService'),
+  PreviewService: Symbol.for('PreviewService'),
+  BatchJournalService: Symbol.for('BatchJournalService'),
+  FieldValidationService: Symbol.for('FieldValidationService'),
+  ComplianceReportService: Symbol.for('ComplianceReportService'),
+  UpdateQueueService: Symbol.for('UpdateQueueService'),
+  FileClassSnapshotService: Symbol.for('FileClassSnapshotService'),
+  PropertyTriggerService: Symbol.for('PropertyTriggerService'),
+  MetaFlowEventService: Symbol.for('MetaFlowEventService'),
+  MetaFlowApi: Symbol.for('MetaFlowApi'),
+  NewNoteService: Symbol.for('NewNoteService'),
 
   // Legacy services (for backward compatibility)
   MetaFlowService: Symbol.for('MetaFlowService'),
@@ -36,4 +47,11 @@ export const TYPES = {
   RenameFileBasedOnRulesCommand: Symbol.for('RenameFileBasedOnRulesCommand'),
   TogglePropertiesPanelCommand: Symbol.for('TogglePropertiesPanelCommand'),
   MassUpdateMetadataCommand: Symbol.for('MassUpdateMetadataCommand'),
+  RevertLastBatchCommand: Symbol.for('RevertLastBatchCommand'),
+  BatchHistoryCommand: Symbol.for('BatchHistoryCommand'),
+  GenerateComplianceReportCommand: Symbol.for('GenerateComplianceReportCommand'),
+  BulkRenameCommand: Symbol.for('BulkRenameCommand'),
+  ShowUpdateQueueCommand: Symbol.for('ShowUpdateQueueCommand'),
+  ProcessOfflineFileClassChangesCommand: Symbol.for('ProcessOfflineFileClassChangesCommand'),
+  NewNoteCommand: Symbol.for('NewNoteCommand'),
 };
@@ -134,6 +134,22 @@ describe('MetadataMenuAdapter', () => {
     });
   });
 
+  describe('getAllFileClasses', () => {
+    test('returns the sorted fileClass names', () => {
+      mockApp.plugins.plugins['metadata-menu'] = {
+        api: {},
+        settings: {},
+        fieldIndex: {
+          fileClassesFields: new Map([['movie', []], ['book', []]])
+        }
+      };
+      adapter = new MetadataMenuAdapter(mockApp, settings);
+
+      expect(adapter.getAllFileClasses()).toEqual(['book', 'movie']);
+      expectNoLogs();
+    });
+  });
+
   describe('getFileClassFromMetadata', () => {
     test('returns null for null metadata', () => {
       mockApp.plugins.plugins['metadata-menu'] = {
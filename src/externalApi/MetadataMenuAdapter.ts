@@ -176,11 +176,24 @@ export class MetadataMenuAdapter {
     return allFields;
   }
 
+  /**
+   * Names of all the fileClasses defined in MetadataMenu, sorted alphabetically
+   */
+  getAllFileClasses(): string[] {
+    const metadataMenuPlugin = this.getMetadataMenuPlugin();
+    if (!metadataMenuPlugin.fieldIndex?.fileClassesFields ||
+      typeof metadataMenuPlugin.fieldIndex.fileClassesFields === 'undefined'
+    ) {
+      throw new MetaFlowException('No fileClass definitions found in MetadataMenu', 'warning');
+    }
+    return Array.from(metadataMenuPlugin.fieldIndex.fileClassesFields.keys()).map(String).sort();
+  }
+
   /**
    * Get the ancestor chain for a fileClass in the correct order for field insertion
    * Returns ancestors from most basic to most specific (e.g., ["default-basic", "default"])
    */
-  private getFileClassAncestorChain(fileClassName: string, logManager: LogManagerInterface): string[] {
+  public getFileClassAncestorChain(fileClassName: string, logManager: LogManagerInterface): string[] {
     try {
       const metadataMenuPlugin = this.getMetadataMenuPlugin();
       // Access MetadataMenu's fieldIndex.fileClassesAncestors
@@ -137,4 +137,42 @@ describe('ObsidianAdapter', () => {
     });
   });
 
+  describe('data files', () => {
+    beforeEach(() => {
+      mockApp.vault.adapter = {
+        exists: jest.fn().mockResolvedValue(true),
+        read: jest.fn().mockResolvedValue('{"id":"1"}'),
+        write: jest.fn().mockResolvedValue(undefined),
+        mkdir: jest.fn().mockResolvedValue(undefined),
+        remove: jest.fn().mockResolvedValue(undefined),
+        list: jest.fn().mockResolvedValue({files: ['plugin/journal/1.json'], folders: []}),
+      };
+    });
+
+    test('readDataFile should return null when the file does not exist', async () => {
+      mockApp.vault.adapter.exists.mockResolvedValue(false);
+      expect(await adapter.readDataFile('plugin/journal/1.json')).toBeNull();
+      expect(mockApp.vault.adapter.read).not.toHaveBeenCalled();
+    });
+
+    test('readDataFile should return the file content', async () => {
+      expect(await adapter.readDataFile('plugin/journal/1.json')).toBe('{"id":"1"}');
+    });
+
+    test('writeDataFile should create the missing parent folder', async () => {
+      mockApp.vault.adapter.exists.mockResolvedValue(false);
+      await adapter.writeDataFile('plugin/journal/1.json', 'content');
+      expect(mockApp.vault.adapter.mkdir).toHaveBeenCalledWith('plugin/journal');
+      expect(mockApp.vault.adapter.write).toHaveBeenCalledWith('plugin/journal/1.json', 'content');
+    });
+
+    test('listDataFiles should return an empty list when the folder does not exist', async () => {
+      mockApp.vault.adapter.exists.mockResolvedValue(false);
+      expect(await adapter.listDataFiles('plugin/journal')).toEqual([]);
+    });
+
+    test('listDataFiles should list the folder files', async () => {
+      expect(await adapter.listDataFiles('plugin/journal')).toEqual(['plugin/journal/1.json']);
+    });
+  });
 });
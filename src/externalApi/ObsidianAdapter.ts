@@ -74,6 +74,38 @@ export class ObsidianAdapter {
     return folderPath + '/';
   }
 
+  /**
+   * Read a file of the plugin data folder (outside of the vault index)
+   * @returns the file content or null if the file does not exist
+   */
+  async readDataFile(filePath: string): Promise<string | null> {
+    if (!(await this.app.vault.adapter.exists(filePath))) {
+      return null;
+    }
+    return await this.app.vault.adapter.read(filePath);
+  }
+
+  async writeDataFile(filePath: string, content: string): Promise<void> {
+    const folderPath = filePath.substring(0, filePath.lastIndexOf('/'));
+    if (folderPath && !(await this.app.vault.adapter.exists(folderPath))) {
+      await this.app.vault.adapter.mkdir(folderPath);
+    }
+    await this.app.vault.adapter.write(filePath, content);
+  }
+
+  async removeDataFile(filePath: string): Promise<void> {
+    if (await this.app.vault.adapter.exists(filePath)) {
+      await this.app.vault.adapter.remove(filePath);
+    }
+  }
+
+  async listDataFiles(folderPath: string): Promise<string[]> {
+    if (!(await this.app.vault.adapter.exists(folderPath))) {
+      return [];
+    }
+    return (await this.app.vault.adapter.list(folderPath)).files;
+  }
+
   notice(message: string): Notice {
     return new Notice(message);
   }
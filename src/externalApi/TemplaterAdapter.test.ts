@@ -68,6 +68,42 @@ describe('TemplaterAdapter', () => {
     });
   });
 
+  describe('templates', () => {
+    beforeEach(() => {
+      mockApp.plugins.plugins['templater-obsidian'] = {
+        settings: {
+          templates_folder: 'Templates/',
+          folder_templates: [
+            {folder: '/', template: 'Templates/default.md'},
+            {folder: 'Books', template: 'Templates/book.md'},
+            {folder: 'Books/Comics', template: ''},
+          ],
+          file_templates: [],
+        },
+        templater: {},
+      };
+      mockApp.vault.getMarkdownFiles = jest.fn(() => ['Templates/book.md', 'Books/dune.md', 'Templates/default.md']
+        .map(path => ObsidianAdapter.createMockTFile(path)));
+    });
+
+    test('should list the files of the templates folder', () => {
+      expect(templaterAdapter.getTemplateFiles().map(file => file.path)).toEqual(['Templates/book.md', 'Templates/default.md']);
+    });
+
+    test('should find the folder template of the nearest folder', () => {
+      expect(templaterAdapter.getFolderTemplate('Books/Comics')).toBe('Templates/book.md');
+      expect(templaterAdapter.getFolderTemplate('Inbox')).toBe('Templates/default.md');
+    });
+
+    test('should not create a note when Templater is missing', async () => {
+      delete mockApp.plugins.plugins['templater-obsidian'];
+
+      expect(templaterAdapter.getTemplateFiles()).toEqual([]);
+      await expect(templaterAdapter.createNoteFromTemplate('Templates/book.md', 'Books', 'Untitled'))
+        .rejects.toThrow('Templater is not available to create the note from a template');
+    });
+  });
+
   describe('checkTemplaterConsistency', () => {
     test('should return warning when Templater enabled but plugin missing', async () => {
       const adapter = new TemplaterAdapter(mockApp, {...DEFAULT_SETTINGS}, new ObsidianAdapter(mockApp, {...DEFAULT_SETTINGS}));
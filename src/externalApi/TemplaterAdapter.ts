@@ -3,6 +3,7 @@ import type {App} from 'obsidian';
 import {TFile} from 'obsidian';
 import type {MetaFlowSettings} from 'src/settings/types';
 import type {ObsidianAdapter} from './ObsidianAdapter';
+import {MetaFlowException} from '../MetaFlowException';
 import {TYPES} from '../di/types';
 
 export interface FolderTemplate {
@@ -16,6 +17,7 @@ export interface FileTemplate {
 }
 
 export interface TemplaterSettingsInterface {
+  templates_folder?: string;
   folder_templates: FolderTemplate[];
   file_templates: FileTemplate[];
 }
@@ -69,6 +71,51 @@ export class TemplaterAdapter {
     return templater.settings.folder_templates || [];
   }
 
+  /**
+   * Markdown files of the Templater templates folder, sorted by path
+   */
+  getTemplateFiles(): TFile[] {
+    const templatesFolder = this.isTemplaterAvailable() ? this.getTemplaterSettings().templates_folder?.replace(/^\/+|\/+$/g, '') : '';
+    if (!templatesFolder) {
+      return [];
+    }
+    return this.app.vault.getMarkdownFiles()
+      .filter(file => file.path.startsWith(`${templatesFolder}/`))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Path of the Templater folder template of the folder, the template of the nearest parent folder applies to its subfolders
+   */
+  getFolderTemplate(folder: string): string | null {
+    const folderPath = folder.replace(/^\/+|\/+$/g, '');
+    const matches = this.getFolderTemplatesMapping()
+      .map(folderTemplate => ({...folderTemplate, folder: folderTemplate.folder.replace(/^\/+|\/+$/g, '')}))
+      .filter(folderTemplate => folderTemplate.template &&
+        (folderTemplate.folder === '' || folderPath === folderTemplate.folder || folderPath.startsWith(`${folderTemplate.folder}/`)))
+      .sort((a, b) => b.folder.length - a.folder.length);
+    return matches[0]?.template || null;
+  }
+
+  /**
+   * Create a note from a template with Templater, which runs the template commands
+   */
+  async createNoteFromTemplate(templatePath: string, folder: string, fileName: string): Promise<TFile> {
+    const templater = this.isTemplaterAvailable() ? this.getTemplater() : null;
+    if (!templater?.templater?.create_new_note_from_template) {
+      throw new MetaFlowException('Templater is not available to create the note from a template', 'warning');
+    }
+    const template = this.obsidianAdapter.getAbstractFileByPath(templatePath);
+    if (!(template instanceof TFile)) {
+      throw new MetaFlowException(`Template "${templatePath}" not found`, 'warning');
+    }
+    const file = await templater.templater.create_new_note_from_template(template, folder, fileName, false);
+    if (!(file instanceof TFile)) {
+      throw new MetaFlowException(`Templater could not create the note from the template "${templatePath}"`, 'error');
+    }
+    return file;
+  }
+
   isTemplaterAvailable(): boolean {
     const templater = this.getTemplater();
     return (this.app.plugins?.enabledPlugins?.has(this.TEMPLATER_PLUGIN_NAME) || false)
@@ -12,7 +12,12 @@ import {LogNoticeManager} from './managers/LogNoticeManager';
 import {ObsidianAdapter} from './externalApi/ObsidianAdapter';
 import {UIService} from './services/UIService';
 import {FileOperationsService} from './services/FileOperationsService';
+import {UpdateQueueService} from './services/UpdateQueueService';
+import {FileClassSnapshotService} from './services/FileClassSnapshotService';
 import type {FileClassDeductionService} from './services/FileClassDeductionService';
+import type {PropertyTriggerService} from './services/PropertyTriggerService';
+import type {LogManagerInterface} from './managers/types';
+import type {MetaFlowApi} from './api/MetaFlowApi';
 import {createContainer, TYPES} from './di';
 
 // Import command types for direct DI access
@@ -22,6 +27,13 @@ import type {MassUpdateMetadataCommand} from './commands/MassUpdateMetadataComma
 import type {MoveNoteToRightFolderCommand} from './commands/MoveNoteToRightFolderCommand';
 import type {RenameFileBasedOnRulesCommand} from './commands/RenameFileBasedOnRulesCommand';
 import type {TogglePropertiesPanelCommand} from './commands/TogglePropertiesPanelCommand';
+import type {RevertLastBatchCommand} from './commands/RevertLastBatchCommand';
+import type {BatchHistoryCommand} from './commands/BatchHistoryCommand';
+import type {GenerateComplianceReportCommand} from './commands/GenerateComplianceReportCommand';
+import type {BulkRenameCommand} from './commands/BulkRenameCommand';
+import type {ShowUpdateQueueCommand} from './commands/ShowUpdateQueueCommand';
+import type {ProcessOfflineFileClassChangesCommand} from './commands/ProcessOfflineFileClassChangesCommand';
+import type {NewNoteCommand} from './commands/NewNoteCommand';
 
 /**
  * MetaFlow Plugin - Automated metadata workflow management for Obsidian
@@ -41,31 +53,79 @@ export default class MetaFlowPlugin extends Plugin {
   obsidianAdapter: ObsidianAdapter;
   logManager: LogNoticeManager;
   uiService: UIService;
+  updateQueueService: UpdateQueueService;
+  fileClassSnapshotService: FileClassSnapshotService;
+  // public API for the other plugins and user scripts: app.plugins.plugins['metaflow'].api
+  api: MetaFlowApi;
   timer: {[key: string]: number} = {};
+  // ids of the "New <fileClass>" commands of the mappings
+  private newNoteCommandIds: string[] = [];
+  // the offline fileClass changes are looked for once per load
+  private fileClassSnapshotReconciled = false;
 
   async onload() {
     this.settings = await this.loadSettings();
 
     // Create dependency injection container
-    this.container = createContainer(this.app, this.settings, this.saveSettings.bind(this));
+    const pluginDataFolder = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    this.container = createContainer(this.app, this.settings, this.saveSettings.bind(this), pluginDataFolder);
 
     // Get services from container
     this.metaFlowService = this.container.get<MetaFlowService>(TYPES.MetaFlowService);
     this.frontMatterService = this.container.get<FrontMatterService>(TYPES.FrontMatterService);
     this.obsidianAdapter = this.container.get<ObsidianAdapter>(TYPES.ObsidianAdapter);
     this.uiService = this.container.get<UIService>(TYPES.UIService);
+    this.updateQueueService = this.container.get<UpdateQueueService>(TYPES.UpdateQueueService);
+    this.fileClassSnapshotService = this.container.get<FileClassSnapshotService>(TYPES.FileClassSnapshotService);
 
     this.logManager = new LogNoticeManager(this.obsidianAdapter);
+    this.container.bind<LogManagerInterface>(TYPES.LogManagerInterface).toConstantValue(this.logManager);
+    this.api = this.container.get<MetaFlowApi>(TYPES.MetaFlowApi);
 
     // Get FileClassDeductionService from container
     const fileClassDeductionService = this.container.get<FileClassDeductionService>(TYPES.FileClassDeductionService);
+    const propertyTriggerService = this.container.get<PropertyTriggerService>(TYPES.PropertyTriggerService);
+    const fileOperationsService = this.container.get<FileOperationsService>(TYPES.FileOperationsService);
 
     this.fileClassStateManager = new FileClassStateManager(
-      this.app, this.settings, this.logManager, fileClassDeductionService,
+      this.app, this.settings, this.logManager, fileClassDeductionService, fileOperationsService,
       async (file: TFile, cache: CachedMetadata | null, oldFileClass: string, newFileClass: string) => {
         if (this.settings.autoMetadataInsertion) {
-          await this.metaFlowService.handleFileClassChanged(file, cache, oldFileClass, newFileClass, this.logManager);
+          // the triggers received before the job runs are merged, from the first old fileClass to the last new one
+          await this.updateQueueService.enqueue(file, 'fileClass change', {cache, oldFileClass, newFileClass},
+            async (data, job) => {
+              await this.metaFlowService.handleFileClassChanged(file, data.cache, data.oldFileClass, data.newFileClass, this.logManager, job);
+            },
+            (pending, data) => ({...data, oldFileClass: pending.oldFileClass})
+          );
         }
+      },
+      async (file: TFile, oldFileClass: string, newFileClass: string) => {
+        if (!this.settings.autoMetadataInsertion) {
+          return false;
+        }
+        // the triggers received before the job runs are merged, from the first old fileClass to the last new one
+        const changed = await this.updateQueueService.enqueue(file, 'folder move', {oldFileClass, newFileClass},
+          async (data) => {
+            return this.metaFlowService.handleNoteMovedIntoMappedFolder(file, data.oldFileClass, data.newFileClass, this.logManager);
+          },
+          (pending, data) => ({...data, oldFileClass: pending.oldFileClass})
+        );
+        return changed ?? false;
+      },
+      async (file: TFile, oldPath: string) => {
+        await this.updateQueueService.enqueue(file, 'title sync', oldPath, async (data, job) => {
+          await this.metaFlowService.handleNoteRenamed(file, data, this.logManager, job);
+        });
+      },
+      async (file: TFile, oldFrontmatter: {[key: string]: any}, newFrontmatter: {[key: string]: any}) => {
+        // a value changed back before the job runs fires nothing, the job compares the first old and the last new properties
+        await this.updateQueueService.enqueue(file, 'property triggers', {oldFrontmatter, newFrontmatter},
+          async (data, job) => {
+            await propertyTriggerService.handlePropertiesChanged(file, data.oldFrontmatter, data.newFrontmatter, this.logManager, job);
+          },
+          (pending, data) => ({...data, oldFrontmatter: pending.oldFrontmatter})
+        );
       }
     );
 
@@ -103,6 +163,36 @@ export default class MetaFlowPlugin extends Plugin {
                 await command.massUpdateMetadataProperties(directory.path, files, this.logManager);
               });
           });
+          menu.addItem((item) => {
+            item
+              .setTitle('Metaflow - Preview metadata update in folder')
+              .setIcon('file-diff')
+              .onClick(async () => {
+                const files: TFile[] = [];
+                Vault.recurseChildren(directory, (f: TAbstractFile) => {
+                  if (f instanceof TFile) {
+                    files.push(f);
+                  }
+                });
+                const command = this.container.get<MassUpdateMetadataCommand>(TYPES.MassUpdateMetadataCommand);
+                await command.previewMassUpdateMetadataProperties(directory.path, files, this.logManager);
+              });
+          });
+          menu.addItem((item) => {
+            item
+              .setTitle('Metaflow - Rename notes in folder by rules')
+              .setIcon('pencil')
+              .onClick(async () => {
+                const files: TFile[] = [];
+                Vault.recurseChildren(directory, (f: TAbstractFile) => {
+                  if (f instanceof TFile) {
+                    files.push(f);
+                  }
+                });
+                const command = this.container.get<BulkRenameCommand>(TYPES.BulkRenameCommand);
+                await command.previewRenames(`the folder "${directory.path}"`, files, this.logManager);
+              });
+          });
         }
       })
     );
@@ -130,17 +220,73 @@ export default class MetaFlowPlugin extends Plugin {
       this.registerEvent(this.app.vault.on('modify', this.fileClassStateManager.handleModifyFileEvent.bind(this.fileClassStateManager)));
       this.registerEvent(this.app.vault.on('delete', this.fileClassStateManager.handleDeleteFileEvent.bind(this.fileClassStateManager)));
       this.registerEvent(this.app.vault.on('rename', this.fileClassStateManager.handleRenameFileEvent.bind(this.fileClassStateManager)));
+      // the update queue cancels the jobs of the deleted notes and follows the renamed ones
+      this.registerEvent(this.app.vault.on('delete', (file: TAbstractFile) => {
+        if (file instanceof TFile) {
+          this.updateQueueService.handleDeleteFileEvent(file);
+          this.fileClassSnapshotService.recordDelete(file);
+        }
+      }));
+      this.registerEvent(this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+        if (file instanceof TFile) {
+          this.updateQueueService.handleRenameFileEvent(file, oldPath);
+          this.fileClassSnapshotService.recordRename(file, oldPath);
+        }
+      }));
+      this.registerEvent(this.app.metadataCache.on('changed', (file: TFile) => {
+        this.fileClassSnapshotService.recordFileClass(file);
+      }));
+
+      // the fileClass snapshot is compared with the metadata cache once the notes modified while closed are indexed,
+      // the cache is already resolved when the plugin is enabled or reloaded after the vault has been indexed
+      if (this.app.metadataCache.resolved) {
+        void this.reconcileFileClassSnapshot();
+      } else {
+        const resolvedRef = this.app.metadataCache.on('resolved', async () => {
+          this.app.metadataCache.offref(resolvedRef);
+          await this.reconcileFileClassSnapshot();
+        });
+        this.registerEvent(resolvedRef);
+      }
     });
   }
 
+  private async reconcileFileClassSnapshot() {
+    if (this.fileClassSnapshotReconciled) {
+      return;
+    }
+    this.fileClassSnapshotReconciled = true;
+    try {
+      const changes = await this.fileClassSnapshotService.reconcile();
+      if (changes.length > 0) {
+        this.logManager.addInfo(
+          `${changes.length} notes changed fileClass while MetaFlow was not running, ` +
+          `run "Process offline fileClass changes" to update them`
+        );
+      }
+    } catch (error) {
+      console.error('MetaFlow: Error reconciling the fileClass snapshot', error);
+    }
+  }
+
   private registerCommands() {
     // Register the main command for single file processing
     this.addCommand({
       id: 'metaflow-update-metadata',
       name: 'Update metadata properties',
-      editorCallback: (editor: Editor, view: MarkdownView) => {
+      editorCallback: async (editor: Editor, view: MarkdownView) => {
         const command = this.container.get<UpdateMetadataCommand>(TYPES.UpdateMetadataCommand);
-        command.execute(editor, view, this.logManager);
+        await command.execute(editor, view, this.logManager);
+      }
+    });
+
+    // Register the command to review the changes before updating the current file
+    this.addCommand({
+      id: 'metaflow-preview-update-metadata',
+      name: 'Preview metadata properties update',
+      editorCallback: async (editor: Editor, view: MarkdownView) => {
+        const command = this.container.get<UpdateMetadataCommand>(TYPES.UpdateMetadataCommand);
+        await command.execute(editor, view, this.logManager, true);
       }
     });
 
@@ -174,6 +320,27 @@ export default class MetaFlowPlugin extends Plugin {
       }
     });
 
+    // Register the command to preview and apply the renames of the notes of a fileClass
+    this.addCommand({
+      id: 'metaflow-bulk-rename',
+      name: 'Rename notes by rules',
+      callback: async () => {
+        const command = this.container.get<BulkRenameCommand>(TYPES.BulkRenameCommand);
+        await command.execute(this.logManager);
+      }
+    });
+
+    // Register the commands to create a note of a fileClass, one more for the fileClass of each mapping
+    this.addCommand({
+      id: 'metaflow-new-note',
+      name: 'New note of fileClass',
+      callback: () => {
+        const command = this.container.get<NewNoteCommand>(TYPES.NewNoteCommand);
+        command.execute(this.logManager);
+      }
+    });
+    this.registerNewNoteCommands();
+
     // Register the mass update command for vault-wide processing
     this.addCommand({
       id: 'metaflow-mass-update-metadata',
@@ -184,6 +351,52 @@ export default class MetaFlowPlugin extends Plugin {
       }
     });
 
+    // Register the commands to revert mass updates
+    this.addCommand({
+      id: 'metaflow-revert-last-batch',
+      name: 'Revert last MetaFlow batch',
+      callback: async () => {
+        const command = this.container.get<RevertLastBatchCommand>(TYPES.RevertLastBatchCommand);
+        await command.execute(this.logManager);
+      }
+    });
+
+    this.addCommand({
+      id: 'metaflow-batch-history',
+      name: 'Show MetaFlow batch history',
+      callback: async () => {
+        const command = this.container.get<BatchHistoryCommand>(TYPES.BatchHistoryCommand);
+        await command.execute(this.logManager);
+      }
+    });
+
+    this.addCommand({
+      id: 'metaflow-generate-compliance-report',
+      name: 'Generate metadata compliance report',
+      callback: async () => {
+        const command = this.container.get<GenerateComplianceReportCommand>(TYPES.GenerateComplianceReportCommand);
+        await command.execute(this.logManager);
+      }
+    });
+
+    this.addCommand({
+      id: 'metaflow-process-offline-fileclass-changes',
+      name: 'Process offline fileClass changes',
+      callback: () => {
+        const command = this.container.get<ProcessOfflineFileClassChangesCommand>(TYPES.ProcessOfflineFileClassChangesCommand);
+        command.execute(this.logManager);
+      }
+    });
+
+    this.addCommand({
+      id: 'metaflow-show-update-queue',
+      name: 'Show MetaFlow update queue',
+      callback: () => {
+        const command = this.container.get<ShowUpdateQueueCommand>(TYPES.ShowUpdateQueueCommand);
+        command.execute(this.logManager);
+      }
+    });
+
     // Register toggle properties panel command
     this.addCommand({
       id: 'metaflow-toggle-properties-panel',
@@ -195,9 +408,37 @@ export default class MetaFlowPlugin extends Plugin {
     });
   }
 
+  /**
+   * Register a "New <fileClass>" command per fileClass of the mappings, again each time the settings are saved
+   */
+  private registerNewNoteCommands() {
+    this.newNoteCommandIds.forEach(id => this.removeCommand(id));
+    this.newNoteCommandIds = [];
+    const mappedFileClasses = new Set(this.settings.folderFileClassMappings.map(mapping => mapping.fileClass).filter(fileClass => fileClass));
+    mappedFileClasses.forEach(fileClass => {
+      // "Book Note" and "book-note" give the same slug
+      const slug = `metaflow-new-note-${fileClass.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+      let id = slug;
+      for (let index = 2; this.newNoteCommandIds.includes(id); index++) {
+        id = `${slug}-${index}`;
+      }
+      this.newNoteCommandIds.push(id);
+      this.addCommand({
+        id,
+        name: `New ${fileClass}`,
+        callback: () => {
+          const command = this.container.get<NewNoteCommand>(TYPES.NewNoteCommand);
+          command.newNoteOfFileClass(fileClass, this.logManager);
+        }
+      });
+    });
+  }
+
   onunload() {
     // Remove CSS when plugin is disabled
     this.uiService.togglePropertiesVisibility(false);
+    this.updateQueueService.cancelAll('plugin unloaded');
+    this.fileClassSnapshotService.save().catch(error => console.error('MetaFlow: Error saving the fileClass snapshot', error));
   }
 
   async loadSettings(): Promise<MetaFlowSettings> {
@@ -216,5 +457,6 @@ export default class MetaFlowPlugin extends Plugin {
 
   async saveSettings() {
     await this.saveData(this.settings);
+    this.registerNewNoteCommands();
   }
 }
@@ -15,6 +15,7 @@ jest.mock('obsidian', () => ({
 describe('FileClassStateManager', () => {
   let mockApp: any;
   let mockFileClassDeductionService: FileClassDeductionService;
+  let mockFileOperationsService: any;
   let manager: FileClassStateManager;
   let mockSettings: any;
   let mockFileClassChangedCallback: any;
@@ -52,8 +53,11 @@ describe('FileClassStateManager', () => {
     mockFileClassDeductionService = {
       getFileClassFromMetadata: jest.fn()
     } as any;
+    mockFileOperationsService = {
+      consumeOwnRename: jest.fn().mockReturnValue(false)
+    };
     mockFileClassChangedCallback = jest.fn();
-    manager = new FileClassStateManager(mockApp, mockSettings, mockLogManager, mockFileClassDeductionService, mockFileClassChangedCallback);
+    manager = new FileClassStateManager(mockApp, mockSettings, mockLogManager, mockFileClassDeductionService, mockFileOperationsService, mockFileClassChangedCallback);
   });
 
   afterEach(() => {
@@ -266,6 +270,182 @@ describe('FileClassStateManager', () => {
     });
   });
 
+  describe('fileClass sync on move', () => {
+    const mappings: any = {
+      root: {folder: '/', patternKind: 'prefix', fileClass: 'default'},
+      books: {folder: 'Books', patternKind: 'prefix', fileClass: 'book'},
+    };
+    let mockFileMovedCallback: jest.Mock;
+
+    beforeEach(() => {
+      mockSettings.fileClassSyncOnMove = 'ask';
+      mockFileMovedCallback = jest.fn().mockResolvedValue(true);
+      mockFileClassDeductionService.getMatchingMapping = jest.fn().mockImplementation((path: string) =>
+        path.startsWith('Books/') ? mappings.books : mappings.root
+      );
+      mockApp.metadataCache.getFileCache.mockReturnValue({frontmatter: {fileClass: 'article'}});
+      (mockFileClassDeductionService.getFileClassFromMetadata as jest.Mock).mockImplementation((metadata: any) => metadata?.fileClass || null);
+      manager = new FileClassStateManager(
+        mockApp, mockSettings, mockLogManager, mockFileClassDeductionService, mockFileOperationsService, mockFileClassChangedCallback, mockFileMovedCallback
+      );
+    });
+
+    test('proposes the fileClass of the mapping of the new folder', async () => {
+      const file = ObsidianAdapter.createMockTFile('Books/note.md');
+      manager['fileModifiedMap'].set('Inbox/note.md', true);
+
+      manager.handleRenameFileEvent(file, 'Inbox/note.md');
+      await Promise.resolve();
+
+      expect(mockFileMovedCallback).toHaveBeenCalledWith(file, 'article', 'book');
+      expect(manager['fileModifiedMap'].has(file.path)).toBe(false);
+      expect(manager['fileClassMap'].get(file.path)).toBe('book');
+    });
+
+    test('ignores renames, moves inside the same mapping, the root mapping and notes having the fileClass', () => {
+      manager.handleRenameFileEvent(ObsidianAdapter.createMockTFile('Books/new.md'), 'Books/old.md');
+      manager.handleRenameFileEvent(ObsidianAdapter.createMockTFile('Books/Sub/note.md'), 'Books/note.md');
+      manager.handleRenameFileEvent(ObsidianAdapter.createMockTFile('Archive/note.md'), 'Books/note.md');
+      mockApp.metadataCache.getFileCache.mockReturnValue({frontmatter: {fileClass: 'book'}});
+      manager.handleRenameFileEvent(ObsidianAdapter.createMockTFile('Books/note.md'), 'Inbox/note.md');
+
+      expect(mockFileMovedCallback).not.toHaveBeenCalled();
+    });
+
+    test('ignores the moves done by MetaFlow', () => {
+      mockFileOperationsService.consumeOwnRename.mockReturnValueOnce(true);
+
+      manager.handleRenameFileEvent(ObsidianAdapter.createMockTFile('Books/note.md'), 'Inbox/note.md');
+
+      expect(mockFileMovedCallback).not.toHaveBeenCalled();
+    });
+
+    test('logs the errors of the fileClass sync', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+      mockFileMovedCallback.mockRejectedValue(new Error('queue failure'));
+
+      manager.handleRenameFileEvent(ObsidianAdapter.createMockTFile('Books/note.md'), 'Inbox/note.md');
+      await new Promise(process.nextTick);
+
+      expect(mockLogManager.addError).toHaveBeenCalledWith('Error syncing the fileClass of "Books/note.md" with its new folder: queue failure');
+      consoleSpy.mockRestore();
+    });
+
+    test('does nothing when the sync is off', () => {
+      mockSettings.fileClassSyncOnMove = 'off';
+
+      manager.handleRenameFileEvent(ObsidianAdapter.createMockTFile('Books/note.md'), 'Inbox/note.md');
+
+      expect(mockFileMovedCallback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('title sync on rename', () => {
+    test('notifies the renames changing the name of the note, not the moves', () => {
+      const mockFileRenamedCallback = jest.fn().mockResolvedValue(undefined);
+      manager = new FileClassStateManager(
+        mockApp, mockSettings, mockLogManager, mockFileClassDeductionService, mockFileOperationsService, mockFileClassChangedCallback, undefined, mockFileRenamedCallback
+      );
+      const renamedFile = ObsidianAdapter.createMockTFile('Books/New name.md');
+
+      manager.handleRenameFileEvent(renamedFile, 'Books/Old name.md');
+      manager.handleRenameFileEvent(ObsidianAdapter.createMockTFile('Archive/note.md'), 'Books/note.md');
+
+      expect(mockFileRenamedCallback).toHaveBeenCalledTimes(1);
+      expect(mockFileRenamedCallback).toHaveBeenCalledWith(renamedFile, 'Books/Old name.md');
+    });
+
+    test('logs the errors of the title sync', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+      const mockFileRenamedCallback = jest.fn().mockRejectedValue(new Error('sync failure'));
+      manager = new FileClassStateManager(
+        mockApp, mockSettings, mockLogManager, mockFileClassDeductionService, mockFileOperationsService, mockFileClassChangedCallback,
+        undefined, mockFileRenamedCallback
+      );
+
+      manager.handleRenameFileEvent(ObsidianAdapter.createMockTFile('Books/New name.md'), 'Books/Old name.md');
+      await new Promise(process.nextTick);
+
+      expect(mockLogManager.addError).toHaveBeenCalledWith('Error syncing the title of "Books/New name.md" with its new name: sync failure');
+      consoleSpy.mockRestore();
+    });
+
+    test('ignores the renames done by MetaFlow', () => {
+      const mockFileRenamedCallback = jest.fn().mockResolvedValue(undefined);
+      manager = new FileClassStateManager(
+        mockApp, mockSettings, mockLogManager, mockFileClassDeductionService, mockFileOperationsService, mockFileClassChangedCallback,
+        undefined, mockFileRenamedCallback
+      );
+      mockFileOperationsService.consumeOwnRename.mockReturnValueOnce(true);
+
+      manager.handleRenameFileEvent(ObsidianAdapter.createMockTFile('Books/New name.md'), 'Books/Old name.md');
+
+      expect(mockFileOperationsService.consumeOwnRename).toHaveBeenCalledWith('Books/New name.md');
+      expect(mockFileRenamedCallback).not.toHaveBeenCalled();
+    });
+
+    test('forgets the moves done by MetaFlow', () => {
+      manager.handleRenameFileEvent(ObsidianAdapter.createMockTFile('Archive/note.md'), 'Books/note.md');
+
+      expect(mockFileOperationsService.consumeOwnRename).toHaveBeenCalledWith('Archive/note.md');
+    });
+  });
+
+  describe('property triggers', () => {
+    let mockPropertiesChangedCallback: jest.Mock;
+    const file = ObsidianAdapter.createMockTFile('Tasks/task.md');
+
+    beforeEach(() => {
+      mockSettings.propertyTriggers = [{name: '', enabled: true, fileClass: '', property: 'status', from: '', to: 'done', actions: []}];
+      mockPropertiesChangedCallback = jest.fn().mockResolvedValue(undefined);
+      manager = new FileClassStateManager(
+        mockApp, mockSettings, mockLogManager, mockFileClassDeductionService, mockFileOperationsService, mockFileClassChangedCallback,
+        undefined, undefined, mockPropertiesChangedCallback
+      );
+      mockApp.metadataCache.getFileCache.mockReturnValue({frontmatter: {status: 'todo'}});
+      (manager as any).registerFileClass(file);
+    });
+
+    test('notifies the properties changed by a manual edit', () => {
+      manager['propertiesEditedMap'].set(file.path, true);
+
+      manager.handleMetadataChanged(file, '---\nstatus: done\n---\n', {frontmatter: {status: 'done'}});
+
+      expect(mockPropertiesChangedCallback).toHaveBeenCalledWith(file, {status: 'todo'}, {status: 'done'});
+      expect(manager['propertiesEditedMap'].has(file.path)).toBe(false);
+    });
+
+    test('logs the errors of the property triggers', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+      mockPropertiesChangedCallback.mockRejectedValue(new Error('action failure'));
+      manager['propertiesEditedMap'].set(file.path, true);
+
+      manager.handleMetadataChanged(file, '---\nstatus: done\n---\n', {frontmatter: {status: 'done'}});
+      await new Promise(process.nextTick);
+
+      expect(mockLogManager.addError).toHaveBeenCalledWith('Error running the property triggers of "Tasks/task.md": action failure');
+      consoleSpy.mockRestore();
+    });
+
+    test('only records the properties written without a manual edit', () => {
+      manager.handleMetadataChanged(file, '---\nstatus: done\n---\n', {frontmatter: {status: 'done'}});
+      manager['propertiesEditedMap'].set(file.path, true);
+      manager.handleMetadataChanged(file, '---\nstatus: done\npriority: 1\n---\n', {frontmatter: {status: 'done', priority: 1}});
+
+      expect(mockPropertiesChangedCallback).toHaveBeenCalledTimes(1);
+      expect(mockPropertiesChangedCallback).toHaveBeenCalledWith(file, {status: 'done'}, {status: 'done', priority: 1});
+    });
+
+    test('does nothing without an enabled trigger', () => {
+      mockSettings.propertyTriggers[0].enabled = false;
+      manager['propertiesEditedMap'].set(file.path, true);
+
+      manager.handleMetadataChanged(file, '---\nstatus: done\n---\n', {frontmatter: {status: 'done'}});
+
+      expect(mockPropertiesChangedCallback).not.toHaveBeenCalled();
+    });
+  });
+
   describe('registerFileClass', () => {
     test('sets fileClass from metadata if present', () => {
       const file = ObsidianAdapter.createMockTFile('test.md');
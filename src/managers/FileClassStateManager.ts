@@ -1,27 +1,48 @@
 import {App, CachedMetadata, MarkdownView, TAbstractFile, TFile, WorkspaceLeaf} from "obsidian";
-import {MetaFlowSettings} from "../settings/types";
+import {FolderFileClassMapping, MetaFlowSettings} from "../settings/types";
 import {LogManagerInterface} from "./types";
 import {ViewUpdate} from '@codemirror/view';
 import {Transaction} from '@codemirror/state';
 import type {FileClassDeductionService} from "../services/FileClassDeductionService";
+import type {FileOperationsService} from "../services/FileOperationsService";
 
 export type FileClassChangedCallback = (
   file: TFile, cache: CachedMetadata | null, oldFileClass: string, newFileClass: string
 ) => Promise<void>;
 
+/**
+ * @returns true when the note got the fileClass of the mapping of its new folder
+ */
+export type FileMovedIntoMappedFolderCallback = (
+  file: TFile, oldFileClass: string, newFileClass: string
+) => Promise<boolean>;
+
+export type FileRenamedCallback = (file: TFile, oldPath: string) => Promise<void>;
+
+export type PropertiesChangedCallback = (
+  file: TFile, oldFrontmatter: {[key: string]: any}, newFrontmatter: {[key: string]: any}
+) => Promise<void>;
+
 /**
  * Detects when fileClass is manually changed by the user.
  */
 export class FileClassStateManager {
   private app: App;
   private fileClassDeductionService: FileClassDeductionService;
+  private fileOperationsService: FileOperationsService;
   private settings: MetaFlowSettings;
   private fileClassChangedCallback?: FileClassChangedCallback;
+  private fileMovedIntoMappedFolderCallback?: FileMovedIntoMappedFolderCallback;
+  private fileRenamedCallback?: FileRenamedCallback;
+  private propertiesChangedCallback?: PropertiesChangedCallback;
   private logManager: LogManagerInterface;
 
   private fileClassMap: Map<string, string>;
   private fileModifiedMap: Map<string, boolean>;
   private fileRenamedMap: Map<string, string>;
+  // last known properties, and whether they have been edited manually since the last check of the property triggers
+  private propertiesMap: Map<string, {[key: string]: any}>;
+  private propertiesEditedMap: Map<string, boolean>;
   private enabled: boolean;
 
   // List of user events considered as manual edits
@@ -36,17 +57,27 @@ export class FileClassStateManager {
     settings: MetaFlowSettings,
     logManager: LogManagerInterface,
     fileClassDeductionService: FileClassDeductionService,
+    fileOperationsService: FileOperationsService,
     fileClassChangedCallback?: FileClassChangedCallback,
+    fileMovedIntoMappedFolderCallback?: FileMovedIntoMappedFolderCallback,
+    fileRenamedCallback?: FileRenamedCallback,
+    propertiesChangedCallback?: PropertiesChangedCallback,
   ) {
     this.app = app;
     this.settings = settings;
     this.logManager = logManager;
     this.fileClassDeductionService = fileClassDeductionService;
+    this.fileOperationsService = fileOperationsService;
     this.fileClassChangedCallback = fileClassChangedCallback;
+    this.fileMovedIntoMappedFolderCallback = fileMovedIntoMappedFolderCallback;
+    this.fileRenamedCallback = fileRenamedCallback;
+    this.propertiesChangedCallback = propertiesChangedCallback;
 
     this.fileClassMap = new Map<string, string>();
     this.fileModifiedMap = new Map<string, boolean>();
     this.fileRenamedMap = new Map<string, string>();
+    this.propertiesMap = new Map<string, {[key: string]: any}>();
+    this.propertiesEditedMap = new Map<string, boolean>();
     this.enabled = true;
   }
 
@@ -57,6 +88,8 @@ export class FileClassStateManager {
       this.fileClassMap.clear();
       this.fileModifiedMap.clear();
       this.fileRenamedMap.clear();
+      this.propertiesMap.clear();
+      this.propertiesEditedMap.clear();
     }
   }
 
@@ -95,6 +128,7 @@ export class FileClassStateManager {
     }
     if (this.settings.debugMode) console.debug(`FileClassStateManager: registerFileClass ${fileClass} for ${file.path}`, file);
     this.fileClassMap.set(file.path, fileClass);
+    this.propertiesMap.set(file.path, {...(fileCache?.frontmatter || {})});
     return {
       fileClass,
       fileCache,
@@ -111,6 +145,7 @@ export class FileClassStateManager {
       // ignore metadata changes for new files
       return;
     }
+    this.detectPropertiesChange(file, cache);
     if (!this.fileModifiedMap.get(file.path)) {
       if (this.settings.debugMode) console.debug(`File ${file.path} modified without prior typing or create event`);
       return;
@@ -129,6 +164,27 @@ export class FileClassStateManager {
     }
   }
 
+  /**
+   * Properties changed by a manual edit fire the property triggers, the writes of MetaFlow, not preceded
+   * by a manual edit, only update the known properties so that the triggers do not loop
+   */
+  private detectPropertiesChange(file: TFile, cache: CachedMetadata): void {
+    const frontmatter = {...(cache?.frontmatter || {})};
+    const oldFrontmatter = this.propertiesMap.get(file.path);
+    this.propertiesMap.set(file.path, frontmatter);
+    if (!this.propertiesEditedMap.get(file.path)) {
+      return;
+    }
+    this.propertiesEditedMap.delete(file.path);
+    if (!oldFrontmatter || !this.propertiesChangedCallback || !this.settings.propertyTriggers?.some(trigger => trigger.enabled)) {
+      return;
+    }
+    this.propertiesChangedCallback(file, oldFrontmatter, frontmatter).catch(error => {
+      console.error(`MetaFlow: Error running the property triggers of ${file.path}`, error);
+      this.logManager.addError(`Error running the property triggers of "${file.path}": ${error.message || error}`);
+    });
+  }
+
   private isManualEditEvent(vu: ViewUpdate): boolean {
     return vu.docChanged && vu.transactions.some(tr => {
       const event = tr.annotation && tr.annotation(Transaction.userEvent);
@@ -152,6 +208,7 @@ export class FileClassStateManager {
     if (this.isManualEditEvent(vu)) {
       if (this.settings.debugMode) console.debug(`FileClassStateManager: manual edit detected`, vu.transactions);
       this.fileModifiedMap.set(file.path, true);
+      this.propertiesEditedMap.set(file.path, true);
     }
   }
 
@@ -203,6 +260,8 @@ export class FileClassStateManager {
     this.fileModifiedMap.delete(file.path);
     this.fileClassMap.delete(file.path);
     this.fileRenamedMap.delete(file.path);
+    this.propertiesMap.delete(file.path);
+    this.propertiesEditedMap.delete(file.path);
   }
 
   public handleRenameFileEvent(file: TAbstractFile, oldPath: string) {
@@ -214,7 +273,29 @@ export class FileClassStateManager {
     if (!(file instanceof TFile)) {
       return;
     }
+    // consumed on every rename event, the moves done by MetaFlow keep the basename
+    const ownRename = this.fileOperationsService.consumeOwnRename(file.path);
     this.fileRenamedMap.set(file.path, oldPath);
+    this.moveFileState(file, oldPath);
+    if (!ownRename) {
+      this.syncFileClassOnMove(file, oldPath);
+    }
+    if (this.fileRenamedCallback && !ownRename && oldPath.substring(oldPath.lastIndexOf('/') + 1) !== file.name) {
+      this.fileRenamedCallback(file, oldPath).catch(error => {
+        console.error(`MetaFlow: Error syncing the title of ${file.path} renamed from ${oldPath}`, error);
+        this.logManager.addError(`Error syncing the title of "${file.path}" with its new name: ${error.message || error}`);
+      });
+    }
+  }
+
+  private moveFileState(file: TFile, oldPath: string): void {
+    if (this.propertiesMap.has(oldPath)) {
+      this.propertiesMap.set(file.path, this.propertiesMap.get(oldPath) || {});
+      this.propertiesMap.delete(oldPath);
+    }
+    if (this.propertiesEditedMap.delete(oldPath)) {
+      this.propertiesEditedMap.set(file.path, true);
+    }
     if (!this.fileModifiedMap.has(oldPath)) {
       if (this.settings.debugMode) console.debug(`File ${oldPath} renamed without prior typing or create event`);
       return;
@@ -230,4 +311,39 @@ export class FileClassStateManager {
     this.fileClassMap.delete(oldPath);
     this.fileClassMap.set(file.path, oldFileClass);
   }
+
+  /**
+   * A note moved into a folder whose mapping differs from the mapping of its previous folder gets the fileClass of that mapping,
+   * the root folder mapping, which matches every note, and the moves done by MetaFlow are ignored
+   */
+  private syncFileClassOnMove(file: TFile, oldPath: string): void {
+    if (this.settings.fileClassSyncOnMove === 'off' || !this.fileMovedIntoMappedFolderCallback) {
+      return;
+    }
+    if (oldPath.substring(0, oldPath.lastIndexOf('/')) === file.path.substring(0, file.path.lastIndexOf('/'))) {
+      // renamed, not moved
+      return;
+    }
+    const mapping = this.fileClassDeductionService.getMatchingMapping(file.path);
+    if (!mapping?.fileClass || this.isRootMapping(mapping) || mapping === this.fileClassDeductionService.getMatchingMapping(oldPath)) {
+      return;
+    }
+    const fileClass = this.fileClassDeductionService.getFileClassFromMetadata(this.app.metadataCache.getFileCache(file)?.frontmatter) || '';
+    if (fileClass === mapping.fileClass) {
+      return;
+    }
+    if (this.settings.debugMode) console.debug(`FileClassStateManager: ${file.path} moved into the folder of fileClass ${mapping.fileClass}`);
+    // the frontmatter update following the fileClass change is not a manual edit
+    this.fileModifiedMap.delete(file.path);
+    this.fileMovedIntoMappedFolderCallback(file, fileClass, mapping.fileClass).then(changed => {
+      this.fileClassMap.set(file.path, changed ? mapping.fileClass : fileClass);
+    }).catch(error => {
+      console.error(`MetaFlow: Error syncing the fileClass of ${file.path} moved into the folder of fileClass ${mapping.fileClass}`, error);
+      this.logManager.addError(`Error syncing the fileClass of "${file.path}" with its new folder: ${error.message || error}`);
+    });
+  }
+
+  private isRootMapping(mapping: FolderFileClassMapping): boolean {
+    return (mapping.patternKind || 'prefix') === 'prefix' && ['', '/'].includes(mapping.folder.trim());
+  }
 }
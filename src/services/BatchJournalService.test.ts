@@ -0,0 +1,191 @@
+import {TFile} from "obsidian";
+import {BatchJournal, BatchJournalService} from "./BatchJournalService";
+import {LogManagerInterface} from "../managers/types";
+
+describe('BatchJournalService', () => {
+  let batchJournalService: BatchJournalService;
+  let mockApp: any;
+  let mockObsidianAdapter: any;
+  let dataFiles: {[path: string]: string};
+  let vaultFiles: {[path: string]: TFile};
+  let mockLogManager: LogManagerInterface;
+
+  const createFile = (path: string): TFile => {
+    const file = Object.create(TFile.prototype);
+    Object.assign(file, {path, name: path.split('/').pop(), extension: 'md'});
+    return file;
+  };
+
+  beforeEach(() => {
+    dataFiles = {};
+    vaultFiles = {};
+
+    mockApp = {
+      vault: {
+        read: jest.fn().mockResolvedValue('updated'),
+        modify: jest.fn().mockResolvedValue(undefined),
+      },
+    };
+
+    mockObsidianAdapter = {
+      readDataFile: jest.fn(async (path: string) => dataFiles[path] ?? null),
+      writeDataFile: jest.fn(async (path: string, content: string) => {
+        dataFiles[path] = content;
+      }),
+      removeDataFile: jest.fn(async (path: string) => {
+        delete dataFiles[path];
+      }),
+      listDataFiles: jest.fn(async () => Object.keys(dataFiles)),
+      getAbstractFileByPath: jest.fn((path: string) => vaultFiles[path] ?? null),
+      isFileExists: jest.fn((path: string) => path in vaultFiles),
+      isFolderExists: jest.fn().mockReturnValue(true),
+      createFolder: jest.fn().mockResolvedValue(undefined),
+      moveNote: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockLogManager = {
+      addDebug: jest.fn(),
+      addInfo: jest.fn(),
+      addWarning: jest.fn(),
+      addError: jest.fn(),
+      addMessage: jest.fn(),
+    };
+
+    batchJournalService = new BatchJournalService(mockApp, mockObsidianAdapter, 'plugin');
+  });
+
+  const createBatch = (id: string, entries: BatchJournal['entries']): BatchJournal => ({
+    id,
+    date: new Date(Number(id)).toISOString(),
+    directory: 'Inbox',
+    entries,
+  });
+
+  describe('saveBatch', () => {
+    it('should persist only the changed entries', async () => {
+      const batch = batchJournalService.startBatch('Inbox');
+      const changed = batchJournalService.recordOriginal(batch, createFile('Inbox/a.md'), 'original');
+      batchJournalService.recordResult(changed, 'Books/a.md', 'updated');
+      batchJournalService.recordOriginal(batch, createFile('Inbox/b.md'), 'same');
+
+      await batchJournalService.saveBatch(batch);
+
+      const saved = JSON.parse(dataFiles[`plugin/journal/${batch.id}.json`]);
+      expect(saved.entries).toEqual([
+        {originalPath: 'Inbox/a.md', path: 'Books/a.md', originalContent: 'original', updatedContent: 'updated'},
+      ]);
+    });
+
+    it('should not persist a batch without changes', async () => {
+      const batch = batchJournalService.startBatch('Inbox');
+      batchJournalService.recordOriginal(batch, createFile('Inbox/a.md'), 'same');
+
+      await batchJournalService.saveBatch(batch);
+
+      expect(mockObsidianAdapter.writeDataFile).not.toHaveBeenCalled();
+    });
+
+    it('should prune the oldest batches', async () => {
+      for (let i = 1; i <= BatchJournalService.MAX_BATCHES; i++) {
+        dataFiles[`plugin/journal/${i}.json`] = JSON.stringify(createBatch(`${i}`, []));
+      }
+      const batch = batchJournalService.startBatch('Inbox');
+      const entry = batchJournalService.recordOriginal(batch, createFile('Inbox/a.md'), 'original');
+      batchJournalService.recordResult(entry, 'Inbox/a.md', 'updated');
+
+      await batchJournalService.saveBatch(batch);
+
+      expect(Object.keys(dataFiles)).toHaveLength(BatchJournalService.MAX_BATCHES);
+      expect(dataFiles['plugin/journal/1.json']).toBeUndefined();
+    });
+  });
+
+  describe('listBatches', () => {
+    it('should list the batches most recent first and ignore unreadable journals', async () => {
+      dataFiles['plugin/journal/1000.json'] = JSON.stringify(createBatch('1000', []));
+      dataFiles['plugin/journal/2000.json'] = JSON.stringify(createBatch('2000', []));
+      dataFiles['plugin/journal/3000.json'] = 'not json';
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+
+      const batches = await batchJournalService.listBatches();
+
+      expect(batches.map(batch => batch.id)).toEqual(['2000', '1000']);
+      consoleSpy.mockRestore();
+    });
+
+    it('should return the last batch not reverted', async () => {
+      dataFiles['plugin/journal/1000.json'] = JSON.stringify(createBatch('1000', []));
+      dataFiles['plugin/journal/2000.json'] = JSON.stringify({...createBatch('2000', []), revertedAt: 'date'});
+
+      const batch = await batchJournalService.getLastRevertibleBatch();
+
+      expect(batch?.id).toBe('1000');
+    });
+  });
+
+  describe('revertBatch', () => {
+    it('should move the note back and restore its original content', async () => {
+      const file = createFile('Books/a.md');
+      vaultFiles['Books/a.md'] = file;
+      const batch = createBatch('1000', [
+        {originalPath: 'Inbox/a.md', path: 'Books/a.md', originalContent: 'original', updatedContent: 'updated'},
+      ]);
+
+      const result = await batchJournalService.revertBatch(batch, null, mockLogManager);
+
+      expect(result).toEqual({reverted: 1, skipped: 0, failed: 0});
+      expect(mockObsidianAdapter.moveNote).toHaveBeenCalledWith(file, 'Inbox/a.md');
+      expect(mockApp.vault.modify).toHaveBeenCalledWith(file, 'original');
+      expect(batch.entries[0].reverted).toBe(true);
+      expect(batch.revertedAt).toBeDefined();
+      expect(JSON.parse(dataFiles['plugin/journal/1000.json']).revertedAt).toBe(batch.revertedAt);
+    });
+
+    it('should skip notes modified since the batch', async () => {
+      vaultFiles['Inbox/a.md'] = createFile('Inbox/a.md');
+      mockApp.vault.read.mockResolvedValue('edited by the user');
+      const batch = createBatch('1000', [
+        {originalPath: 'Inbox/a.md', path: 'Inbox/a.md', originalContent: 'original', updatedContent: 'updated'},
+      ]);
+
+      const result = await batchJournalService.revertBatch(batch, null, mockLogManager);
+
+      expect(result).toEqual({reverted: 0, skipped: 1, failed: 0});
+      expect(mockApp.vault.modify).not.toHaveBeenCalled();
+      expect(mockLogManager.addWarning).toHaveBeenCalledWith('Skipped "Inbox/a.md": the note has been modified since the batch');
+      expect(batch.revertedAt).toBeUndefined();
+    });
+
+    it('should not overwrite a note created at the original path', async () => {
+      vaultFiles['Books/a.md'] = createFile('Books/a.md');
+      vaultFiles['Inbox/a.md'] = createFile('Inbox/a.md');
+      const batch = createBatch('1000', [
+        {originalPath: 'Inbox/a.md', path: 'Books/a.md', originalContent: 'original', updatedContent: 'updated'},
+      ]);
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+
+      const result = await batchJournalService.revertBatch(batch, null, mockLogManager);
+
+      expect(result).toEqual({reverted: 0, skipped: 0, failed: 1});
+      expect(mockObsidianAdapter.moveNote).not.toHaveBeenCalled();
+      expect(mockLogManager.addError).toHaveBeenCalledWith('Error reverting "Books/a.md": Cannot restore "Books/a.md": "Inbox/a.md" already exists');
+      consoleSpy.mockRestore();
+    });
+
+    it('should only revert the selected notes', async () => {
+      vaultFiles['Inbox/a.md'] = createFile('Inbox/a.md');
+      vaultFiles['Inbox/b.md'] = createFile('Inbox/b.md');
+      const batch = createBatch('1000', [
+        {originalPath: 'Inbox/a.md', path: 'Inbox/a.md', originalContent: 'original', updatedContent: 'updated'},
+        {originalPath: 'Inbox/b.md', path: 'Inbox/b.md', originalContent: 'original', updatedContent: 'updated'},
+      ]);
+
+      const result = await batchJournalService.revertBatch(batch, ['Inbox/b.md'], mockLogManager);
+
+      expect(result.reverted).toBe(1);
+      expect(mockApp.vault.modify).toHaveBeenCalledWith(vaultFiles['Inbox/b.md'], 'original');
+      expect(batch.entries[0].reverted).toBeUndefined();
+      expect(batch.revertedAt).toBeUndefined();
+    });
+  });
+});
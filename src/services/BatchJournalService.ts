@@ -0,0 +1,196 @@
+import {injectable, inject} from 'inversify';
+import type {App} from "obsidian";
+import {TFile} from "obsidian";
+import {MetaFlowException} from "../MetaFlowException";
+import type {ObsidianAdapter} from "../externalApi/ObsidianAdapter";
+import type {LogManagerInterface} from "../managers/types";
+import {TYPES} from '../di/types';
+
+export interface BatchJournalEntry {
+  // path of the note before the batch
+  originalPath: string;
+  // path of the note after the batch (differs when renamed or moved)
+  path: string;
+  originalContent: string;
+  updatedContent: string;
+  reverted?: boolean;
+}
+
+export interface BatchJournal {
+  id: string;
+  date: string;
+  directory: string;
+  entries: BatchJournalEntry[];
+  revertedAt?: string;
+}
+
+export interface RevertResult {
+  reverted: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Records the original contents, renames and moves of each mass update
+ * so a whole batch or some of its notes can be rolled back
+ */
+@injectable()
+export class BatchJournalService {
+  public static readonly MAX_BATCHES = 20;
+  private static readonly JOURNAL_FOLDER = 'journal';
+
+  private app: App;
+  private obsidianAdapter: ObsidianAdapter;
+  private pluginDataFolder: string;
+
+  constructor(
+    @inject(TYPES.App) app: App,
+    @inject(TYPES.ObsidianAdapter) obsidianAdapter: ObsidianAdapter,
+    @inject(TYPES.PluginDataFolder) pluginDataFolder: string
+  ) {
+    this.app = app;
+    this.obsidianAdapter = obsidianAdapter;
+    this.pluginDataFolder = pluginDataFolder;
+  }
+
+  startBatch(directory: string): BatchJournal {
+    const date = new Date();
+    return {
+      id: `${date.getTime()}`,
+      date: date.toISOString(),
+      directory,
+      entries: [],
+    };
+  }
+
+  /**
+   * Record the note state before it is modified, renamed or moved
+   */
+  recordOriginal(batch: BatchJournal, file: TFile, originalContent: string): BatchJournalEntry {
+    const entry: BatchJournalEntry = {
+      originalPath: file.path,
+      path: file.path,
+      originalContent,
+      updatedContent: originalContent,
+    };
+    batch.entries.push(entry);
+    return entry;
+  }
+
+  /**
+   * Record the note state once every operation of the batch has been applied to it
+   */
+  recordResult(entry: BatchJournalEntry, path: string, updatedContent: string): void {
+    entry.path = path;
+    entry.updatedContent = updatedContent;
+  }
+
+  async saveBatch(batch: BatchJournal): Promise<void> {
+    batch.entries = batch.entries.filter(entry =>
+      entry.path !== entry.originalPath || entry.updatedContent !== entry.originalContent
+    );
+    if (batch.entries.length === 0) {
+      return;
+    }
+    await this.obsidianAdapter.writeDataFile(this.getBatchPath(batch.id), JSON.stringify(batch));
+    await this.pruneBatches();
+  }
+
+  /**
+   * List the recorded batches, most recent first
+   */
+  async listBatches(): Promise<BatchJournal[]> {
+    const batches: BatchJournal[] = [];
+    const files = await this.obsidianAdapter.listDataFiles(this.getJournalFolder());
+    for (const filePath of files.filter(f => f.endsWith('.json'))) {
+      try {
+        const content = await this.obsidianAdapter.readDataFile(filePath);
+        if (content) {
+          batches.push(JSON.parse(content));
+        }
+      } catch (error) {
+        console.error(`MetaFlow: Error reading batch journal ${filePath}`, error);
+      }
+    }
+    return batches.sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  async getLastRevertibleBatch(): Promise<BatchJournal | null> {
+    const batches = await this.listBatches();
+    return batches.find(batch => !batch.revertedAt) || null;
+  }
+
+  /**
+   * Restore original contents and paths of the batch notes
+   * @param paths - paths (after the batch) of the notes to revert, null to revert all of them
+   */
+  async revertBatch(batch: BatchJournal, paths: string[] | null, logManager: LogManagerInterface): Promise<RevertResult> {
+    const result: RevertResult = {reverted: 0, skipped: 0, failed: 0};
+    const entries = batch.entries
+      .filter(entry => !entry.reverted && (paths === null || paths.includes(entry.path)))
+      .reverse();
+
+    for (const entry of entries) {
+      try {
+        if (await this.revertEntry(entry, logManager)) {
+          entry.reverted = true;
+          result.reverted++;
+        } else {
+          result.skipped++;
+        }
+      } catch (error) {
+        console.error(`MetaFlow: Error reverting ${entry.path}`, error);
+        logManager.addError(`Error reverting "${entry.path}": ${error.message}`);
+        result.failed++;
+      }
+    }
+
+    if (batch.entries.every(entry => entry.reverted)) {
+      batch.revertedAt = new Date().toISOString();
+    }
+    await this.obsidianAdapter.writeDataFile(this.getBatchPath(batch.id), JSON.stringify(batch));
+    return result;
+  }
+
+  private async revertEntry(entry: BatchJournalEntry, logManager: LogManagerInterface): Promise<boolean> {
+    const file = this.obsidianAdapter.getAbstractFileByPath(entry.path);
+    if (!(file instanceof TFile)) {
+      throw new MetaFlowException(`File "${entry.path}" not found`, 'warning');
+    }
+    const currentContent = await this.app.vault.read(file);
+    if (currentContent !== entry.updatedContent) {
+      logManager.addWarning(`Skipped "${entry.path}": the note has been modified since the batch`);
+      return false;
+    }
+
+    if (entry.path !== entry.originalPath) {
+      if (this.obsidianAdapter.isFileExists(entry.originalPath)) {
+        throw new MetaFlowException(`Cannot restore "${entry.path}": "${entry.originalPath}" already exists`, 'warning');
+      }
+      const originalFolder = entry.originalPath.substring(0, entry.originalPath.lastIndexOf('/'));
+      if (originalFolder && !this.obsidianAdapter.isFolderExists(originalFolder)) {
+        await this.obsidianAdapter.createFolder(originalFolder);
+      }
+      await this.obsidianAdapter.moveNote(file, entry.originalPath);
+    }
+    if (entry.originalContent !== currentContent) {
+      await this.app.vault.modify(file, entry.originalContent);
+    }
+    return true;
+  }
+
+  private async pruneBatches(): Promise<void> {
+    const batches = await this.listBatches();
+    for (const batch of batches.slice(BatchJournalService.MAX_BATCHES)) {
+      await this.obsidianAdapter.removeDataFile(this.getBatchPath(batch.id));
+    }
+  }
+
+  private getJournalFolder(): string {
+    return `${this.pluginDataFolder}/${BatchJournalService.JOURNAL_FOLDER}`;
+  }
+
+  private getBatchPath(batchId: string): string {
+    return `${this.getJournalFolder()}/${batchId}.json`;
+  }
+}
@@ -0,0 +1,147 @@
+import type {TFile} from "obsidian";
+import {ComplianceReportService} from "./ComplianceReportService";
+import {FrontMatterService} from "./FrontMatterService";
+import {FieldValidationService} from "./FieldValidationService";
+import {DEFAULT_SETTINGS} from "../settings/defaultSettings";
+import {MetaFlowException} from "../MetaFlowException";
+import {ObsidianAdapter} from "../externalApi/ObsidianAdapter";
+
+describe('ComplianceReportService', () => {
+  let complianceReportService: ComplianceReportService;
+  let mockMetadataMenuAdapter: any;
+  let mockObsidianAdapter: any;
+  let mockFileClassDeductionService: any;
+  let mockLogManager: any;
+  const contents: {[path: string]: string} = {
+    'Books/valid.md': '---\nfileClass: book\ntitle: Dune\npages: 412\ntags: [sf]\n---\nBody',
+    'Books/invalid.md': '---\nfileClass: book\npages: many\nrating: 5\n---\nBody',
+    'Movies/misplaced.md': '---\nfileClass: book\ntitle: Alien\n---\nBody',
+    'Inbox/untyped.md': '---\ntitle: Draft\n---\nBody',
+    'Books/unknown.md': '---\nfileClass: comic\n---\nBody',
+  };
+  const files = Object.keys(contents).map(path => ObsidianAdapter.createMockTFile(path));
+  const readContent = async (file: TFile) => contents[file.path];
+
+  beforeEach(() => {
+    mockMetadataMenuAdapter = {
+      getFileClassAlias: jest.fn().mockReturnValue('fileClass'),
+      getFileClassFromMetadata: jest.fn().mockImplementation((metadata: any) => metadata?.fileClass || null),
+      getFileClassByName: jest.fn().mockImplementation((name: string) => {
+        if (name !== 'book') {
+          throw new MetaFlowException(`File class "${name}" not found in MetadataMenu`, 'warning');
+        }
+        return [];
+      }),
+      getFileClassAndAncestorsFields: jest.fn().mockReturnValue([
+        {name: 'title', type: 'Input', isRequired: true},
+        {name: 'pages', type: 'Number'},
+      ]),
+    };
+    mockObsidianAdapter = {
+      generateMarkdownLink: jest.fn().mockImplementation((file: TFile) => `[[${file.path}]]`),
+    };
+    mockFileClassDeductionService = {
+      deduceFileClassFromPath: jest.fn().mockImplementation((path: string) => {
+        if (path.startsWith('Books/')) return 'book';
+        if (path.startsWith('Movies/')) return 'movie';
+        return null;
+      }),
+      validateFileClassAgainstMapping: jest.fn().mockImplementation((path: string, fileClass: string) =>
+        mockFileClassDeductionService.deduceFileClassFromPath(path) === fileClass
+      ),
+    };
+    mockLogManager = {
+      addDebug: jest.fn(),
+      addInfo: jest.fn(),
+      addWarning: jest.fn(),
+      addError: jest.fn(),
+      addMessage: jest.fn(),
+    };
+
+    complianceReportService = new ComplianceReportService(
+      mockMetadataMenuAdapter,
+      mockObsidianAdapter,
+      new FrontMatterService(),
+      mockFileClassDeductionService,
+      new FieldValidationService({...DEFAULT_SETTINGS}, mockMetadataMenuAdapter)
+    );
+  });
+
+  describe('checkNote', () => {
+    it('should not report issues on a compliant note', () => {
+      const compliance = complianceReportService.checkNote(files[0], contents['Books/valid.md'], mockLogManager);
+
+      expect(complianceReportService.hasIssues(compliance)).toBe(false);
+    });
+
+    it('should report missing required fields, unknown properties and type mismatches', () => {
+      const compliance = complianceReportService.checkNote(files[1], contents['Books/invalid.md'], mockLogManager);
+
+      expect(compliance.missingRequiredFields).toEqual(['title']);
+      expect(compliance.unknownProperties).toEqual(['rating']);
+      expect(compliance.typeMismatches.map(d => d.property)).toEqual(['pages']);
+      expect(compliance.expectedFileClass).toBeNull();
+    });
+
+    it('should report a fileClass not matching the folder mapping', () => {
+      const compliance = complianceReportService.checkNote(files[2], contents['Movies/misplaced.md'], mockLogManager);
+
+      expect(compliance.expectedFileClass).toBe('movie');
+      expect(complianceReportService.hasIssues(compliance)).toBe(true);
+    });
+
+    it('should report notes without fileClass and unknown fileClasses', () => {
+      expect(complianceReportService.checkNote(files[3], contents['Inbox/untyped.md'], mockLogManager).error)
+        .toBe('No fileClass and no matching folder mapping');
+      expect(complianceReportService.checkNote(files[4], contents['Books/unknown.md'], mockLogManager).error)
+        .toBe('File class "comic" not found in MetadataMenu');
+    });
+  });
+
+  describe('buildReport', () => {
+    it('should list the non compliant notes and count issues per fileClass', async () => {
+      const report = await complianceReportService.buildReport(files, readContent, mockLogManager);
+
+      expect(report.checkedNotes).toBe(5);
+      expect(report.notes.map(note => note.file.path)).toEqual([
+        'Books/invalid.md', 'Movies/misplaced.md', 'Inbox/untyped.md', 'Books/unknown.md',
+      ]);
+      expect(report.stats).toEqual([
+        {fileClass: '(no fileClass)', notes: 1, nonCompliantNotes: 1, missingRequiredFields: 0, unknownProperties: 0, typeMismatches: 0, mappingMismatches: 0},
+        {fileClass: 'book', notes: 3, nonCompliantNotes: 2, missingRequiredFields: 1, unknownProperties: 1, typeMismatches: 1, mappingMismatches: 1},
+        {fileClass: 'comic', notes: 1, nonCompliantNotes: 1, missingRequiredFields: 0, unknownProperties: 0, typeMismatches: 0, mappingMismatches: 1},
+      ]);
+    });
+
+    it('should report the notes that cannot be read', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => { });
+      const report = await complianceReportService.buildReport(
+        [files[0]], async () => {throw new Error('read error');}, mockLogManager
+      );
+
+      expect(report.notes[0].error).toBe('read error');
+    });
+  });
+
+  describe('renderReport', () => {
+    it('should render the counts and the offending notes with links', async () => {
+      const report = await complianceReportService.buildReport(files, readContent, mockLogManager);
+
+      const markdown = complianceReportService.renderReport(report);
+
+      expect(markdown).toContain('4 of 5 notes have issues.');
+      expect(markdown).toContain('| book | 3 | 2 | 1 | 1 | 1 | 1 |');
+      expect(markdown).toContain([
+        '## book',
+        '',
+        '- [[Books/invalid.md]]',
+        '  - Missing required fields: title',
+        '  - Unknown properties: rating',
+        '  - pages (Number): Expected a number, got "many"',
+        '- [[Movies/misplaced.md]]',
+        '  - FileClass "book" does not match the folder mapping ("movie" expected)',
+      ].join('\n'));
+      expect(markdown).toContain('- [[Inbox/untyped.md]]\n  - Error: No fileClass and no matching folder mapping');
+    });
+  });
+});
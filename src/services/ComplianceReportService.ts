@@ -0,0 +1,219 @@
+import {injectable, inject} from 'inversify';
+import type {TFile} from "obsidian";
+import type {MetadataMenuAdapter} from "../externalApi/MetadataMenuAdapter";
+import type {ObsidianAdapter} from "../externalApi/ObsidianAdapter";
+import type {LogManagerInterface} from "../managers/types";
+import type {FrontMatterService} from "./FrontMatterService";
+import type {FileClassDeductionService} from "./FileClassDeductionService";
+import type {FieldDiagnostic, FieldValidationService} from "./FieldValidationService";
+import {TYPES} from '../di/types';
+
+export interface NoteCompliance {
+  file: TFile;
+  fileClass: string | null;
+  missingRequiredFields: string[];
+  unknownProperties: string[];
+  typeMismatches: FieldDiagnostic[];
+  // fileClass deduced from the folder mapping when it differs from the note fileClass
+  expectedFileClass: string | null;
+  error: string | null;
+}
+
+export interface FileClassComplianceStats {
+  fileClass: string;
+  notes: number;
+  nonCompliantNotes: number;
+  missingRequiredFields: number;
+  unknownProperties: number;
+  typeMismatches: number;
+  mappingMismatches: number;
+}
+
+export interface ComplianceReport {
+  date: string;
+  checkedNotes: number;
+  // only the notes with at least one issue
+  notes: NoteCompliance[];
+  stats: FileClassComplianceStats[];
+}
+
+const NO_FILECLASS = '(no fileClass)';
+// properties handled by Obsidian itself, never reported as unknown
+const OBSIDIAN_PROPERTIES = ['tags', 'aliases', 'cssclasses'];
+
+/**
+ * Checks every note against the MetadataMenu schema of its fileClass and the folder/fileClass mappings
+ */
+@injectable()
+export class ComplianceReportService {
+  private metadataMenuAdapter: MetadataMenuAdapter;
+  private obsidianAdapter: ObsidianAdapter;
+  private frontMatterService: FrontMatterService;
+  private fileClassDeductionService: FileClassDeductionService;
+  private fieldValidationService: FieldValidationService;
+
+  constructor(
+    @inject(TYPES.MetadataMenuAdapter) metadataMenuAdapter: MetadataMenuAdapter,
+    @inject(TYPES.ObsidianAdapter) obsidianAdapter: ObsidianAdapter,
+    @inject(TYPES.FrontMatterService) frontMatterService: FrontMatterService,
+    @inject(TYPES.FileClassDeductionService) fileClassDeductionService: FileClassDeductionService,
+    @inject(TYPES.FieldValidationService) fieldValidationService: FieldValidationService
+  ) {
+    this.metadataMenuAdapter = metadataMenuAdapter;
+    this.obsidianAdapter = obsidianAdapter;
+    this.frontMatterService = frontMatterService;
+    this.fileClassDeductionService = fileClassDeductionService;
+    this.fieldValidationService = fieldValidationService;
+  }
+
+  checkNote(file: TFile, content: string, logManager: LogManagerInterface): NoteCompliance {
+    const compliance: NoteCompliance = {
+      file,
+      fileClass: null,
+      missingRequiredFields: [],
+      unknownProperties: [],
+      typeMismatches: [],
+      expectedFileClass: null,
+      error: null,
+    };
+    const frontmatter = this.frontMatterService.parseFrontmatter(content)?.metadata || {};
+    const fileClass = this.metadataMenuAdapter.getFileClassFromMetadata(frontmatter);
+    const deducedFileClass = this.fileClassDeductionService.deduceFileClassFromPath(file.path);
+    if (!fileClass) {
+      compliance.expectedFileClass = deducedFileClass;
+      compliance.error = deducedFileClass ?
+        `No fileClass, "${deducedFileClass}" expected from folder mapping` :
+        'No fileClass and no matching folder mapping';
+      return compliance;
+    }
+    compliance.fileClass = fileClass;
+    if (deducedFileClass && !this.fileClassDeductionService.validateFileClassAgainstMapping(file.path, fileClass)) {
+      compliance.expectedFileClass = deducedFileClass;
+    }
+
+    try {
+      this.metadataMenuAdapter.getFileClassByName(fileClass);
+      const fields = this.metadataMenuAdapter.getFileClassAndAncestorsFields(fileClass, logManager);
+      const fieldNames = new Set(fields.map(field => field.name));
+      compliance.missingRequiredFields = [...new Set(fields
+        .filter(field => field.isRequired)
+        .filter(field => [undefined, null, ''].includes(frontmatter[field.name]))
+        .map(field => field.name))];
+      const fileClassAlias = this.metadataMenuAdapter.getFileClassAlias();
+      compliance.unknownProperties = Object.keys(frontmatter).filter(key =>
+        !fieldNames.has(key) && key !== fileClassAlias && !OBSIDIAN_PROPERTIES.includes(key)
+      );
+      compliance.typeMismatches = this.fieldValidationService.findInvalidValues(frontmatter, fileClass, logManager);
+    } catch (error) {
+      compliance.error = error.message;
+    }
+    return compliance;
+  }
+
+  hasIssues(compliance: NoteCompliance): boolean {
+    return compliance.error !== null ||
+      compliance.expectedFileClass !== null ||
+      compliance.missingRequiredFields.length > 0 ||
+      compliance.unknownProperties.length > 0 ||
+      compliance.typeMismatches.length > 0;
+  }
+
+  async buildReport(
+    files: TFile[],
+    readContent: (file: TFile) => Promise<string>,
+    logManager: LogManagerInterface
+  ): Promise<ComplianceReport> {
+    const stats = new Map<string, FileClassComplianceStats>();
+    const notes: NoteCompliance[] = [];
+    for (const file of files) {
+      let compliance: NoteCompliance;
+      try {
+        compliance = this.checkNote(file, await readContent(file), logManager);
+      } catch (error) {
+        console.error(`MetaFlow: Error checking compliance of ${file.path}`, error);
+        compliance = {
+          file, fileClass: null, missingRequiredFields: [], unknownProperties: [], typeMismatches: [],
+          expectedFileClass: null, error: error.message,
+        };
+      }
+      const fileClass = compliance.fileClass || NO_FILECLASS;
+      if (!stats.has(fileClass)) {
+        stats.set(fileClass, {
+          fileClass, notes: 0, nonCompliantNotes: 0, missingRequiredFields: 0,
+          unknownProperties: 0, typeMismatches: 0, mappingMismatches: 0,
+        });
+      }
+      const fileClassStats = stats.get(fileClass)!;
+      fileClassStats.notes++;
+      if (this.hasIssues(compliance)) {
+        fileClassStats.nonCompliantNotes++;
+        fileClassStats.missingRequiredFields += compliance.missingRequiredFields.length;
+        fileClassStats.unknownProperties += compliance.unknownProperties.length;
+        fileClassStats.typeMismatches += compliance.typeMismatches.length;
+        fileClassStats.mappingMismatches += compliance.expectedFileClass ? 1 : 0;
+        notes.push(compliance);
+      }
+    }
+
+    return {
+      date: new Date().toISOString(),
+      checkedNotes: files.length,
+      notes,
+      stats: Array.from(stats.values()).sort((a, b) => a.fileClass.localeCompare(b.fileClass)),
+    };
+  }
+
+  /**
+   * Render the report as a markdown note, links are relative to the vault root
+   */
+  renderReport(report: ComplianceReport): string {
+    const lines: string[] = [
+      '# Metadata compliance report',
+      '',
+      `Generated on ${report.date}: ${report.notes.length} of ${report.checkedNotes} notes have issues.`,
+      '',
+      '## Counts per fileClass',
+      '',
+      '| FileClass | Notes | Non compliant | Missing required | Unknown properties | Type mismatches | Folder mismatches |',
+      '| --- | ---: | ---: | ---: | ---: | ---: | ---: |',
+      ...report.stats.map(s =>
+        `| ${s.fileClass} | ${s.notes} | ${s.nonCompliantNotes} | ${s.missingRequiredFields} | ` +
+        `${s.unknownProperties} | ${s.typeMismatches} | ${s.mappingMismatches} |`
+      ),
+    ];
+
+    const byFileClass = new Map<string, NoteCompliance[]>();
+    report.notes.forEach(note => {
+      const fileClass = note.fileClass || NO_FILECLASS;
+      byFileClass.set(fileClass, [...(byFileClass.get(fileClass) || []), note]);
+    });
+    for (const [fileClass, notes] of Array.from(byFileClass.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push('', `## ${fileClass}`, '');
+      for (const note of notes) {
+        lines.push(`- ${this.obsidianAdapter.generateMarkdownLink(note.file)}`);
+        lines.push(...this.describeIssues(note).map(issue => `  - ${issue}`));
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private describeIssues(note: NoteCompliance): string[] {
+    const issues: string[] = [];
+    if (note.error) {
+      issues.push(`Error: ${note.error}`);
+    }
+    if (note.fileClass && note.expectedFileClass) {
+      issues.push(`FileClass "${note.fileClass}" does not match the folder mapping ("${note.expectedFileClass}" expected)`);
+    }
+    if (note.missingRequiredFields.length > 0) {
+      issues.push(`Missing required fields: ${note.missingRequiredFields.join(', ')}`);
+    }
+    if (note.unknownProperties.length > 0) {
+      issues.push(`Unknown properties: ${note.unknownProperties.join(', ')}`);
+    }
+    note.typeMismatches.forEach(diagnostic => {
+      issues.push(`${diagnostic.property} (${diagnostic.fieldType}): ${diagnostic.message}, got ${JSON.stringify(diagnostic.value)}`);
+    });
+    return issues;
+  }
+}
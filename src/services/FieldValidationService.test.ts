@@ -0,0 +1,120 @@
+import moment from 'moment';
+import {FieldValidationService} from "./FieldValidationService";
+import {MetaFlowSettings} from "../settings/types";
+import {DEFAULT_SETTINGS} from "../settings/defaultSettings";
+
+describe('FieldValidationService', () => {
+  let fieldValidationService: FieldValidationService;
+  let mockSettings: MetaFlowSettings;
+  let mockMetadataMenuAdapter: any;
+  let mockLogManager: any;
+
+  beforeAll(() => {
+    window.moment = moment;
+  });
+
+  afterAll(() => {
+    delete window.moment;
+  });
+
+  beforeEach(() => {
+    mockSettings = {...DEFAULT_SETTINGS, validateFieldTypes: true, coerceFieldValues: false};
+
+    mockMetadataMenuAdapter = {
+      getFileClassAndAncestorsFields: jest.fn().mockReturnValue([
+        {name: 'pages', type: 'Number'},
+        {name: 'read', type: 'Boolean'},
+        {name: 'published', type: 'Date', options: {dateFormat: 'YYYY-MM-DD'}},
+        {name: 'status', type: 'Select', options: {sourceType: 'ValuesList', valuesList: {'1': 'todo', '2': 'done'}}},
+        {name: 'genres', type: 'MultiSelect', options: {sourceType: 'ValuesList', valuesList: {'1': 'sf', '2': 'fantasy'}}},
+        {name: 'authors', type: 'MultiFile'},
+        {name: 'source', type: 'Select', options: {sourceType: 'ValuesFromDVQuery'}},
+      ]),
+    };
+
+    mockLogManager = {
+      addDebug: jest.fn(),
+      addInfo: jest.fn(),
+      addWarning: jest.fn(),
+      addError: jest.fn(),
+      addMessage: jest.fn(),
+    };
+
+    fieldValidationService = new FieldValidationService(mockSettings, mockMetadataMenuAdapter);
+  });
+
+  it('should not validate anything when disabled', () => {
+    mockSettings.validateFieldTypes = false;
+
+    const result = fieldValidationService.validateFrontmatter({pages: 'many'}, 'book', mockLogManager);
+
+    expect(result.diagnostics).toEqual([]);
+    expect(mockMetadataMenuAdapter.getFileClassAndAncestorsFields).not.toHaveBeenCalled();
+  });
+
+  it('should accept valid and empty values', () => {
+    const frontmatter = {
+      pages: 42, read: false, published: '2024-01-31', status: 'todo', genres: ['sf'],
+      authors: ['[[Jane]]'], source: 'anything', title: ['not a field'], empty: null,
+    };
+
+    const result = fieldValidationService.validateFrontmatter({...frontmatter, status: null}, 'book', mockLogManager);
+
+    expect(result.diagnostics).toEqual([]);
+    expect(mockLogManager.addWarning).not.toHaveBeenCalled();
+  });
+
+  it('should report invalid values without changing them when coercion is disabled', () => {
+    const frontmatter = {pages: '42', read: 'yes', status: 'unknown', genres: 'sf'};
+
+    const result = fieldValidationService.validateFrontmatter(frontmatter, 'book', mockLogManager);
+
+    expect(result.frontmatter).toEqual(frontmatter);
+    expect(result.diagnostics.map(d => [d.property, d.coerced])).toEqual([
+      ['pages', false], ['read', false], ['status', false], ['genres', false],
+    ]);
+    expect(result.diagnostics[2].message).toBe('"unknown" is not one of the allowed values todo, done');
+    expect(mockLogManager.addWarning).toHaveBeenCalledWith('Property "pages": Expected a number ("42")');
+  });
+
+  it('should coerce values when enabled', () => {
+    mockSettings.coerceFieldValues = true;
+    const frontmatter = {
+      pages: '42', read: 'Yes', published: '2024-01-31T10:00:00', status: ['done'], genres: 'fantasy', authors: '[[Jane]]',
+    };
+
+    const result = fieldValidationService.validateFrontmatter(frontmatter, 'book', mockLogManager);
+
+    expect(result.frontmatter).toEqual({
+      pages: 42, read: true, published: '2024-01-31', status: 'done', genres: ['fantasy'], authors: ['[[Jane]]'],
+    });
+    expect(result.diagnostics.every(d => d.coerced)).toBe(true);
+    expect(frontmatter.pages).toBe('42');
+    expect(mockLogManager.addInfo).toHaveBeenCalledWith('Property "pages": Expected a number, coerced "42" to 42');
+  });
+
+  it('should not coerce values that cannot be converted', () => {
+    mockSettings.coerceFieldValues = true;
+
+    const result = fieldValidationService.validateFrontmatter(
+      {pages: 'many', read: 'maybe', published: 'someday', genres: 'horror'}, 'book', mockLogManager
+    );
+
+    expect(result.frontmatter).toEqual({pages: 'many', read: 'maybe', published: 'someday', genres: 'horror'});
+    expect(result.diagnostics).toHaveLength(4);
+    expect(result.diagnostics.some(d => d.coerced)).toBe(false);
+  });
+
+  it('should use the most specific field definition', () => {
+    mockMetadataMenuAdapter.getFileClassAndAncestorsFields.mockReturnValue([
+      {name: 'rating', type: 'Input'},
+      {name: 'rating', type: 'Number'},
+    ]);
+
+    const result = fieldValidationService.validateFrontmatter({rating: 'great'}, 'book', mockLogManager);
+
+    expect(result.diagnostics).toEqual([
+      {property: 'rating', fieldType: 'Number', value: 'great', message: 'Expected a number', coerced: false},
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+import {injectable, inject} from 'inversify';
+import type {MetaFlowSettings} from "../settings/types";
+import type {MetadataMenuAdapter} from "../externalApi/MetadataMenuAdapter";
+import type {MetadataMenuField} from "../externalApi/types.MetadataMenu";
+import type {LogManagerInterface} from "../managers/types";
+import {TYPES} from '../di/types';
+
+export interface FieldDiagnostic {
+  property: string;
+  fieldType: MetadataMenuField['type'];
+  value: any;
+  message: string;
+  // true when the value has been replaced by coercedValue
+  coerced: boolean;
+  coercedValue?: any;
+}
+
+export interface FieldValidationResult {
+  frontmatter: {[key: string]: any};
+  diagnostics: FieldDiagnostic[];
+}
+
+interface FieldCheck {
+  valid: boolean;
+  message?: string;
+  // set when the value can be converted to a valid one
+  coercedValue?: any;
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', 'on', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', 'off', '0'];
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const DEFAULT_DATETIME_FORMAT = 'YYYY-MM-DDTHH:mm';
+
+/**
+ * Checks frontmatter values against the MetadataMenu field types and Select options
+ * and optionally coerces them (e.g. "42" to 42, "yes" to true, scalar to list for Multi types)
+ */
+@injectable()
+export class FieldValidationService {
+  private metaFlowSettings: MetaFlowSettings;
+  private metadataMenuAdapter: MetadataMenuAdapter;
+
+  constructor(
+    @inject(TYPES.MetaFlowSettings) metaFlowSettings: MetaFlowSettings,
+    @inject(TYPES.MetadataMenuAdapter) metadataMenuAdapter: MetadataMenuAdapter
+  ) {
+    this.metaFlowSettings = metaFlowSettings;
+    this.metadataMenuAdapter = metadataMenuAdapter;
+  }
+
+  /**
+   * Validate the frontmatter values against the fields of the fileClass and its ancestors
+   * empty values (null, undefined, '') are not checked as they are placeholders of missing values
+   * @returns the frontmatter, with coerced values when coerceFieldValues is enabled, and the diagnostics
+   */
+  validateFrontmatter(
+    frontmatter: {[key: string]: any},
+    fileClass: string,
+    logManager: LogManagerInterface
+  ): FieldValidationResult {
+    const diagnostics: FieldDiagnostic[] = [];
+    if (!this.metaFlowSettings.validateFieldTypes) {
+      return {frontmatter, diagnostics};
+    }
+
+    const result = {...frontmatter};
+    for (const diagnostic of this.findInvalidValues(frontmatter, fileClass, logManager)) {
+      const value = diagnostic.value;
+      if (this.metaFlowSettings.coerceFieldValues && diagnostic.coercedValue !== undefined) {
+        diagnostic.coerced = true;
+        result[diagnostic.property] = diagnostic.coercedValue;
+        logManager.addInfo(`Property "${diagnostic.property}": ${diagnostic.message}, coerced ${this.formatValue(value)} to ${this.formatValue(diagnostic.coercedValue)}`);
+      } else {
+        delete diagnostic.coercedValue;
+        logManager.addWarning(`Property "${diagnostic.property}": ${diagnostic.message} (${this.formatValue(value)})`);
+      }
+      diagnostics.push(diagnostic);
+    }
+
+    return {frontmatter: result, diagnostics};
+  }
+
+  /**
+   * List the values not matching their field type, whatever the validation settings
+   * the diagnostics are not coerced but hold the coercedValue when the value can be converted
+   */
+  findInvalidValues(
+    frontmatter: {[key: string]: any},
+    fileClass: string,
+    logManager: LogManagerInterface
+  ): FieldDiagnostic[] {
+    // the most specific fileClass field wins when an ancestor defines the same field
+    const fields = new Map<string, MetadataMenuField>();
+    this.metadataMenuAdapter.getFileClassAndAncestorsFields(fileClass, logManager)
+      .forEach(field => fields.set(field.name, field));
+
+    const diagnostics: FieldDiagnostic[] = [];
+    for (const [property, field] of fields) {
+      const value = frontmatter[property];
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+      const check = this.checkValue(value, field);
+      if (check.valid) {
+        continue;
+      }
+      const diagnostic: FieldDiagnostic = {
+        property,
+        fieldType: field.type,
+        value,
+        message: check.message || `Invalid ${field.type} value`,
+        coerced: false,
+      };
+      if (check.coercedValue !== undefined) {
+        diagnostic.coercedValue = check.coercedValue;
+      }
+      diagnostics.push(diagnostic);
+    }
+    return diagnostics;
+  }
+
+  checkValue(value: any, field: MetadataMenuField): FieldCheck {
+    switch (field.type) {
+      case 'Number':
+        return this.checkNumber(value);
+      case 'Boolean':
+        return this.checkBoolean(value);
+      case 'Date':
+        return this.checkDate(value, field.options?.dateFormat || DEFAULT_DATE_FORMAT);
+      case 'DateTime':
+        return this.checkDate(value, field.options?.dateFormat || DEFAULT_DATETIME_FORMAT);
+      case 'Select':
+        return this.checkSelect(value, field);
+      case 'MultiSelect':
+        return this.checkList(value, item => this.checkSelect(item, field));
+      case 'File':
+        return this.checkScalar(value, 'File');
+      case 'MultiFile':
+        return this.checkList(value, item => this.checkScalar(item, 'MultiFile'));
+      case 'Input':
+        return this.checkScalar(value, 'Input');
+      default:
+        return {valid: true};
+    }
+  }
+
+  private checkNumber(value: any): FieldCheck {
+    if (typeof value === 'number' && !isNaN(value)) {
+      return {valid: true};
+    }
+    const message = 'Expected a number';
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      return {valid: false, message, coercedValue: Number(value)};
+    }
+    return {valid: false, message};
+  }
+
+  private checkBoolean(value: any): FieldCheck {
+    if (typeof value === 'boolean') {
+      return {valid: true};
+    }
+    const message = 'Expected a boolean';
+    const normalized = String(value).trim().toLowerCase();
+    if (typeof value !== 'object' && TRUE_VALUES.includes(normalized)) {
+      return {valid: false, message, coercedValue: true};
+    }
+    if (typeof value !== 'object' && FALSE_VALUES.includes(normalized)) {
+      return {valid: false, message, coercedValue: false};
+    }
+    return {valid: false, message};
+  }
+
+  private checkDate(value: any, format: string): FieldCheck {
+    const message = `Expected a date formatted as ${format}`;
+    if (typeof value !== 'string' && !(value instanceof Date)) {
+      return {valid: false, message};
+    }
+    const moment = window.moment;
+    if (!moment) {
+      // without moment, only check that the value is a date
+      return isNaN(new Date(value).getTime()) ? {valid: false, message} : {valid: true};
+    }
+    if (typeof value === 'string' && moment(value, format, true).isValid()) {
+      return {valid: true};
+    }
+    const date = value instanceof Date ? moment(value) : moment(new Date(value));
+    if (date.isValid()) {
+      return {valid: false, message, coercedValue: date.format(format)};
+    }
+    return {valid: false, message};
+  }
+
+  private checkSelect(value: any, field: MetadataMenuField): FieldCheck {
+    if (Array.isArray(value)) {
+      const message = 'Expected a single value';
+      return value.length === 1 && this.checkSelect(value[0], field).valid ?
+        {valid: false, message, coercedValue: value[0]} :
+        {valid: false, message};
+    }
+    if (typeof value === 'object') {
+      return {valid: false, message: 'Expected a single value'};
+    }
+    const allowedValues = this.getSelectValues(field);
+    if (allowedValues && !allowedValues.includes(String(value))) {
+      return {valid: false, message: `"${value}" is not one of the allowed values ${allowedValues.join(', ')}`};
+    }
+    return {valid: true};
+  }
+
+  private checkScalar(value: any, type: string): FieldCheck {
+    if (typeof value === 'object') {
+      return {valid: false, message: `Expected a single ${type} value`};
+    }
+    return {valid: true};
+  }
+
+  /**
+   * Multi types expect a list, a valid scalar can be coerced to a one item list
+   */
+  private checkList(value: any, checkItem: (item: any) => FieldCheck): FieldCheck {
+    if (!Array.isArray(value)) {
+      const message = 'Expected a list';
+      return checkItem(value).valid ? {valid: false, message, coercedValue: [value]} : {valid: false, message};
+    }
+    for (const item of value) {
+      const check = checkItem(item);
+      if (!check.valid) {
+        return {valid: false, message: check.message};
+      }
+    }
+    return {valid: true};
+  }
+
+  /**
+   * Allowed values of a Select/MultiSelect field, null when the values come from a note or a query
+   */
+  private getSelectValues(field: MetadataMenuField): string[] | null {
+    const sourceType = field.options?.sourceType;
+    const valuesList = field.options?.valuesList;
+    if ((sourceType && sourceType !== 'ValuesList') || !valuesList) {
+      return null;
+    }
+    const values = Array.isArray(valuesList) ? valuesList : Object.values(valuesList);
+    return values.length > 0 ? values.map(String) : null;
+  }
+
+  private formatValue(value: any): string {
+    return JSON.stringify(value);
+  }
+}
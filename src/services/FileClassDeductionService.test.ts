@@ -1,5 +1,5 @@
 import {FileClassDeductionService} from "./FileClassDeductionService";
-import {MetaFlowSettings} from "../settings/types";
+import {DeductionCondition, FileClassDeductionRule, FolderFileClassMapping, FolderPatternKind, MetaFlowSettings} from "../settings/types";
 import {DEFAULT_SETTINGS} from "../settings/defaultSettings";
 
 describe('FileClassDeductionService', () => {
@@ -13,9 +13,9 @@ describe('FileClassDeductionService', () => {
     mockMetaFlowSettings = {
       ...DEFAULT_SETTINGS,
       folderFileClassMappings: [
-        {folder: '/', fileClass: 'default', templateMode: 'template', moveToFolder: false, noteTitleScript: {enabled: false, script: ''}, noteTitleTemplates: []},
         {folder: 'books', fileClass: 'book', templateMode: 'template', moveToFolder: false, noteTitleScript: {enabled: false, script: ''}, noteTitleTemplates: []},
-        {folder: 'articles', fileClass: 'article', templateMode: 'template', moveToFolder: false, noteTitleScript: {enabled: false, script: ''}, noteTitleTemplates: []}
+        {folder: 'articles', fileClass: 'article', templateMode: 'template', moveToFolder: false, noteTitleScript: {enabled: false, script: ''}, noteTitleTemplates: []},
+        {folder: '/', fileClass: 'default', templateMode: 'template', moveToFolder: false, noteTitleScript: {enabled: false, script: ''}, noteTitleTemplates: []}
       ]
     };
 
@@ -66,6 +66,109 @@ describe('FileClassDeductionService', () => {
     });
   });
 
+  describe('pattern kinds', () => {
+    const mapping = (folder: string, patternKind: FolderPatternKind, fileClass: string): FolderFileClassMapping => ({
+      folder, patternKind, fileClass, templateMode: 'template', moveToFolder: false, noteTitleScript: {enabled: false, script: ''}, noteTitleTemplates: []
+    });
+
+    it('should evaluate mappings in list order, first match wins', () => {
+      mockMetaFlowSettings.folderFileClassMappings = [
+        mapping('/', 'prefix', 'default'),
+        mapping('books', 'prefix', 'book'),
+      ];
+      expect(fileClassDeductionService.deduceFileClassFromPath('books/my-book.md')).toBe('default');
+    });
+
+    it('should match glob patterns', () => {
+      mockMetaFlowSettings.folderFileClassMappings = [
+        mapping('Notes/*', 'glob', 'note'),
+        mapping('Books/**/*.{md,txt}', 'glob', 'book'),
+        mapping('Journal/202?/**', 'glob', 'journal'),
+      ];
+      expect(fileClassDeductionService.deduceFileClassFromPath('Notes/idea.md')).toBe('note');
+      expect(fileClassDeductionService.deduceFileClassFromPath('Notes/sub/idea.md')).toBeNull();
+      expect(fileClassDeductionService.deduceFileClassFromPath('Books/Dune.md')).toBe('book');
+      expect(fileClassDeductionService.deduceFileClassFromPath('Books/sf/Dune.md')).toBe('book');
+      expect(fileClassDeductionService.deduceFileClassFromPath('Journal/2025/01/today.md')).toBe('journal');
+      expect(fileClassDeductionService.deduceFileClassFromPath('Journal/1999/today.md')).toBeNull();
+    });
+
+    it('should match regex patterns from the start of the path', () => {
+      mockMetaFlowSettings.folderFileClassMappings = [
+        mapping('Books/.*', 'regex', 'book'),
+        mapping('.*\\.md$', 'regex', 'default'),
+      ];
+      expect(fileClassDeductionService.deduceFileClassFromPath('Books/Dune.md')).toBe('book');
+      expect(fileClassDeductionService.deduceFileClassFromPath('Archive/Books/Dune.md')).toBe('default');
+    });
+
+    it('should recognise the folders of the move target template as home folders', () => {
+      mockMetaFlowSettings.folderFileClassMappings = [
+        {...mapping('Inbox/Books', 'prefix', 'book'), moveTargetTemplate: 'Library/{{author}}/{{date:YYYY}}'},
+        mapping('/', 'prefix', 'default'),
+      ];
+      expect(fileClassDeductionService.deduceFileClassFromPath('Library/Tolkien/1954/The Hobbit.md')).toBe('book');
+      expect(fileClassDeductionService.deduceFileClassFromPath('Library/Tolkien.md')).toBe('default');
+    });
+
+    it('should never match an invalid regex', () => {
+      mockMetaFlowSettings.folderFileClassMappings = [
+        mapping('Books/(', 'regex', 'book'),
+        mapping('/', 'prefix', 'default'),
+      ];
+      expect(fileClassDeductionService.deduceFileClassFromPath('Books/Dune.md')).toBe('default');
+    });
+  });
+
+  describe('deduceFileClass', () => {
+    const rule = (name: string, fileClass: string, conditions: DeductionCondition[]): FileClassDeductionRule => ({
+      name, fileClass, enabled: true, conditions
+    });
+
+    beforeEach(() => {
+      mockMetaFlowSettings.fileClassDeductionRules = [
+        rule('Meetings', 'meeting', [{type: 'tag', value: '#meeting'}]),
+        rule('Daily notes', 'daily', [{type: 'path', value: 'Journal'}, {type: 'filename', value: '^\\d{4}-\\d{2}-\\d{2}$'}]),
+        rule('Projects', 'project', [{type: 'property', value: 'status', propertyValue: 'active'}]),
+        rule('Recipes', 'recipe', [{type: 'body', value: '^## Ingredients'}]),
+      ];
+    });
+
+    it('should deduce the fileClass from frontmatter and inline tags, subtags included', () => {
+      expect(fileClassDeductionService.deduceFileClass('shared/standup.md', {tags: ['work', 'meeting/weekly']}, '')).toEqual({
+        fileClass: 'meeting', source: 'rule "Meetings"', reasons: ['tag #meeting/weekly'],
+      });
+      expect(fileClassDeductionService.deduceFileClass('shared/standup.md', {}, 'Notes of the #Meeting')?.fileClass).toBe('meeting');
+      expect(fileClassDeductionService.deduceFileClass('shared/standup.md', {tags: 'meetings'}, '')?.fileClass).toBe('default');
+    });
+
+    it('should require every condition of a rule to match', () => {
+      expect(fileClassDeductionService.deduceFileClass('Journal/2025-01-31.md', {}, '')).toEqual({
+        fileClass: 'daily', source: 'rule "Daily notes"', reasons: ['path matches "Journal"', 'filename matches /^\\d{4}-\\d{2}-\\d{2}$/'],
+      });
+      expect(fileClassDeductionService.deduceFileClass('Journal/ideas.md', {}, '')?.fileClass).toBe('default');
+    });
+
+    it('should match property values and body content', () => {
+      expect(fileClassDeductionService.deduceFileClass('shared/app.md', {status: 'active'}, '')?.reasons)
+        .toEqual(['property "status" is "active"']);
+      expect(fileClassDeductionService.deduceFileClass('shared/app.md', {status: 'done'}, '')?.fileClass).toBe('default');
+      expect(fileClassDeductionService.deduceFileClass('shared/cake.md', {}, '# Cake\n## Ingredients\n- eggs')?.fileClass).toBe('recipe');
+    });
+
+    it('should skip disabled rules and fall back to the folder mappings', () => {
+      mockMetaFlowSettings.fileClassDeductionRules[0].enabled = false;
+      expect(fileClassDeductionService.deduceFileClass('books/standup.md', {tags: ['meeting']}, '')).toEqual({
+        fileClass: 'book', source: 'folder mapping', reasons: ['path matches prefix "books"'],
+      });
+    });
+
+    it('should return null when nothing matches', () => {
+      mockMetaFlowSettings.folderFileClassMappings = [];
+      expect(fileClassDeductionService.deduceFileClass('shared/note.md', {}, '')).toBeNull();
+    });
+  });
+
   describe('validateFileClassAgainstMapping', () => {
     it('should return true when fileClass matches deduced fileClass', () => {
       const result = fileClassDeductionService.validateFileClassAgainstMapping('books/my-book.md', 'book');
@@ -1,10 +1,19 @@
 import {injectable, inject} from 'inversify';
-import type {MetaFlowSettings} from "../settings/types";
+import type {DeductionCondition, FileClassDeductionRule, FolderFileClassMapping, MetaFlowSettings} from "../settings/types";
 import type {ObsidianAdapter} from "../externalApi/ObsidianAdapter";
 import type {MetadataMenuAdapter} from "../externalApi/MetadataMenuAdapter";
 import type {FrontMatterService} from "./FrontMatterService";
+import {FolderPattern} from "../utils/FolderPattern";
 import {TYPES} from '../di/types';
 
+export interface FileClassDeduction {
+  fileClass: string;
+  // rule or folder mapping that gave the fileClass
+  source: string;
+  // why it matched, one reason per condition
+  reasons: string[];
+}
+
 @injectable()
 export class FileClassDeductionService {
   private metaFlowSettings: MetaFlowSettings;
@@ -25,25 +34,137 @@ export class FileClassDeductionService {
   }
 
   /**
-   * Deduce fileClass from folder path using the mapping settings
+   * Deduce fileClass from the deduction rules, then from the folder/fileClass mappings
    */
-  deduceFileClassFromPath(filePath: string): string | null {
+  deduceFileClass(filePath: string, metadata: {[key: string]: any}, body: string): FileClassDeduction | null {
     const cleanFilePath = this.obsidianAdapter.normalizePath(filePath);
+    for (const [index, rule] of this.metaFlowSettings.fileClassDeductionRules.entries()) {
+      if (!rule.enabled || !rule.fileClass || rule.conditions.length === 0) {
+        continue;
+      }
+      const reasons = this.matchRule(rule, cleanFilePath, metadata || {}, body);
+      if (reasons) {
+        return {fileClass: rule.fileClass, source: `rule "${rule.name || `#${index + 1}`}"`, reasons};
+      }
+    }
+
+    const mapping = this.getMatchingMapping(cleanFilePath);
+    if (mapping) {
+      return {
+        fileClass: mapping.fileClass,
+        source: 'folder mapping',
+        reasons: [`path matches ${mapping.patternKind || 'prefix'} "${mapping.folder}"`],
+      };
+    }
+    return null;
+  }
 
-    // Sort mappings by folder specificity (most specific first)
-    const sortedMappings = [...this.metaFlowSettings.folderFileClassMappings].sort((a, b) => {
-      if (a.folder === '/') return 1;  // Root always last
-      if (b.folder === '/') return -1;
-      return b.folder.length - a.folder.length; // Longer paths first
-    });
+  describeDeduction(deduction: FileClassDeduction): string {
+    return `${deduction.source} (${deduction.reasons.join(', ')})`;
+  }
 
-    for (const mapping of sortedMappings) {
-      const folderPrefix = this.obsidianAdapter.folderPrefix(mapping.folder);
-      if (folderPrefix === '/' || cleanFilePath.startsWith(folderPrefix)) {
-        return mapping.fileClass;
+  /**
+   * @returns the reason of every condition, or null as soon as a condition does not match
+   */
+  private matchRule(
+    rule: FileClassDeductionRule, filePath: string, metadata: {[key: string]: any}, body: string
+  ): string[] | null {
+    const reasons: string[] = [];
+    for (const condition of rule.conditions) {
+      let reason: string | null;
+      try {
+        reason = this.matchCondition(condition, filePath, metadata, body);
+      } catch (error) {
+        // invalid pattern, the condition never matches
+        reason = null;
       }
+      if (reason === null) {
+        return null;
+      }
+      reasons.push(reason);
+    }
+    return reasons;
+  }
+
+  private matchCondition(
+    condition: DeductionCondition, filePath: string, metadata: {[key: string]: any}, body: string
+  ): string | null {
+    switch (condition.type) {
+      case 'path':
+        return FolderPattern.createMatcher(condition.value, condition.patternKind || 'prefix')(filePath) ?
+          `path matches "${condition.value}"` :
+          null;
+      case 'tag': {
+        const tag = condition.value.replace(/^#/, '').toLowerCase();
+        const noteTag = this.getTags(metadata, body).find(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`));
+        return noteTag ? `tag #${noteTag}` : null;
+      }
+      case 'filename': {
+        const basename = (filePath.split('/').pop() || '').replace(/\.[^.]+$/, '');
+        return new RegExp(condition.value).test(basename) ? `filename matches /${condition.value}/` : null;
+      }
+      case 'property': {
+        const value = metadata[condition.value];
+        if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+          return null;
+        }
+        if (!condition.propertyValue) {
+          return `property "${condition.value}" is set`;
+        }
+        const values = Array.isArray(value) ? value : [value];
+        return values.some(v => String(v) === condition.propertyValue) ?
+          `property "${condition.value}" is "${condition.propertyValue}"` :
+          null;
+      }
+      case 'body':
+        return new RegExp(condition.value, 'm').test(body) ? `body matches /${condition.value}/` : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Tags of the frontmatter (tags or tag property) and inline tags of the body, without #
+   */
+  private getTags(metadata: {[key: string]: any}, body: string): string[] {
+    const frontmatterTags = metadata.tags ?? metadata.tag ?? [];
+    const tags: string[] = (Array.isArray(frontmatterTags) ? frontmatterTags : String(frontmatterTags).split(/[,\s]+/))
+      .map(tag => String(tag).trim().replace(/^#/, ''))
+      .filter(tag => tag !== '');
+    for (const match of body.matchAll(/(?:^|\s)#([^\s#,.;:!?()[\]{}"'`]+)/g)) {
+      tags.push(match[1]);
+    }
+    return tags;
+  }
+
+  /**
+   * Deduce fileClass from folder path using the mapping settings
+   */
+  deduceFileClassFromPath(filePath: string): string | null {
+    return this.getMatchingMapping(filePath)?.fileClass ?? null;
+  }
+
+  /**
+   * First mapping, in settings order, whose pattern matches the file path
+   */
+  getMatchingMapping(filePath: string): FolderFileClassMapping | null {
+    const cleanFilePath = this.obsidianAdapter.normalizePath(filePath);
+    return this.metaFlowSettings.folderFileClassMappings.find(mapping => this.matchesMapping(mapping, cleanFilePath)) || null;
+  }
+
+  /**
+   * The folders the notes are moved to by the move target template of the mapping are home folders of the mapping too,
+   * an invalid pattern never matches
+   */
+  matchesMapping(mapping: FolderFileClassMapping, filePath: string): boolean {
+    if (mapping.moveTargetTemplate?.trim() && FolderPattern.createTemplateMatcher(mapping.moveTargetTemplate.trim())(filePath)) {
+      return true;
+    }
+    try {
+      return FolderPattern.createMatcher(mapping.folder, mapping.patternKind || 'prefix')(filePath);
+    } catch (error) {
+      return false;
     }
-    return null;
   }
 
   /**
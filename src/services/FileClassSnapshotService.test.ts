@@ -0,0 +1,107 @@
+import {TFile} from "obsidian";
+import {FileClassSnapshotService} from "./FileClassSnapshotService";
+
+describe('FileClassSnapshotService', () => {
+  let fileClassSnapshotService: FileClassSnapshotService;
+  let mockApp: any;
+  let mockObsidianAdapter: any;
+  let dataFiles: {[path: string]: string};
+  let frontmatters: {[path: string]: any};
+  let files: TFile[];
+
+  const createFile = (path: string): TFile => {
+    const file = Object.create(TFile.prototype);
+    Object.assign(file, {path, name: path.split('/').pop(), extension: 'md'});
+    return file;
+  };
+  const savedSnapshot = () => JSON.parse(dataFiles['plugin/fileclass-snapshot.json']);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    dataFiles = {};
+    frontmatters = {
+      'Books/dune.md': {fileClass: 'book'},
+      'Books/emma.md': {fileClass: 'book'},
+      'Inbox/idea.md': {},
+    };
+    files = Object.keys(frontmatters).map(createFile);
+
+    mockApp = {
+      vault: {getMarkdownFiles: jest.fn(() => files)},
+      metadataCache: {getFileCache: jest.fn((file: TFile) => ({frontmatter: frontmatters[file.path]}))},
+    };
+    mockObsidianAdapter = {
+      readDataFile: jest.fn(async (path: string) => dataFiles[path] ?? null),
+      writeDataFile: jest.fn(async (path: string, content: string) => {
+        dataFiles[path] = content;
+      }),
+    };
+    const mockFileClassDeductionService: any = {
+      getFileClassFromMetadata: jest.fn((metadata: any) => metadata?.fileClass || null),
+    };
+
+    fileClassSnapshotService = new FileClassSnapshotService(
+      mockApp, {debugMode: false} as any, mockObsidianAdapter, mockFileClassDeductionService, 'plugin'
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should only save the snapshot on the first run', async () => {
+    const changes = await fileClassSnapshotService.reconcile();
+
+    expect(changes).toEqual([]);
+    expect(savedSnapshot()).toEqual({'Books/dune.md': 'book', 'Books/emma.md': 'book', 'Inbox/idea.md': ''});
+  });
+
+  it('should find the fileClass changes made since the snapshot was saved', async () => {
+    dataFiles['plugin/fileclass-snapshot.json'] = JSON.stringify({'Books/dune.md': 'article', 'Books/emma.md': 'book', 'Inbox/idea.md': 'idea', 'Old.md': 'book'});
+    files.push(createFile('Books/new.md'));
+    frontmatters['Books/new.md'] = {fileClass: 'book'};
+
+    const changes = await fileClassSnapshotService.reconcile();
+
+    expect(changes.map(change => [change.file.path, change.oldFileClass, change.newFileClass])).toEqual([
+      ['Books/dune.md', 'article', 'book'],
+      ['Inbox/idea.md', 'idea', ''],
+      ['Books/new.md', '', 'book'],
+    ]);
+    // the pending changes keep their old fileClass until they are processed
+    expect(savedSnapshot()).toEqual({'Books/dune.md': 'article', 'Books/emma.md': 'book', 'Inbox/idea.md': 'idea', 'Books/new.md': ''});
+    expect(fileClassSnapshotService.getPendingChanges()).toEqual(changes);
+  });
+
+  it('should record the resolved changes', async () => {
+    dataFiles['plugin/fileclass-snapshot.json'] = JSON.stringify({'Books/dune.md': 'article', 'Books/emma.md': 'article'});
+    const changes = await fileClassSnapshotService.reconcile();
+
+    await fileClassSnapshotService.resolveChanges([changes[0]]);
+
+    expect(fileClassSnapshotService.getPendingChanges().map(change => change.file.path)).toEqual(['Books/emma.md']);
+    expect(savedSnapshot()['Books/dune.md']).toBe('book');
+    expect(savedSnapshot()['Books/emma.md']).toBe('article');
+  });
+
+  it('should record the changes made while running and save them after a delay', async () => {
+    await fileClassSnapshotService.reconcile();
+    frontmatters['Books/dune.md'] = {fileClass: 'novel'};
+
+    fileClassSnapshotService.recordFileClass(files[0]);
+    files[1].path = 'Archive/emma.md';
+    fileClassSnapshotService.recordRename(files[1], 'Books/emma.md');
+    fileClassSnapshotService.recordDelete(files[2]);
+    expect(savedSnapshot()['Books/dune.md']).toBe('book');
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(savedSnapshot()).toEqual({'Books/dune.md': 'novel', 'Archive/emma.md': 'book'});
+  });
+
+  it('should not record anything before the reconciliation', async () => {
+    fileClassSnapshotService.recordFileClass(files[0]);
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(mockObsidianAdapter.writeDataFile).not.toHaveBeenCalled();
+  });
+});
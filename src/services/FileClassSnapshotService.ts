@@ -0,0 +1,169 @@
+import {injectable, inject} from 'inversify';
+import type {App, TFile} from "obsidian";
+import type {ObsidianAdapter} from "../externalApi/ObsidianAdapter";
+import type {FileClassDeductionService} from "./FileClassDeductionService";
+import type {MetaFlowSettings} from "../settings/types";
+import {TYPES} from '../di/types';
+
+export interface OfflineFileClassChange {
+  file: TFile;
+  // fileClass recorded in the snapshot, empty for a note created while MetaFlow was not running
+  oldFileClass: string;
+  newFileClass: string;
+}
+
+/**
+ * Last fileClass seen for each note, persisted in the plugin data folder, so the fileClass changes made
+ * while MetaFlow was not running (edits outside of Obsidian, Obsidian Sync, git pull) are found at startup
+ */
+@injectable()
+export class FileClassSnapshotService {
+  private static readonly SNAPSHOT_FILE = 'fileclass-snapshot.json';
+  private static readonly SAVE_DELAY_MS = 2000;
+
+  private app: App;
+  private settings: MetaFlowSettings;
+  private obsidianAdapter: ObsidianAdapter;
+  private fileClassDeductionService: FileClassDeductionService;
+  private pluginDataFolder: string;
+
+  // null until reconciled, the changes seen before are not recorded
+  private snapshot: {[path: string]: string} | null = null;
+  private pendingChanges: OfflineFileClassChange[] = [];
+  private saveTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    @inject(TYPES.App) app: App,
+    @inject(TYPES.MetaFlowSettings) settings: MetaFlowSettings,
+    @inject(TYPES.ObsidianAdapter) obsidianAdapter: ObsidianAdapter,
+    @inject(TYPES.FileClassDeductionService) fileClassDeductionService: FileClassDeductionService,
+    @inject(TYPES.PluginDataFolder) pluginDataFolder: string
+  ) {
+    this.app = app;
+    this.settings = settings;
+    this.obsidianAdapter = obsidianAdapter;
+    this.fileClassDeductionService = fileClassDeductionService;
+    this.pluginDataFolder = pluginDataFolder;
+  }
+
+  /**
+   * Compare the saved snapshot with the metadata cache, to be called once the metadata cache is resolved.
+   * The notes whose fileClass changed keep their old fileClass in the snapshot until they are processed or dismissed,
+   * the first run only saves the snapshot
+   * @returns the notes whose fileClass changed since the snapshot was saved
+   */
+  async reconcile(): Promise<OfflineFileClassChange[]> {
+    const savedSnapshot = await this.loadSnapshot();
+    const currentSnapshot: {[path: string]: string} = {};
+    const changes: OfflineFileClassChange[] = [];
+    this.app.vault.getMarkdownFiles().forEach(file => {
+      const fileClass = this.getFileClass(file);
+      currentSnapshot[file.path] = fileClass;
+      const oldFileClass = savedSnapshot?.[file.path] || '';
+      if (savedSnapshot && fileClass !== oldFileClass) {
+        changes.push({file, oldFileClass, newFileClass: fileClass});
+        currentSnapshot[file.path] = oldFileClass;
+      }
+    });
+    if (this.settings.debugMode) console.debug(`FileClassSnapshotService: ${changes.length} fileClass changes since the last snapshot`, changes);
+    this.snapshot = currentSnapshot;
+    this.pendingChanges = changes;
+    await this.save();
+    return changes;
+  }
+
+  getPendingChanges(): OfflineFileClassChange[] {
+    return this.pendingChanges;
+  }
+
+  /**
+   * Record the current fileClass of the processed or dismissed changes
+   */
+  async resolveChanges(changes: OfflineFileClassChange[]): Promise<void> {
+    if (!this.snapshot) {
+      return;
+    }
+    for (const change of changes) {
+      this.pendingChanges = this.pendingChanges.filter(pendingChange => pendingChange.file !== change.file);
+      this.snapshot[change.file.path] = this.getFileClass(change.file);
+    }
+    await this.save();
+  }
+
+  /**
+   * Record the fileClass of a note modified while MetaFlow is running, the notes with a pending change are left as is
+   */
+  recordFileClass(file: TFile): void {
+    if (!this.snapshot || this.isPending(file)) {
+      return;
+    }
+    const fileClass = this.getFileClass(file);
+    if (this.snapshot[file.path] === fileClass) {
+      return;
+    }
+    this.snapshot[file.path] = fileClass;
+    this.scheduleSave();
+  }
+
+  recordRename(file: TFile, oldPath: string): void {
+    if (!this.snapshot || !(oldPath in this.snapshot)) {
+      return;
+    }
+    this.snapshot[file.path] = this.snapshot[oldPath];
+    delete this.snapshot[oldPath];
+    this.scheduleSave();
+  }
+
+  recordDelete(file: TFile): void {
+    if (!this.snapshot) {
+      return;
+    }
+    this.pendingChanges = this.pendingChanges.filter(change => change.file !== file);
+    if (file.path in this.snapshot) {
+      delete this.snapshot[file.path];
+      this.scheduleSave();
+    }
+  }
+
+  async save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    if (!this.snapshot) {
+      return;
+    }
+    await this.obsidianAdapter.writeDataFile(this.getSnapshotPath(), JSON.stringify(this.snapshot));
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.save().catch(error => console.error('MetaFlow: Error saving the fileClass snapshot', error));
+    }, FileClassSnapshotService.SAVE_DELAY_MS);
+  }
+
+  private async loadSnapshot(): Promise<{[path: string]: string} | null> {
+    try {
+      const content = await this.obsidianAdapter.readDataFile(this.getSnapshotPath());
+      return content ? JSON.parse(content) : null;
+    } catch (error) {
+      console.error('MetaFlow: Error reading the fileClass snapshot', error);
+      return null;
+    }
+  }
+
+  private isPending(file: TFile): boolean {
+    return this.pendingChanges.some(change => change.file === file);
+  }
+
+  private getFileClass(file: TFile): string {
+    return this.fileClassDeductionService.getFileClassFromMetadata(this.app.metadataCache.getFileCache(file)?.frontmatter) || '';
+  }
+
+  private getSnapshotPath(): string {
+    return `${this.pluginDataFolder}/${FileClassSnapshotService.SNAPSHOT_FILE}`;
+  }
+}
@@ -3,6 +3,8 @@ import {FileOperationsService} from "./FileOperationsService";
 import {MetaFlowSettings} from "../settings/types";
 import {DEFAULT_SETTINGS} from "../settings/defaultSettings";
 import {LogManagerInterface} from "../managers/types";
+import {NoteTitleService} from "./NoteTitleService";
+import moment from 'moment';
 
 // Mock Obsidian modules
 jest.mock('obsidian', () => ({
@@ -10,6 +12,13 @@ jest.mock('obsidian', () => ({
   TFolder: jest.fn(),
 }));
 
+const mockCollisionModalOpen = jest.fn();
+jest.mock('../ui/CollisionModal', () => ({
+  CollisionModal: jest.fn().mockImplementation((app, note, existingNote, actions, chooseCallback) => ({
+    open: () => mockCollisionModalOpen(note, existingNote, actions, chooseCallback),
+  })),
+}));
+
 describe('FileOperationsService', () => {
   let fileOperationsService: FileOperationsService;
   let mockApp: any;
@@ -17,6 +26,7 @@ describe('FileOperationsService', () => {
   let mockObsidianAdapter: any;
   let mockFileValidationService: any;
   let mockNoteTitleService: any;
+  let mockMetaFlowEventService: any;
   let mockFile: TFile;
   let mockLogManager: LogManagerInterface;
 
@@ -57,7 +67,7 @@ describe('FileOperationsService', () => {
     };
 
     mockObsidianAdapter = {
-      normalizePath: jest.fn().mockImplementation((path: string) => path),
+      normalizePath: jest.fn().mockImplementation((path: string) => path.replace(/^\/+/, '')),
       moveNote: jest.fn(),
       renameNote: jest.fn().mockResolvedValue({} as TFile),
       isFileExists: jest.fn().mockReturnValue(false),
@@ -71,7 +81,13 @@ describe('FileOperationsService', () => {
     };
 
     mockNoteTitleService = {
-      formatNoteTitle: jest.fn().mockReturnValue('New Title')
+      formatNoteTitle: jest.fn().mockResolvedValue('New Title'),
+      resolvePlaceholders: jest.fn().mockImplementation((template: string) => template)
+    };
+
+    mockMetaFlowEventService = {
+      renamed: jest.fn(),
+      moved: jest.fn(),
     };
 
     mockLogManager = {
@@ -97,7 +113,8 @@ describe('FileOperationsService', () => {
       mockMetaFlowSettings,
       mockObsidianAdapter,
       mockFileValidationService,
-      mockNoteTitleService
+      mockNoteTitleService,
+      mockMetaFlowEventService
     );
   });
 
@@ -163,6 +180,16 @@ describe('FileOperationsService', () => {
       consoleSpy.mockRestore();
     });
 
+    it('should leave a note of the vault root at the root', async () => {
+      const rootFile = {...mockFile, parent: null};
+      jest.spyOn(console, 'info').mockImplementation(() => { });
+
+      const result = await fileOperationsService['moveNoteTo'](rootFile as TFile, '', 'book', {});
+
+      expect(result).toBeNull();
+      expect(mockObsidianAdapter.moveNote).not.toHaveBeenCalled();
+    });
+
     it('should move note to target folder', async () => {
       const result = await fileOperationsService.moveNoteToTheRightFolder(mockFile, 'book');
 
@@ -170,11 +197,34 @@ describe('FileOperationsService', () => {
       expect(mockObsidianAdapter.moveNote).toHaveBeenCalledWith(mockFile, 'books/test.md');
     });
 
-    it('should throw error if target file already exists', async () => {
+    it('should trigger the moved event with the old path', async () => {
+      await fileOperationsService.moveNoteToTheRightFolder(mockFile, 'book', {title: 'Test'});
+
+      expect(mockMetaFlowEventService.moved).toHaveBeenCalledWith(mockFile, 'test.md', {title: 'Test'});
+    });
+
+    it('should skip the note if target file already exists', async () => {
       mockObsidianAdapter.isFileExists.mockReturnValue(true);
 
-      await expect(fileOperationsService.moveNoteToTheRightFolder(mockFile, 'book'))
-        .rejects.toThrow('already exists');
+      const result = await fileOperationsService.moveNoteToTheRightFolder(mockFile, 'book', {}, mockLogManager);
+
+      expect(result).toBeNull();
+      expect(mockObsidianAdapter.moveNote).not.toHaveBeenCalled();
+      expect(mockLogManager.addMessage).toHaveBeenCalledWith('Skipped "test.md": "books/test.md" already exists', 'warning');
+    });
+  });
+
+  describe('createNote', () => {
+    it('should create the note with a free name in the folder', async () => {
+      mockApp.vault.create = jest.fn().mockResolvedValue(mockFile);
+      mockObsidianAdapter.isFolderExists.mockReturnValue(false);
+      mockObsidianAdapter.isFileExists.mockImplementation((path: string) => path === 'Books/Untitled.md');
+
+      const file = await fileOperationsService.createNote('/Books/', 'Untitled', '---\nfileClass: book\n---\n');
+
+      expect(file).toBe(mockFile);
+      expect(mockObsidianAdapter.createFolder).toHaveBeenCalledWith('Books');
+      expect(mockApp.vault.create).toHaveBeenCalledWith('Books/Untitled 1.md', '---\nfileClass: book\n---\n');
     });
   });
 
@@ -187,7 +237,7 @@ describe('FileOperationsService', () => {
     });
 
     it('should return null if title does not change', async () => {
-      mockNoteTitleService.formatNoteTitle.mockReturnValue('test'); // Same as basename
+      mockNoteTitleService.formatNoteTitle.mockResolvedValue('test'); // Same as basename
 
       const result = await fileOperationsService.renameNote(mockFile, 'book', {}, mockLogManager);
 
@@ -204,10 +254,11 @@ describe('FileOperationsService', () => {
       expect(result).toBe(newFile);
       expect(mockObsidianAdapter.renameNote).toHaveBeenCalledWith(mockFile, 'New Title.md');
       expect(mockLogManager.addInfo).toHaveBeenCalledWith('Renamed note "test.md" to "New Title.md"');
+      expect(mockMetaFlowEventService.renamed).toHaveBeenCalledWith(newFile, 'test.md', {});
     });
 
     it('should return file if new title would be "Untitled"', async () => {
-      mockNoteTitleService.formatNoteTitle.mockReturnValue('Untitled');
+      mockNoteTitleService.formatNoteTitle.mockResolvedValue('Untitled');
 
       const result = await fileOperationsService.renameNote(mockFile, 'book', {}, mockLogManager);
 
@@ -215,11 +266,304 @@ describe('FileOperationsService', () => {
       expect(mockObsidianAdapter.renameNote).not.toHaveBeenCalled();
     });
 
-    it('should throw error if target file already exists', async () => {
+    it('should skip the note if target file already exists', async () => {
       mockObsidianAdapter.isFileExists.mockReturnValue(true);
 
-      await expect(fileOperationsService.renameNote(mockFile, 'book', {}, mockLogManager))
-        .rejects.toThrow('already exists');
+      const result = await fileOperationsService.renameNote(mockFile, 'book', {}, mockLogManager);
+
+      expect(result).toBeNull();
+      expect(mockObsidianAdapter.renameNote).not.toHaveBeenCalled();
+      expect(mockLogManager.addMessage).toHaveBeenCalledWith('Skipped "test.md": "New Title.md" already exists', 'warning');
+    });
+  });
+
+  describe('renaming history', () => {
+    it('should append the previous name to the aliases when the mapping keeps it', async () => {
+      mockMetaFlowSettings.folderFileClassMappings[1].keepOldNameAsAlias = true;
+      mockObsidianAdapter.renameNote.mockResolvedValue({name: 'New Title.md'} as TFile);
+      const frontmatter: any = {aliases: 'Old alias'};
+      mockApp.fileManager.processFrontMatter.mockImplementation((file: TFile, callback: (frontmatter: any) => void) => {
+        callback(frontmatter);
+        return Promise.resolve();
+      });
+
+      await fileOperationsService.renameNote(mockFile, 'book', {}, mockLogManager);
+
+      expect(frontmatter.aliases).toEqual(['Old alias', 'test']);
+      expect(mockLogManager.addInfo).toHaveBeenCalledWith('Added "test" to the aliases of "New Title.md"');
+    });
+
+    it('should not add aliases by default', async () => {
+      await fileOperationsService.renameNote(mockFile, 'book', {}, mockLogManager);
+
+      expect(mockApp.fileManager.processFrontMatter).not.toHaveBeenCalled();
+    });
+
+    it('should remember the paths renamed and moved by MetaFlow once', async () => {
+      await fileOperationsService.renameNote(mockFile, 'book', {}, mockLogManager);
+      await fileOperationsService.moveNoteToTheRightFolder(mockFile, 'book');
+
+      expect(fileOperationsService.consumeOwnRename('New Title.md')).toBe(true);
+      expect(fileOperationsService.consumeOwnRename('New Title.md')).toBe(false);
+      expect(fileOperationsService.consumeOwnRename('books/test.md')).toBe(true);
+      expect(fileOperationsService.consumeOwnRename('other.md')).toBe(false);
+    });
+
+    it('should forget the path when the rename or the move fails', async () => {
+      mockObsidianAdapter.renameNote.mockRejectedValue(new Error('locked'));
+      mockObsidianAdapter.moveNote.mockRejectedValue(new Error('locked'));
+
+      await expect(fileOperationsService.renameNote(mockFile, 'book', {}, mockLogManager)).rejects.toThrow('locked');
+      await expect(fileOperationsService.moveNoteToTheRightFolder(mockFile, 'book')).rejects.toThrow('locked');
+
+      expect(fileOperationsService.consumeOwnRename('New Title.md')).toBe(false);
+      expect(fileOperationsService.consumeOwnRename('books/test.md')).toBe(false);
+    });
+  });
+
+  describe('syncTitleWithFileName', () => {
+    beforeEach(() => {
+      mockApp.metadataCache = {getFileCache: jest.fn().mockReturnValue({frontmatter: {title: 'Old'}})};
+      mockApp.vault.process = jest.fn();
+    });
+
+    it('should do nothing when the mapping does not sync the title', async () => {
+      expect(await fileOperationsService.syncTitleWithFileName(mockFile, 'book', mockLogManager)).toBe(false);
+      expect(mockApp.fileManager.processFrontMatter).not.toHaveBeenCalled();
+      expect(mockApp.vault.process).not.toHaveBeenCalled();
+    });
+
+    it('should set the title property to the new name', async () => {
+      Object.assign(mockMetaFlowSettings.folderFileClassMappings[1], {titleSyncOnRename: 'property', titleProperty: 'name'});
+      const frontmatter: any = {};
+      mockApp.fileManager.processFrontMatter.mockImplementation((file: TFile, callback: (frontmatter: any) => void) => {
+        callback(frontmatter);
+        return Promise.resolve();
+      });
+
+      expect(await fileOperationsService.syncTitleWithFileName(mockFile, 'book', mockLogManager)).toBe(true);
+      expect(frontmatter).toEqual({name: 'test'});
+      expect(mockLogManager.addInfo).toHaveBeenCalledWith('Set the "name" property of "test.md" to "test"');
+    });
+
+    it('should replace the first H1 heading by the new name', async () => {
+      mockMetaFlowSettings.folderFileClassMappings[1].titleSyncOnRename = 'heading';
+      const content = '---\ntitle: Old\n---\n## Intro\n# Old Title\ntext\n# Other';
+      const start = content.indexOf('# Old Title');
+      mockApp.metadataCache.getFileCache.mockReturnValue({
+        headings: [
+          {level: 2, heading: 'Intro', position: {start: {offset: content.indexOf('## Intro')}, end: {offset: content.indexOf('## Intro') + 8}}},
+          {level: 1, heading: 'Old Title', position: {start: {offset: start}, end: {offset: start + 11}}},
+        ],
+      });
+      let result = '';
+      mockApp.vault.process.mockImplementation(async (file: TFile, callback: (content: string) => string) => {
+        result = callback(content);
+        return result;
+      });
+
+      expect(await fileOperationsService.syncTitleWithFileName(mockFile, 'book', mockLogManager)).toBe(true);
+      expect(result).toBe('---\ntitle: Old\n---\n## Intro\n# test\ntext\n# Other');
+    });
+
+    it('should not touch notes without H1 heading', async () => {
+      mockMetaFlowSettings.folderFileClassMappings[1].titleSyncOnRename = 'heading';
+      mockApp.metadataCache.getFileCache.mockReturnValue({headings: [{level: 2, heading: 'Intro'}]});
+
+      expect(await fileOperationsService.syncTitleWithFileName(mockFile, 'book', mockLogManager)).toBe(false);
+      expect(mockApp.vault.process).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('collision strategies', () => {
+    const existingPaths = new Set<string>();
+
+    beforeEach(() => {
+      existingPaths.clear();
+      existingPaths.add('New Title.md');
+      mockObsidianAdapter.isFileExists.mockImplementation((path: string) => existingPaths.has(path));
+      mockNoteTitleService.resolvePlaceholders = jest.fn().mockImplementation(
+        (template: string, metadata: any) => metadata[template.slice(2, -2)]?.toString() || null
+      );
+    });
+
+    it('should append the first free counter', async () => {
+      mockMetaFlowSettings.folderFileClassMappings[1].collisionStrategy = 'counter';
+      existingPaths.add('New Title (2).md');
+
+      await fileOperationsService.renameNote(mockFile, 'book', {}, mockLogManager);
+
+      expect(mockObsidianAdapter.renameNote).toHaveBeenCalledWith(mockFile, 'New Title (3).md');
+      expect(mockLogManager.addMessage).toHaveBeenCalledWith(
+        '"New Title.md" already exists, "test.md" goes to "New Title (3).md" (counter)', 'info'
+      );
+    });
+
+    it('should append the property value, and a counter when that name is taken too', async () => {
+      mockMetaFlowSettings.folderFileClassMappings[1].collisionStrategy = 'property';
+      mockMetaFlowSettings.folderFileClassMappings[1].collisionProperty = 'year';
+
+      await fileOperationsService.renameNote(mockFile, 'book', {year: 2024}, mockLogManager);
+      expect(mockObsidianAdapter.renameNote).toHaveBeenLastCalledWith(mockFile, 'New Title - 2024.md');
+
+      existingPaths.add('New Title - 2024.md');
+      await fileOperationsService.renameNote(mockFile, 'book', {year: 2024}, mockLogManager);
+      expect(mockObsidianAdapter.renameNote).toHaveBeenLastCalledWith(mockFile, 'New Title - 2024 (2).md');
+    });
+
+    it('should fall back on the counter when the property has no value', async () => {
+      mockMetaFlowSettings.folderFileClassMappings[1].collisionStrategy = 'property';
+      mockMetaFlowSettings.folderFileClassMappings[1].collisionProperty = 'year';
+
+      await fileOperationsService.renameNote(mockFile, 'book', {}, mockLogManager);
+
+      expect(mockObsidianAdapter.renameNote).toHaveBeenCalledWith(mockFile, 'New Title (2).md');
+    });
+
+    it('should resolve move collisions in the target folder', async () => {
+      mockMetaFlowSettings.folderFileClassMappings[1].collisionStrategy = 'counter';
+      existingPaths.add('books/test.md');
+
+      const result = await fileOperationsService.moveNoteToTheRightFolder(mockFile, 'book', {}, mockLogManager);
+
+      expect(result).toBe('books/test (2).md');
+      expect(mockObsidianAdapter.moveNote).toHaveBeenCalledWith(mockFile, 'books/test (2).md');
+    });
+
+    it('should show both notes and apply the chosen resolution', async () => {
+      mockMetaFlowSettings.folderFileClassMappings[1].collisionStrategy = 'prompt';
+      const existingFile = Object.create(TFile.prototype);
+      mockObsidianAdapter.getAbstractFileByPath = jest.fn().mockReturnValue(existingFile);
+      mockApp.vault.cachedRead = jest.fn().mockImplementation(async (file: TFile) => file === mockFile ? 'new' : 'existing');
+      mockCollisionModalOpen.mockImplementation((note, existingNote, actions, chooseCallback) => chooseCallback('counter'));
+
+      await fileOperationsService.renameNote(mockFile, 'book', {}, mockLogManager);
+
+      expect(mockCollisionModalOpen).toHaveBeenCalledWith(
+        {path: 'test.md', content: 'new'}, {path: 'New Title.md', content: 'existing'}, ['counter', 'skip'], expect.any(Function)
+      );
+      expect(mockObsidianAdapter.renameNote).toHaveBeenCalledWith(mockFile, 'New Title (2).md');
+    });
+  });
+
+  describe('getPlannedTitle', () => {
+    it('should return the new title without renaming', async () => {
+      expect(await fileOperationsService.getPlannedTitle(mockFile, 'book', {}, mockLogManager)).toBe('New Title');
+      expect(mockObsidianAdapter.renameNote).not.toHaveBeenCalled();
+    });
+
+    it('should return null when title is unchanged or Untitled', async () => {
+      mockNoteTitleService.formatNoteTitle.mockResolvedValue('test');
+      expect(await fileOperationsService.getPlannedTitle(mockFile, 'book', {}, mockLogManager)).toBeNull();
+      mockNoteTitleService.formatNoteTitle.mockResolvedValue('Untitled');
+      expect(await fileOperationsService.getPlannedTitle(mockFile, 'book', {}, mockLogManager)).toBeNull();
+    });
+  });
+
+  describe('templated move targets', () => {
+    beforeEach(() => {
+      window.moment = moment;
+      const noteTitleService = new NoteTitleService(mockMetaFlowSettings, {} as any);
+      mockNoteTitleService.resolvePlaceholders = noteTitleService.resolvePlaceholders.bind(noteTitleService);
+    });
+
+    afterEach(() => {
+      delete window.moment;
+    });
+
+    it('should resolve the target folder against the metadata and create the missing folders', async () => {
+      mockMetaFlowSettings.folderFileClassMappings[1].moveTargetTemplate = 'Books/{{author}}';
+      mockObsidianAdapter.isFolderExists.mockReturnValue(false);
+
+      const result = await fileOperationsService.moveNoteToTheRightFolder(mockFile, 'book', {author: 'AC/DC: Live'});
+
+      expect(result).toBe('Books/AC-DC- Live/test.md');
+      expect(mockObsidianAdapter.createFolder).toHaveBeenNthCalledWith(1, 'Books');
+      expect(mockObsidianAdapter.createFolder).toHaveBeenNthCalledWith(2, 'Books/AC-DC- Live');
+      expect(mockObsidianAdapter.moveNote).toHaveBeenCalledWith(mockFile, 'Books/AC-DC- Live/test.md');
+    });
+
+    it('should format dates of the metadata', () => {
+      mockMetaFlowSettings.folderFileClassMappings[1].moveTargetTemplate = 'Journal/{{date:YYYY}}/{{date:MM}}';
+
+      expect(fileOperationsService.getPlannedTargetFolder(mockFile, 'book', {date: '2025-03-04'})).toBe('Journal/2025/03');
+    });
+
+    it('should not move the note when the target folder cannot be resolved', async () => {
+      mockMetaFlowSettings.folderFileClassMappings[1].moveTargetTemplate = 'Projects/{{project}}/Meetings';
+
+      expect(fileOperationsService.getPlannedTargetFolder(mockFile, 'book', {})).toBeNull();
+      await expect(fileOperationsService.moveNoteToTheRightFolder(mockFile, 'book', {}))
+        .rejects.toThrow('Cannot resolve the target folder "Projects/{{project}}/Meetings" of fileClass "book": missing metadata');
+      expect(mockObsidianAdapter.moveNote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('property move rules', () => {
+    const archiveRule = (moveBack: boolean) => ({
+      name: 'Archive done projects',
+      enabled: true,
+      fileClass: 'book',
+      conditions: [{property: 'status', operator: 'equals' as const, value: 'done'}],
+      targetFolder: 'Archive/Books',
+      moveBack,
+    });
+
+    it('should move the note to the folder of the first matching rule', async () => {
+      mockMetaFlowSettings.propertyMoveRules = [
+        {...archiveRule(false), conditions: [{property: 'status', operator: 'equals', value: 'cancelled'}]},
+        archiveRule(false),
+      ];
+
+      const result = await fileOperationsService.moveNoteToTheRightFolder(mockFile, 'book', {status: 'done'});
+
+      expect(result).toBe('Archive/Books/test.md');
+    });
+
+    it('should compare numbers and dates', () => {
+      mockMetaFlowSettings.propertyMoveRules = [{
+        ...archiveRule(false),
+        targetFolder: 'Books/Old',
+        conditions: [{property: 'year', operator: 'lessThan', value: '2020'}],
+      }];
+
+      expect(fileOperationsService.getPlannedTargetFolder(mockFile, 'book', {year: 1999})).toBe('Books/Old');
+      expect(fileOperationsService.getPlannedTargetFolder(mockFile, 'book', {year: 2021})).toBe('books');
+      expect(fileOperationsService.getPlannedTargetFolder(mockFile, 'book', {})).toBe('books');
+
+      mockMetaFlowSettings.propertyMoveRules[0].conditions = [{property: 'published', operator: 'greaterThan', value: '2024-06-01'}];
+      expect(fileOperationsService.getPlannedTargetFolder(mockFile, 'book', {published: '2024-12-25'})).toBe('Books/Old');
+      expect(fileOperationsService.getPlannedTargetFolder(mockFile, 'book', {published: '2023-12-25'})).toBe('books');
+    });
+
+    it('should ignore disabled rules and rules of other fileClasses', () => {
+      mockMetaFlowSettings.propertyMoveRules = [{...archiveRule(false), enabled: false}, {...archiveRule(false), fileClass: 'movie'}];
+
+      expect(fileOperationsService.getPlannedTargetFolder(mockFile, 'book', {status: 'done'})).toBe('books');
+    });
+
+    it('should leave the note in the rule folder when the conditions no longer hold, unless it moves back', () => {
+      const archivedFile = Object.create(TFile.prototype);
+      Object.assign(archivedFile, {name: 'test.md', basename: 'test', extension: 'md', path: 'Archive/Books/test.md', parent: {path: 'Archive/Books'}});
+
+      mockMetaFlowSettings.propertyMoveRules = [archiveRule(false)];
+      expect(fileOperationsService.getPlannedTargetFolder(archivedFile, 'book', {status: 'draft'})).toBeNull();
+
+      mockMetaFlowSettings.propertyMoveRules = [archiveRule(true)];
+      expect(fileOperationsService.getPlannedTargetFolder(archivedFile, 'book', {status: 'draft'})).toBe('books');
+    });
+  });
+
+  describe('getPlannedTargetFolder', () => {
+    it('should return the target folder without moving', () => {
+      expect(fileOperationsService.getPlannedTargetFolder(mockFile, 'book')).toBe('books');
+      expect(mockObsidianAdapter.moveNote).not.toHaveBeenCalled();
+    });
+
+    it('should return null when already in the target folder or auto-move disabled', () => {
+      mockFile.parent = {path: 'books'} as TFolder;
+      expect(fileOperationsService.getPlannedTargetFolder(mockFile, 'book')).toBeNull();
+      expect(fileOperationsService.getPlannedTargetFolder(mockFile, 'default')).toBeNull();
     });
   });
 });
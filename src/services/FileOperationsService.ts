@@ -1,13 +1,17 @@
 import {injectable, inject} from 'inversify';
 import type {App} from "obsidian";
 import {TFile, TFolder} from "obsidian";
-import type {MetaFlowSettings, FolderFileClassMapping} from "../settings/types";
+import type {MetaFlowSettings, FolderFileClassMapping, PropertyMoveRule} from "../settings/types";
+import {CollisionAction, CollisionModal} from "../ui/CollisionModal";
 import {MetaFlowException} from "../MetaFlowException";
 import type {ObsidianAdapter} from "../externalApi/ObsidianAdapter";
 import type {FileValidationService} from "./FileValidationService";
 import type {LogManagerInterface} from "../managers/types";
 import type {NoteTitleService} from "./NoteTitleService";
+import type {MetaFlowEventService} from "./MetaFlowEventService";
 import {TYPES} from '../di/types';
+import {FolderPattern} from "../utils/FolderPattern";
+import {PropertyConditions} from "../utils/PropertyConditions";
 
 @injectable()
 export class FileOperationsService {
@@ -16,36 +20,37 @@ export class FileOperationsService {
   private obsidianAdapter: ObsidianAdapter;
   private fileValidationService: FileValidationService;
   private noteTitleService: NoteTitleService;
+  private metaFlowEventService: MetaFlowEventService;
+  // paths of the notes renamed or moved by MetaFlow, to tell them apart from the renames done by the user
+  private ownRenames = new Set<string>();
 
   constructor(
     @inject(TYPES.App) app: App,
     @inject(TYPES.MetaFlowSettings) metaFlowSettings: MetaFlowSettings,
     @inject(TYPES.ObsidianAdapter) obsidianAdapter: ObsidianAdapter,
     @inject(TYPES.FileValidationService) fileValidationService: FileValidationService,
-    @inject(TYPES.NoteTitleService) noteTitleService: NoteTitleService
+    @inject(TYPES.NoteTitleService) noteTitleService: NoteTitleService,
+    @inject(TYPES.MetaFlowEventService) metaFlowEventService: MetaFlowEventService
   ) {
     this.app = app;
     this.metaFlowSettings = metaFlowSettings;
     this.obsidianAdapter = obsidianAdapter;
     this.fileValidationService = fileValidationService;
     this.noteTitleService = noteTitleService;
+    this.metaFlowEventService = metaFlowEventService;
   }
 
-  public async moveNoteToTheRightFolder(file: TFile, fileClass: string): Promise<string | null> {
+  public async moveNoteToTheRightFolder(
+    file: TFile,
+    fileClass: string,
+    metadata: {[key: string]: any} = {},
+    logManager?: LogManagerInterface
+  ): Promise<string | null> {
     this.fileValidationService.checkIfValidFile(file);
     this.fileValidationService.checkIfExcluded(file);
-    const targetFolder = this.getTargetFolderForFileClass(fileClass);
+    const targetFolder = this.getTargetFolder(file, fileClass, metadata);
     if (targetFolder) {
-      if (targetFolder === file.parent?.path || '') {
-        console.info(`Note "${file.name}" is already in the right folder: ${targetFolder}`);
-        return null;
-      }
-      await this.createFolderIfNeeded(targetFolder);
-      this.checkIfTargetFileExists(targetFolder, file);
-      const newFilePath = `${targetFolder}/${file.name}`;
-      this.obsidianAdapter.moveNote(file, newFilePath);
-      return newFilePath;
-
+      return this.moveNoteTo(file, targetFolder, fileClass, metadata, logManager);
     } else {
       const targetFolderMapping = this.getTargetFolderMappingForFileClass(fileClass);
       if (targetFolderMapping?.moveToFolder === false) {
@@ -56,6 +61,55 @@ export class FileOperationsService {
     }
   }
 
+  /**
+   * Move the note to the folder of a template such as `Archive/{{project}}`, whatever the mapping and move rules say
+   * @returns the new path, or null when the note is already in the folder or the collision is skipped
+   */
+  public async moveNoteToFolder(
+    file: TFile,
+    folderTemplate: string,
+    fileClass: string,
+    metadata: {[key: string]: any},
+    logManager?: LogManagerInterface
+  ): Promise<string | null> {
+    this.fileValidationService.checkIfValidFile(file);
+    this.fileValidationService.checkIfExcluded(file);
+    return this.moveNoteTo(file, this.resolveTargetFolder(folderTemplate.trim(), file, fileClass, metadata), fileClass, metadata, logManager);
+  }
+
+  private async moveNoteTo(
+    file: TFile,
+    targetFolder: string,
+    fileClass: string,
+    metadata: {[key: string]: any},
+    logManager?: LogManagerInterface
+  ): Promise<string | null> {
+    if (targetFolder === (file.parent?.path || '')) {
+      console.info(`Note "${file.name}" is already in the right folder: ${targetFolder}`);
+      return null;
+    }
+    await this.createFolderIfNeeded(targetFolder);
+    let newFilePath = `${targetFolder}/${file.name}`;
+    if (this.obsidianAdapter.isFileExists(newFilePath)) {
+      const freeFilePath = await this.resolveCollision(file, newFilePath, fileClass, metadata, logManager);
+      if (freeFilePath === null) {
+        return null;
+      }
+      newFilePath = freeFilePath;
+    }
+    const oldPath = file.path;
+    const ownRename = this.obsidianAdapter.normalizePath(newFilePath);
+    this.ownRenames.add(ownRename);
+    try {
+      await this.obsidianAdapter.moveNote(file, newFilePath);
+    } catch (error) {
+      this.ownRenames.delete(ownRename);
+      throw error;
+    }
+    this.metaFlowEventService.moved(file, oldPath, metadata);
+    return newFilePath;
+  }
+
   public async renameNote(
     file: TFile,
     fileClass: string,
@@ -66,7 +120,7 @@ export class FileOperationsService {
     this.fileValidationService.checkIfExcluded(file);
 
     try {
-      const newTitle = this.noteTitleService.formatNoteTitle(file, fileClass, metadata, logManager);
+      const newTitle = await this.noteTitleService.formatNoteTitle(file, fileClass, metadata, logManager);
 
       // Check if the title needs to change
       const currentName = file.basename; // basename without extension
@@ -83,18 +137,37 @@ export class FileOperationsService {
       }
 
       // Check if new name would create a conflict
-      const newFileName = `${newTitle}.${file.extension}`;
+      let newFileName = `${newTitle}.${file.extension}`;
       let newPath = file.parent ? `${file.parent.path}/${newFileName}` : newFileName;
       newPath = this.obsidianAdapter.normalizePath(newPath);
 
       if (this.obsidianAdapter.isFileExists(newPath)) {
-        throw new MetaFlowException(`Cannot rename note: file "${newFileName}" already exists`, 'warning');
+        const freePath = await this.resolveCollision(file, newPath, fileClass, metadata, logManager);
+        if (freePath === null) {
+          return null;
+        }
+        newFileName = freePath.substring(freePath.lastIndexOf('/') + 1);
       }
 
       // Perform the rename
-      const renamedFile = await this.obsidianAdapter.renameNote(file, newFileName);
+      const oldFileName = file.name;
+      const oldPath = file.path;
+      const ownRename = this.obsidianAdapter.normalizePath(file.parent ? `${file.parent.path}/${newFileName}` : newFileName);
+      this.ownRenames.add(ownRename);
+      let renamedFile: TFile;
+      try {
+        renamedFile = await this.obsidianAdapter.renameNote(file, newFileName);
+      } catch (error) {
+        this.ownRenames.delete(ownRename);
+        throw error;
+      }
 
-      logManager.addInfo(`Renamed note "${file.name}" to "${newFileName}"`);
+      logManager.addInfo(`Renamed note "${oldFileName}" to "${newFileName}"`);
+      this.metaFlowEventService.renamed(renamedFile, oldPath, metadata);
+      if (this.getTargetFolderMappingForFileClass(fileClass)?.keepOldNameAsAlias) {
+        await this.addAlias(renamedFile, currentName);
+        logManager.addInfo(`Added "${currentName}" to the aliases of "${renamedFile.name}"`);
+      }
       return renamedFile;
 
     } catch (error) {
@@ -105,6 +178,87 @@ export class FileOperationsService {
     }
   }
 
+  /**
+   * Whether the note has just been renamed or moved to this path by MetaFlow, the path is forgotten once checked
+   */
+  public consumeOwnRename(path: string): boolean {
+    return this.ownRenames.delete(path);
+  }
+
+  /**
+   * Write the basename of the note to the title property or the first H1 heading, as configured on the mapping of its fileClass
+   * @returns true when the note has been updated
+   */
+  public async syncTitleWithFileName(file: TFile, fileClass: string, logManager: LogManagerInterface): Promise<boolean> {
+    const mapping = this.getTargetFolderMappingForFileClass(fileClass);
+    const title = file.basename;
+    switch (mapping?.titleSyncOnRename ?? 'off') {
+      case 'property': {
+        const property = mapping?.titleProperty?.trim() || 'title';
+        if (this.app.metadataCache.getFileCache(file)?.frontmatter?.[property] === title) {
+          return false;
+        }
+        await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+          frontmatter[property] = title;
+        });
+        logManager.addInfo(`Set the "${property}" property of "${file.name}" to "${title}"`);
+        return true;
+      }
+      case 'heading': {
+        const heading = this.app.metadataCache.getFileCache(file)?.headings?.find(heading => heading.level === 1);
+        if (!heading || heading.heading === title) {
+          return false;
+        }
+        const {start, end} = heading.position;
+        await this.app.vault.process(file, (content) => {
+          // the cached position is outdated if the note changed in the meantime
+          if (!content.substring(start.offset, end.offset).startsWith('#')) {
+            return content;
+          }
+          return `${content.substring(0, start.offset)}# ${title}${content.substring(end.offset)}`;
+        });
+        logManager.addInfo(`Set the first heading of "${file.name}" to "${title}"`);
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Compute the title the note would be renamed to, without renaming it
+   * @returns the new basename or null if the note keeps its current name
+   */
+  public async getPlannedTitle(
+    file: TFile,
+    fileClass: string,
+    metadata: {[key: string]: any},
+    logManager: LogManagerInterface
+  ): Promise<string | null> {
+    const newTitle = await this.noteTitleService.formatNoteTitle(file, fileClass, metadata, logManager);
+    if (newTitle === file.basename || newTitle === 'Untitled') {
+      return null;
+    }
+    return newTitle;
+  }
+
+  /**
+   * Compute the folder the note would be moved to, without moving it
+   * @returns the target folder or null if the note stays in its current folder or the target folder cannot be resolved
+   */
+  public getPlannedTargetFolder(file: TFile, fileClass: string, metadata: {[key: string]: any} = {}): string | null {
+    let targetFolder: string | null;
+    try {
+      targetFolder = this.getTargetFolder(file, fileClass, metadata);
+    } catch (error) {
+      return null;
+    }
+    if (targetFolder === null || targetFolder === (file.parent?.path || '')) {
+      return null;
+    }
+    return targetFolder;
+  }
+
   async updateFrontmatter(file: TFile, enrichedFrontmatter: any, deleteEmptyKeys: boolean): Promise<void> {
     return this.app.fileManager.processFrontMatter(file, (frontmatter) => {
       // Remove all keys from frontmatter
@@ -124,15 +278,133 @@ export class FileOperationsService {
     });
   }
 
-  private checkIfTargetFileExists(targetFolder: string, file: TFile): void {
-    const targetFilePath = `${targetFolder}/${file.name}`;
-    if (this.obsidianAdapter.isFileExists(targetFilePath)) {
-      throw new MetaFlowException(`Target file "${targetFilePath}" already exists`, 'warning');
+  /**
+   * Apply the collision strategy of the mapping of the fileClass to a target path that already exists,
+   * the resolution is logged so that it appears in the report of the run
+   * @returns a free path, or null to leave the note as it is
+   */
+  private async resolveCollision(
+    file: TFile,
+    targetPath: string,
+    fileClass: string,
+    metadata: {[key: string]: any},
+    logManager?: LogManagerInterface
+  ): Promise<string | null> {
+    const mapping = this.getTargetFolderMappingForFileClass(fileClass);
+    const property = mapping?.collisionProperty?.trim() || '';
+    let action: CollisionAction = mapping?.collisionStrategy === 'prompt' ?
+      await this.promptCollision(file, targetPath, property ? ['counter', 'property', 'skip'] : ['counter', 'skip']) :
+      mapping?.collisionStrategy || 'skip';
+
+    let freePath: string | null = null;
+    if (action === 'property') {
+      freePath = this.getPropertySuffixedPath(file, targetPath, property, metadata);
+      if (freePath === null) {
+        // no value to disambiguate with
+        action = 'counter';
+      }
+    }
+    if (action === 'counter') {
+      freePath = this.getCounterSuffixedPath(file, targetPath);
+    }
+
+    if (freePath === null) {
+      this.report(`Skipped "${file.path}": "${targetPath}" already exists`, 'warning', logManager);
+    } else {
+      this.report(`"${targetPath}" already exists, "${file.path}" goes to "${freePath}" (${action})`, 'info', logManager);
+    }
+    return freePath;
+  }
+
+  private async promptCollision(file: TFile, targetPath: string, actions: CollisionAction[]): Promise<CollisionAction> {
+    const existingFile = this.obsidianAdapter.getAbstractFileByPath(targetPath);
+    const content = await this.app.vault.cachedRead(file);
+    const existingContent = existingFile instanceof TFile ? await this.app.vault.cachedRead(existingFile) : '';
+    return new Promise(resolve => {
+      new CollisionModal(
+        this.app,
+        {path: file.path, content},
+        {path: targetPath, content: existingContent},
+        actions,
+        resolve
+      ).open();
+    });
+  }
+
+  /**
+   * `Title.md` → `Title (2).md`, the first free counter starting from 2
+   */
+  private getCounterSuffixedPath(file: TFile, targetPath: string): string {
+    const extension = `.${file.extension}`;
+    const basePath = targetPath.endsWith(extension) ? targetPath.slice(0, -extension.length) : targetPath;
+    let counter = 2;
+    while (this.obsidianAdapter.isFileExists(`${basePath} (${counter})${extension}`)) {
+      counter++;
+    }
+    return `${basePath} (${counter})${extension}`;
+  }
+
+  /**
+   * `Title.md` → `Title - 2024.md`, followed by a counter when that path is taken too
+   * @returns null when the property has no value
+   */
+  private getPropertySuffixedPath(file: TFile, targetPath: string, property: string, metadata: {[key: string]: any}): string | null {
+    const value = property ? this.noteTitleService.resolvePlaceholders(`{{${property}}}`, metadata, file) : null;
+    const suffix = value?.replace(/[\\/:*?"<>|]/g, '-').trim();
+    if (!suffix) {
+      return null;
     }
+    const extension = `.${file.extension}`;
+    const basePath = targetPath.endsWith(extension) ? targetPath.slice(0, -extension.length) : targetPath;
+    const propertyPath = `${basePath} - ${suffix}${extension}`;
+    return this.obsidianAdapter.isFileExists(propertyPath) ? this.getCounterSuffixedPath(file, propertyPath) : propertyPath;
   }
 
+  private async addAlias(file: TFile, alias: string): Promise<void> {
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      const aliases: any[] = Array.isArray(frontmatter.aliases) ? frontmatter.aliases :
+        (typeof frontmatter.aliases === 'string' && frontmatter.aliases.trim() ? [frontmatter.aliases] : []);
+      if (!aliases.includes(alias)) {
+        frontmatter.aliases = [...aliases, alias];
+      }
+    });
+  }
+
+  private report(message: string, level: 'info' | 'warning', logManager?: LogManagerInterface): void {
+    if (logManager) {
+      logManager.addMessage(message, level);
+    } else if (level === 'warning') {
+      console.warn(`MetaFlow: ${message}`);
+    } else {
+      console.info(`MetaFlow: ${message}`);
+    }
+  }
+
+  /**
+   * Create a note in the folder, created when missing, `Untitled.md` becomes `Untitled 1.md` when it already exists
+   */
+  public async createNote(folder: string, fileName: string, content: string): Promise<TFile> {
+    const folderPath = folder.replace(/^\/+|\/+$/g, '');
+    if (folderPath) {
+      await this.createFolderIfNeeded(folderPath);
+    }
+    const prefix = folderPath ? `${folderPath}/` : '';
+    let path = this.obsidianAdapter.normalizePath(`${prefix}${fileName}.md`);
+    for (let index = 1; this.obsidianAdapter.isFileExists(path); index++) {
+      path = this.obsidianAdapter.normalizePath(`${prefix}${fileName} ${index}.md`);
+    }
+    return this.app.vault.create(path, content);
+  }
+
+  /**
+   * Create the folder and its missing parent folders
+   */
   private async createFolderIfNeeded(folder: string): Promise<TFolder | null> {
     if (!this.obsidianAdapter.isFolderExists(folder)) {
+      const parentFolder = folder.split('/').slice(0, -1).join('/');
+      if (parentFolder) {
+        await this.createFolderIfNeeded(parentFolder);
+      }
       return await this.obsidianAdapter.createFolder(folder);
     }
     return this.app.vault.getFolderByPath(folder);
@@ -143,11 +415,12 @@ export class FileOperationsService {
     fileClass: string,
     metadata: {[key: string]: any},
     logManager: LogManagerInterface
-  ): Promise<void> {
-    const newFilePath = await this.moveNoteToTheRightFolder(file, fileClass);
+  ): Promise<string | null> {
+    const newFilePath = await this.moveNoteToTheRightFolder(file, fileClass, metadata, logManager);
     if (newFilePath) {
       logManager.addInfo(`Moved note ${file.name} to ${newFilePath}`);
     }
+    return newFilePath;
   }
 
   private getTargetFolderMappingForFileClass(fileClass: string): FolderFileClassMapping | null {
@@ -155,12 +428,56 @@ export class FileOperationsService {
       mapping => mapping.fileClass === fileClass) || null;
   }
 
-  private getTargetFolderForFileClass(fileClass: string): string | null {
+  /**
+   * The target folder of the first matching property move rule, or the auto-move target folder of the fileClass mapping
+   * A note left in the target folder of a rule whose conditions no longer hold stays there, unless the rule moves it back
+   */
+  private getTargetFolder(file: TFile, fileClass: string, metadata: {[key: string]: any}): string | null {
+    const rules = this.metaFlowSettings.propertyMoveRules.filter(rule =>
+      rule.enabled && rule.targetFolder.trim() && (!rule.fileClass || rule.fileClass === fileClass));
+    const matchingRule = rules.find(rule => this.matchMoveRule(rule, metadata));
+    if (matchingRule) {
+      return this.resolveTargetFolder(matchingRule.targetFolder.trim(), file, fileClass, metadata);
+    }
+    const leftRule = rules.find(rule => FolderPattern.createTemplateMatcher(rule.targetFolder.trim())(file.path));
+    if (leftRule && !leftRule.moveBack) {
+      return file.parent?.path || '';
+    }
+    return this.getTargetFolderForFileClass(file, fileClass, metadata);
+  }
+
+  private matchMoveRule(rule: PropertyMoveRule, metadata: {[key: string]: any}): boolean {
+    return rule.conditions.length > 0 && PropertyConditions.matchAll(rule.conditions, metadata);
+  }
+
+  private getTargetFolderForFileClass(file: TFile, fileClass: string, metadata: {[key: string]: any}): string | null {
+    // glob and regex patterns do not designate a single folder to move the note to, unless a target template is set
     const mapping = this.metaFlowSettings.folderFileClassMappings.find(
-      mapping => mapping.fileClass === fileClass && mapping.moveToFolder);
-    if (mapping) {
-      return mapping.folder.replace(/\/$/, ''); // Remove trailing slash
+      mapping => mapping.fileClass === fileClass && mapping.moveToFolder &&
+        ((mapping.patternKind || 'prefix') === 'prefix' || !!mapping.moveTargetTemplate?.trim()));
+    if (!mapping) {
+      return null;
+    }
+    if (mapping.moveTargetTemplate?.trim()) {
+      return this.resolveTargetFolder(mapping.moveTargetTemplate.trim(), file, fileClass, metadata);
+    }
+    return mapping.folder.replace(/\/$/, ''); // Remove trailing slash
+  }
+
+  /**
+   * Resolve the placeholders of each folder of the template, the values are sanitized so that they cannot add folders
+   */
+  private resolveTargetFolder(template: string, file: TFile, fileClass: string, metadata: {[key: string]: any}): string {
+    const folders = template.replace(/^\/+/, '').replace(/\/+$/, '')
+      .split(/\/(?![^{]*\}\})/)
+      .map(folder => this.noteTitleService.resolvePlaceholders(folder, metadata, file));
+    if (folders.some(folder => folder === null)) {
+      throw new MetaFlowException(`Cannot resolve the target folder "${template}" of fileClass "${fileClass}": missing metadata`, 'warning');
+    }
+    const sanitizedFolders = (folders as string[]).map(folder => folder.replace(/[\\/:*?"<>|]/g, '-').trim());
+    if (sanitizedFolders.some(folder => folder === '' || folder === '.' || folder === '..')) {
+      throw new MetaFlowException(`Target folder "${template}" of fileClass "${fileClass}" resolves to an invalid folder`, 'warning');
     }
-    return null;
+    return this.obsidianAdapter.normalizePath(sanitizedFolders.join('/'));
   }
 }
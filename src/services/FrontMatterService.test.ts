@@ -158,4 +158,89 @@ describe('FrontMatterService', () => {
       spy.mockRestore();
     });
   });
+
+  describe('parseFrontmatter line endings', () => {
+    it('should parse frontmatter with CRLF line endings and a BOM', () => {
+      const content = '\uFEFF---\r\ntitle: Test\r\n---\r\nBody';
+      const result = service.parseFrontmatter(content);
+      expect(result.metadata).toEqual({title: 'Test'});
+      expect(result.restOfContent).toBe('Body');
+    });
+  });
+
+  describe('updateFrontmatter', () => {
+    const content = [
+      '---',
+      '# Reading notes',
+      'fileClass: book',
+      'title: \'Dune\'',
+      'tags: [sf, classic]',
+      '',
+      '# Rating out of 5',
+      'rating: 4',
+      'notes: |',
+      '  # not a comment',
+      '',
+      '  second paragraph',
+      '# end',
+      '---',
+      'Body',
+    ].join('\n');
+
+    it('should keep the content untouched when nothing changed', () => {
+      const metadata = service.parseFrontmatter(content).metadata;
+      expect(service.updateFrontmatter(content, metadata)).toBe(content);
+    });
+
+    it('should only rewrite changed keys and keep comments, quoting and list style elsewhere', () => {
+      const metadata = {...service.parseFrontmatter(content).metadata, rating: 5, tags: ['sf']};
+      expect(service.updateFrontmatter(content, metadata)).toBe(content
+        .replace('rating: 4', 'rating: 5')
+        .replace('tags: [sf, classic]', 'tags: [sf]'));
+    });
+
+    it('should insert, remove and reorder keys with their comments', () => {
+      const {fileClass, title, notes} = service.parseFrontmatter(content).metadata;
+      const result = service.updateFrontmatter(content, {fileClass, rating: 4, title, author: 'Frank Herbert', notes});
+      expect(result).toBe([
+        '---',
+        '# Reading notes',
+        'fileClass: book',
+        '',
+        '# Rating out of 5',
+        'rating: 4',
+        'title: \'Dune\'',
+        'author: Frank Herbert',
+        'notes: |',
+        '  # not a comment',
+        '',
+        '  second paragraph',
+        '# end',
+        '---',
+        'Body',
+      ].join('\n'));
+    });
+
+    it('should keep CRLF line endings and the BOM', () => {
+      const crlfContent = '\uFEFF---\r\ntitle: "Dune"\r\nrating: 4\r\n---\r\nBody\r\n';
+      const result = service.updateFrontmatter(crlfContent, {title: 'Dune', rating: 5, author: 'Frank Herbert'});
+      expect(result).toBe('\uFEFF---\r\ntitle: "Dune"\r\nrating: 5\r\nauthor: Frank Herbert\r\n---\r\nBody\r\n');
+    });
+
+    it('should only edit the first YAML document', () => {
+      const multiDocument = '---\ntitle: Dune\n---\nrating: 4\n---\nBody';
+      const result = service.updateFrontmatter(multiDocument, {title: 'Dune Messiah'});
+      expect(result).toBe('---\ntitle: Dune Messiah\n---\nrating: 4\n---\nBody');
+    });
+
+    it('should create the frontmatter when there is none', () => {
+      expect(service.updateFrontmatter('\uFEFFBody\r\n', {title: 'Dune'})).toBe('\uFEFF---\r\ntitle: Dune\r\n---\r\nBody\r\n');
+    });
+
+    it('should fall back to a full dump when the frontmatter uses anchors', () => {
+      const anchors = '---\nbase: &base\n  a: 1\nother: *base\n---\nBody';
+      const result = service.updateFrontmatter(anchors, {base: {a: 1}, other: {a: 2}});
+      expect(result).toBe('---\nbase:\n  a: 1\nother:\n  a: 2\n---\nBody');
+    });
+  });
 });
@@ -8,6 +8,25 @@ export interface FrontmatterParseResult {
   restOfContent: string;
 }
 
+interface FrontmatterParts {
+  bom: string;
+  eol: string;
+  rawFrontmatter: string;
+  // closing "---" line including its line ending
+  closingDelimiter: string;
+  restOfContent: string;
+}
+
+// a top-level key of the frontmatter with the lines it spans in the YAML document
+interface FrontmatterBlock {
+  key: string;
+  value: any;
+  leadingLines: string[];
+  lines: string[];
+}
+
+const BOM = '\uFEFF';
+
 /**
  * Utility functions for parsing and serializing YAML frontmatter
  */
@@ -21,17 +40,10 @@ export class FrontMatterService {
     let frontmatterText = "";
     let restOfContent = content;
 
-    // parse frontmatter
-    const delimiterRegexp: RegExp = /^---$/gm;
-    let match: RegExpExecArray | null = delimiterRegexp.exec(content);
-    // Check if content starts with frontmatter
-    if (match && match.index === 0) {
-      // Find the end of frontmatter
-      let match2: RegExpExecArray | null = delimiterRegexp.exec(content);
-      if (match2 && match2.index > match.index) {
-        frontmatterText = content.slice(4, match2.index);
-        restOfContent = content.slice(match2.index + 4);
-      }
+    const parts = this.splitFrontmatter(content);
+    if (parts) {
+      frontmatterText = parts.rawFrontmatter;
+      restOfContent = parts.restOfContent;
     }
 
     if (frontmatterText.match(/^\s*$/)) {
@@ -98,18 +110,7 @@ export class FrontMatterService {
   serializeFrontmatter(metadata: any, restOfContent: string): string {
     try {
       // Convert back to YAML
-      const sortedYaml = yaml.dump(metadata, {
-        lineWidth: -1,
-        noRefs: true,
-        quotingType: '"',
-        forceQuotes: false,
-        flowLevel: -1,
-        sortKeys: false, // Don't sort keys, we handle sorting manually
-        schema: yaml.JSON_SCHEMA, // Use JSON schema to avoid date formatting
-        styles: {
-          '!!null': 'empty' // Represent null as empty
-        }
-      });
+      const sortedYaml = this.dumpYaml(metadata);
 
       return `---\n${sortedYaml}---\n${restOfContent}`;
     } catch (error) {
@@ -117,4 +118,157 @@ export class FrontMatterService {
       throw error;
     }
   }
+
+  /**
+   * Write metadata into the frontmatter of content by editing the existing YAML document in place:
+   * only inserted, removed, reordered or changed keys are touched, comments, quoting and list style
+   * of the other keys are kept as is, as well as the BOM and line endings of the note.
+   * Comments and blank lines right above a key move and disappear with it.
+   * Falls back to serializeFrontmatter when the frontmatter cannot be split into top-level keys (anchors, root flow mapping...)
+   */
+  updateFrontmatter(content: string, metadata: any): string {
+    const parts = this.splitFrontmatter(content);
+    const editedLines = parts && !parts.rawFrontmatter.match(/^\s*$/) ?
+      this.editFrontmatterLines(parts.rawFrontmatter, metadata) :
+      null;
+    if (parts && editedLines) {
+      return parts.bom + '---' + parts.eol +
+        editedLines.map(line => line + parts.eol).join('') +
+        parts.closingDelimiter + parts.restOfContent;
+    }
+
+    const bom = content.startsWith(BOM) ? BOM : '';
+    const restOfContent = parts ? parts.restOfContent : content.slice(bom.length);
+    const eol = parts ? parts.eol : (content.includes('\r\n') ? '\r\n' : '\n');
+    return bom + this.serializeFrontmatter(metadata, '').replace(/\n/g, eol) + restOfContent;
+  }
+
+  /**
+   * Locate the frontmatter delimiters, only the first YAML document of the note is the frontmatter
+   */
+  private splitFrontmatter(content: string): FrontmatterParts | null {
+    const bom = content.startsWith(BOM) ? BOM : '';
+    const text = content.slice(bom.length);
+    const openingDelimiter = /^---\r?\n/.exec(text);
+    if (!openingDelimiter) {
+      return null;
+    }
+    const closingRegexp: RegExp = /^---\r?$/gm;
+    closingRegexp.lastIndex = openingDelimiter[0].length;
+    const closingMatch = closingRegexp.exec(text);
+    if (!closingMatch) {
+      return null;
+    }
+    let closingEnd = closingMatch.index + closingMatch[0].length;
+    if (text[closingEnd] === '\n') {
+      closingEnd++;
+    }
+    return {
+      bom,
+      eol: openingDelimiter[0].endsWith('\r\n') ? '\r\n' : '\n',
+      rawFrontmatter: text.slice(openingDelimiter[0].length, closingMatch.index),
+      closingDelimiter: text.slice(closingMatch.index, closingEnd),
+      restOfContent: text.slice(closingEnd),
+    };
+  }
+
+  /**
+   * @returns the new frontmatter lines, or null when the raw frontmatter cannot be edited in place
+   */
+  private editFrontmatterLines(rawFrontmatter: string, metadata: any): string[] | null {
+    let original: any;
+    try {
+      original = yaml.load(rawFrontmatter, {schema: yaml.JSON_SCHEMA});
+    } catch (error) {
+      return null;
+    }
+    if (!this.isPlainObject(original) || !this.isPlainObject(metadata)) {
+      return null;
+    }
+
+    const lines = rawFrontmatter.split(/\r?\n/);
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    // split the document into top-level key blocks, comments and blank lines belong to the next key
+    const blocks: FrontmatterBlock[] = [];
+    let pendingLines: string[] = [];
+    for (const line of lines) {
+      const currentBlock = blocks[blocks.length - 1];
+      if (line.match(/^\s*(#.*)?$/)) {
+        pendingLines.push(line);
+      } else if (line.match(/^[ \t-]/)) {
+        if (!currentBlock) {
+          return null;
+        }
+        currentBlock.lines.push(...pendingLines, line);
+        pendingLines = [];
+      } else {
+        blocks.push({key: '', value: undefined, leadingLines: pendingLines, lines: [line]});
+        pendingLines = [];
+      }
+    }
+    const trailingLines = pendingLines;
+
+    const blocksByKey = new Map<string, FrontmatterBlock>();
+    for (const block of blocks) {
+      let parsed: any;
+      try {
+        parsed = yaml.load(block.lines.join('\n'), {schema: yaml.JSON_SCHEMA});
+      } catch (error) {
+        return null;
+      }
+      if (!this.isPlainObject(parsed) || Object.keys(parsed).length !== 1) {
+        return null;
+      }
+      block.key = Object.keys(parsed)[0];
+      block.value = parsed[block.key];
+      if (blocksByKey.has(block.key) || !this.isSameValue(block.value, original[block.key])) {
+        return null;
+      }
+      blocksByKey.set(block.key, block);
+    }
+    if (blocksByKey.size !== Object.keys(original).length) {
+      return null;
+    }
+
+    const editedLines: string[] = [];
+    for (const key of Object.keys(metadata)) {
+      const block = blocksByKey.get(key);
+      if (block && this.isSameValue(block.value, metadata[key])) {
+        editedLines.push(...block.leadingLines, ...block.lines);
+        continue;
+      }
+      // keep flow style lists written as [a, b] in flow style
+      const flowList = !!block && Array.isArray(metadata[key]) && !!block.lines[0].match(/:\s*\[/);
+      const dumpedLines = this.dumpYaml({[key]: metadata[key]}, flowList ? 1 : -1).split('\n');
+      dumpedLines.pop();
+      editedLines.push(...(block?.leadingLines || []), ...dumpedLines);
+    }
+    editedLines.push(...trailingLines);
+    return editedLines;
+  }
+
+  private dumpYaml(metadata: any, flowLevel = -1): string {
+    return yaml.dump(metadata, {
+      lineWidth: -1,
+      noRefs: true,
+      quotingType: '"',
+      forceQuotes: false,
+      flowLevel,
+      sortKeys: false, // Don't sort keys, we handle sorting manually
+      schema: yaml.JSON_SCHEMA, // Use JSON schema to avoid date formatting
+      styles: {
+        '!!null': 'empty' // Represent null as empty
+      }
+    });
+  }
+
+  private isPlainObject(value: any): boolean {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  private isSameValue(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
 }
@@ -0,0 +1,41 @@
+import {injectable, inject} from 'inversify';
+import type {App, TFile} from "obsidian";
+import {METAFLOW_EVENTS, MetaFlowEvent, MetaFlowEventName} from "../api/types";
+import {TYPES} from '../di/types';
+
+/**
+ * Triggers the `metaflow:*` workspace events for the other plugins and user scripts
+ */
+@injectable()
+export class MetaFlowEventService {
+  private app: App;
+
+  constructor(
+    @inject(TYPES.App) app: App
+  ) {
+    this.app = app;
+  }
+
+  /**
+   * Trigger `metaflow:before-update`, write the note, then trigger `metaflow:after-update`
+   */
+  async update(
+    file: TFile, before: {[key: string]: any}, after: {[key: string]: any}, write: () => Promise<void>
+  ): Promise<void> {
+    this.trigger(METAFLOW_EVENTS.beforeUpdate, {file, oldPath: file.path, path: file.path, before, after});
+    await write();
+    this.trigger(METAFLOW_EVENTS.afterUpdate, {file, oldPath: file.path, path: file.path, before, after});
+  }
+
+  renamed(file: TFile, oldPath: string, frontmatter: {[key: string]: any}): void {
+    this.trigger(METAFLOW_EVENTS.renamed, {file, oldPath, path: file.path, before: frontmatter, after: frontmatter});
+  }
+
+  moved(file: TFile, oldPath: string, frontmatter: {[key: string]: any}): void {
+    this.trigger(METAFLOW_EVENTS.moved, {file, oldPath, path: file.path, before: frontmatter, after: frontmatter});
+  }
+
+  private trigger(name: MetaFlowEventName, event: MetaFlowEvent): void {
+    this.app.workspace.trigger(name, event);
+  }
+}
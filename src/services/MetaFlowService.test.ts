@@ -12,6 +12,20 @@ jest.mock('obsidian', () => ({
   normalizePath: jest.fn().mockImplementation((path: string) => path.replace(/\\/g, '/')),
 }));
 
+const mockObsoleteFieldsModalOpen = jest.fn();
+jest.mock('../ui/ObsoleteFieldsModal', () => ({
+  ObsoleteFieldsModal: jest.fn().mockImplementation((app, title, obsoleteValues, chooseCallback) => ({
+    open: () => mockObsoleteFieldsModalOpen(obsoleteValues, chooseCallback),
+  })),
+}));
+
+const mockFileClassChangeModalOpen = jest.fn();
+jest.mock('../ui/FileClassChangeModal', () => ({
+  FileClassChangeModal: jest.fn().mockImplementation((app, title, fields, confirmCallback) => ({
+    open: () => mockFileClassChangeModalOpen(fields, confirmCallback),
+  })),
+}));
+
 describe('MetaFlowService', () => {
   let mockApp: any;
   let metaFlowService: MetaFlowService;
@@ -30,6 +44,8 @@ describe('MetaFlowService', () => {
   let mockPropertyManagementService: any;
   let mockFileOperationsService: any;
   let mockNoteTitleService: any;
+  let mockFieldValidationService: any;
+  let mockMetaFlowEventService: any;
 
   beforeEach(() => {
     // Setup mock settings
@@ -92,12 +108,13 @@ describe('MetaFlowService', () => {
         if (content.includes('fileClass: book')) {
           return {
             metadata: {fileClass: 'book', title: 'Test'},
-            body: 'Content'
+            restOfContent: 'Content'
           };
         }
-        return {metadata: {}, body: content};
+        return {metadata: {}, restOfContent: content};
       }),
       serializeFrontmatter: jest.fn().mockReturnValue('---\nfileClass: book\ntitle: Test\n---\nContent'),
+      updateFrontmatter: jest.fn().mockReturnValue('---\nfileClass: book\ntitle: Test\n---\nContent'),
     };
 
     mockTemplaterAdapter = {
@@ -121,13 +138,18 @@ describe('MetaFlowService', () => {
         if (metadata === null || metadata === undefined) return null;
         return metadata.fileClass || 'article';
       }),
-      deduceFileClassFromPath: jest.fn().mockReturnValue('default'),
-      validateFileClassAgainstMapping: jest.fn().mockReturnValue(true),
+      deduceFileClass: jest.fn().mockReturnValue({fileClass: 'default', source: 'folder mapping', reasons: ['path matches prefix "/"']}),
+      describeDeduction: jest.fn().mockReturnValue('folder mapping (path matches prefix "/")'),
     };
 
     mockPropertyManagementService = {
       sortProperties: jest.fn().mockImplementation((frontmatter) => frontmatter),
-      addDefaultValuesToProperties: jest.fn().mockImplementation((frontmatter) => frontmatter),
+      addDefaultValuesToProperties: jest.fn().mockImplementation(async (frontmatter) => frontmatter),
+      addDefaultValuesWithSources: jest.fn().mockImplementation(async (frontmatter) => ({frontmatter, valueSources: {}})),
+      migrateFields: jest.fn().mockImplementation((frontmatter) => frontmatter),
+      getObsoleteFields: jest.fn().mockReturnValue([]),
+      getObsoleteFieldPolicy: jest.fn().mockReturnValue('keep'),
+      applyObsoleteFieldPolicy: jest.fn().mockImplementation((frontmatter) => frontmatter),
     };
 
     mockFileOperationsService = {
@@ -136,6 +158,14 @@ describe('MetaFlowService', () => {
       moveNoteToTheRightFolder: jest.fn().mockResolvedValue('new/path/test.md'),
     };
 
+    mockMetaFlowEventService = {
+      update: jest.fn().mockImplementation((file, before, after, write) => write()),
+    };
+
+    mockFieldValidationService = {
+      validateFrontmatter: jest.fn().mockImplementation((frontmatter) => ({frontmatter, diagnostics: []})),
+    };
+
     mockNoteTitleService = {
       // Add any methods from NoteTitleService that are used in tests
     };
@@ -172,7 +202,9 @@ describe('MetaFlowService', () => {
       mockFileClassDeductionService,
       mockPropertyManagementService,
       mockFileOperationsService,
-      mockNoteTitleService
+      mockNoteTitleService,
+      mockFieldValidationService,
+      mockMetaFlowEventService
     );
   });
 
@@ -205,6 +237,22 @@ describe('MetaFlowService', () => {
       expect(result).toEqual({fileClass: 'book', title: 'Test'});
     });
 
+    test('should make the order of legacy folder mappings explicit', () => {
+      const mapping = (folder: string) => ({...DEFAULT_SETTINGS.folderFileClassMappings[0], folder, patternKind: undefined});
+      const settings = {...DEFAULT_SETTINGS, folderFileClassMappings: [mapping('/'), mapping('Books'), mapping('Books/Comics')]};
+
+      new MetaFlowService(
+        mockApp, settings, mockScriptContextService, mockMetadataMenuAdapter, mockFrontMatterService,
+        mockTemplaterAdapter, mockObsidianAdapter, mockFileValidationService, mockFileClassDeductionService,
+        mockPropertyManagementService, mockFileOperationsService, mockNoteTitleService, mockFieldValidationService,
+        mockMetaFlowEventService
+      );
+
+      expect(settings.folderFileClassMappings.map(m => [m.folder, m.patternKind])).toEqual([
+        ['Books/Comics', 'prefix'], ['Books', 'prefix'], ['/', 'prefix'],
+      ]);
+    });
+
     test('should handle null frontmatter content', () => {
       const content = 'No frontmatter here';
       const result = metaFlowService.getFrontmatterFromContent(content);
@@ -227,6 +275,172 @@ describe('MetaFlowService', () => {
       expect(mockFileValidationService.checkIfMetadataInsertionApplicable).toHaveBeenCalledWith(mockFile);
     });
 
+    test('should migrate fields and apply the obsolete fields policy on file class changes', async () => {
+      mockSettings.frontmatterUpdateDelayMs = 0;
+      const frontmatter = {fileClass: 'book', writer: 'Jane', url: 'http://example.com'};
+      mockPropertyManagementService.migrateFields.mockReturnValue({fileClass: 'book', author: 'Jane', url: 'http://example.com'});
+      mockPropertyManagementService.getObsoleteFields.mockReturnValue(['url']);
+      mockPropertyManagementService.getObsoleteFieldPolicy.mockReturnValue('archive');
+      mockPropertyManagementService.applyObsoleteFieldPolicy.mockReturnValue({fileClass: 'book', author: 'Jane', _archived: {url: 'http://example.com'}});
+
+      await metaFlowService.handleFileClassChanged(mockFile, {frontmatter} as any, 'article', 'book', mockLogManager);
+
+      expect(mockPropertyManagementService.migrateFields).toHaveBeenCalledWith(frontmatter, 'article', 'book', mockLogManager);
+      expect(mockPropertyManagementService.applyObsoleteFieldPolicy).toHaveBeenCalledWith(
+        {fileClass: 'book', author: 'Jane', url: 'http://example.com'}, ['url'], 'archive'
+      );
+      expect(mockMetadataMenuAdapter.syncFields).toHaveBeenCalledWith(
+        {fileClass: 'book', author: 'Jane', _archived: {url: 'http://example.com'}}, 'book', mockLogManager
+      );
+      expect(mockObsoleteFieldsModalOpen).not.toHaveBeenCalled();
+    });
+
+    test('should trigger the update events around the frontmatter update', async () => {
+      mockSettings.frontmatterUpdateDelayMs = 0;
+      const frontmatter = {fileClass: 'book', title: 'Dune'};
+
+      await metaFlowService.handleFileClassChanged(mockFile, {frontmatter} as any, 'article', 'book', mockLogManager);
+
+      expect(mockMetaFlowEventService.update).toHaveBeenCalledWith(mockFile, frontmatter, expect.any(Object), expect.any(Function));
+      expect(mockFileOperationsService.updateFrontmatter).toHaveBeenCalled();
+    });
+
+    test('should send the frontmatter before the update when the note had no fileClass', async () => {
+      mockSettings.frontmatterUpdateDelayMs = 0;
+      const frontmatter: any = {fileClass: 'book', title: 'Dune'};
+      mockMetadataMenuAdapter.syncFields.mockImplementation((updatedFrontmatter: any) => {
+        updatedFrontmatter.author = null;
+        return updatedFrontmatter;
+      });
+
+      await metaFlowService.handleFileClassChanged(mockFile, {frontmatter} as any, '', 'book', mockLogManager);
+
+      expect(mockMetaFlowEventService.update).toHaveBeenCalledWith(
+        mockFile, {fileClass: 'book', title: 'Dune'}, expect.objectContaining({author: null}), expect.any(Function)
+      );
+      expect(frontmatter).toEqual({fileClass: 'book', title: 'Dune'});
+    });
+
+    test('should ask what to do with the obsolete fields', async () => {
+      mockSettings.frontmatterUpdateDelayMs = 0;
+      mockPropertyManagementService.getObsoleteFields.mockReturnValue(['url']);
+      mockPropertyManagementService.getObsoleteFieldPolicy.mockReturnValue('ask');
+      mockObsoleteFieldsModalOpen.mockImplementation((obsoleteValues, chooseCallback) => chooseCallback('remove'));
+
+      await metaFlowService.handleFileClassChanged(
+        mockFile, {frontmatter: {fileClass: 'book', url: 'http://example.com'}} as any, 'article', 'book', mockLogManager
+      );
+
+      expect(mockObsoleteFieldsModalOpen).toHaveBeenCalledWith({url: 'http://example.com'}, expect.any(Function));
+      expect(mockPropertyManagementService.applyObsoleteFieldPolicy).toHaveBeenCalledWith(
+        {fileClass: 'book', url: 'http://example.com'}, ['url'], 'remove'
+      );
+      expect(mockLogManager.addInfo).toHaveBeenCalledWith('Removed obsolete fields of "test.md": url');
+    });
+
+    test('should deduce the fileClass of a note without fileClass and record why', async () => {
+      const deduction = {fileClass: 'meeting', source: 'rule "Meetings"', reasons: ['tag #meeting']};
+      mockMetadataMenuAdapter.getFileClassFromMetadata.mockReturnValue(null);
+      mockFileClassDeductionService.deduceFileClass.mockReturnValue(deduction);
+
+      const result = await metaFlowService.computeContentUpdate('---\ntags: meeting\n---\nContent', mockFile, mockLogManager);
+
+      expect(mockFileClassDeductionService.deduceFileClass).toHaveBeenCalledWith(mockFile.path, {}, expect.any(String));
+      expect(mockMetadataMenuAdapter.syncFields).toHaveBeenCalledWith({}, 'meeting', mockLogManager);
+      expect(result.fileClass).toBe('meeting');
+      expect(result.deduction).toEqual(deduction);
+    });
+
+    test('should fail when no rule nor folder mapping gives a fileClass', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => { });
+      mockMetadataMenuAdapter.getFileClassFromMetadata.mockReturnValue(null);
+      mockFileClassDeductionService.deduceFileClass.mockReturnValue(null);
+
+      await expect(metaFlowService.computeContentUpdate('Content', mockFile, mockLogManager))
+        .rejects.toThrow('no matching deduction rule nor folder pattern');
+    });
+
+    test('should deduce the fileClass when it is removed from a note', async () => {
+      mockSettings.frontmatterUpdateDelayMs = 0;
+      mockApp.vault.cachedRead = jest.fn().mockResolvedValue('---\ntitle: Standup\n---\n#meeting notes');
+      mockFileClassDeductionService.deduceFileClass.mockReturnValue({fileClass: 'meeting', source: 'rule "Meetings"', reasons: ['tag #meeting']});
+
+      await metaFlowService.handleFileClassChanged(mockFile, {frontmatter: {title: 'Standup'}} as any, 'note', '', mockLogManager);
+
+      expect(mockFileClassDeductionService.deduceFileClass).toHaveBeenCalledWith(mockFile.path, {title: 'Standup'}, expect.any(String));
+      expect(mockMetadataMenuAdapter.syncFields).toHaveBeenCalledWith(expect.anything(), 'meeting', mockLogManager);
+    });
+
+    test('should not write the update of a cancelled queue job', async () => {
+      mockSettings.frontmatterUpdateDelayMs = 1000;
+      const job = {isCancelled: () => true, cancelReason: 'note deleted'};
+
+      await metaFlowService.handleFileClassChanged(mockFile, {frontmatter: {fileClass: 'book'}} as any, 'article', 'book', mockLogManager, job);
+
+      expect(mockFileOperationsService.updateFrontmatter).not.toHaveBeenCalled();
+      expect(mockLogManager.addDebug).toHaveBeenCalledWith('Update of "test.md" cancelled: note deleted');
+    });
+
+    describe('handleNoteMovedIntoMappedFolder', () => {
+      beforeEach(() => {
+        mockSettings.frontmatterUpdateDelayMs = 0;
+        mockApp.metadataCache = {getFileCache: jest.fn().mockReturnValue({frontmatter: {fileClass: 'article', url: 'http://example.com', draft: ''}})};
+        mockMetadataMenuAdapter.getFileClassAndAncestorsFields.mockReturnValue([{name: 'author'}, {name: 'url'}]);
+        mockPropertyManagementService.getObsoleteFields.mockReturnValue([]);
+        mockPropertyManagementService.getObsoleteFieldPolicy.mockReturnValue('keep');
+      });
+
+      test('should not change the fileClass when the sync is off', async () => {
+        mockSettings.fileClassSyncOnMove = 'off';
+
+        expect(await metaFlowService.handleNoteMovedIntoMappedFolder(mockFile, 'article', 'book', mockLogManager)).toBe(false);
+        expect(mockMetadataMenuAdapter.syncFields).not.toHaveBeenCalled();
+      });
+
+      test('should apply the fileClass of the mapping and run the fileClass change pipeline', async () => {
+        mockSettings.fileClassSyncOnMove = 'apply';
+
+        expect(await metaFlowService.handleNoteMovedIntoMappedFolder(mockFile, 'article', 'book', mockLogManager)).toBe(true);
+        expect(mockFileClassChangeModalOpen).not.toHaveBeenCalled();
+        expect(mockPropertyManagementService.migrateFields).toHaveBeenCalledWith(
+          {fileClass: 'book', url: 'http://example.com', draft: ''}, 'article', 'book', mockLogManager
+        );
+        expect(mockMetadataMenuAdapter.syncFields).toHaveBeenCalledWith(expect.anything(), 'book', mockLogManager);
+      });
+
+      test('should list the fields added and removed before changing the fileClass', async () => {
+        mockSettings.fileClassSyncOnMove = 'ask';
+        mockFileClassChangeModalOpen.mockImplementation((fields, confirmCallback) => confirmCallback(false));
+
+        expect(await metaFlowService.handleNoteMovedIntoMappedFolder(mockFile, 'article', 'book', mockLogManager)).toBe(false);
+        expect(mockFileClassChangeModalOpen).toHaveBeenCalledWith(
+          {added: ['author'], removed: ['draft'], obsolete: [], obsoleteFieldPolicy: 'keep'}, expect.any(Function)
+        );
+        expect(mockMetadataMenuAdapter.syncFields).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('handleNoteRenamed', () => {
+      beforeEach(() => {
+        mockApp.metadataCache = {getFileCache: jest.fn().mockReturnValue({frontmatter: {fileClass: 'book'}})};
+        mockFileClassDeductionService.getFileClassFromMetadata = jest.fn().mockReturnValue('book');
+        mockFileOperationsService.syncTitleWithFileName = jest.fn().mockResolvedValue(true);
+      });
+
+      test('should sync the title of a note renamed by the user', async () => {
+        await metaFlowService.handleNoteRenamed(mockFile, 'old.md', mockLogManager);
+
+        expect(mockFileOperationsService.syncTitleWithFileName).toHaveBeenCalledWith(mockFile, 'book', mockLogManager);
+      });
+
+      test('should ignore the notes without fileClass', async () => {
+        mockFileClassDeductionService.getFileClassFromMetadata.mockReturnValue(null);
+        await metaFlowService.handleNoteRenamed(mockFile, 'old.md', mockLogManager);
+
+        expect(mockFileOperationsService.syncTitleWithFileName).not.toHaveBeenCalled();
+      });
+    });
+
     test('should process content', async () => {
       const content = '---\ntitle: Test\n---\nContent';
       const result = await metaFlowService.processContent(content, mockFile, mockLogManager);
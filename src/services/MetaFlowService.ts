@@ -4,7 +4,7 @@ import type {MetadataMenuAdapter} from "../externalApi/MetadataMenuAdapter";
 import type {FrontMatterService} from "./FrontMatterService";
 import type {TemplaterAdapter} from "../externalApi/TemplaterAdapter";
 import type {ScriptContextService} from "./ScriptContextService";
-import type {MetaFlowSettings, PropertyDefaultValueScript} from "../settings/types";
+import type {FieldMigration, FileClassDeductionRule, MetaFlowSettings, PropertyDefaultValueScript, PropertyMoveRule, PropertyOrderProfile, PropertyTrigger} from "../settings/types";
 import {FolderFileClassMapping} from "../settings/types";
 import {MetaFlowException} from "../MetaFlowException";
 import type {ObsidianAdapter} from "../externalApi/ObsidianAdapter";
@@ -12,12 +12,30 @@ import type {LogManagerInterface} from "../managers/types";
 import {Utils} from "../utils/Utils";
 import {DEFAULT_SETTINGS} from "../settings/defaultSettings";
 import type {FileValidationService} from "./FileValidationService";
-import type {FileClassDeductionService} from "./FileClassDeductionService";
-import type {PropertyManagementService} from "./PropertyManagementService";
+import type {FileClassDeduction, FileClassDeductionService} from "./FileClassDeductionService";
+import type {DefaultValueSource, PropertyManagementService} from "./PropertyManagementService";
 import type {FileOperationsService} from "./FileOperationsService";
 import type {NoteTitleService} from "./NoteTitleService";
+import type {FieldDiagnostic, FieldValidationService} from "./FieldValidationService";
+import type {UpdateJobContext} from "./UpdateQueueService";
+import type {MetaFlowEventService} from "./MetaFlowEventService";
+import {ObsoleteFieldAction, ObsoleteFieldsModal} from "../ui/ObsoleteFieldsModal";
+import {FileClassChangeFields, FileClassChangeModal} from "../ui/FileClassChangeModal";
 import {TYPES} from '../di/types';
 
+export interface ContentUpdateResult {
+  fileClass: string;
+  originalFrontmatter: {[key: string]: any};
+  frontmatter: {[key: string]: any};
+  bodyContent: string;
+  content: string;
+  diagnostics: FieldDiagnostic[];
+  // source of the default values added to the frontmatter
+  valueSources: {[key: string]: DefaultValueSource};
+  // how the fileClass was deduced, null when the note already had a fileClass
+  deduction: FileClassDeduction | null;
+}
+
 @injectable()
 export class MetaFlowService {
   private app: App;
@@ -34,6 +52,8 @@ export class MetaFlowService {
   private propertyManagementService: PropertyManagementService;
   private fileOperationsService: FileOperationsService;
   private noteTitleService: NoteTitleService;
+  private fieldValidationService: FieldValidationService;
+  private metaFlowEventService: MetaFlowEventService;
 
   constructor(
     @inject(TYPES.App) app: App,
@@ -47,7 +67,9 @@ export class MetaFlowService {
     @inject(TYPES.FileClassDeductionService) fileClassDeductionService: FileClassDeductionService,
     @inject(TYPES.PropertyManagementService) propertyManagementService: PropertyManagementService,
     @inject(TYPES.FileOperationsService) fileOperationsService: FileOperationsService,
-    @inject(TYPES.NoteTitleService) noteTitleService: NoteTitleService
+    @inject(TYPES.NoteTitleService) noteTitleService: NoteTitleService,
+    @inject(TYPES.FieldValidationService) fieldValidationService: FieldValidationService,
+    @inject(TYPES.MetaFlowEventService) metaFlowEventService: MetaFlowEventService
   ) {
     this.app = app;
     this.metaFlowSettings = metaFlowSettings;
@@ -61,13 +83,18 @@ export class MetaFlowService {
     this.propertyManagementService = propertyManagementService;
     this.fileOperationsService = fileOperationsService;
     this.noteTitleService = noteTitleService;
+    this.fieldValidationService = fieldValidationService;
+    this.metaFlowEventService = metaFlowEventService;
 
     this.fixSettings();
   }
 
+  /**
+   * @param job - Set when run from the update queue, which has already waited for the frontmatter update delay
+   */
   async handleFileClassChanged(
     file: TFile, cache: CachedMetadata | null, oldFileClass: string, newFileClass: string,
-    logManager: LogManagerInterface
+    logManager: LogManagerInterface, job?: UpdateJobContext
   ): Promise<void> {
     if (!this.metaFlowSettings.autoMetadataInsertion) {
       console.info('Auto metadata insertion is disabled');
@@ -94,40 +121,56 @@ export class MetaFlowService {
       // Step 1: Determine or validate fileClass if not available
       let fileClass = newFileClass;
       if (!fileClass || fileClass.trim() === '') {
-        // Try to deduce fileClass from folder/fileClass mapping
-        const deducedFileClass = this.fileClassDeductionService.deduceFileClassFromPath(file.path);
-        if (!deducedFileClass) {
-          throw new MetaFlowException(`No fileClass found for file "${file.name}" and no matching folder pattern.`, 'warning');
-        }
-        if (!this.fileClassDeductionService.validateFileClassAgainstMapping(file.path, deducedFileClass)) {
-          throw new MetaFlowException(`FileClass "${deducedFileClass}" does not match any folder/fileClass mapping.`, 'warning');
-        }
-        fileClass = deducedFileClass;
+        // Try to deduce fileClass from deduction rules and folder/fileClass mappings
+        const content = await this.app.vault.cachedRead(file);
+        const body = this.frontMatterService.parseFrontmatter(content).restOfContent;
+        fileClass = this.deduceFileClass(file, cache?.frontmatter || {}, body, logManager).fileClass;
       }
 
       // Step 2: Validate fileClass exists in MetadataMenu, throw error if not found
       this.metadataMenuAdapter.getFileClassByName(fileClass);
 
-      // Step 3: Synchronize frontmatter with new/obsolete fileClass's fields
-      let updatedFrontmatter: any = cache?.frontmatter || {};
+      // Step 3: Migrate fields and apply the obsolete fields policy of the new fileClass
+      // the cached frontmatter is copied, the sync of the fields changes the frontmatter in place
+      const before = {...(cache?.frontmatter || {})};
+      let updatedFrontmatter: any = {...before};
+      if (oldFileClass) {
+        updatedFrontmatter = this.propertyManagementService.migrateFields(updatedFrontmatter, oldFileClass, fileClass, logManager);
+        updatedFrontmatter = await this.handleObsoleteFields(updatedFrontmatter, file, oldFileClass, fileClass, logManager);
+      }
+
+      // Step 4: Synchronize frontmatter with new/obsolete fileClass's fields
       updatedFrontmatter = this.metadataMenuAdapter.syncFields(updatedFrontmatter, fileClass, logManager);
 
-      // Step 4: sort properties if autoSort is enabled
+      // Step 5: sort properties if autoSort is enabled
       if (this.metaFlowSettings.autoSort) {
-        updatedFrontmatter = this.propertyManagementService.sortProperties(updatedFrontmatter, this.metaFlowSettings.sortUnknownPropertiesLast);
+        updatedFrontmatter = this.propertyManagementService.sortProperties(
+          updatedFrontmatter, this.metaFlowSettings.sortUnknownPropertiesLast, fileClass, logManager
+        );
       }
 
-      // Step 5: Add default values to properties
-      const enrichedFrontmatter = this.propertyManagementService.addDefaultValuesToProperties(
+      // Step 6: Add default values to properties
+      const defaultValuesFrontmatter = await this.propertyManagementService.addDefaultValuesToProperties(
         updatedFrontmatter || {},
         file,
         fileClass,
         logManager
       );
 
-      await Utils.sleep(this.metaFlowSettings.frontmatterUpdateDelayMs, async () => {
-        await this.fileOperationsService.updateFrontmatter(file, enrichedFrontmatter, true)
-        // Step 6: Move note to the right folder if autoMoveNoteToRightFolder is enabled
+      // Step 7: Validate (and coerce) values against MetadataMenu field types
+      const enrichedFrontmatter = this.fieldValidationService.validateFrontmatter(
+        defaultValuesFrontmatter, fileClass, logManager
+      ).frontmatter;
+
+      await Utils.sleep(job ? 0 : this.metaFlowSettings.frontmatterUpdateDelayMs, async () => {
+        if (job?.isCancelled()) {
+          logManager.addDebug(`Update of "${file.path}" cancelled: ${job.cancelReason}`);
+          return;
+        }
+        await this.metaFlowEventService.update(file, before, enrichedFrontmatter, async () => {
+          await this.fileOperationsService.updateFrontmatter(file, enrichedFrontmatter, true);
+        });
+        // Step 8: Move note to the right folder if autoMoveNoteToRightFolder is enabled
         try {
           // Rename note if autoRenameNote is enabled
           if (this.metaFlowSettings.autoRenameNote) {
@@ -135,7 +178,7 @@ export class MetaFlowService {
           }
 
           if (this.metaFlowSettings.autoMoveNoteToRightFolder) {
-            const newFilePath = await this.fileOperationsService.moveNoteToTheRightFolder(file, fileClass);
+            const newFilePath = await this.fileOperationsService.moveNoteToTheRightFolder(file, fileClass, enrichedFrontmatter, logManager);
             if (newFilePath) {
               logManager.addInfo(`Moved note "${file.name}" with fileClass "${fileClass}" to ${newFilePath}.`);
             }
@@ -157,7 +200,130 @@ export class MetaFlowService {
     }
   }
 
-  processContent(content: string, file: TFile, logManager: LogManagerInterface): string {
+  /**
+   * Give the note moved into a mapped folder the fileClass of the mapping, after confirmation when the sync mode is "ask",
+   * then run the fileClass change pipeline: fields sync, default values and rename
+   * @returns true when the fileClass of the note has been changed
+   */
+  async handleNoteMovedIntoMappedFolder(
+    file: TFile, oldFileClass: string, newFileClass: string, logManager: LogManagerInterface
+  ): Promise<boolean> {
+    if (this.metaFlowSettings.fileClassSyncOnMove === 'off') {
+      return false;
+    }
+    const frontmatter = {...(this.app.metadataCache.getFileCache(file)?.frontmatter || {})};
+    if (this.metaFlowSettings.fileClassSyncOnMove === 'ask') {
+      let fields: FileClassChangeFields;
+      try {
+        fields = this.getFileClassChangeFields(frontmatter, oldFileClass, newFileClass, logManager);
+      } catch (error) {
+        const msg = (error instanceof MetaFlowException) ? error.message : `Error listing the fields of fileClass "${newFileClass}"`;
+        console.error(msg, error);
+        logManager.addMessage(msg, error?.noticeLevel ?? 'error');
+        return false;
+      }
+      const confirmed = await new Promise<boolean>(resolve => {
+        new FileClassChangeModal(
+          this.app, `Change the fileClass of "${file.name}" to "${newFileClass}"?`, fields, resolve
+        ).open();
+      });
+      if (!confirmed) {
+        return false;
+      }
+    }
+    frontmatter[this.metadataMenuAdapter.getFileClassAlias()] = newFileClass;
+    logManager.addInfo(`"${file.name}" moved to "${file.parent?.path}": fileClass changed from "${oldFileClass}" to "${newFileClass}"`);
+    await this.handleFileClassChanged(file, {frontmatter} as CachedMetadata, oldFileClass, newFileClass, logManager);
+    return true;
+  }
+
+  /**
+   * Write the new name of a note renamed by the user to its title property or first H1 heading,
+   * as configured on the mapping of its fileClass, the renames done by MetaFlow are filtered out by the FileClassStateManager
+   */
+  async handleNoteRenamed(file: TFile, oldPath: string, logManager: LogManagerInterface, job?: UpdateJobContext): Promise<void> {
+    if (job?.isCancelled()) {
+      logManager.addDebug(`Title sync of "${file.path}" cancelled: ${job.cancelReason}`);
+      return;
+    }
+    const fileClass = this.fileClassDeductionService.getFileClassFromMetadata(this.app.metadataCache.getFileCache(file)?.frontmatter);
+    if (!fileClass) {
+      return;
+    }
+    try {
+      await this.fileOperationsService.syncTitleWithFileName(file, fileClass, logManager);
+    } catch (error) {
+      const msg = `Error syncing the title of "${file.path}" renamed from "${oldPath}"`;
+      console.error(msg, error);
+      logManager.addMessage(msg, error?.noticeLevel ?? 'error');
+    }
+  }
+
+  /**
+   * Fields the fileClass change would add to the note, or remove from it
+   */
+  private getFileClassChangeFields(
+    frontmatter: {[key: string]: any}, oldFileClass: string, newFileClass: string, logManager: LogManagerInterface
+  ): FileClassChangeFields {
+    const newFieldNames = this.metadataMenuAdapter.getFileClassAndAncestorsFields(newFileClass, logManager).map(field => field.name);
+    const fileClassAlias = this.metadataMenuAdapter.getFileClassAlias();
+    return {
+      added: [...new Set(newFieldNames)].filter(name => !(name in frontmatter)),
+      removed: Object.keys(frontmatter).filter(key => key !== fileClassAlias && !newFieldNames.includes(key) &&
+        (frontmatter[key] === undefined || frontmatter[key] === null || frontmatter[key] === '')),
+      obsolete: oldFileClass ? this.propertyManagementService.getObsoleteFields(frontmatter, oldFileClass, newFileClass, logManager) : [],
+      obsoleteFieldPolicy: this.propertyManagementService.getObsoleteFieldPolicy(newFileClass),
+    };
+  }
+
+  /**
+   * @throws MetaFlowException when no deduction rule nor folder mapping matches the note
+   */
+  private deduceFileClass(
+    file: TFile, frontmatter: {[key: string]: any}, body: string, logManager: LogManagerInterface
+  ): FileClassDeduction {
+    const deduction = this.fileClassDeductionService.deduceFileClass(file.path, frontmatter, body);
+    if (!deduction) {
+      throw new MetaFlowException(`No fileClass found for file "${file.name}" and no matching deduction rule nor folder pattern.`, 'warning');
+    }
+    logManager.addDebug(`FileClass "${deduction.fileClass}" deduced for "${file.name}" by ${this.fileClassDeductionService.describeDeduction(deduction)}`);
+    return deduction;
+  }
+
+  /**
+   * Keep, remove or archive the non-empty fields of the old fileClass the new fileClass does not define,
+   * asking the user when the policy is "ask"
+   */
+  private async handleObsoleteFields(
+    frontmatter: {[key: string]: any}, file: TFile, oldFileClass: string, newFileClass: string,
+    logManager: LogManagerInterface
+  ): Promise<{[key: string]: any}> {
+    const obsoleteFields = this.propertyManagementService.getObsoleteFields(frontmatter, oldFileClass, newFileClass, logManager);
+    if (obsoleteFields.length === 0) {
+      return frontmatter;
+    }
+    const policy = this.propertyManagementService.getObsoleteFieldPolicy(newFileClass);
+    const action: ObsoleteFieldAction = policy !== 'ask' ? policy : await new Promise<ObsoleteFieldAction>(resolve => {
+      const obsoleteValues = Object.fromEntries(obsoleteFields.map(name => [name, frontmatter[name]]));
+      new ObsoleteFieldsModal(
+        this.app, `Obsolete fields of "${file.name}" (${oldFileClass} → ${newFileClass})`, obsoleteValues, resolve
+      ).open();
+    });
+    if (action !== 'keep') {
+      logManager.addInfo(`${action === 'remove' ? 'Removed' : 'Archived'} obsolete fields of "${file.name}": ${obsoleteFields.join(', ')}`);
+    }
+    return this.propertyManagementService.applyObsoleteFieldPolicy(frontmatter, obsoleteFields, action);
+  }
+
+  async processContent(content: string, file: TFile, logManager: LogManagerInterface): Promise<string> {
+    return (await this.computeContentUpdate(content, file, logManager)).content;
+  }
+
+  /**
+   * Run the whole metadata pipeline on the given content without writing anything
+   * @returns the original and updated frontmatter along with the resulting content
+   */
+  async computeContentUpdate(content: string, file: TFile, logManager: LogManagerInterface): Promise<ContentUpdateResult> {
     this.fileValidationService.checkIfMetadataInsertionApplicable(file);
     try {
       // Step 1: parse frontmatter
@@ -174,16 +340,11 @@ export class MetaFlowService {
       // Step 2: Determine or validate fileClass
       let fileClass = this.metadataMenuAdapter.getFileClassFromMetadata(frontmatter);
       let newFileClass;
+      let deduction: FileClassDeduction | null = null;
       if (!fileClass) {
-        // Try to deduce fileClass from folder/fileClass mapping
-        const deducedFileClass = this.fileClassDeductionService.deduceFileClassFromPath(file.path);
-        if (!deducedFileClass) {
-          throw new MetaFlowException(`No fileClass found for file "${file.name}" and no matching folder pattern.`, 'warning');
-        }
-        if (!this.fileClassDeductionService.validateFileClassAgainstMapping(file.path, deducedFileClass)) {
-          throw new MetaFlowException(`FileClass "${deducedFileClass}" does not match any folder/fileClass mapping.`, 'warning');
-        }
-        newFileClass = deducedFileClass;
+        // Try to deduce fileClass from deduction rules and folder/fileClass mappings
+        deduction = this.deduceFileClass(file, frontmatter, bodyContent, logManager);
+        newFileClass = deduction.fileClass;
       } else {
         newFileClass = fileClass;
       }
@@ -192,6 +353,7 @@ export class MetaFlowService {
       this.metadataMenuAdapter.getFileClassByName(newFileClass);
 
       // Step 4: Synchronize frontmatter with new/obsolete fileClass's fields
+      const originalFrontmatter = {...frontmatter};
       let updatedFrontmatter: any = this.metadataMenuAdapter.syncFields(frontmatter, newFileClass, logManager);
       if (newFileClass !== fileClass) {
         logManager.addInfo(`File class changed for "${file.name}": ${fileClass} -> ${newFileClass}`);
@@ -199,19 +361,35 @@ export class MetaFlowService {
 
       // Step 5: sort properties if autoSort is enabled
       if (this.metaFlowSettings.autoSort) {
-        updatedFrontmatter = this.propertyManagementService.sortProperties(updatedFrontmatter, this.metaFlowSettings.sortUnknownPropertiesLast);
+        updatedFrontmatter = this.propertyManagementService.sortProperties(
+          updatedFrontmatter, this.metaFlowSettings.sortUnknownPropertiesLast, newFileClass, logManager
+        );
       }
 
       // Step 6: Add default values to properties
-      const enrichedFrontmatter = this.propertyManagementService.addDefaultValuesToProperties(
+      const {frontmatter: defaultValuesFrontmatter, valueSources} = await this.propertyManagementService.addDefaultValuesWithSources(
         updatedFrontmatter || {},
         file,
         newFileClass,
         logManager
       );
 
-      // Step 7: Write the updated content back to the file
-      return this.frontMatterService.serializeFrontmatter(enrichedFrontmatter, bodyContent);
+      // Step 7: Validate (and coerce) values against MetadataMenu field types
+      const {frontmatter: enrichedFrontmatter, diagnostics} = this.fieldValidationService.validateFrontmatter(
+        defaultValuesFrontmatter, newFileClass, logManager
+      );
+
+      // Step 8: Write the updated content back to the file
+      return {
+        fileClass: newFileClass,
+        originalFrontmatter,
+        frontmatter: enrichedFrontmatter,
+        bodyContent,
+        content: this.frontMatterService.updateFrontmatter(content, enrichedFrontmatter),
+        diagnostics,
+        valueSources,
+        deduction,
+      };
     } catch (error) {
       console.error('Error in auto update metadata fields:', error);
       throw new MetaFlowException(`Error updating metadata fields: ${error.message}`, 'error');
@@ -223,7 +401,7 @@ export class MetaFlowService {
     return parseResult?.metadata || null;
   }
 
-  public async processSortContent(content: string, file: TFile): Promise<void> {
+  public async processSortContent(content: string, file: TFile, logManager: LogManagerInterface): Promise<void> {
     this.fileValidationService.checkIfValidFile(file);
     this.fileValidationService.checkIfExcluded(file);
 
@@ -236,7 +414,12 @@ export class MetaFlowService {
       if (parseResult) {
         enrichedFrontmatter = parseResult.metadata || {};
       }
-      enrichedFrontmatter = this.propertyManagementService.sortProperties(enrichedFrontmatter, this.metaFlowSettings.sortUnknownPropertiesLast);
+      const fileClass = this.metadataMenuAdapter.isMetadataMenuAvailable() ?
+        this.metadataMenuAdapter.getFileClassFromMetadata(enrichedFrontmatter) :
+        null;
+      enrichedFrontmatter = this.propertyManagementService.sortProperties(
+        enrichedFrontmatter, this.metaFlowSettings.sortUnknownPropertiesLast, fileClass, logManager
+      );
 
       await Utils.sleep(this.metaFlowSettings.frontmatterUpdateDelayMs, async () => {
         await this.fileOperationsService.updateFrontmatter(file, enrichedFrontmatter, false);
@@ -261,14 +444,49 @@ export class MetaFlowService {
     if (this.metaFlowSettings.folderFileClassMappings.length === 0) {
       this.metaFlowSettings.folderFileClassMappings = DEFAULT_SETTINGS.folderFileClassMappings;
     }
+    if (this.metaFlowSettings.folderFileClassMappings.every(mapping => mapping.patternKind === undefined)) {
+      // mappings saved before pattern kinds were evaluated most specific folder first, make that order explicit
+      this.metaFlowSettings.folderFileClassMappings.sort((a, b) => {
+        if (a.folder === '/') return 1;
+        if (b.folder === '/') return -1;
+        return (b.folder?.length || 0) - (a.folder?.length || 0);
+      });
+    }
     this.metaFlowSettings.folderFileClassMappings.forEach((folderFileClassMapping: FolderFileClassMapping) => {
       folderFileClassMapping.folder = typeof folderFileClassMapping.folder === 'string' ? folderFileClassMapping.folder : '/';
+      folderFileClassMapping.patternKind = ['prefix', 'glob', 'regex'].includes(folderFileClassMapping.patternKind as string) ? folderFileClassMapping.patternKind : 'prefix';
+      if (!['counter', 'property', 'prompt', 'skip'].includes(folderFileClassMapping.collisionStrategy ?? 'skip')) {
+        delete folderFileClassMapping.collisionStrategy;
+      }
+      if (typeof folderFileClassMapping.keepOldNameAsAlias !== 'boolean') {
+        delete folderFileClassMapping.keepOldNameAsAlias;
+      }
+      if (!['off', 'property', 'heading'].includes(folderFileClassMapping.titleSyncOnRename ?? 'off')) {
+        delete folderFileClassMapping.titleSyncOnRename;
+      }
+      if (typeof folderFileClassMapping.titleProperty !== 'string') {
+        delete folderFileClassMapping.titleProperty;
+      }
       folderFileClassMapping.templateMode = typeof folderFileClassMapping.templateMode === 'string' ? folderFileClassMapping.templateMode : DEFAULT_SETTINGS.folderFileClassMappings[0].templateMode;
       folderFileClassMapping.noteTitleScript = typeof folderFileClassMapping.noteTitleScript === 'object' ? folderFileClassMapping.noteTitleScript : DEFAULT_SETTINGS.folderFileClassMappings[0].noteTitleScript;
       folderFileClassMapping.noteTitleTemplates = Array.isArray(folderFileClassMapping.noteTitleTemplates) ? folderFileClassMapping.noteTitleTemplates : DEFAULT_SETTINGS.folderFileClassMappings[0].noteTitleTemplates;
+      folderFileClassMapping.noteTitleTemplates.forEach(noteTitleTemplate => {
+        if (typeof noteTitleTemplate.guard !== 'string' || !noteTitleTemplate.guard.trim()) {
+          delete noteTitleTemplate.guard;
+        }
+      });
       folderFileClassMapping.noteTitleScript.enabled = typeof folderFileClassMapping.noteTitleScript.enabled === 'boolean' ? folderFileClassMapping.noteTitleScript.enabled : true;
       folderFileClassMapping.noteTitleScript.script = typeof folderFileClassMapping.noteTitleScript.script === 'string' ? folderFileClassMapping.noteTitleScript.script : DEFAULT_SETTINGS.folderFileClassMappings[0].noteTitleScript.script;
     });
+    this.metaFlowSettings.fileClassDeductionRules = Array.isArray(this.metaFlowSettings.fileClassDeductionRules) ? this.metaFlowSettings.fileClassDeductionRules : [];
+    this.metaFlowSettings.fileClassDeductionRules.forEach((rule: FileClassDeductionRule) => {
+      rule.name = typeof rule.name === 'string' ? rule.name : '';
+      rule.fileClass = typeof rule.fileClass === 'string' ? rule.fileClass : '';
+      rule.enabled = typeof rule.enabled === 'boolean' ? rule.enabled : true;
+      rule.conditions = Array.isArray(rule.conditions) ? rule.conditions.filter(condition =>
+        ['path', 'tag', 'filename', 'property', 'body'].includes(condition?.type) && typeof condition.value === 'string'
+      ) : [];
+    });
     this.metaFlowSettings.propertyDefaultValueScripts = Array.isArray(this.metaFlowSettings.propertyDefaultValueScripts) ? this.metaFlowSettings.propertyDefaultValueScripts : DEFAULT_SETTINGS.propertyDefaultValueScripts;
     this.metaFlowSettings.propertyDefaultValueScripts.forEach((propertyDefaultValueScript: PropertyDefaultValueScript) => {
       propertyDefaultValueScript.propertyName = typeof propertyDefaultValueScript.propertyName === 'string' ? propertyDefaultValueScript.propertyName : 'default';
@@ -282,10 +500,60 @@ export class MetaFlowService {
         propertyDefaultValueScript.fileClasses = Array.isArray(propertyDefaultValueScript.fileClasses) ? propertyDefaultValueScript.fileClasses : [];
       }
     });
+    this.metaFlowSettings.propertyOrderProfiles = Array.isArray(this.metaFlowSettings.propertyOrderProfiles) ? this.metaFlowSettings.propertyOrderProfiles : [];
+    this.metaFlowSettings.propertyOrderProfiles.forEach((profile: PropertyOrderProfile) => {
+      profile.fileClass = typeof profile.fileClass === 'string' ? profile.fileClass : '';
+      profile.mode = ['inherit', 'custom', 'metadataMenu'].includes(profile.mode) ? profile.mode : 'inherit';
+      profile.properties = Array.isArray(profile.properties) ? profile.properties.filter(p => typeof p === 'string') : [];
+    });
+    this.metaFlowSettings.defaultValuePrecedence = ['script', 'metadataMenu'].includes(this.metaFlowSettings.defaultValuePrecedence) ? this.metaFlowSettings.defaultValuePrecedence : DEFAULT_SETTINGS.defaultValuePrecedence;
+    this.metaFlowSettings.obsoleteFieldPolicy = ['keep', 'remove', 'archive', 'ask'].includes(this.metaFlowSettings.obsoleteFieldPolicy) ? this.metaFlowSettings.obsoleteFieldPolicy : DEFAULT_SETTINGS.obsoleteFieldPolicy;
+    this.metaFlowSettings.fieldMigrations = Array.isArray(this.metaFlowSettings.fieldMigrations) ? this.metaFlowSettings.fieldMigrations : [];
+    this.metaFlowSettings.fieldMigrations.forEach((migration: FieldMigration) => {
+      migration.fromFileClass = typeof migration.fromFileClass === 'string' ? migration.fromFileClass : '';
+      migration.fromField = typeof migration.fromField === 'string' ? migration.fromField : '';
+      migration.toFileClass = typeof migration.toFileClass === 'string' ? migration.toFileClass : '';
+      migration.toField = typeof migration.toField === 'string' ? migration.toField : '';
+    });
+    this.metaFlowSettings.propertyMoveRules = Array.isArray(this.metaFlowSettings.propertyMoveRules) ? this.metaFlowSettings.propertyMoveRules : [];
+    this.metaFlowSettings.propertyMoveRules.forEach((rule: PropertyMoveRule) => {
+      rule.name = typeof rule.name === 'string' ? rule.name : '';
+      rule.enabled = typeof rule.enabled === 'boolean' ? rule.enabled : true;
+      rule.fileClass = typeof rule.fileClass === 'string' ? rule.fileClass : '';
+      rule.targetFolder = typeof rule.targetFolder === 'string' ? rule.targetFolder : '';
+      rule.moveBack = typeof rule.moveBack === 'boolean' ? rule.moveBack : false;
+      rule.conditions = Array.isArray(rule.conditions) ? rule.conditions.filter(condition =>
+        ['equals', 'notEquals', 'lessThan', 'greaterThan', 'exists', 'notExists'].includes(condition?.operator) &&
+        typeof condition.property === 'string'
+      ) : [];
+      rule.conditions.forEach(condition => {
+        condition.value = typeof condition.value === 'string' ? condition.value : String(condition.value ?? '');
+      });
+    });
+    this.metaFlowSettings.propertyTriggers = Array.isArray(this.metaFlowSettings.propertyTriggers) ? this.metaFlowSettings.propertyTriggers : [];
+    this.metaFlowSettings.propertyTriggers.forEach((trigger: PropertyTrigger) => {
+      trigger.name = typeof trigger.name === 'string' ? trigger.name : '';
+      trigger.enabled = typeof trigger.enabled === 'boolean' ? trigger.enabled : true;
+      trigger.fileClass = typeof trigger.fileClass === 'string' ? trigger.fileClass : '';
+      trigger.property = typeof trigger.property === 'string' ? trigger.property : '';
+      trigger.from = typeof trigger.from === 'string' ? trigger.from : '';
+      trigger.to = typeof trigger.to === 'string' ? trigger.to : '';
+      trigger.actions = Array.isArray(trigger.actions) ? trigger.actions.filter(action =>
+        ['setProperty', 'runScript', 'addTag', 'rename', 'move'].includes(action?.type)
+      ) : [];
+      trigger.actions.forEach(action => {
+        action.property = typeof action.property === 'string' ? action.property : '';
+        action.value = typeof action.value === 'string' ? action.value : String(action.value ?? '');
+      });
+    });
     this.metaFlowSettings.excludeFolders = Array.isArray(this.metaFlowSettings.excludeFolders) ? this.metaFlowSettings.excludeFolders : DEFAULT_SETTINGS.excludeFolders;
     this.metaFlowSettings.debugMode = typeof this.metaFlowSettings.debugMode === 'boolean' ? this.metaFlowSettings.debugMode : DEFAULT_SETTINGS.debugMode;
     this.metaFlowSettings.autoMoveNoteToRightFolder = typeof this.metaFlowSettings.autoMoveNoteToRightFolder === 'boolean' ? this.metaFlowSettings.autoMoveNoteToRightFolder : DEFAULT_SETTINGS.autoMoveNoteToRightFolder;
     this.metaFlowSettings.autoRenameNote = typeof this.metaFlowSettings.autoRenameNote === 'boolean' ? this.metaFlowSettings.autoRenameNote : DEFAULT_SETTINGS.autoRenameNote;
+    this.metaFlowSettings.fileClassSyncOnMove = ['off', 'ask', 'apply'].includes(this.metaFlowSettings.fileClassSyncOnMove) ? this.metaFlowSettings.fileClassSyncOnMove : DEFAULT_SETTINGS.fileClassSyncOnMove;
+    this.metaFlowSettings.previewBeforeUpdate = typeof this.metaFlowSettings.previewBeforeUpdate === 'boolean' ? this.metaFlowSettings.previewBeforeUpdate : DEFAULT_SETTINGS.previewBeforeUpdate;
+    this.metaFlowSettings.validateFieldTypes = typeof this.metaFlowSettings.validateFieldTypes === 'boolean' ? this.metaFlowSettings.validateFieldTypes : DEFAULT_SETTINGS.validateFieldTypes;
+    this.metaFlowSettings.coerceFieldValues = typeof this.metaFlowSettings.coerceFieldValues === 'boolean' ? this.metaFlowSettings.coerceFieldValues : DEFAULT_SETTINGS.coerceFieldValues;
     this.metaFlowSettings.frontmatterUpdateDelayMs = typeof this.metaFlowSettings.frontmatterUpdateDelayMs === 'number' ? this.metaFlowSettings.frontmatterUpdateDelayMs : DEFAULT_SETTINGS.frontmatterUpdateDelayMs;
   }
 
@@ -304,12 +572,12 @@ export class MetaFlowService {
    * @param logManager - Log manager for reporting
    * @returns Formatted title or "Untitled" if generation fails
    */
-  public formatNoteTitle(
+  public async formatNoteTitle(
     file: TFile,
     fileClass: string,
     metadata: {[key: string]: any},
     logManager: LogManagerInterface
-  ): string {
+  ): Promise<string> {
     return this.noteTitleService.formatNoteTitle(file, fileClass, metadata, logManager);
   }
 
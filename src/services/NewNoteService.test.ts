@@ -0,0 +1,135 @@
+import {TFile} from "obsidian";
+import {NewNoteService} from "./NewNoteService";
+import {FrontMatterService} from "./FrontMatterService";
+import {MetaFlowEventService} from "./MetaFlowEventService";
+import {METAFLOW_EVENTS} from "../api/types";
+import {DEFAULT_SETTINGS} from "../settings/defaultSettings";
+import type {MetaFlowSettings} from "../settings/types";
+
+describe('NewNoteService', () => {
+  let service: NewNoteService;
+  let settings: MetaFlowSettings;
+  let mockApp: any;
+  let mockMetadataMenuAdapter: any;
+  let mockTemplaterAdapter: any;
+  let mockMetaFlowService: any;
+  let mockFileOperationsService: any;
+  let mockPropertyManagementService: any;
+  let mockLogManager: any;
+  let file: TFile;
+
+  beforeEach(() => {
+    file = Object.assign(Object.create(TFile.prototype), {path: 'Books/Untitled.md', name: 'Untitled.md', basename: 'Untitled', extension: 'md'});
+    settings = {
+      ...DEFAULT_SETTINGS,
+      folderFileClassMappings: [
+        {...DEFAULT_SETTINGS.folderFileClassMappings[0], folder: '/Books/', fileClass: 'book'},
+        {...DEFAULT_SETTINGS.folderFileClassMappings[0], folder: '**/Articles', fileClass: 'article', patternKind: 'glob'},
+      ],
+      propertyDefaultValueScripts: [
+        {propertyName: 'created', script: '', enabled: true},
+        {propertyName: 'isbn', script: '', enabled: true, fileClasses: ['book']},
+      ],
+    };
+    mockApp = {
+      vault: {
+        read: jest.fn().mockResolvedValue('---\ntags: [reading]\n---\nBody'),
+        modify: jest.fn().mockResolvedValue(undefined),
+      },
+      fileManager: {getNewFileParent: jest.fn(() => ({path: 'Inbox'}))},
+      workspace: {trigger: jest.fn()},
+    };
+    mockMetadataMenuAdapter = {
+      getFileClassAndAncestorsFields: jest.fn(() => [
+        {name: 'title', type: 'Input', isRequired: true},
+        {name: 'created', type: 'DateTime'},
+        {name: 'status', type: 'Select'},
+        {name: 'title', type: 'Input'},
+        {name: 'author', type: 'File', isRequired: true},
+      ]),
+      getFileClassAlias: jest.fn(() => 'fileClass'),
+    };
+    mockTemplaterAdapter = {
+      getFolderTemplate: jest.fn(() => 'Templates/Book.md'),
+      createNoteFromTemplate: jest.fn().mockResolvedValue(file),
+    };
+    mockMetaFlowService = {
+      computeContentUpdate: jest.fn(async (content: string) => ({
+        fileClass: 'book',
+        originalFrontmatter: {},
+        frontmatter: {fileClass: 'book', title: 'Dune', created: '2026-01-01'},
+        content: content.replace('---\nBody', 'created: 2026-01-01\n---\nBody'),
+      })),
+    };
+    mockFileOperationsService = {
+      createNote: jest.fn().mockResolvedValue(file),
+      renameNote: jest.fn().mockResolvedValue(null),
+      getPlannedTargetFolder: jest.fn().mockReturnValue(null),
+      moveNote: jest.fn().mockResolvedValue(undefined),
+    };
+    mockPropertyManagementService = {
+      selectScriptsForFileClass: jest.fn((scripts: any[], fileClass: string) =>
+        scripts.filter(script => !script.fileClasses || script.fileClasses.includes(fileClass))),
+    };
+    mockLogManager = {
+      addError: jest.fn(),
+      addWarning: jest.fn(),
+      addInfo: jest.fn(),
+      addDebug: jest.fn(),
+      addMessage: jest.fn(),
+    };
+    service = new NewNoteService(
+      mockApp, settings, mockMetadataMenuAdapter, mockTemplaterAdapter, new FrontMatterService(), mockMetaFlowService,
+      mockFileOperationsService, mockPropertyManagementService, new MetaFlowEventService(mockApp)
+    );
+  });
+
+  describe('getFormFields', () => {
+    it('should keep the required and scripted fields, the most specific definition winning', () => {
+      expect(service.getFormFields('book', mockLogManager)).toEqual([
+        {field: {name: 'created', type: 'DateTime'}, required: false, scripted: true},
+        {field: {name: 'author', type: 'File', isRequired: true}, required: true, scripted: false},
+      ]);
+    });
+  });
+
+  describe('getFolder', () => {
+    it('should give the folder of the prefix mapping, else the default folder of the new notes', () => {
+      expect(service.getFolder('book')).toBe('Books');
+      expect(service.getFolder('article')).toBe('Inbox');
+      expect(service.getFolder('movie')).toBe('Inbox');
+    });
+  });
+
+  describe('createNote', () => {
+    it('should create the note in the folder and write the typed values with the fileClass', async () => {
+      const result = await service.createNote('book', {title: 'Dune'}, null, mockLogManager);
+
+      expect(result).toBe(file);
+      expect(mockFileOperationsService.createNote).toHaveBeenCalledWith('Books', 'Untitled', '');
+      const [content] = mockMetaFlowService.computeContentUpdate.mock.calls[0];
+      expect(content).toContain('fileClass: book');
+      expect(content).toContain('title: Dune');
+      expect(content).toContain('tags:');
+      expect(mockApp.vault.modify).toHaveBeenCalledWith(file, expect.stringContaining('created: 2026-01-01'));
+      expect(mockApp.workspace.trigger).toHaveBeenCalledWith(METAFLOW_EVENTS.afterUpdate, expect.objectContaining({file}));
+      expect(mockFileOperationsService.renameNote).toHaveBeenCalledWith(
+        file, 'book', {fileClass: 'book', title: 'Dune', created: '2026-01-01'}, mockLogManager
+      );
+      expect(mockFileOperationsService.moveNote).not.toHaveBeenCalled();
+      expect(mockLogManager.addInfo).toHaveBeenCalledWith('Created note "Books/Untitled.md" of fileClass "book"');
+    });
+
+    it('should create the note from the Templater template and move it when a move rule applies', async () => {
+      mockFileOperationsService.getPlannedTargetFolder.mockReturnValue('Books/Novels');
+
+      await service.createNote('book', {}, 'Templates/Book.md', mockLogManager);
+
+      expect(mockTemplaterAdapter.createNoteFromTemplate).toHaveBeenCalledWith('Templates/Book.md', 'Books', 'Untitled');
+      expect(mockFileOperationsService.createNote).not.toHaveBeenCalled();
+      expect(mockFileOperationsService.moveNote).toHaveBeenCalledWith(
+        file, 'book', {fileClass: 'book', title: 'Dune', created: '2026-01-01'}, mockLogManager
+      );
+    });
+  });
+});
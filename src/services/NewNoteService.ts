@@ -0,0 +1,129 @@
+import {injectable, inject} from 'inversify';
+import type {App, TFile} from "obsidian";
+import type {MetaFlowSettings} from "../settings/types";
+import type {LogManagerInterface} from "../managers/types";
+import type {MetadataMenuAdapter} from "../externalApi/MetadataMenuAdapter";
+import type {TemplaterAdapter} from "../externalApi/TemplaterAdapter";
+import type {MetadataMenuField} from "../externalApi/types.MetadataMenu";
+import type {FrontMatterService} from "./FrontMatterService";
+import type {MetaFlowService} from "./MetaFlowService";
+import type {FileOperationsService} from "./FileOperationsService";
+import type {PropertyManagementService} from "./PropertyManagementService";
+import type {MetaFlowEventService} from "./MetaFlowEventService";
+import {TYPES} from '../di/types';
+
+export interface NewNoteField {
+  field: MetadataMenuField;
+  required: boolean;
+  // the default value script of the property fills it when left empty
+  scripted: boolean;
+}
+
+const UNTITLED = 'Untitled';
+
+/**
+ * Creates a note of a fileClass: the values typed in the new note form, the default value scripts,
+ * then the title of the rename rules and the folder of the mapping
+ */
+@injectable()
+export class NewNoteService {
+  private app: App;
+  private metaFlowSettings: MetaFlowSettings;
+  private metadataMenuAdapter: MetadataMenuAdapter;
+  private templaterAdapter: TemplaterAdapter;
+  private frontMatterService: FrontMatterService;
+  private metaFlowService: MetaFlowService;
+  private fileOperationsService: FileOperationsService;
+  private propertyManagementService: PropertyManagementService;
+  private metaFlowEventService: MetaFlowEventService;
+
+  constructor(
+    @inject(TYPES.App) app: App,
+    @inject(TYPES.MetaFlowSettings) metaFlowSettings: MetaFlowSettings,
+    @inject(TYPES.MetadataMenuAdapter) metadataMenuAdapter: MetadataMenuAdapter,
+    @inject(TYPES.TemplaterAdapter) templaterAdapter: TemplaterAdapter,
+    @inject(TYPES.FrontMatterService) frontMatterService: FrontMatterService,
+    @inject(TYPES.MetaFlowService) metaFlowService: MetaFlowService,
+    @inject(TYPES.FileOperationsService) fileOperationsService: FileOperationsService,
+    @inject(TYPES.PropertyManagementService) propertyManagementService: PropertyManagementService,
+    @inject(TYPES.MetaFlowEventService) metaFlowEventService: MetaFlowEventService
+  ) {
+    this.app = app;
+    this.metaFlowSettings = metaFlowSettings;
+    this.metadataMenuAdapter = metadataMenuAdapter;
+    this.templaterAdapter = templaterAdapter;
+    this.frontMatterService = frontMatterService;
+    this.metaFlowService = metaFlowService;
+    this.fileOperationsService = fileOperationsService;
+    this.propertyManagementService = propertyManagementService;
+    this.metaFlowEventService = metaFlowEventService;
+  }
+
+  /**
+   * The required fields and the fields having a default value script, ancestors fields first
+   */
+  getFormFields(fileClass: string, logManager: LogManagerInterface): NewNoteField[] {
+    const scriptedProperties = new Set(this.propertyManagementService.selectScriptsForFileClass(
+      this.metaFlowSettings.propertyDefaultValueScripts.filter(script => script.enabled), fileClass, logManager
+    ).map(script => script.propertyName));
+    // the most specific fileClass defining a field wins
+    const fields = new Map<string, MetadataMenuField>();
+    this.metadataMenuAdapter.getFileClassAndAncestorsFields(fileClass, logManager).forEach(field => {
+      fields.delete(field.name);
+      fields.set(field.name, field);
+    });
+    return Array.from(fields.values())
+      .map(field => ({field, required: !!field.isRequired, scripted: scriptedProperties.has(field.name)}))
+      .filter(newNoteField => newNoteField.required || newNoteField.scripted);
+  }
+
+  /**
+   * Folder of the folder/fileClass mapping of the fileClass, the default folder of the new notes when the mapping
+   * is a glob or a regex pattern
+   */
+  getFolder(fileClass: string): string {
+    const mapping = this.metaFlowSettings.folderFileClassMappings.find(
+      mapping => mapping.fileClass === fileClass && (mapping.patternKind || 'prefix') === 'prefix');
+    if (mapping) {
+      return mapping.folder.replace(/^\/+|\/+$/g, '');
+    }
+    return this.app.fileManager.getNewFileParent('').path.replace(/^\/+|\/+$/g, '');
+  }
+
+  /**
+   * The Templater folder template of the folder of the new note
+   */
+  getDefaultTemplate(fileClass: string): string | null {
+    return this.templaterAdapter.getFolderTemplate(this.getFolder(fileClass));
+  }
+
+  /**
+   * Create the note, from the Templater template when set, fill its frontmatter like "Update metadata properties",
+   * then rename it by the rules of its fileClass and move it when a move rule applies
+   */
+  async createNote(
+    fileClass: string, values: {[key: string]: any}, templatePath: string | null, logManager: LogManagerInterface
+  ): Promise<TFile> {
+    const folder = this.getFolder(fileClass);
+    let file = templatePath ?
+      await this.templaterAdapter.createNoteFromTemplate(templatePath, folder, UNTITLED) :
+      await this.fileOperationsService.createNote(folder, UNTITLED, '');
+
+    const content = await this.app.vault.read(file);
+    const templateFrontmatter = this.frontMatterService.parseFrontmatter(content)?.metadata || {};
+    const frontmatter = {...templateFrontmatter, [this.metadataMenuAdapter.getFileClassAlias()]: fileClass, ...values};
+    const result = await this.metaFlowService.computeContentUpdate(
+      this.frontMatterService.updateFrontmatter(content, frontmatter), file, logManager
+    );
+    await this.metaFlowEventService.update(file, templateFrontmatter, result.frontmatter, async () => {
+      await this.app.vault.modify(file, result.content);
+    });
+
+    file = await this.fileOperationsService.renameNote(file, fileClass, result.frontmatter, logManager) || file;
+    if (this.fileOperationsService.getPlannedTargetFolder(file, fileClass, result.frontmatter)) {
+      await this.fileOperationsService.moveNote(file, fileClass, result.frontmatter, logManager);
+    }
+    logManager.addInfo(`Created note "${file.path}" of fileClass "${fileClass}"`);
+    return file;
+  }
+}
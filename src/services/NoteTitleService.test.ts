@@ -1,4 +1,5 @@
 import {TFile} from "obsidian";
+import moment from 'moment';
 import {NoteTitleService} from "./NoteTitleService";
 import {MetaFlowSettings} from "../settings/types";
 import {DEFAULT_SETTINGS} from "../settings/defaultSettings";
@@ -69,102 +70,198 @@ describe('NoteTitleService', () => {
   });
 
   describe('formatNoteTitle', () => {
-    it('should format title using template mode', () => {
+    it('should format title using template mode', async () => {
       const metadata = {title: 'My Great Book'};
-      const result = noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
       expect(result).toBe('My Great Book');
     });
 
-    it('should format title using script mode', () => {
+    it('should format title using script mode', async () => {
       const metadata = {title: 'Test Book', author: 'Test Author'};
-      const result = noteTitleService.formatNoteTitle(mockFile, 'book', metadata, mockLogManager);
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'book', metadata, mockLogManager);
       expect(result).toBe('Test Book by Test Author');
     });
 
-    it('should return "Untitled" when no mapping found', () => {
+    it('should return "Untitled" when no mapping found', async () => {
       const metadata = {title: 'Test'};
-      const result = noteTitleService.formatNoteTitle(mockFile, 'unknown', metadata, mockLogManager);
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'unknown', metadata, mockLogManager);
       expect(result).toBe('Untitled');
     });
 
-    it('should return "Untitled" when required metadata is missing for template', () => {
+    it('should return "Untitled" when required metadata is missing for template', async () => {
       const metadata = {author: 'Test Author'}; // missing title
-      const result = noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
       expect(result).toBe('Untitled');
     });
 
-    it('should return "Untitled" when script is disabled', () => {
+    it('should return "Untitled" when script is disabled', async () => {
       mockMetaFlowSettings.folderFileClassMappings[1].noteTitleScript.enabled = false;
       const metadata = {title: 'Test Book', author: 'Test Author'};
-      const result = noteTitleService.formatNoteTitle(mockFile, 'book', metadata, mockLogManager);
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'book', metadata, mockLogManager);
       expect(result).toBe('Untitled');
     });
 
-    it('should sanitize filename with invalid characters', () => {
+    it('should sanitize filename with invalid characters', async () => {
       const metadata = {title: 'Test/Book:With*Invalid?Characters'};
-      const result = noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
       expect(result).toBe('TestBookWithInvalidCharacters');
     });
 
-    it('should handle array values in templates', () => {
+    it('should handle array values in templates', async () => {
       mockMetaFlowSettings.folderFileClassMappings[0].noteTitleTemplates[0].template = '{{tags}}';
       const metadata = {tags: ['fiction', 'adventure']};
-      const result = noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
       expect(result).toBe('fiction, adventure');
     });
 
-    it('should handle script execution errors gracefully', () => {
+    it('should handle script execution errors gracefully', async () => {
       mockMetaFlowSettings.folderFileClassMappings[1].noteTitleScript.script = 'throw new Error("Script error");';
       const metadata = {title: 'Test Book', author: 'Test Author'};
 
       // Suppress console.error for this test
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
 
-      const result = noteTitleService.formatNoteTitle(mockFile, 'book', metadata, mockLogManager);
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'book', metadata, mockLogManager);
       expect(result).toBe('Untitled');
 
       consoleSpy.mockRestore();
     });
 
-    it('should handle non-string script results', () => {
+    it('should await async title scripts', async () => {
+      mockMetaFlowSettings.folderFileClassMappings[1].noteTitleScript.script =
+        'const title = await Promise.resolve(metadata.title); return title;';
+      const metadata = {title: 'Test Book', author: 'Test Author'};
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'book', metadata, mockLogManager);
+      expect(result).toBe('Test Book');
+    });
+
+    it('should handle non-string script results', async () => {
       mockMetaFlowSettings.folderFileClassMappings[1].noteTitleScript.script = 'return 123;';
       const metadata = {title: 'Test Book', author: 'Test Author'};
-      const result = noteTitleService.formatNoteTitle(mockFile, 'book', metadata, mockLogManager);
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'book', metadata, mockLogManager);
       expect(result).toBe('Untitled');
     });
 
-    it('should handle empty script results', () => {
+    it('should handle empty script results', async () => {
       mockMetaFlowSettings.folderFileClassMappings[1].noteTitleScript.script = 'return "";';
       const metadata = {title: 'Test Book', author: 'Test Author'};
-      const result = noteTitleService.formatNoteTitle(mockFile, 'book', metadata, mockLogManager);
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'book', metadata, mockLogManager);
       expect(result).toBe('Untitled');
     });
 
-    it('should try multiple templates until one works', () => {
+    it('should try multiple templates until one works', async () => {
       mockMetaFlowSettings.folderFileClassMappings[0].noteTitleTemplates = [
         {enabled: true, template: '{{missing}}'},  // This will fail
         {enabled: true, template: '{{title}}'}     // This will work
       ];
       const metadata = {title: 'My Great Book'};
-      const result = noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
       expect(result).toBe('My Great Book');
     });
 
-    it('should skip disabled templates', () => {
+    it('should skip disabled templates', async () => {
       mockMetaFlowSettings.folderFileClassMappings[0].noteTitleTemplates = [
         {enabled: false, template: '{{title}}'},   // This is disabled
         {enabled: true, template: '{{author}}'}    // This will work
       ];
       const metadata = {title: 'My Great Book', author: 'Test Author'};
-      const result = noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
       expect(result).toBe('Test Author');
     });
 
-    it('should limit filename length', () => {
+    it('should keep the conditional sections matching the metadata', async () => {
+      mockMetaFlowSettings.folderFileClassMappings[0].noteTitleTemplates[0].template =
+        '{{title}}{{#if volume}} - Vol. {{volume}}{{/if}}{{#if status == "draft"}} (draft){{else}}{{#if subtitle}} - {{subtitle}}{{/if}}{{/if}}';
+      expect(await noteTitleService.formatNoteTitle(mockFile, 'default', {title: 'Dune'}, mockLogManager)).toBe('Dune');
+      expect(await noteTitleService.formatNoteTitle(mockFile, 'default', {title: 'Dune', volume: 2, subtitle: 'Messiah'}, mockLogManager)).toBe('Dune - Vol. 2 - Messiah');
+      expect(await noteTitleService.formatNoteTitle(mockFile, 'default', {title: 'Dune', status: 'draft', subtitle: 'Messiah'}, mockLogManager)).toBe('Dune (draft)');
+    });
+
+    it('should skip the templates whose guard does not match', async () => {
+      mockMetaFlowSettings.folderFileClassMappings[0].noteTitleTemplates = [
+        {enabled: true, template: '{{title}} ({{year}})', guard: 'status == "published" && year'},
+        {enabled: true, template: '{{title}} (unpublished)'}
+      ];
+      expect(await noteTitleService.formatNoteTitle(mockFile, 'default', {title: 'Dune', status: 'published', year: 1965}, mockLogManager)).toBe('Dune (1965)');
+      expect(await noteTitleService.formatNoteTitle(mockFile, 'default', {title: 'Dune', status: 'draft', year: 1965}, mockLogManager)).toBe('Dune (unpublished)');
+    });
+
+    it('should skip the templates with unbalanced blocks or an invalid guard', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
+      mockMetaFlowSettings.folderFileClassMappings[0].noteTitleTemplates = [
+        {enabled: true, template: '{{title}}{{#if volume}} - {{volume}}'},
+        {enabled: true, template: '{{title}} ({{year}})', guard: 'status == published'},
+        {enabled: true, template: '{{title}}'}
+      ];
+      expect(await noteTitleService.formatNoteTitle(mockFile, 'default', {title: 'Dune', status: 'published', year: 1965}, mockLogManager)).toBe('Dune');
+      expect(consoleSpy).toHaveBeenCalledTimes(2);
+      consoleSpy.mockRestore();
+    });
+
+    it('should limit filename length', async () => {
       const longTitle = 'a'.repeat(300);
       const metadata = {title: longTitle};
-      const result = noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
+      const result = await noteTitleService.formatNoteTitle(mockFile, 'default', metadata, mockLogManager);
       expect(result.length).toBeLessThanOrEqual(255);
     });
   });
+
+  describe('resolvePlaceholders', () => {
+    beforeAll(() => {
+      window.moment = moment;
+    });
+
+    afterAll(() => {
+      delete window.moment;
+    });
+
+    it('should format dates with the placeholder format', () => {
+      const result = noteTitleService.resolvePlaceholders('Journal/{{date:YYYY}}/{{published:MM}}', {date: '2025-03-04', published: '2024-11-20'});
+      expect(result).toBe('Journal/2025/11');
+    });
+
+    it('should fall back on the creation date of the note for the date placeholder', () => {
+      Object.assign(mockFile, {stat: {ctime: new Date(2023, 0, 15).getTime()}});
+      expect(noteTitleService.resolvePlaceholders('{{date:YYYY-MM}}', {}, mockFile)).toBe('2023-01');
+    });
+
+    it('should return null when a placeholder has no value', () => {
+      expect(noteTitleService.resolvePlaceholders('Projects/{{project}}', {project: ''})).toBeNull();
+      expect(noteTitleService.resolvePlaceholders('{{published:YYYY}}', {published: 'not a date'})).toBeNull();
+    });
+
+    it('should apply the filters of the placeholder', () => {
+      const metadata = {
+        title: 'Déjà Vu: The Story',
+        date: '2025-03-04',
+        authors: ['Jane Doe', 'John Smith'],
+        tags: ['book', 'fiction'],
+      };
+      expect(noteTitleService.resolvePlaceholders('{{title | slugify}}', metadata)).toBe('deja-vu-the-story');
+      expect(noteTitleService.resolvePlaceholders('{{date | format:"YYYY-MM-DD"}}', metadata)).toBe('2025-03-04');
+      expect(noteTitleService.resolvePlaceholders('{{authors | first}}', metadata)).toBe('Jane Doe');
+      expect(noteTitleService.resolvePlaceholders('{{tags | join:"-"}}', metadata)).toBe('book-fiction');
+      expect(noteTitleService.resolvePlaceholders('{{title | truncate:8 | upper}}', metadata)).toBe('DÉJÀ VU:');
+      expect(noteTitleService.resolvePlaceholders('{{authors | first | lower}}', metadata)).toBe('jane doe');
+    });
+
+    it('should use the default value of a missing property', () => {
+      expect(noteTitleService.resolvePlaceholders('{{title}} ({{series | default:"standalone"}})', {title: 'Dune'})).toBe('Dune (standalone)');
+      expect(noteTitleService.resolvePlaceholders('{{series | default:"standalone"}}', {series: 'Foundation'})).toBe('Foundation');
+      expect(noteTitleService.resolvePlaceholders('{{series | upper}}', {})).toBeNull();
+    });
+
+    it('should resolve nested properties and list items', () => {
+      const metadata = {author: {name: 'Jane Doe'}, authors: ['Jane Doe', 'John Smith'], 'flat.key': 'flat'};
+      expect(noteTitleService.resolvePlaceholders('{{author.name}} & {{authors.1}}', metadata)).toBe('Jane Doe & John Smith');
+      expect(noteTitleService.resolvePlaceholders('{{flat.key}}', metadata)).toBe('flat');
+      expect(noteTitleService.resolvePlaceholders('{{author}}', metadata)).toBeNull();
+      expect(noteTitleService.resolvePlaceholders('{{author.missing}}', metadata)).toBeNull();
+    });
+
+    it('should throw on an invalid placeholder', () => {
+      expect(() => noteTitleService.resolvePlaceholders('{{title | default:standalone}}', {})).toThrow('must be quoted');
+      expect(() => noteTitleService.resolvePlaceholders('{{title | unknown}}', {title: 'Dune'})).toThrow('Unknown filter "unknown"');
+    });
+  });
 });
@@ -3,6 +3,9 @@ import {TFile} from "obsidian";
 import type {MetaFlowSettings, FolderFileClassMapping} from "../settings/types";
 import type {ScriptContextService} from "./ScriptContextService";
 import type {LogManagerInterface} from "../managers/types";
+import {TemplateExpression, TemplatePlaceholder} from "../utils/TemplateExpression";
+import {TemplateBlocks} from "../utils/TemplateBlocks";
+import {PropertyConditions} from "../utils/PropertyConditions";
 import {TYPES} from '../di/types';
 
 @injectable()
@@ -26,12 +29,12 @@ export class NoteTitleService {
    * @param logManager - Log manager for reporting
    * @returns Formatted title or "Untitled" if generation fails
    */
-  formatNoteTitle(
+  async formatNoteTitle(
     file: TFile,
     fileClass: string,
     metadata: {[key: string]: any},
     logManager: LogManagerInterface
-  ): string {
+  ): Promise<string> {
     const DEFAULT_TITLE = "Untitled";
 
     try {
@@ -48,7 +51,7 @@ export class NoteTitleService {
       }
 
       if (mapping.templateMode === 'script') {
-        return this.formatNoteTitleByScript(file, fileClass, metadata, mapping, logManager);
+        return await this.formatNoteTitleByScript(file, fileClass, metadata, mapping, logManager);
       } else {
         return this.formatNoteTitleByTemplate(file, fileClass, metadata, mapping, logManager);
       }
@@ -59,15 +62,15 @@ export class NoteTitleService {
   }
 
   /**
-   * Format note title using script mode
+   * Format note title using script mode, the script may be async
    */
-  private formatNoteTitleByScript(
+  private async formatNoteTitleByScript(
     file: TFile,
     fileClass: string,
     metadata: {[key: string]: any},
     mapping: FolderFileClassMapping,
     logManager: LogManagerInterface
-  ): string {
+  ): Promise<string> {
     const DEFAULT_TITLE = "Untitled";
 
     if (!mapping.noteTitleScript?.enabled || !mapping.noteTitleScript?.script) {
@@ -90,14 +93,14 @@ export class NoteTitleService {
       const executeScript = new Function(
         'context',
         `
-        return ((context) => {
+        return (async (context) => {
           const { ${Object.keys(context).join(', ')} } = context;
           ${mapping.noteTitleScript.script}
         })(context);
         `
       );
 
-      const result = executeScript(context);
+      const result = await executeScript(context);
 
       // Validate result
       if (typeof result !== 'string') {
@@ -156,7 +159,13 @@ export class NoteTitleService {
       }
 
       try {
-        const result = this.processTemplate(template.template, metadata, fileClass);
+        if (template.guard?.trim() && !PropertyConditions.matchAll(PropertyConditions.parse(template.guard), metadata)) {
+          if (this.metaFlowSettings.debugMode) {
+            console.debug(`MetaFlow: Template "${template.template}" skipped, guard "${template.guard}" does not match for fileClass "${fileClass}"`);
+          }
+          continue;
+        }
+        const result = this.processTemplate(template.template, metadata, fileClass, file);
 
         if (result) {
           const sanitizedTitle = this.sanitizeFilename(result);
@@ -181,40 +190,48 @@ export class NoteTitleService {
   }
 
   /**
-   * Process a template string by replacing placeholders with metadata values
+   * Process a template string by keeping the matching {{#if condition}}...{{else}}...{{/if}} sections
+   * and replacing placeholders with metadata values, the placeholders of the dropped sections are not required
    * @param template - Template string with {{property}} placeholders
    * @param metadata - Metadata object
    * @param fileClass - File class for debug logging
+   * @param file - The note, its creation date is used by {{date:FORMAT}} when it has no date property
    * @returns Processed template or null if required metadata is missing
    */
-  private processTemplate(template: string, metadata: {[key: string]: any}, fileClass: string): string | null {
-    // Find all placeholders in the template
-    const placeholderRegex = /\{\{([^}]+)\}\}/g;
-    const placeholders = [];
-    let match;
-
-    while ((match = placeholderRegex.exec(template)) !== null) {
-      placeholders.push(match[1].trim());
-    }
+  private processTemplate(template: string, metadata: {[key: string]: any}, fileClass: string, file?: TFile): string | null {
+    return this.resolvePlaceholders(TemplateBlocks.resolve(template, metadata), metadata, file)?.trim() || null;
+  }
 
-    // Check if all required metadata is available
-    for (const placeholder of placeholders) {
-      const value = metadata?.[placeholder];
-      if (value === undefined || value === null || value === '') {
-        // Required metadata is missing
-        return null;
+  /**
+   * Replace the {{property}} placeholders by the property value (lists are joined with ", "),
+   * nested values are reached with dots ({{author.name}}, {{authors.0}}) and the value goes through
+   * the filters of the placeholder ({{title | slugify}}, {{date | format:"YYYY-MM-DD"}}, {{series | default:"standalone"}}),
+   * the legacy {{property:FORMAT}} is the same as {{property | format:"FORMAT"}},
+   * a formatted {{date}} falls back on the note creation date when the note has no date property
+   * @returns null if a placeholder cannot be resolved
+   * @throws SyntaxError for an invalid placeholder
+   */
+  resolvePlaceholders(template: string, metadata: {[key: string]: any}, file?: TFile): string | null {
+    let unresolved = false;
+    const result = template.replace(/\{\{([^}]+)\}\}/g, (match: string, expression: string) => {
+      const value = this.resolvePlaceholder(TemplateExpression.parse(expression), metadata, file);
+      if (value === null) {
+        unresolved = true;
+        return match;
       }
-    }
+      return value;
+    });
+    return unresolved ? null : result;
+  }
 
-    // Replace all placeholders with actual values
-    let result = template;
-    for (const placeholder of placeholders) {
-      const value = metadata[placeholder];
-      const stringValue = Array.isArray(value) ? value.join(', ') : String(value);
-      result = result.replace(new RegExp(`\\{\\{\\s*${placeholder}\\s*\\}\\}`, 'g'), stringValue);
+  private resolvePlaceholder(placeholder: TemplatePlaceholder, metadata: {[key: string]: any}, file?: TFile): string | null {
+    let value = TemplateExpression.getValue(metadata ?? {}, placeholder.path);
+    const formatted = placeholder.filters.some(filter => filter.name === 'format');
+    if (TemplateExpression.isEmpty(value) && formatted && placeholder.path === 'date' && file?.stat) {
+      value = new Date(file.stat.ctime);
     }
-
-    return result.trim();
+    const text = TemplateExpression.toText(TemplateExpression.applyFilters(value, placeholder.filters));
+    return text === '' ? null : text;
   }
 
   /**
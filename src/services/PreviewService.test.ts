@@ -0,0 +1,154 @@
+import {TFile} from "obsidian";
+import {PreviewService} from "./PreviewService";
+import {FrontMatterService} from "./FrontMatterService";
+import {MetaFlowSettings} from "../settings/types";
+import {DEFAULT_SETTINGS} from "../settings/defaultSettings";
+import {LogManagerInterface} from "../managers/types";
+
+describe('PreviewService', () => {
+  let previewService: PreviewService;
+  let mockSettings: MetaFlowSettings;
+  let mockMetaFlowService: any;
+  let mockFileOperationsService: any;
+  let mockFile: TFile;
+  let mockLogManager: LogManagerInterface;
+
+  beforeEach(() => {
+    mockSettings = {...DEFAULT_SETTINGS};
+
+    mockMetaFlowService = {
+      computeContentUpdate: jest.fn().mockResolvedValue({
+        fileClass: 'book',
+        originalFrontmatter: {status: 'draft', title: 'Old', obsolete: null},
+        frontmatter: {fileClass: 'book', title: 'New', status: 'draft'},
+        bodyContent: 'Body',
+        content: '---\nfileClass: book\ntitle: New\nstatus: draft\n---\nBody',
+        diagnostics: [],
+        valueSources: {},
+      }),
+    };
+
+    mockFileOperationsService = {
+      getPlannedTitle: jest.fn().mockResolvedValue('New'),
+      getPlannedTargetFolder: jest.fn().mockReturnValue('Books'),
+      renameNote: jest.fn().mockResolvedValue(null),
+      moveNote: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockFile = Object.create(TFile.prototype);
+    Object.assign(mockFile, {
+      name: 'Old.md',
+      basename: 'Old',
+      extension: 'md',
+      path: 'Inbox/Old.md',
+      parent: {path: 'Inbox'},
+    });
+
+    mockLogManager = {
+      addDebug: jest.fn(),
+      addInfo: jest.fn(),
+      addWarning: jest.fn(),
+      addError: jest.fn(),
+      addMessage: jest.fn(),
+    };
+
+    previewService = new PreviewService(
+      mockSettings,
+      mockMetaFlowService,
+      new FrontMatterService(),
+      mockFileOperationsService
+    );
+  });
+
+  describe('buildPreview', () => {
+    it('should compute the frontmatter changes and the planned rename and move', async () => {
+      const preview = await previewService.buildPreview('content', mockFile, mockLogManager);
+
+      expect(preview.fileClass).toBe('book');
+      expect(preview.changes).toEqual([
+        {key: 'fileClass', status: 'added', after: 'book'},
+        {key: 'title', status: 'changed', before: 'Old', after: 'New'},
+        {key: 'status', status: 'unchanged', before: 'draft', after: 'draft'},
+        {key: 'obsolete', status: 'removed', before: null},
+      ]);
+      expect(preview.orderChanged).toBe(true);
+      expect(preview.plannedTitle).toBe('New');
+      expect(preview.plannedFolder).toBe('Books');
+      expect(previewService.getPlannedPath(preview)).toBe('Books/New.md');
+      expect(previewService.hasChanges(preview)).toBe(true);
+    });
+
+    it('should not plan rename nor move when disabled in settings', async () => {
+      mockSettings.autoRenameNote = false;
+      mockSettings.autoMoveNoteToRightFolder = false;
+
+      const preview = await previewService.buildPreview('content', mockFile, mockLogManager);
+
+      expect(mockFileOperationsService.getPlannedTitle).not.toHaveBeenCalled();
+      expect(mockFileOperationsService.getPlannedTargetFolder).not.toHaveBeenCalled();
+      expect(preview.plannedTitle).toBeNull();
+      expect(preview.plannedFolder).toBeNull();
+      expect(previewService.getPlannedPath(preview)).toBe('Inbox/Old.md');
+    });
+  });
+
+  describe('computeChanges', () => {
+    it('should consider deep equal values as unchanged', () => {
+      const changes = previewService.computeChanges({tags: ['a', 'b']}, {tags: ['a', 'b']});
+      expect(changes).toEqual([{key: 'tags', status: 'unchanged', before: ['a', 'b'], after: ['a', 'b']}]);
+    });
+  });
+
+  describe('buildContent', () => {
+    it('should return the processed content when every change is applied', async () => {
+      const preview = await previewService.buildPreview('content', mockFile, mockLogManager);
+      expect(previewService.buildContent(preview, null)).toBe(preview.processedContent);
+    });
+
+    it('should only apply the selected changes', async () => {
+      const preview = await previewService.buildPreview(
+        '---\ntitle: Old\nstatus: draft\nobsolete:\n---\nBody', mockFile, mockLogManager
+      );
+
+      const frontmatter = previewService.buildSelectedFrontmatter(preview, new Set(['title']));
+      expect(frontmatter).toEqual({title: 'New', status: 'draft', obsolete: null});
+
+      const content = previewService.buildContent(preview, new Set(['fileClass', 'obsolete']));
+      expect(content).toBe('---\nfileClass: book\ntitle: Old\nstatus: draft\n---\nBody');
+    });
+  });
+
+  describe('applyFileOperations', () => {
+    it('should rename then move the note', async () => {
+      const renamedFile = {...mockFile, name: 'New.md'};
+      mockFileOperationsService.renameNote.mockResolvedValue(renamedFile);
+      mockFileOperationsService.moveNote.mockResolvedValue('Books/New.md');
+      const preview = await previewService.buildPreview('content', mockFile, mockLogManager);
+
+      const file = await previewService.applyFileOperations(preview, preview.updatedFrontmatter, mockLogManager);
+
+      expect(mockFileOperationsService.renameNote).toHaveBeenCalledWith(mockFile, 'book', preview.updatedFrontmatter, mockLogManager);
+      expect(mockFileOperationsService.moveNote).toHaveBeenCalledWith(renamedFile, 'book', preview.updatedFrontmatter, mockLogManager);
+      expect(file).toBe(renamedFile);
+    });
+
+    it('should give null when a collision skips the planned move', async () => {
+      mockFileOperationsService.getPlannedTitle.mockResolvedValue(null);
+      mockFileOperationsService.moveNote.mockResolvedValue(null);
+      const preview = await previewService.buildPreview('content', mockFile, mockLogManager);
+
+      expect(await previewService.applyFileOperations(preview, preview.updatedFrontmatter, mockLogManager)).toBeNull();
+    });
+
+    it('should do nothing when no rename nor move is planned', async () => {
+      mockFileOperationsService.getPlannedTitle.mockResolvedValue(null);
+      mockFileOperationsService.getPlannedTargetFolder.mockReturnValue(null);
+      const preview = await previewService.buildPreview('content', mockFile, mockLogManager);
+
+      await previewService.applyFileOperations(preview, preview.updatedFrontmatter, mockLogManager);
+
+      expect(mockFileOperationsService.renameNote).not.toHaveBeenCalled();
+      expect(mockFileOperationsService.moveNote).not.toHaveBeenCalled();
+    });
+  });
+});
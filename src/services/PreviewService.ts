@@ -0,0 +1,202 @@
+import {injectable, inject} from 'inversify';
+import type {TFile} from "obsidian";
+import type {MetaFlowSettings} from "../settings/types";
+import type {LogManagerInterface} from "../managers/types";
+import type {MetaFlowService} from "./MetaFlowService";
+import type {FrontMatterService} from "./FrontMatterService";
+import type {FileOperationsService} from "./FileOperationsService";
+import type {FieldDiagnostic} from "./FieldValidationService";
+import type {FileClassDeduction} from "./FileClassDeductionService";
+import {TYPES} from '../di/types';
+
+export type FrontmatterChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface FrontmatterChange {
+  key: string;
+  status: FrontmatterChangeStatus;
+  before?: any;
+  after?: any;
+}
+
+export interface FilePreview {
+  file: TFile;
+  fileClass: string;
+  originalContent: string;
+  processedContent: string;
+  bodyContent: string;
+  originalFrontmatter: {[key: string]: any};
+  updatedFrontmatter: {[key: string]: any};
+  changes: FrontmatterChange[];
+  orderChanged: boolean;
+  plannedTitle: string | null;
+  plannedFolder: string | null;
+  diagnostics: FieldDiagnostic[];
+  deduction: FileClassDeduction | null;
+}
+
+/**
+ * Dry-run of the metadata pipeline: computes what "Update metadata properties"
+ * would write, rename and move without touching the vault
+ */
+@injectable()
+export class PreviewService {
+  private metaFlowSettings: MetaFlowSettings;
+  private metaFlowService: MetaFlowService;
+  private frontMatterService: FrontMatterService;
+  private fileOperationsService: FileOperationsService;
+
+  constructor(
+    @inject(TYPES.MetaFlowSettings) metaFlowSettings: MetaFlowSettings,
+    @inject(TYPES.MetaFlowService) metaFlowService: MetaFlowService,
+    @inject(TYPES.FrontMatterService) frontMatterService: FrontMatterService,
+    @inject(TYPES.FileOperationsService) fileOperationsService: FileOperationsService
+  ) {
+    this.metaFlowSettings = metaFlowSettings;
+    this.metaFlowService = metaFlowService;
+    this.frontMatterService = frontMatterService;
+    this.fileOperationsService = fileOperationsService;
+  }
+
+  /**
+   * Run the full pipeline (sync fields, sort, default value scripts, rename and move planning)
+   */
+  async buildPreview(content: string, file: TFile, logManager: LogManagerInterface): Promise<FilePreview> {
+    const result = await this.metaFlowService.computeContentUpdate(content, file, logManager);
+
+    const plannedTitle = this.metaFlowSettings.autoRenameNote ?
+      await this.fileOperationsService.getPlannedTitle(file, result.fileClass, result.frontmatter, logManager) :
+      null;
+    const plannedFolder = this.metaFlowSettings.autoMoveNoteToRightFolder ?
+      this.fileOperationsService.getPlannedTargetFolder(file, result.fileClass, result.frontmatter) :
+      null;
+
+    return {
+      file,
+      fileClass: result.fileClass,
+      originalContent: content,
+      processedContent: result.content,
+      bodyContent: result.bodyContent,
+      originalFrontmatter: result.originalFrontmatter,
+      updatedFrontmatter: result.frontmatter,
+      changes: this.computeChanges(result.originalFrontmatter, result.frontmatter),
+      orderChanged: this.isOrderChanged(result.originalFrontmatter, result.frontmatter),
+      plannedTitle,
+      plannedFolder,
+      diagnostics: result.diagnostics,
+      deduction: result.deduction,
+    };
+  }
+
+  /**
+   * Compare two frontmatter objects key by key, following the order of the updated frontmatter
+   * then listing removed keys
+   */
+  computeChanges(before: {[key: string]: any}, after: {[key: string]: any}): FrontmatterChange[] {
+    const changes: FrontmatterChange[] = [];
+    for (const key of Object.keys(after)) {
+      if (!(key in before)) {
+        changes.push({key, status: 'added', after: after[key]});
+      } else if (this.isSameValue(before[key], after[key])) {
+        changes.push({key, status: 'unchanged', before: before[key], after: after[key]});
+      } else {
+        changes.push({key, status: 'changed', before: before[key], after: after[key]});
+      }
+    }
+    for (const key of Object.keys(before)) {
+      if (!(key in after)) {
+        changes.push({key, status: 'removed', before: before[key]});
+      }
+    }
+    return changes;
+  }
+
+  hasChanges(preview: FilePreview): boolean {
+    return preview.processedContent !== preview.originalContent ||
+      preview.plannedTitle !== null ||
+      preview.plannedFolder !== null;
+  }
+
+  /**
+   * Target path of the note once renamed and moved
+   */
+  getPlannedPath(preview: FilePreview): string {
+    const folder = preview.plannedFolder ?? (preview.file.parent?.path || '');
+    const basename = preview.plannedTitle ?? preview.file.basename;
+    const fileName = `${basename}.${preview.file.extension}`;
+    return (folder === '' || folder === '/') ? fileName : `${folder}/${fileName}`;
+  }
+
+  /**
+   * Build the frontmatter keeping only the selected changes,
+   * unselected keys keep their original value (or stay absent)
+   */
+  buildSelectedFrontmatter(preview: FilePreview, selectedKeys: Set<string>): {[key: string]: any} {
+    const frontmatter: {[key: string]: any} = {};
+    for (const change of preview.changes) {
+      const selected = selectedKeys.has(change.key);
+      switch (change.status) {
+        case 'unchanged':
+          frontmatter[change.key] = change.after;
+          break;
+        case 'added':
+          if (selected) frontmatter[change.key] = change.after;
+          break;
+        case 'changed':
+          frontmatter[change.key] = selected ? change.after : change.before;
+          break;
+        case 'removed':
+          if (!selected) frontmatter[change.key] = change.before;
+          break;
+      }
+    }
+    return frontmatter;
+  }
+
+  /**
+   * Content to write for the given selection, null selection means all changes
+   */
+  buildContent(preview: FilePreview, selectedKeys: Set<string> | null): string {
+    if (selectedKeys === null) {
+      return preview.processedContent;
+    }
+    const frontmatter = this.buildSelectedFrontmatter(preview, selectedKeys);
+    return this.frontMatterService.updateFrontmatter(preview.originalContent, frontmatter);
+  }
+
+  /**
+   * Rename and move the note as planned in the preview
+   * @returns the note at its final path, or null when a collision skipped the planned rename or move
+   */
+  async applyFileOperations(
+    preview: FilePreview,
+    metadata: {[key: string]: any},
+    logManager: LogManagerInterface
+  ): Promise<TFile | null> {
+    let file = preview.file;
+    let skipped = false;
+    if (preview.plannedTitle !== null) {
+      const renamedFile = await this.fileOperationsService.renameNote(file, preview.fileClass, metadata, logManager);
+      if (renamedFile) {
+        file = renamedFile;
+      } else {
+        skipped = true;
+      }
+    }
+    if (preview.plannedFolder !== null) {
+      if (await this.fileOperationsService.moveNote(file, preview.fileClass, metadata, logManager) === null) {
+        skipped = true;
+      }
+    }
+    return skipped ? null : file;
+  }
+
+  private isOrderChanged(before: {[key: string]: any}, after: {[key: string]: any}): boolean {
+    const afterKeys = Object.keys(after).filter(key => key in before);
+    const beforeKeys = Object.keys(before).filter(key => key in after);
+    return afterKeys.some((key, index) => beforeKeys[index] !== key);
+  }
+
+  private isSameValue(a: any, b: any): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+  }
+}
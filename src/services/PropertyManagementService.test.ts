@@ -32,6 +32,7 @@ describe('PropertyManagementService', () => {
 
     mockMetadataMenuAdapter = {
       getFileClassAlias: jest.fn().mockReturnValue('fileClass'),
+      getFileClassAncestorChain: jest.fn().mockImplementation((fileClass: string) => ['default', fileClass]),
       getFileClassAndAncestorsFields: jest.fn().mockReturnValue([
         {name: 'author', type: 'text'},
         {name: 'tags', type: 'multi'},
@@ -114,10 +115,10 @@ describe('PropertyManagementService', () => {
   });
 
   describe('addDefaultValuesToProperties', () => {
-    it('should add default values for missing properties', () => {
+    it('should add default values for missing properties', async () => {
       const frontmatter = {title: 'My Book'};
 
-      const result = propertyManagementService.addDefaultValuesToProperties(
+      const result = await propertyManagementService.addDefaultValuesToProperties(
         frontmatter,
         mockFile,
         'book',
@@ -130,13 +131,13 @@ describe('PropertyManagementService', () => {
       expect(result.tags).toEqual(['default-tag']);
     });
 
-    it('should not override existing values', () => {
+    it('should not override existing values', async () => {
       const frontmatter = {
         title: 'My Book',
         author: 'Existing Author'
       };
 
-      const result = propertyManagementService.addDefaultValuesToProperties(
+      const result = await propertyManagementService.addDefaultValuesToProperties(
         frontmatter,
         mockFile,
         'book',
@@ -147,11 +148,11 @@ describe('PropertyManagementService', () => {
       expect(result.tags).toEqual(['default-tag']);  // Should be added
     });
 
-    it('should skip disabled scripts', () => {
+    it('should skip disabled scripts', async () => {
       mockMetaFlowSettings.propertyDefaultValueScripts[0].enabled = false;
       const frontmatter = {title: 'My Book'};
 
-      const result = propertyManagementService.addDefaultValuesToProperties(
+      const result = await propertyManagementService.addDefaultValuesToProperties(
         frontmatter,
         mockFile,
         'book',
@@ -162,7 +163,7 @@ describe('PropertyManagementService', () => {
       expect(result.tags).toEqual(['default-tag']); // Should still be added
     });
 
-    it('should process scripts in order', () => {
+    it('should process scripts in order', async () => {
       // Reverse the order to test sorting
       mockMetaFlowSettings.propertyDefaultValueScripts = [
         {
@@ -185,7 +186,7 @@ describe('PropertyManagementService', () => {
       ]);
 
       const frontmatter = {};
-      const result = propertyManagementService.addDefaultValuesToProperties(
+      const result = await propertyManagementService.addDefaultValuesToProperties(
         frontmatter,
         mockFile,
         'book',
@@ -197,7 +198,7 @@ describe('PropertyManagementService', () => {
       expect(result.second).toBe('second');
     });
 
-    it('should skip properties not in fileClass fields', () => {
+    it('should skip properties not in fileClass fields', async () => {
       mockMetaFlowSettings.propertyDefaultValueScripts.push({
         propertyName: 'nonExistentField',
         script: 'return "value";',
@@ -206,7 +207,7 @@ describe('PropertyManagementService', () => {
       });
 
       const frontmatter = {};
-      const result = propertyManagementService.addDefaultValuesToProperties(
+      const result = await propertyManagementService.addDefaultValuesToProperties(
         frontmatter,
         mockFile,
         'book',
@@ -215,5 +216,280 @@ describe('PropertyManagementService', () => {
 
       expect(result.nonExistentField).toBeUndefined();
     });
+
+    it('should await async scripts in order, each one seeing the previous results', async () => {
+      mockMetaFlowSettings.propertyDefaultValueScripts = [
+        {
+          propertyName: 'author',
+          script: 'return await prompt("Author");',
+          enabled: true,
+          order: 1
+        },
+        {
+          propertyName: 'title',
+          script: 'return await Promise.resolve(`Book by ${metadata.author}`);',
+          enabled: true,
+          order: 2
+        }
+      ];
+      const metadata: {[key: string]: any} = {};
+      mockScriptContextService.getScriptContext.mockImplementation(
+        (file: TFile, fileClass: string, frontmatter: {[key: string]: any}) => {
+          Object.assign(metadata, frontmatter);
+          return {metadata, prompt: jest.fn().mockResolvedValue('Jane')};
+        }
+      );
+
+      const result = await propertyManagementService.addDefaultValuesToProperties(
+        {},
+        mockFile,
+        'book',
+        mockLogManager
+      );
+
+      expect(result.author).toBe('Jane');
+      expect(result.title).toBe('Book by Jane');
+    });
+
+    it('should report rejected async scripts', async () => {
+      mockMetaFlowSettings.propertyDefaultValueScripts = [
+        {
+          propertyName: 'author',
+          script: 'return await Promise.reject(new Error("cancelled"));',
+          enabled: true,
+          order: 1
+        }
+      ];
+
+      await expect(propertyManagementService.addDefaultValuesToProperties({}, mockFile, 'book', mockLogManager))
+        .rejects.toThrow('Error executing script for property "author": cancelled');
+    });
+  });
+
+  describe('fileClasses scoping', () => {
+    beforeEach(() => {
+      mockMetadataMenuAdapter.getFileClassAndAncestorsFields.mockReturnValue([
+        {name: 'status', type: 'text'},
+        {name: 'author', type: 'text'}
+      ]);
+    });
+
+    it('should ignore scripts scoped to other fileClasses', async () => {
+      mockMetaFlowSettings.propertyDefaultValueScripts = [
+        {propertyName: 'status', script: 'return "to read";', enabled: true, order: 1, fileClasses: ['movie']},
+      ];
+
+      const result = await propertyManagementService.addDefaultValuesToProperties({}, mockFile, 'book', mockLogManager);
+
+      expect(result.status).toBeUndefined();
+    });
+
+    it('should apply scripts scoped to an ancestor of the fileClass', async () => {
+      mockMetaFlowSettings.propertyDefaultValueScripts = [
+        {propertyName: 'status', script: 'return "draft";', enabled: true, order: 1, fileClasses: ['default']},
+      ];
+
+      const result = await propertyManagementService.addDefaultValuesToProperties({}, mockFile, 'book', mockLogManager);
+
+      expect(result.status).toBe('draft');
+    });
+
+    it('should prefer the fileClass script, then the nearest ancestor script, then the global script', async () => {
+      const globalScript = {propertyName: 'status', script: 'return "global";', enabled: true, order: 1};
+      const ancestorScript = {propertyName: 'status', script: 'return "default";', enabled: true, order: 2, fileClasses: ['default']};
+      const bookScript = {propertyName: 'status', script: 'return "to read";', enabled: true, order: 3, fileClasses: ['book']};
+
+      mockMetaFlowSettings.propertyDefaultValueScripts = [globalScript, ancestorScript, bookScript];
+      expect((await propertyManagementService.addDefaultValuesToProperties({}, mockFile, 'book', mockLogManager)).status)
+        .toBe('to read');
+
+      mockMetaFlowSettings.propertyDefaultValueScripts = [globalScript, ancestorScript];
+      expect((await propertyManagementService.addDefaultValuesToProperties({}, mockFile, 'book', mockLogManager)).status)
+        .toBe('default');
+
+      mockMetaFlowSettings.propertyDefaultValueScripts = [globalScript];
+      expect((await propertyManagementService.addDefaultValuesToProperties({}, mockFile, 'book', mockLogManager)).status)
+        .toBe('global');
+    });
+
+    it('should not let a disabled script hide a less specific one', async () => {
+      mockMetaFlowSettings.propertyDefaultValueScripts = [
+        {propertyName: 'status', script: 'return "global";', enabled: true, order: 1},
+        {propertyName: 'status', script: 'return "to read";', enabled: false, order: 2, fileClasses: ['book']},
+      ];
+
+      const result = await propertyManagementService.addDefaultValuesToProperties({}, mockFile, 'book', mockLogManager);
+
+      expect(result.status).toBe('global');
+    });
+
+    it('should run the script of the fileClass of the note', async () => {
+      mockMetaFlowSettings.propertyDefaultValueScripts = [
+        {propertyName: 'status', script: 'return "to watch";', enabled: true, order: 1, fileClasses: ['movie']},
+        {propertyName: 'status', script: 'return "to read";', enabled: true, order: 2, fileClasses: ['book']},
+      ];
+
+      expect(await propertyManagementService.runPropertyScript('status', mockFile, 'book', {}, mockLogManager)).toBe('to read');
+      expect(await propertyManagementService.runPropertyScript('status', mockFile, 'movie', {}, mockLogManager)).toBe('to watch');
+      await expect(propertyManagementService.runPropertyScript('status', mockFile, 'article', {}, mockLogManager))
+        .rejects.toThrow('No enabled script for property "status" and fileClass "article"');
+    });
+
+    it('should sort properties with the order of the scripts of the fileClass', () => {
+      mockMetaFlowSettings.propertyDefaultValueScripts = [
+        {propertyName: 'status', script: '', enabled: true, order: 1, fileClasses: ['movie']},
+        {propertyName: 'author', script: '', enabled: true, order: 2},
+        {propertyName: 'status', script: '', enabled: true, order: 3, fileClasses: ['book']},
+      ];
+
+      const result = propertyManagementService.sortProperties({status: 'a', author: 'b'}, true, 'book', mockLogManager);
+
+      expect(Object.keys(result)).toEqual(['author', 'status']);
+    });
+  });
+
+  describe('MetadataMenu default values', () => {
+    beforeEach(() => {
+      mockMetadataMenuAdapter.getFileClassAndAncestorsFields.mockReturnValue([
+        {name: 'status', type: 'Select', defaultValue: 'todo'},
+        {name: 'author', type: 'Input', defaultValue: 'Unknown'},
+        {name: 'status', type: 'Select', defaultValue: 'to read'},
+        {name: 'rating', type: 'Number'},
+      ]);
+      mockMetaFlowSettings.propertyDefaultValueScripts = [
+        {propertyName: 'author', script: 'return "Default Author";', enabled: true, order: 1},
+      ];
+    });
+
+    it('should use the MetadataMenu default of the most specific fileClass for properties without script', async () => {
+      const result = await propertyManagementService.addDefaultValuesWithSources({}, mockFile, 'book', mockLogManager);
+
+      expect(result.frontmatter).toEqual({fileClass: 'book', author: 'Default Author', status: 'to read'});
+      expect(result.valueSources).toEqual({author: 'script', status: 'metadataMenu'});
+    });
+
+    it('should let the MetadataMenu default win when configured', async () => {
+      mockMetaFlowSettings.defaultValuePrecedence = 'metadataMenu';
+
+      const result = await propertyManagementService.addDefaultValuesWithSources({}, mockFile, 'book', mockLogManager);
+
+      expect(result.frontmatter.author).toBe('Unknown');
+      expect(result.valueSources).toEqual({author: 'metadataMenu', status: 'metadataMenu'});
+    });
+
+    it('should keep existing values and ignore disabled scripts', async () => {
+      mockMetaFlowSettings.propertyDefaultValueScripts[0].enabled = false;
+
+      const result = await propertyManagementService.addDefaultValuesWithSources(
+        {status: 'done'}, mockFile, 'book', mockLogManager
+      );
+
+      expect(result.frontmatter).toEqual({fileClass: 'book', status: 'done', author: 'Unknown'});
+      expect(result.valueSources).toEqual({author: 'metadataMenu'});
+    });
+  });
+
+  describe('fileClass change', () => {
+    beforeEach(() => {
+      mockMetadataMenuAdapter.getFileClassAndAncestorsFields.mockImplementation((fileClass: string) => fileClass === 'article' ?
+        [{name: 'title', type: 'Input'}, {name: 'writer', type: 'Input'}, {name: 'url', type: 'Input'}, {name: 'summary', type: 'Input'}] :
+        [{name: 'title', type: 'Input'}, {name: 'author', type: 'Input'}]
+      );
+      mockMetaFlowSettings.fieldMigrations = [
+        {fromFileClass: 'article', fromField: 'writer', toFileClass: 'book', toField: 'author'},
+        {fromFileClass: 'article', fromField: 'url', toFileClass: 'movie', toField: 'link'},
+      ];
+    });
+
+    it('should migrate the fields of the matching fileClasses', () => {
+      const result = propertyManagementService.migrateFields(
+        {fileClass: 'book', writer: 'Jane', url: 'http://example.com'}, 'article', 'book', mockLogManager
+      );
+
+      expect(result).toEqual({fileClass: 'book', author: 'Jane', url: 'http://example.com'});
+      expect(mockLogManager.addInfo).toHaveBeenCalledWith('Field "writer" migrated to "author"');
+    });
+
+    it('should not overwrite the value of the new field', () => {
+      const result = propertyManagementService.migrateFields({writer: 'Jane', author: 'John'}, 'article', 'book', mockLogManager);
+
+      expect(result).toEqual({writer: 'Jane', author: 'John'});
+      expect(mockLogManager.addWarning).toHaveBeenCalledWith('Field "writer" not migrated, "author" already has a value');
+    });
+
+    it('should list the non-empty fields of the old fileClass not defined by the new one', () => {
+      const obsoleteFields = propertyManagementService.getObsoleteFields(
+        {fileClass: 'book', title: 'Dune', url: 'http://example.com', summary: null, custom: 'value'}, 'article', 'book', mockLogManager
+      );
+
+      expect(obsoleteFields).toEqual(['url']);
+    });
+
+    it('should use the policy of the mapping of the new fileClass, then the global policy', () => {
+      mockMetaFlowSettings.obsoleteFieldPolicy = 'remove';
+      mockMetaFlowSettings.folderFileClassMappings = [
+        {...DEFAULT_SETTINGS.folderFileClassMappings[0], fileClass: 'book', obsoleteFieldPolicy: 'ask'},
+        {...DEFAULT_SETTINGS.folderFileClassMappings[0], fileClass: 'movie'},
+      ];
+
+      expect(propertyManagementService.getObsoleteFieldPolicy('book')).toBe('ask');
+      expect(propertyManagementService.getObsoleteFieldPolicy('movie')).toBe('remove');
+    });
+
+    it('should remove or archive the obsolete fields', () => {
+      const frontmatter = {title: 'Dune', url: 'http://example.com', _archived: {isbn: '123'}};
+
+      expect(propertyManagementService.applyObsoleteFieldPolicy(frontmatter, ['url'], 'keep')).toEqual(frontmatter);
+      expect(propertyManagementService.applyObsoleteFieldPolicy(frontmatter, ['url'], 'remove'))
+        .toEqual({title: 'Dune', _archived: {isbn: '123'}});
+      expect(propertyManagementService.applyObsoleteFieldPolicy(frontmatter, ['url'], 'archive'))
+        .toEqual({title: 'Dune', _archived: {isbn: '123', url: 'http://example.com'}});
+    });
+  });
+
+  describe('property order profiles', () => {
+    const frontmatter = {title: 'a', status: 'b', author: 'c', extra: 'd'};
+
+    it('should sort properties with the custom profile of the fileClass', () => {
+      mockMetaFlowSettings.propertyOrderProfiles = [
+        {fileClass: 'book', mode: 'custom', properties: ['status', 'title', 'author']},
+      ];
+
+      const result = propertyManagementService.sortProperties(frontmatter, true, 'book', mockLogManager);
+
+      expect(Object.keys(result)).toEqual(['status', 'title', 'author', 'extra']);
+    });
+
+    it('should inherit the profile of the nearest ancestor', () => {
+      mockMetaFlowSettings.propertyOrderProfiles = [
+        {fileClass: 'default', mode: 'custom', properties: ['title', 'status']},
+        {fileClass: 'book', mode: 'inherit', properties: ['author']},
+      ];
+
+      const result = propertyManagementService.sortProperties(frontmatter, true, 'book', mockLogManager);
+
+      expect(Object.keys(result)).toEqual(['title', 'status', 'author', 'extra']);
+    });
+
+    it('should use the MetadataMenu field order', () => {
+      mockMetaFlowSettings.propertyOrderProfiles = [
+        {fileClass: 'book', mode: 'metadataMenu', properties: []},
+      ];
+
+      const result = propertyManagementService.sortProperties({...frontmatter, fileClass: 'book'}, true, 'book', mockLogManager);
+
+      expect(Object.keys(result)).toEqual(['fileClass', 'author', 'title', 'extra', 'status']);
+      expect(mockMetadataMenuAdapter.getFileClassAndAncestorsFields).toHaveBeenCalledWith('book', mockLogManager);
+    });
+
+    it('should fall back to the scripts order without profile for the fileClass or its ancestors', () => {
+      mockMetaFlowSettings.propertyOrderProfiles = [
+        {fileClass: 'movie', mode: 'custom', properties: ['extra']},
+      ];
+
+      const result = propertyManagementService.sortProperties(frontmatter, true, 'book', mockLogManager);
+
+      expect(Object.keys(result)).toEqual(['author', 'extra', 'status', 'title']);
+    });
   });
 });
@@ -1,6 +1,6 @@
 import {injectable, inject} from 'inversify';
 import {TFile} from "obsidian";
-import type {MetaFlowSettings, PropertyDefaultValueScript} from "../settings/types";
+import type {MetaFlowSettings, ObsoleteFieldPolicy, PropertyDefaultValueScript} from "../settings/types";
 import {MetaFlowException} from "../MetaFlowException";
 import type {MetadataMenuAdapter} from "../externalApi/MetadataMenuAdapter";
 import type {ScriptContextService} from "./ScriptContextService";
@@ -8,8 +8,22 @@ import type {LogManagerInterface} from "../managers/types";
 import {MetadataMenuField} from "../externalApi/types.MetadataMenu";
 import {TYPES} from '../di/types';
 
+/**
+ * script: the value comes from a PropertyDefaultValueScript
+ * metadataMenu: the value comes from the MetadataMenu field defaultValue
+ */
+export type DefaultValueSource = 'script' | 'metadataMenu';
+
+export interface DefaultValuesResult {
+  frontmatter: {[key: string]: any};
+  // source of each value set by addDefaultValuesWithSources
+  valueSources: {[key: string]: DefaultValueSource};
+}
+
 @injectable()
 export class PropertyManagementService {
+  public static readonly ARCHIVE_PROPERTY = '_archived';
+
   private metaFlowSettings: MetaFlowSettings;
   private metadataMenuAdapter: MetadataMenuAdapter;
   private scriptContextService: ScriptContextService;
@@ -26,25 +40,42 @@ export class PropertyManagementService {
 
   /**
    * Add default values to properties using the configured scripts
+   * Scripts are awaited one after the other, so each script sees the values set by the previous ones
+   * Only the scripts scoped to the fileClass (or its ancestors) are used, see selectScriptsForFileClass
    */
-  addDefaultValuesToProperties(
+  async addDefaultValuesToProperties(
     frontmatter: {[key: string]: any},
     file: TFile,
     fileClass: string,
     logManager: LogManagerInterface
-  ): {[key: string]: any} {
+  ): Promise<{[key: string]: any}> {
+    return (await this.addDefaultValuesWithSources(frontmatter, file, fileClass, logManager)).frontmatter;
+  }
+
+  /**
+   * Same as addDefaultValuesToProperties but also tells which source produced each value
+   * The MetadataMenu field defaultValue (of the most specific fileClass defining the field) is used
+   * for the properties without enabled script, or before the scripts when defaultValuePrecedence is "metadataMenu"
+   */
+  async addDefaultValuesWithSources(
+    frontmatter: {[key: string]: any},
+    file: TFile,
+    fileClass: string,
+    logManager: LogManagerInterface
+  ): Promise<DefaultValuesResult> {
     const enrichedFrontmatter = {...frontmatter};
+    const valueSources: {[key: string]: DefaultValueSource} = {};
 
     // Ensure fileClass is set
     const fileClassAlias = this.metadataMenuAdapter.getFileClassAlias();
     enrichedFrontmatter[fileClassAlias] = fileClass;
 
-    // Sort scripts by order (if specified) before processing
-    const orderedScripts = [...this.metaFlowSettings.propertyDefaultValueScripts].sort((a, b) => {
-      const orderA = a.order ?? Number.MAX_SAFE_INTEGER;
-      const orderB = b.order ?? Number.MAX_SAFE_INTEGER;
-      return orderA - orderB;
-    });
+    // Keep one enabled script per property, sorted by order
+    const orderedScripts = this.selectScriptsForFileClass(
+      this.metaFlowSettings.propertyDefaultValueScripts.filter(script => script.enabled),
+      fileClass,
+      logManager
+    );
 
     // Get only the fields associated to fileClass and ancestors
     //convert array to map
@@ -53,22 +84,38 @@ export class PropertyManagementService {
       allFieldsMap.set(field.name, field);
     });
 
+    const scriptProperties = new Set(orderedScripts.map(script => script.propertyName));
+    const metadataMenuFirst = this.metaFlowSettings.defaultValuePrecedence === 'metadataMenu';
+    const applyMetadataMenuDefaults = (withScript: boolean) => {
+      allFieldsMap.forEach((field, propertyName) => {
+        if (
+          scriptProperties.has(propertyName) !== withScript ||
+          !this.isEmptyValue(enrichedFrontmatter[propertyName]) ||
+          this.isEmptyValue(field.defaultValue)
+        ) {
+          return;
+        }
+        enrichedFrontmatter[propertyName] = field.defaultValue;
+        valueSources[propertyName] = 'metadataMenu';
+      });
+    };
+
+    if (metadataMenuFirst) {
+      applyMetadataMenuDefaults(true);
+    }
+
     // Process each property default value script in order
     for (const script of orderedScripts) {
       // Skip if property already has a value (not null, undefined, or empty string)
       if (
-        !allFieldsMap.has(script.propertyName) || (
-          enrichedFrontmatter[script.propertyName] !== undefined &&
-          enrichedFrontmatter[script.propertyName] !== null &&
-          enrichedFrontmatter[script.propertyName] !== ''
-        )
+        !allFieldsMap.has(script.propertyName) ||
+        !this.isEmptyValue(enrichedFrontmatter[script.propertyName])
       ) {
         continue;
       }
-      if (!script.enabled) continue;
 
       try {
-        const defaultValue = this.executePropertyScript(
+        const defaultValue = await this.executePropertyScript(
           script,
           file,
           fileClass,
@@ -76,21 +123,119 @@ export class PropertyManagementService {
           logManager
         );
 
-        if (defaultValue !== undefined && defaultValue !== null && defaultValue !== '') {
+        if (!this.isEmptyValue(defaultValue)) {
           enrichedFrontmatter[script.propertyName] = defaultValue;
+          valueSources[script.propertyName] = 'script';
         }
       } catch (error) {
         throw new MetaFlowException(`Error executing script for property "${script.propertyName}": ${error.message}`, 'error');
       }
     }
 
-    return enrichedFrontmatter;
+    // Properties without enabled script fall back on the MetadataMenu default
+    applyMetadataMenuDefaults(false);
+
+    return {frontmatter: enrichedFrontmatter, valueSources};
+  }
+
+  /**
+   * Carry the values of the migrated fields over to their new field, see MetaFlowSettings.fieldMigrations
+   * a migrated value never overwrites a non-empty value of the new field
+   */
+  migrateFields(
+    frontmatter: {[key: string]: any},
+    oldFileClass: string,
+    newFileClass: string,
+    logManager: LogManagerInterface
+  ): {[key: string]: any} {
+    const migratedFrontmatter = {...frontmatter};
+    const migrations = this.metaFlowSettings.fieldMigrations.filter(migration =>
+      migration.fromFileClass === oldFileClass && migration.toFileClass === newFileClass &&
+      migration.fromField && migration.toField && migration.fromField !== migration.toField
+    );
+    for (const migration of migrations) {
+      if (this.isEmptyValue(migratedFrontmatter[migration.fromField])) {
+        continue;
+      }
+      if (!this.isEmptyValue(migratedFrontmatter[migration.toField])) {
+        logManager.addWarning(`Field "${migration.fromField}" not migrated, "${migration.toField}" already has a value`);
+        continue;
+      }
+      migratedFrontmatter[migration.toField] = migratedFrontmatter[migration.fromField];
+      delete migratedFrontmatter[migration.fromField];
+      logManager.addInfo(`Field "${migration.fromField}" migrated to "${migration.toField}"`);
+    }
+    return migratedFrontmatter;
+  }
+
+  /**
+   * Non-empty fields of the old fileClass (and its ancestors) that the new fileClass does not define
+   */
+  getObsoleteFields(
+    frontmatter: {[key: string]: any},
+    oldFileClass: string,
+    newFileClass: string,
+    logManager: LogManagerInterface
+  ): string[] {
+    let oldFieldNames: string[];
+    try {
+      oldFieldNames = this.metadataMenuAdapter.getFileClassAndAncestorsFields(oldFileClass, logManager).map(field => field.name);
+    } catch (error) {
+      // the old fileClass may not exist anymore
+      return [];
+    }
+    const newFieldNames = new Set(
+      this.metadataMenuAdapter.getFileClassAndAncestorsFields(newFileClass, logManager).map(field => field.name)
+    );
+    const fileClassAlias = this.metadataMenuAdapter.getFileClassAlias();
+    return [...new Set(oldFieldNames)].filter(name =>
+      !newFieldNames.has(name) && name !== fileClassAlias && !this.isEmptyValue(frontmatter[name])
+    );
   }
 
   /**
-   * Sort properties based on the order defined in propertyDefaultValueScripts
+   * Policy of the mapping of the fileClass if any, the global policy otherwise
    */
-  sortProperties(frontmatter: {[key: string]: any}, sortUnknownPropertiesLast: boolean): {[key: string]: any} {
+  getObsoleteFieldPolicy(fileClass: string): ObsoleteFieldPolicy {
+    const mapping = this.metaFlowSettings.folderFileClassMappings.find(m => m.fileClass === fileClass);
+    return mapping?.obsoleteFieldPolicy || this.metaFlowSettings.obsoleteFieldPolicy;
+  }
+
+  applyObsoleteFieldPolicy(
+    frontmatter: {[key: string]: any},
+    obsoleteFields: string[],
+    policy: Exclude<ObsoleteFieldPolicy, 'ask'>
+  ): {[key: string]: any} {
+    if (policy === 'keep' || obsoleteFields.length === 0) {
+      return frontmatter;
+    }
+    const updatedFrontmatter = {...frontmatter};
+    if (policy === 'archive') {
+      const archived = updatedFrontmatter[PropertyManagementService.ARCHIVE_PROPERTY];
+      updatedFrontmatter[PropertyManagementService.ARCHIVE_PROPERTY] = {
+        ...(archived && typeof archived === 'object' && !Array.isArray(archived) ? archived : {}),
+        ...Object.fromEntries(obsoleteFields.map(name => [name, frontmatter[name]])),
+      };
+    }
+    obsoleteFields.forEach(name => delete updatedFrontmatter[name]);
+    return updatedFrontmatter;
+  }
+
+  private isEmptyValue(value: any): boolean {
+    return value === undefined || value === null || value === '';
+  }
+
+  /**
+   * Sort properties based on the property order profile of the fileClass (see getProfilePropertyOrder),
+   * or on the order defined in propertyDefaultValueScripts when no profile applies
+   * When a fileClass is given, only the scripts scoped to this fileClass define the order
+   */
+  sortProperties(
+    frontmatter: {[key: string]: any},
+    sortUnknownPropertiesLast: boolean,
+    fileClass: string | null = null,
+    logManager?: LogManagerInterface
+  ): {[key: string]: any} {
     if (!frontmatter || typeof frontmatter !== 'object' || Array.isArray(frontmatter)) {
       return frontmatter;
     }
@@ -98,17 +243,26 @@ export class PropertyManagementService {
     // Create a map of property names to their order from propertyDefaultValueScripts
     const propertyOrderMap = new Map<string, number>();
 
-    // Sort scripts by order (if specified) to get the correct sequence
-    const orderedScripts = [...this.metaFlowSettings.propertyDefaultValueScripts].sort((a, b) => {
-      const orderA = a.order ?? Number.MAX_SAFE_INTEGER;
-      const orderB = b.order ?? Number.MAX_SAFE_INTEGER;
-      return orderA - orderB;
-    });
+    const profileOrder = (fileClass && logManager) ? this.getProfilePropertyOrder(fileClass, logManager) : null;
+    if (profileOrder) {
+      profileOrder.forEach((propertyName, index) => {
+        if (!propertyOrderMap.has(propertyName)) {
+          propertyOrderMap.set(propertyName, index + 1);
+        }
+      });
+    } else {
+      // Sort scripts by order (if specified) to get the correct sequence
+      const orderedScripts = (fileClass && logManager) ?
+        this.selectScriptsForFileClass(this.metaFlowSettings.propertyDefaultValueScripts, fileClass, logManager) :
+        this.sortScriptsByOrder(this.metaFlowSettings.propertyDefaultValueScripts);
 
-    // Build the property order map
-    orderedScripts.forEach((script, index) => {
-      propertyOrderMap.set(script.propertyName, script?.order || Number.MAX_SAFE_INTEGER);
-    });
+      // Build the property order map, the first script of a property defines its order
+      orderedScripts.forEach((script) => {
+        if (!propertyOrderMap.has(script.propertyName)) {
+          propertyOrderMap.set(script.propertyName, script?.order || Number.MAX_SAFE_INTEGER);
+        }
+      });
+    }
 
     // Get all property keys and sort them
     const sortedKeys = Object.keys(frontmatter).sort((a, b) => {
@@ -142,15 +296,116 @@ export class PropertyManagementService {
   }
 
   /**
-   * Execute a property default value script
+   * Keep a single script per property for the given fileClass, sorted by order.
+   * Precedence rule when several scripts target the same property:
+   * 1. a script scoped to the fileClass itself
+   * 2. a script scoped to the nearest ancestor of the fileClass
+   * 3. a script without fileClasses, which applies to every fileClass
+   * Scripts scoped to other fileClasses are ignored, ties are resolved by script order.
+   */
+  selectScriptsForFileClass(
+    scripts: PropertyDefaultValueScript[],
+    fileClass: string,
+    logManager: LogManagerInterface
+  ): PropertyDefaultValueScript[] {
+    // most basic ancestor first, fileClass itself last
+    const ancestorChain = this.metadataMenuAdapter.getFileClassAncestorChain(fileClass, logManager);
+    const chain = ancestorChain.length > 0 ? ancestorChain : [fileClass];
+
+    const getSpecificity = (script: PropertyDefaultValueScript): number => {
+      if (!script.fileClasses || script.fileClasses.length === 0) {
+        return 0;
+      }
+      return Math.max(...script.fileClasses.map(fc => chain.indexOf(fc) + 1)) || -1;
+    };
+
+    const selectedScripts = new Map<string, {script: PropertyDefaultValueScript, specificity: number}>();
+    for (const script of this.sortScriptsByOrder(scripts)) {
+      const specificity = getSpecificity(script);
+      if (specificity < 0) {
+        continue;
+      }
+      const selected = selectedScripts.get(script.propertyName);
+      if (!selected || specificity > selected.specificity) {
+        selectedScripts.set(script.propertyName, {script, specificity});
+      }
+    }
+
+    return this.sortScriptsByOrder(Array.from(selectedScripts.values()).map(selected => selected.script));
+  }
+
+  /**
+   * Property order of the fileClass profile, looking for a profile on the fileClass itself
+   * then on its ancestors from the nearest to the most basic, "inherit" profiles are skipped
+   * @returns the ordered property names or null if no profile applies
+   */
+  getProfilePropertyOrder(fileClass: string, logManager: LogManagerInterface): string[] | null {
+    const profiles = this.metaFlowSettings.propertyOrderProfiles || [];
+    if (profiles.length === 0) {
+      return null;
+    }
+    const ancestorChain = this.metadataMenuAdapter.getFileClassAncestorChain(fileClass, logManager);
+    const lookupChain = (ancestorChain.length > 0 ? ancestorChain : [fileClass]).slice().reverse();
+
+    for (const name of lookupChain) {
+      const profile = profiles.find(p => p.fileClass === name);
+      if (!profile || profile.mode === 'inherit') {
+        continue;
+      }
+      if (profile.mode === 'metadataMenu') {
+        const fieldNames = this.metadataMenuAdapter.getFileClassAndAncestorsFields(fileClass, logManager)
+          .map(field => field.name);
+        return [this.metadataMenuAdapter.getFileClassAlias(), ...fieldNames];
+      }
+      return profile.properties;
+    }
+    return null;
+  }
+
+  private sortScriptsByOrder(scripts: PropertyDefaultValueScript[]): PropertyDefaultValueScript[] {
+    return [...scripts].sort((a, b) => {
+      const orderA = a.order ?? Number.MAX_SAFE_INTEGER;
+      const orderB = b.order ?? Number.MAX_SAFE_INTEGER;
+      return orderA - orderB;
+    });
+  }
+
+  /**
+   * Run the enabled default value script of a property, whatever the current value of the property,
+   * the script is chosen for the fileClass like the default values
+   * @throws MetaFlowException when the property has no enabled script for the fileClass or the script fails
+   */
+  async runPropertyScript(
+    propertyName: string,
+    file: TFile,
+    fileClass: string,
+    metadata: {[key: string]: any},
+    logManager: LogManagerInterface
+  ): Promise<any> {
+    const script = this.selectScriptsForFileClass(
+      this.metaFlowSettings.propertyDefaultValueScripts.filter(script => script.enabled), fileClass, logManager
+    ).find(script => script.propertyName === propertyName);
+    if (!script) {
+      throw new MetaFlowException(`No enabled script for property "${propertyName}" and fileClass "${fileClass}"`, 'warning');
+    }
+    try {
+      return await this.executePropertyScript(script, file, fileClass, metadata, logManager);
+    } catch (error) {
+      throw new MetaFlowException(`Error executing script for property "${propertyName}": ${error.message}`, 'error');
+    }
+  }
+
+  /**
+   * Execute a property default value script, the script body runs in an async function
+   * so it can await prompt, file reads and other helpers
    */
-  private executePropertyScript(
+  private async executePropertyScript(
     script: PropertyDefaultValueScript,
     file: TFile,
     fileClass: string,
     metadata: {[key: string]: any},
     logManager: LogManagerInterface
-  ): any {
+  ): Promise<any> {
     // Get utilities from ScriptContextService
     const context = this.scriptContextService.getScriptContext(
       file,
@@ -163,13 +418,13 @@ export class PropertyManagementService {
     const executeScript = new Function(
       'context',
       `
-			return ((context) => {
+			return (async (context) => {
 				const { ${Object.keys(context).join(', ')} } = context;
 				${script.script}
 			})(context);
 			`
     );
 
-    return executeScript(context);
+    return await executeScript(context);
   }
 }
@@ -0,0 +1,160 @@
+import {TFile} from "obsidian";
+import {PropertyTriggerService} from "./PropertyTriggerService";
+import {MetaFlowException} from "../MetaFlowException";
+import {DEFAULT_SETTINGS} from "../settings/defaultSettings";
+import type {MetaFlowSettings, PropertyTrigger} from "../settings/types";
+
+describe('PropertyTriggerService', () => {
+  let propertyTriggerService: PropertyTriggerService;
+  let settings: MetaFlowSettings;
+  let mockApp: any;
+  let mockFileValidationService: any;
+  let mockFileOperationsService: any;
+  let mockPropertyManagementService: any;
+  let mockLogManager: any;
+  let frontmatter: {[key: string]: any};
+  let file: TFile;
+
+  const createTrigger = (trigger: Partial<PropertyTrigger>): PropertyTrigger => ({
+    name: 'Done', enabled: true, fileClass: '', property: 'status', from: '', to: 'done', actions: [], ...trigger,
+  });
+
+  beforeEach(() => {
+    file = Object.assign(Object.create(TFile.prototype), {path: 'Tasks/task.md', name: 'task.md', extension: 'md'});
+    frontmatter = {fileClass: 'task', status: 'done', title: 'Task', tags: ['work']};
+    settings = {...DEFAULT_SETTINGS, propertyTriggers: []};
+    mockApp = {
+      metadataCache: {getFileCache: jest.fn(() => ({frontmatter}))},
+      fileManager: {
+        processFrontMatter: jest.fn(async (_file: TFile, fn: (fm: any) => void) => fn(frontmatter)),
+      },
+    };
+    const mockTemplaterAdapter: any = {
+      now: jest.fn((format?: string) => format ? `now:${format}` : 'now'),
+      tomorrow: jest.fn(() => 'tomorrow'),
+      yesterday: jest.fn(() => 'yesterday'),
+    };
+    mockFileValidationService = {
+      checkIfValidFile: jest.fn(),
+      checkIfExcluded: jest.fn(),
+    };
+    const mockFileClassDeductionService: any = {
+      getFileClassFromMetadata: jest.fn((metadata: any) => metadata?.fileClass || null),
+    };
+    mockFileOperationsService = {
+      renameNote: jest.fn().mockResolvedValue(file),
+      moveNoteToFolder: jest.fn().mockResolvedValue('Done/task.md'),
+      moveNoteToTheRightFolder: jest.fn().mockResolvedValue(null),
+    };
+    mockPropertyManagementService = {
+      runPropertyScript: jest.fn().mockResolvedValue(42),
+    };
+    const mockNoteTitleService: any = {
+      resolvePlaceholders: jest.fn((template: string, metadata: any) =>
+        template.includes('{{missing}}') ? null : template.replace(/\{\{(\w+)\}\}/g, (_match: string, name: string) => metadata[name])
+      ),
+    };
+    mockLogManager = {
+      addError: jest.fn(),
+      addWarning: jest.fn(),
+      addInfo: jest.fn(),
+      addDebug: jest.fn(),
+      addMessage: jest.fn(),
+    };
+    propertyTriggerService = new PropertyTriggerService(
+      mockApp, settings, mockTemplaterAdapter, mockFileValidationService, mockFileClassDeductionService,
+      mockFileOperationsService, mockPropertyManagementService, mockNoteTitleService
+    );
+  });
+
+  describe('getFiredTriggers', () => {
+    it('should fire the triggers whose property changed to the expected value', () => {
+      const doneTrigger = createTrigger({actions: [{type: 'rename', property: '', value: ''}]});
+      settings.propertyTriggers = [
+        doneTrigger,
+        createTrigger({from: 'doing', actions: [{type: 'rename', property: '', value: ''}]}),
+        createTrigger({fileClass: 'book', actions: [{type: 'rename', property: '', value: ''}]}),
+        createTrigger({enabled: false, actions: [{type: 'rename', property: '', value: ''}]}),
+        createTrigger({}),
+      ];
+
+      expect(propertyTriggerService.getFiredTriggers('task', {status: 'todo'}, {status: 'done'})).toEqual([doneTrigger]);
+      expect(propertyTriggerService.getFiredTriggers('task', {status: 'done'}, {status: 'done', priority: 1})).toEqual([]);
+    });
+  });
+
+  describe('handlePropertiesChanged', () => {
+    it('should set the properties, add the tag and run the scripts at once', async () => {
+      settings.propertyTriggers = [createTrigger({
+        actions: [
+          {type: 'setProperty', property: 'completedDate', value: 'now("YYYY-MM-DD")'},
+          {type: 'setProperty', property: 'summary', value: '{{title}} done'},
+          {type: 'setProperty', property: 'dueDate', value: ''},
+          {type: 'addTag', property: '', value: '#done'},
+          {type: 'runScript', property: 'score', value: ''},
+        ],
+      })];
+
+      await propertyTriggerService.handlePropertiesChanged(file, {status: 'todo'}, frontmatter, mockLogManager);
+
+      expect(mockApp.fileManager.processFrontMatter).toHaveBeenCalledTimes(1);
+      expect(frontmatter).toEqual(expect.objectContaining({
+        completedDate: 'now:YYYY-MM-DD', summary: 'Task done', dueDate: null, tags: ['work', 'done'], score: 42,
+      }));
+      expect(mockPropertyManagementService.runPropertyScript).toHaveBeenCalledWith(
+        'score', file, 'task', expect.objectContaining({completedDate: 'now:YYYY-MM-DD'}), mockLogManager
+      );
+      expect(mockLogManager.addInfo).toHaveBeenCalledWith('Trigger "Done" fired on "task.md"');
+    });
+
+    it('should rename and move the note after setting the properties', async () => {
+      settings.propertyTriggers = [createTrigger({
+        actions: [
+          {type: 'move', property: '', value: 'Done/{{fileClass}}'},
+          {type: 'rename', property: '', value: ''},
+          {type: 'setProperty', property: 'archived', value: 'yes'},
+        ],
+      })];
+
+      await propertyTriggerService.handlePropertiesChanged(file, {status: 'todo'}, frontmatter, mockLogManager);
+
+      const metadata = expect.objectContaining({archived: 'yes'});
+      expect(mockFileOperationsService.moveNoteToFolder).toHaveBeenCalledWith(file, 'Done/{{fileClass}}', 'task', metadata, mockLogManager);
+      expect(mockFileOperationsService.renameNote).toHaveBeenCalledWith(file, 'task', metadata, mockLogManager);
+      expect(mockApp.fileManager.processFrontMatter.mock.invocationCallOrder[0])
+        .toBeLessThan(mockFileOperationsService.moveNoteToFolder.mock.invocationCallOrder[0]);
+      expect(mockLogManager.addInfo).toHaveBeenCalledWith('Moved note "task.md" to Done/task.md');
+    });
+
+    it('should report the failing trigger and run the next ones', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => { });
+      settings.propertyTriggers = [
+        createTrigger({actions: [{type: 'setProperty', property: 'summary', value: '{{missing}}'}]}),
+        createTrigger({name: 'Archive', actions: [{type: 'setProperty', property: 'archived', value: 'yes'}]}),
+      ];
+
+      await propertyTriggerService.handlePropertiesChanged(file, {status: 'todo'}, frontmatter, mockLogManager);
+
+      expect(mockLogManager.addMessage).toHaveBeenCalledWith(
+        'Error running trigger "Done" on "task.md": Cannot resolve the value "{{missing}}": missing metadata', 'warning'
+      );
+      expect(frontmatter.archived).toBe('yes');
+    });
+
+    it('should skip the excluded notes and the cancelled jobs', async () => {
+      settings.propertyTriggers = [createTrigger({actions: [{type: 'setProperty', property: 'archived', value: 'yes'}]})];
+      mockFileValidationService.checkIfExcluded.mockImplementationOnce(() => {
+        throw new MetaFlowException('File is excluded', 'info');
+      });
+
+      await propertyTriggerService.handlePropertiesChanged(file, {status: 'todo'}, frontmatter, mockLogManager);
+      await propertyTriggerService.handlePropertiesChanged(
+        file, {status: 'todo'}, frontmatter, mockLogManager, {isCancelled: () => true, cancelReason: 'note deleted'}
+      );
+
+      expect(mockApp.fileManager.processFrontMatter).not.toHaveBeenCalled();
+      expect(mockLogManager.addDebug).toHaveBeenCalledWith('Triggers of "Tasks/task.md" skipped: File is excluded');
+      expect(mockLogManager.addDebug).toHaveBeenCalledWith('Triggers of "Tasks/task.md" cancelled: note deleted');
+    });
+  });
+});
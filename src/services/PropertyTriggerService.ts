@@ -0,0 +1,180 @@
+import {injectable, inject} from 'inversify';
+import type {App, TFile} from "obsidian";
+import type {MetaFlowSettings, PropertyTrigger, PropertyTriggerAction} from "../settings/types";
+import {MetaFlowException} from "../MetaFlowException";
+import type {TemplaterAdapter} from "../externalApi/TemplaterAdapter";
+import type {LogManagerInterface} from "../managers/types";
+import type {FileValidationService} from "./FileValidationService";
+import type {FileClassDeductionService} from "./FileClassDeductionService";
+import type {FileOperationsService} from "./FileOperationsService";
+import type {PropertyManagementService} from "./PropertyManagementService";
+import type {NoteTitleService} from "./NoteTitleService";
+import type {UpdateJobContext} from "./UpdateQueueService";
+import {PropertyConditions} from "../utils/PropertyConditions";
+import {TemplateExpression} from "../utils/TemplateExpression";
+import {TYPES} from '../di/types';
+
+const PROPERTY_ACTIONS: PropertyTriggerAction['type'][] = ['setProperty', 'runScript', 'addTag'];
+
+/**
+ * Runs the actions of the property triggers fired by a manual change of the note properties
+ */
+@injectable()
+export class PropertyTriggerService {
+  private app: App;
+  private metaFlowSettings: MetaFlowSettings;
+  private templaterAdapter: TemplaterAdapter;
+  private fileValidationService: FileValidationService;
+  private fileClassDeductionService: FileClassDeductionService;
+  private fileOperationsService: FileOperationsService;
+  private propertyManagementService: PropertyManagementService;
+  private noteTitleService: NoteTitleService;
+
+  constructor(
+    @inject(TYPES.App) app: App,
+    @inject(TYPES.MetaFlowSettings) metaFlowSettings: MetaFlowSettings,
+    @inject(TYPES.TemplaterAdapter) templaterAdapter: TemplaterAdapter,
+    @inject(TYPES.FileValidationService) fileValidationService: FileValidationService,
+    @inject(TYPES.FileClassDeductionService) fileClassDeductionService: FileClassDeductionService,
+    @inject(TYPES.FileOperationsService) fileOperationsService: FileOperationsService,
+    @inject(TYPES.PropertyManagementService) propertyManagementService: PropertyManagementService,
+    @inject(TYPES.NoteTitleService) noteTitleService: NoteTitleService
+  ) {
+    this.app = app;
+    this.metaFlowSettings = metaFlowSettings;
+    this.templaterAdapter = templaterAdapter;
+    this.fileValidationService = fileValidationService;
+    this.fileClassDeductionService = fileClassDeductionService;
+    this.fileOperationsService = fileOperationsService;
+    this.propertyManagementService = propertyManagementService;
+    this.noteTitleService = noteTitleService;
+  }
+
+  /**
+   * The enabled triggers of the fileClass whose property changed, from their old value to their new value when set
+   */
+  getFiredTriggers(fileClass: string, oldFrontmatter: {[key: string]: any}, newFrontmatter: {[key: string]: any}): PropertyTrigger[] {
+    return this.metaFlowSettings.propertyTriggers.filter(trigger => {
+      const property = trigger.property.trim();
+      return trigger.enabled && property && trigger.actions.length > 0 &&
+        (!trigger.fileClass || trigger.fileClass === fileClass) &&
+        JSON.stringify(TemplateExpression.getValue(oldFrontmatter, property)) !== JSON.stringify(TemplateExpression.getValue(newFrontmatter, property)) &&
+        (!trigger.from || PropertyConditions.match({property, operator: 'equals', value: trigger.from}, oldFrontmatter)) &&
+        (!trigger.to || PropertyConditions.match({property, operator: 'equals', value: trigger.to}, newFrontmatter));
+    });
+  }
+
+  /**
+   * @param job - Set when run from the update queue, the actions are not run when the job has been cancelled
+   */
+  async handlePropertiesChanged(
+    file: TFile, oldFrontmatter: {[key: string]: any}, newFrontmatter: {[key: string]: any},
+    logManager: LogManagerInterface, job?: UpdateJobContext
+  ): Promise<void> {
+    const fileClass = this.fileClassDeductionService.getFileClassFromMetadata(newFrontmatter) || '';
+    const triggers = this.getFiredTriggers(fileClass, oldFrontmatter, newFrontmatter);
+    if (triggers.length === 0) {
+      return;
+    }
+    if (job?.isCancelled()) {
+      logManager.addDebug(`Triggers of "${file.path}" cancelled: ${job.cancelReason}`);
+      return;
+    }
+    try {
+      this.fileValidationService.checkIfValidFile(file);
+      this.fileValidationService.checkIfExcluded(file);
+    } catch (error) {
+      if (error instanceof MetaFlowException) {
+        logManager.addDebug(`Triggers of "${file.path}" skipped: ${error.message}`);
+        return;
+      }
+      throw error;
+    }
+    for (const trigger of triggers) {
+      logManager.addInfo(`Trigger "${trigger.name || trigger.property}" fired on "${file.name}"`);
+      try {
+        await this.runActions(trigger, file, fileClass, logManager);
+      } catch (error) {
+        const msg = (error instanceof MetaFlowException) ?
+          `Error running trigger "${trigger.name || trigger.property}" on "${file.name}": ${error.message}` :
+          `Error running trigger "${trigger.name || trigger.property}" on "${file.name}"`;
+        console.error(msg, error);
+        logManager.addMessage(msg, error?.noticeLevel ?? 'error');
+      }
+    }
+  }
+
+  /**
+   * Write the property actions at once, each action sees the values of the previous ones, then rename and move the note
+   */
+  private async runActions(trigger: PropertyTrigger, file: TFile, fileClass: string, logManager: LogManagerInterface): Promise<void> {
+    const metadata = {...(this.app.metadataCache.getFileCache(file)?.frontmatter || {})};
+    const changes: {[key: string]: any} = {};
+    for (const action of trigger.actions.filter(action => PROPERTY_ACTIONS.includes(action.type))) {
+      const [property, value] = await this.getPropertyChange(action, file, fileClass, metadata, logManager);
+      metadata[property] = value;
+      changes[property] = value;
+    }
+    if (Object.keys(changes).length > 0) {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        Object.assign(frontmatter, changes);
+      });
+      logManager.addDebug(`Trigger "${trigger.name || trigger.property}" set ${Object.keys(changes).join(', ')} of "${file.name}"`);
+    }
+
+    for (const action of trigger.actions.filter(action => !PROPERTY_ACTIONS.includes(action.type))) {
+      if (action.type === 'rename') {
+        await this.fileOperationsService.renameNote(file, fileClass, metadata, logManager);
+      } else if (action.type === 'move') {
+        const newFilePath = action.value.trim() ?
+          await this.fileOperationsService.moveNoteToFolder(file, action.value, fileClass, metadata, logManager) :
+          await this.fileOperationsService.moveNoteToTheRightFolder(file, fileClass, metadata, logManager);
+        if (newFilePath) {
+          logManager.addInfo(`Moved note "${file.name}" to ${newFilePath}`);
+        }
+      }
+    }
+  }
+
+  private async getPropertyChange(
+    action: PropertyTriggerAction, file: TFile, fileClass: string, metadata: {[key: string]: any},
+    logManager: LogManagerInterface
+  ): Promise<[string, any]> {
+    if (action.type === 'addTag') {
+      const tag = action.value.trim().replace(/^#/, '');
+      const tags: any[] = Array.isArray(metadata.tags) ? metadata.tags :
+        (typeof metadata.tags === 'string' && metadata.tags.trim() ? metadata.tags.split(/[,\s]+/) : []);
+      return ['tags', !tag || tags.includes(tag) ? tags : [...tags, tag]];
+    }
+    const property = action.property.trim();
+    if (!property) {
+      throw new MetaFlowException(`Missing property of the ${action.type} action`, 'warning');
+    }
+    if (action.type === 'runScript') {
+      return [property, await this.propertyManagementService.runPropertyScript(property, file, fileClass, metadata, logManager)];
+    }
+    return [property, this.resolveValue(action.value, file, metadata)];
+  }
+
+  /**
+   * `now()`, `now("YYYY-MM-DD")`, `tomorrow()` and `yesterday()` give a date, `{{placeholders}}` are resolved
+   * like in the title templates, an empty value clears the property
+   */
+  private resolveValue(value: string, file: TFile, metadata: {[key: string]: any}): any {
+    const dateHelper = value.trim().match(/^(now|tomorrow|yesterday)\(\s*(?:(["'])(.*)\2)?\s*\)$/);
+    if (dateHelper) {
+      return this.templaterAdapter[dateHelper[1] as 'now' | 'tomorrow' | 'yesterday'](dateHelper[3] || undefined);
+    }
+    if (value === '') {
+      return null;
+    }
+    if (!value.includes('{{')) {
+      return value;
+    }
+    const resolvedValue = this.noteTitleService.resolvePlaceholders(value, metadata, file);
+    if (resolvedValue === null) {
+      throw new MetaFlowException(`Cannot resolve the value "${value}": missing metadata`, 'warning');
+    }
+    return resolvedValue;
+  }
+}
@@ -0,0 +1,197 @@
+import {TFile} from "obsidian";
+import {UpdateQueueService} from "./UpdateQueueService";
+
+describe('UpdateQueueService', () => {
+  let updateQueueService: UpdateQueueService;
+  let mockSettings: any;
+
+  const createFile = (path: string): TFile => {
+    const file = Object.create(TFile.prototype);
+    Object.assign(file, {path, name: path.split('/').pop(), extension: 'md'});
+    return file;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockSettings = {frontmatterUpdateDelayMs: 500, debugMode: false};
+    updateQueueService = new UpdateQueueService(mockSettings);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run the job after the frontmatter update delay', async () => {
+    const file = createFile('Books/dune.md');
+    const task = jest.fn().mockResolvedValue(undefined);
+
+    const done = updateQueueService.enqueue(file, 'fileClass change', 'book', task);
+    await jest.advanceTimersByTimeAsync(499);
+    expect(task).not.toHaveBeenCalled();
+    expect(updateQueueService.getJobs()).toEqual([expect.objectContaining({file, kind: 'fileClass change', status: 'pending'})]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await done;
+    expect(task).toHaveBeenCalledWith('book', expect.objectContaining({id: 1}));
+    expect(updateQueueService.getJobs()).toEqual([]);
+  });
+
+  it('should merge the triggers received while the job is pending', async () => {
+    const file = createFile('Books/dune.md');
+    const task = jest.fn().mockResolvedValue(undefined);
+    const merge = (pending: {from: string, to: string}, data: {from: string, to: string}) => ({from: pending.from, to: data.to});
+
+    updateQueueService.enqueue(file, 'fileClass change', {from: 'note', to: 'article'}, task, merge);
+    await jest.advanceTimersByTimeAsync(300);
+    const done = updateQueueService.enqueue(file, 'fileClass change', {from: 'article', to: 'book'}, task, merge);
+    // the delay restarts with the last trigger
+    await jest.advanceTimersByTimeAsync(300);
+    expect(task).not.toHaveBeenCalled();
+    expect(updateQueueService.getJobs()[0].triggers).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(200);
+    await done;
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(task).toHaveBeenCalledWith({from: 'note', to: 'book'}, expect.anything());
+  });
+
+  it('should give the result of the merged folder move job to every trigger', async () => {
+    const file = createFile('Books/dune.md');
+    const task = jest.fn().mockResolvedValue(true);
+    const merge = (pending: {oldFileClass: string, newFileClass: string}, data: {oldFileClass: string, newFileClass: string}) =>
+      ({...data, oldFileClass: pending.oldFileClass});
+
+    const first = updateQueueService.enqueue(file, 'folder move', {oldFileClass: 'note', newFileClass: 'article'}, task, merge);
+    const second = updateQueueService.enqueue(file, 'folder move', {oldFileClass: 'article', newFileClass: 'book'}, task, merge);
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(task).toHaveBeenCalledWith({oldFileClass: 'note', newFileClass: 'book'}, expect.anything());
+    expect(await first).toBe(true);
+    expect(await second).toBe(true);
+  });
+
+  it('should give no result when the job is cancelled', async () => {
+    const file = createFile('Books/dune.md');
+
+    const done = updateQueueService.enqueue(file, 'folder move', 'book', jest.fn().mockResolvedValue(true));
+    updateQueueService.handleDeleteFileEvent(file);
+
+    expect(await done).toBeUndefined();
+  });
+
+  it('should run the jobs of a note one after the other and cancel the superseded running job', async () => {
+    const file = createFile('Books/dune.md');
+    const order: string[] = [];
+    let finishFirstJob: () => void = () => { };
+    let firstJobCancelled: boolean | undefined;
+    const firstTask = jest.fn().mockImplementation(async (data, context) => {
+      order.push('first start');
+      await new Promise<void>(resolve => finishFirstJob = resolve);
+      firstJobCancelled = context.isCancelled();
+      order.push('first end');
+    });
+    const secondTask = jest.fn().mockImplementation(async () => {
+      order.push('second');
+    });
+
+    updateQueueService.enqueue(file, 'fileClass change', 'article', firstTask);
+    await jest.advanceTimersByTimeAsync(500);
+    const done = updateQueueService.enqueue(file, 'fileClass change', 'book', secondTask);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(secondTask).not.toHaveBeenCalled();
+    expect(updateQueueService.getJobs().map(job => job.status)).toEqual(['pending', 'running']);
+
+    finishFirstJob();
+    await done;
+    expect(firstJobCancelled).toBe(true);
+    expect(order).toEqual(['first start', 'first end', 'second']);
+  });
+
+  it('should keep the jobs of other kinds and other notes apart', async () => {
+    const dune = createFile('Books/dune.md');
+    const emma = createFile('Books/emma.md');
+    const task = jest.fn().mockResolvedValue(undefined);
+
+    updateQueueService.enqueue(dune, 'fileClass change', 'book', task);
+    updateQueueService.enqueue(dune, 'title sync', 'Books/old.md', task);
+    updateQueueService.enqueue(emma, 'fileClass change', 'book', task);
+    expect(updateQueueService.getJobs()).toHaveLength(3);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('should cancel the jobs of a deleted note', async () => {
+    const file = createFile('Books/dune.md');
+    const task = jest.fn().mockResolvedValue(undefined);
+
+    const done = updateQueueService.enqueue(file, 'fileClass change', 'book', task);
+    updateQueueService.handleDeleteFileEvent(file);
+    await done;
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(task).not.toHaveBeenCalled();
+    expect(updateQueueService.getJobs()).toEqual([]);
+  });
+
+  it('should follow a renamed note', async () => {
+    const file = createFile('Inbox/dune.md');
+    const listener = jest.fn();
+    updateQueueService.onChange(listener);
+    const task = jest.fn().mockImplementation(async () => {
+      expect(file.path).toBe('Books/dune.md');
+    });
+
+    updateQueueService.enqueue(file, 'fileClass change', 'book', task);
+    file.path = 'Books/dune.md';
+    updateQueueService.handleRenameFileEvent(file, 'Inbox/dune.md');
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(task).toHaveBeenCalled();
+    expect(listener).toHaveBeenCalledTimes(4);
+  });
+
+  it('should cancel a job by id and all the jobs', async () => {
+    const task = jest.fn().mockResolvedValue(undefined);
+
+    updateQueueService.enqueue(createFile('a.md'), 'fileClass change', 'book', task);
+    updateQueueService.enqueue(createFile('b.md'), 'fileClass change', 'book', task);
+    updateQueueService.enqueue(createFile('c.md'), 'fileClass change', 'book', task);
+    expect(updateQueueService.cancel(1)).toBe(true);
+    expect(updateQueueService.cancel(1)).toBe(false);
+    expect(updateQueueService.getJobs().map(job => job.file.path)).toEqual(['b.md', 'c.md']);
+
+    updateQueueService.cancelAll('plugin unloaded');
+    await jest.advanceTimersByTimeAsync(500);
+    expect(task).not.toHaveBeenCalled();
+    expect(updateQueueService.getJobs()).toEqual([]);
+  });
+
+  it('should keep the pending jobs when the cancelled job is not pending anymore', async () => {
+    const file = createFile('Books/dune.md');
+    const task = jest.fn().mockResolvedValue(undefined);
+
+    updateQueueService.enqueue(file, 'fileClass change', 'book', task);
+    updateQueueService.enqueue(file, 'title sync', 'Inbox/dune.md', task);
+    const queue = updateQueueService['queues'].get(file)!;
+    const removedJob = queue.pending.shift()!;
+    updateQueueService['cancelJob'](removedJob, 'test');
+
+    expect(updateQueueService.getJobs()).toEqual([expect.objectContaining({kind: 'title sync', status: 'pending'})]);
+  });
+
+  it('should run the next job when a task fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => { });
+    const file = createFile('Books/dune.md');
+    const failingTask = jest.fn().mockRejectedValue(new Error('Write error'));
+    const task = jest.fn().mockResolvedValue(undefined);
+
+    updateQueueService.enqueue(file, 'fileClass change', 'book', failingTask);
+    updateQueueService.enqueue(file, 'title sync', 'Inbox/dune.md', task);
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(console.error).toHaveBeenCalledWith('Error in fileClass change job of Books/dune.md', expect.any(Error));
+    expect(task).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,257 @@
+import {injectable, inject} from 'inversify';
+import type {TFile} from "obsidian";
+import type {MetaFlowSettings} from "../settings/types";
+import {TYPES} from '../di/types';
+
+export type UpdateJobStatus = 'pending' | 'running';
+
+/**
+ * Given to the task of a job, the task checks it before writing to the note
+ */
+export interface UpdateJobContext {
+  isCancelled(): boolean;
+  cancelReason?: string;
+}
+
+export interface UpdateJob extends UpdateJobContext {
+  id: number;
+  // the same TFile instance is kept by Obsidian when the note is renamed or moved, file.path is always the current path
+  file: TFile;
+  kind: string;
+  status: UpdateJobStatus;
+  // number of triggers merged into the job
+  triggers: number;
+  queuedAt: number;
+  startedAt?: number;
+}
+
+type UpdateJobTask<T, R> = (data: T, context: UpdateJobContext) => Promise<R>;
+
+interface QueuedJob extends UpdateJob {
+  data: any;
+  task: UpdateJobTask<any, any>;
+  // given to every trigger merged into the job, undefined when the job is cancelled or fails
+  result?: any;
+  merge: (pending: any, data: any) => any;
+  cancelled: boolean;
+  // the debounce delay is over, the job runs as soon as the previous job of the note ends
+  ready: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+  waiters: ((result: any) => void)[];
+}
+
+interface FileQueue {
+  running: QueuedJob | null;
+  pending: QueuedJob[];
+}
+
+/**
+ * Queue of the automatic updates, keyed by note: the triggers of the same kind received while a job is pending
+ * are merged into it, the jobs of a note run one after the other, and a newer trigger or the deletion of the note
+ * cancels the work not written yet
+ */
+@injectable()
+export class UpdateQueueService {
+  private settings: MetaFlowSettings;
+  private queues = new Map<TFile, FileQueue>();
+  private listeners = new Set<() => void>();
+  private nextId = 1;
+
+  constructor(
+    @inject(TYPES.MetaFlowSettings) settings: MetaFlowSettings
+  ) {
+    this.settings = settings;
+  }
+
+  /**
+   * Queue a job for the note, run after the frontmatter update delay without new trigger of the same kind
+   * @param merge - Combine the data of the pending job with the data of the new trigger, the new data wins by default
+   * @returns resolved with the result of the task when the job the trigger ended in has run, undefined when it has been cancelled
+   */
+  enqueue<T, R = void>(
+    file: TFile, kind: string, data: T, task: UpdateJobTask<T, R>,
+    merge: (pending: T, data: T) => T = (pending, newData) => newData
+  ): Promise<R | undefined> {
+    let queue = this.queues.get(file);
+    if (!queue) {
+      queue = {running: null, pending: []};
+      this.queues.set(file, queue);
+    }
+    const pendingJob = queue.pending.find(job => job.kind === kind);
+    if (pendingJob) {
+      pendingJob.data = pendingJob.merge(pendingJob.data, data);
+      pendingJob.task = task;
+      pendingJob.triggers++;
+      if (this.settings.debugMode) console.debug(`UpdateQueueService: ${kind} trigger merged into job ${pendingJob.id} of ${file.path}`);
+      this.schedule(pendingJob);
+      this.notify();
+      return this.waitFor(pendingJob);
+    }
+    if (queue.running?.kind === kind) {
+      this.cancelJob(queue.running, 'superseded by a newer trigger');
+    }
+    const job: QueuedJob = {
+      id: this.nextId++,
+      file,
+      kind,
+      status: 'pending',
+      triggers: 1,
+      queuedAt: Date.now(),
+      data,
+      task,
+      merge,
+      cancelled: false,
+      ready: false,
+      waiters: [],
+      isCancelled() {
+        return this.cancelled;
+      },
+    };
+    queue.pending.push(job);
+    this.schedule(job);
+    this.notify();
+    return this.waitFor(job);
+  }
+
+  /**
+   * Pending jobs first, in queue order, then the running jobs
+   */
+  getJobs(): UpdateJob[] {
+    const jobs = [...this.queues.values()];
+    return [
+      ...jobs.flatMap(queue => queue.pending),
+      ...jobs.map(queue => queue.running).filter((job): job is QueuedJob => !!job),
+    ];
+  }
+
+  /**
+   * @returns unsubscribe function
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  cancel(jobId: number, reason = 'cancelled by the user'): boolean {
+    for (const queue of this.queues.values()) {
+      const job = [queue.running, ...queue.pending].find(queuedJob => queuedJob?.id === jobId);
+      if (job) {
+        this.cancelJob(job, reason);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  cancelAll(reason: string): void {
+    [...this.queues.values()].forEach(queue => {
+      [queue.running, ...queue.pending].forEach(job => {
+        if (job) {
+          this.cancelJob(job, reason);
+        }
+      });
+    });
+  }
+
+  handleDeleteFileEvent(file: TFile): void {
+    const queue = this.queues.get(file);
+    if (!queue) {
+      return;
+    }
+    [queue.running, ...queue.pending].forEach(job => {
+      if (job) {
+        this.cancelJob(job, 'note deleted');
+      }
+    });
+  }
+
+  /**
+   * The jobs follow the note, only the listeners showing the paths are notified
+   */
+  handleRenameFileEvent(file: TFile, oldPath: string): void {
+    if (this.queues.has(file)) {
+      if (this.settings.debugMode) console.debug(`UpdateQueueService: jobs of ${oldPath} follow the note to ${file.path}`);
+      this.notify();
+    }
+  }
+
+  private schedule(job: QueuedJob): void {
+    if (job.timer) {
+      clearTimeout(job.timer);
+    }
+    job.ready = false;
+    job.timer = setTimeout(() => {
+      job.timer = undefined;
+      job.ready = true;
+      void this.runNext(job.file);
+    }, this.settings.frontmatterUpdateDelayMs);
+  }
+
+  private async runNext(file: TFile): Promise<void> {
+    const queue = this.queues.get(file);
+    if (!queue || queue.running) {
+      return;
+    }
+    const index = queue.pending.findIndex(pendingJob => pendingJob.ready);
+    if (index === -1) {
+      return;
+    }
+    const [job] = queue.pending.splice(index, 1);
+    queue.running = job;
+    job.status = 'running';
+    job.startedAt = Date.now();
+    this.notify();
+    try {
+      job.result = await job.task(job.data, job);
+    } catch (error) {
+      console.error(`Error in ${job.kind} job of ${file.path}`, error);
+    } finally {
+      queue.running = null;
+      this.settle(job);
+    }
+    await this.runNext(file);
+  }
+
+  private cancelJob(job: QueuedJob, reason: string): void {
+    if (job.cancelled) {
+      return;
+    }
+    job.cancelled = true;
+    job.cancelReason = reason;
+    if (this.settings.debugMode) console.debug(`UpdateQueueService: ${job.kind} job ${job.id} of ${job.file.path} cancelled, ${reason}`);
+    if (job.status === 'running') {
+      // the task stops at its next check
+      this.notify();
+      return;
+    }
+    if (job.timer) {
+      clearTimeout(job.timer);
+    }
+    const pending = this.queues.get(job.file)?.pending || [];
+    const index = pending.indexOf(job);
+    if (index !== -1) {
+      pending.splice(index, 1);
+    }
+    this.settle(job);
+  }
+
+  private settle(job: QueuedJob): void {
+    const queue = this.queues.get(job.file);
+    if (queue && !queue.running && queue.pending.length === 0) {
+      this.queues.delete(job.file);
+    }
+    job.waiters.forEach(resolve => resolve(job.result));
+    job.waiters = [];
+    this.notify();
+  }
+
+  private waitFor<R>(job: QueuedJob): Promise<R | undefined> {
+    return new Promise(resolve => job.waiters.push(resolve));
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -9,6 +9,11 @@ import {MetadataInsertionSection} from "./sections/MetadataInsertionSection";
 import {ExcludeFoldersSection} from "./sections/ExcludeFoldersSection";
 import {FolderFileClassMappingsSection} from "./sections/FolderFileClassMappingsSection";
 import {PropertyDefaultValueScriptsSection} from "./sections/PropertyDefaultValueScriptsSection";
+import {PropertyOrderProfilesSection} from "./sections/PropertyOrderProfilesSection";
+import {ObsoleteFieldsSection} from "./sections/ObsoleteFieldsSection";
+import {FileClassDeductionRulesSection} from "./sections/FileClassDeductionRulesSection";
+import {PropertyMoveRulesSection} from "./sections/PropertyMoveRulesSection";
+import {PropertyTriggersSection} from "./sections/PropertyTriggersSection";
 import {SimulationSection} from "./sections/SimulationSection";
 import {ExportImportSection} from "./sections/ExportImportSection";
 import {PluginsStatusSection} from "./sections/PluginsStatusSection";
@@ -104,7 +109,7 @@ export class MetaFlowSettingTab extends PluginSettingTab {
 
     // Folder/fileClass mappings section
     const mappingsDetails = SettingsUtils.createSection(containerEl, 'Folder/fileClass mappings');
-    mappingsDetails.createEl('p', {text: 'Map folder patterns to MetadataMenu fileClasses. Uses the same pattern matching as Templater plugin. Patterns are evaluated in order, with the first match being used.'});
+    mappingsDetails.createEl('p', {text: 'Map folder patterns (folder prefix, glob or regex) to MetadataMenu fileClasses. Patterns are evaluated in the order of the list, with the first match being used.'});
 
     // Create container for mappings
     const mappingsContainer = mappingsDetails.createEl('div');
@@ -120,6 +125,44 @@ export class MetaFlowSettingTab extends PluginSettingTab {
     );
     mappingsSection.render();
 
+    // FileClass deduction rules section
+    const deductionRulesDetails = SettingsUtils.createSection(containerEl, 'FileClass deduction rules');
+    deductionRulesDetails.createEl('p', {text: 'Deduce the fileClass of notes without fileClass from their path, tags, filename, properties or body. Rules are evaluated in order before the folder/fileClass mappings, the first rule whose conditions all match is used.'});
+    new FileClassDeductionRulesSection(
+      deductionRulesDetails.createEl('div'),
+      this.plugin.settings,
+      this.metadataMenuAdapter,
+      async () => {await this.plugin.saveSettings();}
+    ).render();
+
+    // Property move rules section
+    const moveRulesDetails = SettingsUtils.createSection(containerEl, 'Property move rules');
+    moveRulesDetails.createEl('p', {text: 'Move notes according to their properties, e.g. status is done → Archive/Projects. Rules are evaluated in order by auto-move and the move command, after the default value scripts, before the folder/fileClass mappings.'});
+    new PropertyMoveRulesSection(
+      moveRulesDetails.createEl('div'),
+      this.plugin.settings,
+      this.metadataMenuAdapter,
+      async () => {await this.plugin.saveSettings();}
+    ).render();
+
+    // Property triggers section
+    const triggersDetails = SettingsUtils.createSection(containerEl, 'Property triggers');
+    triggersDetails.createEl('p', {text: 'Run actions when a manual edit changes a property, e.g. status from any value to done → set completedDate to now("YYYY-MM-DD"). The properties set by MetaFlow do not fire the triggers.'});
+    new PropertyTriggersSection(
+      triggersDetails.createEl('div'),
+      this.plugin.settings,
+      this.metadataMenuAdapter,
+      async () => {await this.plugin.saveSettings();}
+    ).render();
+
+    // Obsolete fields section
+    const obsoleteFieldsDetails = SettingsUtils.createSection(containerEl, 'Obsolete fields on fileClass change');
+    new ObsoleteFieldsSection(
+      obsoleteFieldsDetails.createEl('div'),
+      this.plugin.settings,
+      async () => {await this.plugin.saveSettings();}
+    ).render();
+
     // Property default value scripts section
     const scriptsDetails = SettingsUtils.createSection(containerEl, 'Property default value scripts');
     scriptsDetails.createEl('p', {text: 'Define JavaScript scripts to generate default values for metadata properties.'});
@@ -135,6 +178,17 @@ export class MetaFlowSettingTab extends PluginSettingTab {
     );
     scriptsSection.render();
 
+    // Property order profiles section
+    const orderProfilesDetails = SettingsUtils.createSection(containerEl, 'Property order profiles');
+    orderProfilesDetails.createEl('p', {text: 'Define the property order per fileClass. A fileClass without profile, or with an "Inherit from ancestor" profile, uses the profile of its nearest ancestor, then the order of the property default value scripts.'});
+    new PropertyOrderProfilesSection(
+      orderProfilesDetails.createEl('div'),
+      this.plugin.settings,
+      this.metadataMenuAdapter,
+      this.logManager,
+      async () => {await this.plugin.saveSettings();}
+    ).render();
+
     // Simulation Testing Section
     this.simulationDetails = SettingsUtils.createSection(containerEl, '🧪 Simulation & Testing');
     new SimulationSection(
@@ -13,6 +13,7 @@ export const DEFAULT_SETTINGS: MetaFlowSettings = {
   folderFileClassMappings: [
     {
       folder: '/',
+      patternKind: 'prefix' as const,
       fileClass: 'default',
       moveToFolder: false,
       noteTitleTemplates: [],
@@ -23,10 +24,21 @@ export const DEFAULT_SETTINGS: MetaFlowSettings = {
       templateMode: 'template' as const,
     }
   ],
+  fileClassDeductionRules: [],
   propertyDefaultValueScripts: [],
+  propertyOrderProfiles: [],
+  defaultValuePrecedence: 'script',
+  obsoleteFieldPolicy: 'keep',
+  fieldMigrations: [],
+  propertyMoveRules: [],
+  propertyTriggers: [],
   excludeFolders: [],
   autoMoveNoteToRightFolder: true,
   autoRenameNote: true,
+  fileClassSyncOnMove: 'off',
+  previewBeforeUpdate: false,
+  validateFieldTypes: false,
+  coerceFieldValues: false,
   debugMode: false,
   frontmatterUpdateDelayMs: 500
 };
@@ -0,0 +1,210 @@
+import {Setting} from "obsidian";
+import {MetadataMenuAdapter} from "../../externalApi/MetadataMenuAdapter";
+import {DeductionCondition, DeductionConditionType, FileClassDeductionRule, FolderPatternKind, MetaFlowSettings} from "../types";
+
+const CONDITION_LABELS: Record<DeductionConditionType, string> = {
+  path: 'Path',
+  tag: 'Tag',
+  filename: 'Filename (regex)',
+  property: 'Property',
+  body: 'Body (regex)',
+};
+
+const CONDITION_PLACEHOLDERS: Record<DeductionConditionType, string> = {
+  path: 'Meetings/**',
+  tag: '#meeting',
+  filename: '^\\d{4}-\\d{2}-\\d{2}$',
+  property: 'Property name',
+  body: '^## Attendees',
+};
+
+const PATTERN_KIND_LABELS: Record<FolderPatternKind, string> = {
+  prefix: 'Folder prefix',
+  glob: 'Glob',
+  regex: 'Regex',
+};
+
+export class FileClassDeductionRulesSection {
+  constructor(
+    private container: HTMLElement,
+    private settings: MetaFlowSettings,
+    private metadataMenuAdapter: MetadataMenuAdapter,
+    private onChange: () => void
+  ) { }
+
+  render() {
+    this.container.empty();
+
+    const rulesList = this.container.createDiv();
+    this.settings.fileClassDeductionRules.forEach((rule, idx) => {
+      this.addRuleRow(rulesList, rule, idx);
+    });
+
+    new Setting(this.container)
+      .addButton(btn => {
+        btn.setButtonText('➕ Add rule')
+          .setCta()
+          .onClick(() => {
+            this.settings.fileClassDeductionRules.push({
+              name: '',
+              fileClass: '',
+              enabled: true,
+              conditions: [{type: 'tag', value: ''}],
+            });
+            this.onChange();
+            this.render();
+          });
+      });
+  }
+
+  private addRuleRow(container: HTMLElement, rule: FileClassDeductionRule, idx: number): void {
+    const ruleDiv = container.createDiv({cls: 'metaflow-settings-deduction-rule'});
+    const rules = this.settings.fileClassDeductionRules;
+
+    const row = new Setting(ruleDiv);
+    row.settingEl.addClass('metaflow-settings-no-border');
+    row.setName(`#${idx + 1}`);
+    row.addText(text => text
+      .setPlaceholder('Rule name')
+      .setValue(rule.name)
+      .onChange((value) => {
+        rule.name = value;
+        this.onChange();
+      }));
+    const fileClasses = this.getFileClasses();
+    if (fileClasses.length > 0) {
+      if (rule.fileClass && !fileClasses.includes(rule.fileClass)) {
+        fileClasses.push(rule.fileClass);
+      }
+      row.addDropdown(dropdown => {
+        dropdown.addOption('', 'Select fileClass...');
+        fileClasses.forEach(fileClass => dropdown.addOption(fileClass, fileClass));
+        dropdown.setValue(rule.fileClass)
+          .onChange((value) => {
+            rule.fileClass = value;
+            this.onChange();
+          });
+      });
+    } else {
+      row.addText(text => text
+        .setPlaceholder('FileClass')
+        .setValue(rule.fileClass)
+        .onChange((value) => {
+          rule.fileClass = value.trim();
+          this.onChange();
+        }));
+    }
+    row.addToggle(toggle => toggle
+      .setTooltip('Enabled')
+      .setValue(rule.enabled)
+      .onChange((value) => {
+        rule.enabled = value;
+        this.onChange();
+      }));
+    row.addExtraButton(btn => {
+      btn.setIcon('arrow-up')
+        .setTooltip('Evaluate this rule earlier')
+        .setDisabled(idx === 0)
+        .onClick(() => {
+          [rules[idx - 1], rules[idx]] = [rules[idx], rules[idx - 1]];
+          this.onChange();
+          this.render();
+        });
+    });
+    row.addExtraButton(btn => {
+      btn.setIcon('arrow-down')
+        .setTooltip('Evaluate this rule later')
+        .setDisabled(idx === rules.length - 1)
+        .onClick(() => {
+          [rules[idx + 1], rules[idx]] = [rules[idx], rules[idx + 1]];
+          this.onChange();
+          this.render();
+        });
+    });
+    row.addExtraButton(btn => {
+      btn.setIcon('trash')
+        .setTooltip('Remove rule')
+        .onClick(() => {
+          rules.splice(idx, 1);
+          this.onChange();
+          this.render();
+        });
+    });
+
+    const conditionsDiv = ruleDiv.createDiv({cls: 'metaflow-settings-deduction-conditions'});
+    rule.conditions.forEach((condition, conditionIdx) => {
+      this.addConditionRow(conditionsDiv, rule, condition, conditionIdx);
+    });
+    const addConditionButton = ruleDiv.createEl('button', {text: '➕ Add condition (all conditions must match)'});
+    addConditionButton.addEventListener('click', () => {
+      rule.conditions.push({type: 'path', value: ''});
+      this.onChange();
+      this.render();
+    });
+  }
+
+  private addConditionRow(container: HTMLElement, rule: FileClassDeductionRule, condition: DeductionCondition, idx: number): void {
+    const row = new Setting(container);
+    row.settingEl.addClass('metaflow-settings-no-border');
+    row.settingEl.addClass('metaflow-settings-deduction-condition');
+    row.addDropdown(dropdown => {
+      (Object.keys(CONDITION_LABELS) as DeductionConditionType[])
+        .forEach(type => dropdown.addOption(type, CONDITION_LABELS[type]));
+      dropdown.setValue(condition.type)
+        .onChange((value: DeductionConditionType) => {
+          condition.type = value;
+          delete condition.patternKind;
+          delete condition.propertyValue;
+          this.onChange();
+          this.render();
+        });
+    });
+    if (condition.type === 'path') {
+      row.addDropdown(dropdown => {
+        (Object.keys(PATTERN_KIND_LABELS) as FolderPatternKind[])
+          .forEach(kind => dropdown.addOption(kind, PATTERN_KIND_LABELS[kind]));
+        dropdown.setValue(condition.patternKind || 'prefix')
+          .onChange((value: FolderPatternKind) => {
+            condition.patternKind = value;
+            this.onChange();
+          });
+      });
+    }
+    row.addText(text => text
+      .setPlaceholder(CONDITION_PLACEHOLDERS[condition.type])
+      .setValue(condition.value)
+      .onChange((value) => {
+        condition.value = value;
+        this.onChange();
+      }));
+    if (condition.type === 'property') {
+      row.addText(text => text
+        .setPlaceholder('Value (empty: property is set)')
+        .setValue(condition.propertyValue || '')
+        .onChange((value) => {
+          condition.propertyValue = value;
+          this.onChange();
+        }));
+    }
+    row.addExtraButton(btn => {
+      btn.setIcon('x')
+        .setTooltip('Remove condition')
+        .onClick(() => {
+          rule.conditions.splice(idx, 1);
+          this.onChange();
+          this.render();
+        });
+    });
+  }
+
+  private getFileClasses(): string[] {
+    try {
+      if (this.metadataMenuAdapter.isMetadataMenuAvailable()) {
+        return this.metadataMenuAdapter.getAllFileClasses();
+      }
+    } catch (error) {
+      console.error('Error getting fileClasses:', error);
+    }
+    return [];
+  }
+}
@@ -151,6 +151,7 @@ describe('FolderFileClassMappingsSection', () => {
       expect(folderFileClassMappings).toHaveLength(2);
       expect(folderFileClassMappings[0]).toEqual({
         folder: 'Books',
+        patternKind: 'prefix',
         fileClass: '',
         moveToFolder: true,
         noteTitleTemplates: [],
@@ -162,6 +163,7 @@ describe('FolderFileClassMappingsSection', () => {
       });
       expect(folderFileClassMappings[1]).toEqual({
         folder: 'Articles',
+        patternKind: 'prefix',
         fileClass: '',
         moveToFolder: true,
         noteTitleTemplates: [],
@@ -187,7 +189,7 @@ describe('FolderFileClassMappingsSection', () => {
       const folderFileClassMappings = folderFileClassMappingsSection['folderFileClassMappings'];
       expect(folderFileClassMappings).toStrictEqual([
         {"fileClass": "existing-book", "folder": "Books", "moveToFolder": false, "noteTitleTemplates": [], "noteTitleScript": {script: 'return "";', enabled: true}, "templateMode": "template"},
-        {"fileClass": "", "folder": "Articles", "moveToFolder": true, "noteTitleTemplates": [], "noteTitleScript": {script: 'return "";', enabled: true}, "templateMode": "template"}
+        {"fileClass": "", "folder": "Articles", "patternKind": "prefix", "moveToFolder": true, "noteTitleTemplates": [], "noteTitleScript": {script: 'return "";', enabled: true}, "templateMode": "template"}
       ]);
     });
 
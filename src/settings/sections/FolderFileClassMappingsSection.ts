@@ -1,5 +1,5 @@
 import {App, Setting, Notice} from "obsidian";
-import {FolderFileClassMapping} from "../types";
+import {CollisionStrategy, FolderFileClassMapping, FolderPatternKind, ObsoleteFieldPolicy, TitleSyncTarget} from "../types";
 import {TemplaterAdapter} from "../../externalApi/TemplaterAdapter";
 import {FolderSuggest} from "../FolderSuggest";
 import {ObsidianAdapter} from "../../externalApi/ObsidianAdapter";
@@ -12,6 +12,35 @@ import {CompletionsHelpModal} from "../modals/CompletionsHelpModal";
 import {TitleTemplateLinter, ValidationResult} from "./TitleTemplateLinter";
 import {TitleScriptLinter} from "./TitleScriptLinter";
 import {DragDropHelper} from "../DragDropHelper";
+import {OBSOLETE_FIELD_POLICY_LABELS} from "./ObsoleteFieldsSection";
+import {FolderPattern} from "../../utils/FolderPattern";
+
+const FOLDER_PATTERN_KIND_LABELS: Record<FolderPatternKind, string> = {
+  prefix: 'Folder prefix',
+  glob: 'Glob',
+  regex: 'Regex',
+};
+
+const FOLDER_PATTERN_PLACEHOLDERS: Record<FolderPatternKind, string> = {
+  prefix: 'A Vault folder',
+  glob: 'Books/**',
+  regex: 'Books/.*',
+};
+
+const COLLISION_STRATEGY_LABELS: Record<CollisionStrategy, string> = {
+  skip: 'Skip',
+  counter: 'Append a counter',
+  property: 'Append a property',
+  prompt: 'Ask',
+};
+
+const TITLE_SYNC_TARGET_LABELS: Record<TitleSyncTarget, string> = {
+  off: 'Off',
+  property: 'Title property',
+  heading: 'First heading',
+};
+
+const MAX_SAMPLE_PATHS = 3;
 
 export class FolderFileClassMappingsSection {
   private templaterImportButton: HTMLButtonElement;
@@ -94,6 +123,7 @@ export class FolderFileClassMappingsSection {
         .onClick(() => {
           this.folderFileClassMappings.push({
             folder: '',
+            patternKind: 'prefix',
             fileClass: '',
             moveToFolder: false,
             noteTitleTemplates: [],
@@ -137,6 +167,7 @@ export class FolderFileClassMappingsSection {
         if (!existingMapping) {
           this.folderFileClassMappings.push({
             folder: folderTemplate.folder,
+            patternKind: 'prefix',
             fileClass: '',
             moveToFolder: true,
             noteTitleTemplates: [],
@@ -206,6 +237,44 @@ export class FolderFileClassMappingsSection {
     this.displayNoteTitleTemplates(modeContainer, mapping, index);
   }
 
+  /**
+   * List a few vault notes matched by the pattern of the mapping, mappings are evaluated in list order
+   * so the notes already matched by a previous mapping are counted apart
+   */
+  private displayPatternMatches(matchesDiv: HTMLElement, index: number): void {
+    matchesDiv.empty();
+    const mapping = this.folderFileClassMappings[index];
+    const patternKind = mapping.patternKind || 'prefix';
+    const error = FolderPattern.getPatternError(mapping.folder, patternKind);
+    if (error) {
+      matchesDiv.setText(`❌ Invalid pattern: ${error}`);
+      return;
+    }
+    const matchers = this.folderFileClassMappings.slice(0, index + 1).map(m => {
+      try {
+        return FolderPattern.createMatcher(m.folder, m.patternKind || 'prefix');
+      } catch (error) {
+        return () => false;
+      }
+    });
+    const matcher = matchers.pop()!;
+    const matchedPaths = this.app.vault.getMarkdownFiles()
+      .map(file => file.path)
+      .filter(path => matcher(path));
+    const winningPaths = matchedPaths.filter(path => !matchers.some(previousMatcher => previousMatcher(path)));
+    if (matchedPaths.length === 0) {
+      matchesDiv.setText('No note matches this pattern');
+      return;
+    }
+    const samples = winningPaths.slice(0, MAX_SAMPLE_PATHS).join(', ');
+    const more = winningPaths.length > MAX_SAMPLE_PATHS ? ` and ${winningPaths.length - MAX_SAMPLE_PATHS} more` : '';
+    const shadowed = matchedPaths.length - winningPaths.length;
+    matchesDiv.setText(
+      `Matches ${winningPaths.length} note(s)${samples ? `: ${samples}${more}` : ''}` +
+      (shadowed > 0 ? ` (${shadowed} already matched by a previous mapping)` : '')
+    );
+  }
+
   private makeModeSelector(modeRadioContainer: HTMLElement, modeContainer: HTMLElement, mapping: FolderFileClassMapping, index: number) {
     modeRadioContainer.createEl('label', {
       text: 'Auto title mode:', cls: 'metaflow-settings-mode-label', attr: {
@@ -264,12 +333,22 @@ export class FolderFileClassMappingsSection {
     orderSpan.textContent = `#${index + 1}`;
     orderSpan.classList.add('metaflow-settings-mapping-folder-order');
 
+    // Pattern kind select
+    const patternKindSelect = controlRow.createEl('select', {
+      cls: 'metaflow-settings-mapping-pattern-kind',
+      attr: {title: 'How the folder pattern is matched against the note path'},
+    });
+    (Object.keys(FOLDER_PATTERN_KIND_LABELS) as FolderPatternKind[]).forEach(kind => {
+      patternKindSelect.createEl('option', {value: kind, text: FOLDER_PATTERN_KIND_LABELS[kind]});
+    });
+    patternKindSelect.value = mapping.patternKind || 'prefix';
+
     // Folder pattern input
     const inputId = `metaflow-settings-mapping-folder-${index}`;
     controlRow.createEl('label', {text: 'Folder', attr: {for: inputId}});
     const folderInput = controlRow.createEl('input', {
       type: 'text',
-      placeholder: 'A Vault folder',
+      placeholder: FOLDER_PATTERN_PLACEHOLDERS[mapping.patternKind || 'prefix'],
       value: mapping.folder,
       attr: {id: inputId},
     });
@@ -277,9 +356,23 @@ export class FolderFileClassMappingsSection {
     new FolderSuggest(this.app, folderInput);
     folderInput.classList.add('metaflow-settings-mapping-folder-input');
 
+    // Sample vault paths matched by the pattern, displayed below the control row
+    const matchesDiv = mappingControl.createEl('div', {cls: 'metaflow-settings-mapping-matches'});
+    this.displayPatternMatches(matchesDiv, index);
+
     folderInput.addEventListener('input', async () => {
-      mapping.folder = this.obsidianAdapter.normalizePath(folderInput.value);
+      mapping.folder = (mapping.patternKind || 'prefix') === 'prefix' ?
+        this.obsidianAdapter.normalizePath(folderInput.value) :
+        folderInput.value;
       await this.onChange();
+      this.displayPatternMatches(matchesDiv, index);
+    });
+
+    patternKindSelect.addEventListener('change', async () => {
+      mapping.patternKind = patternKindSelect.value as FolderPatternKind;
+      folderInput.placeholder = FOLDER_PATTERN_PLACEHOLDERS[mapping.patternKind];
+      await this.onChange();
+      this.displayPatternMatches(matchesDiv, index);
     });
 
     // FileClass input or select (dropdown) based on MetadataMenu availability
@@ -341,6 +434,130 @@ export class FolderFileClassMappingsSection {
     });
     moveToFolderToggle.addEventListener('change', async (event) => {
       mapping.moveToFolder = moveToFolderToggle.checked;
+      moveTargetInput.disabled = !mapping.moveToFolder;
+      await this.onChange();
+    });
+
+    // Move target folder template, empty to move into the mapping folder
+    const moveTargetInput = controlRow.createEl('input', {
+      type: 'text',
+      placeholder: 'Move to: Books/{{author}}',
+      value: mapping.moveTargetTemplate || '',
+      cls: 'metaflow-settings-mapping-move-target-input',
+      attr: {title: 'Target folder of the auto-move, with {{property}} and {{date:YYYY}} placeholders, folders are created on demand. Empty: the mapping folder'},
+    });
+    moveTargetInput.disabled = !mapping.moveToFolder;
+    moveTargetInput.addEventListener('input', async () => {
+      const template = moveTargetInput.value.trim();
+      if (template) {
+        mapping.moveTargetTemplate = template;
+      } else {
+        delete mapping.moveTargetTemplate;
+      }
+      await this.onChange();
+    });
+
+    // Obsolete fields policy, overriding the global one
+    const policySelect = controlRow.createEl('select', {
+      cls: 'metaflow-settings-mapping-obsolete-policy',
+      attr: {title: 'Obsolete fields policy when a note gets this fileClass'},
+    });
+    policySelect.createEl('option', {value: '', text: 'Obsolete fields: global policy'});
+    (Object.keys(OBSOLETE_FIELD_POLICY_LABELS) as ObsoleteFieldPolicy[]).forEach(policy => {
+      policySelect.createEl('option', {value: policy, text: `Obsolete fields: ${OBSOLETE_FIELD_POLICY_LABELS[policy]}`});
+    });
+    policySelect.value = mapping.obsoleteFieldPolicy || '';
+    policySelect.addEventListener('change', async () => {
+      if (policySelect.value) {
+        mapping.obsoleteFieldPolicy = policySelect.value as ObsoleteFieldPolicy;
+      } else {
+        delete mapping.obsoleteFieldPolicy;
+      }
+      await this.onChange();
+    });
+
+    // Collision strategy when the renamed or moved note target already exists
+    const collisionSelect = controlRow.createEl('select', {
+      cls: 'metaflow-settings-mapping-collision-strategy',
+      attr: {title: 'What to do when the note would be renamed or moved over an existing file'},
+    });
+    (Object.keys(COLLISION_STRATEGY_LABELS) as CollisionStrategy[]).forEach(strategy => {
+      collisionSelect.createEl('option', {value: strategy, text: `Collision: ${COLLISION_STRATEGY_LABELS[strategy]}`});
+    });
+    collisionSelect.value = mapping.collisionStrategy || 'skip';
+    const collisionPropertyInput = controlRow.createEl('input', {
+      type: 'text',
+      placeholder: 'Property, e.g. year',
+      value: mapping.collisionProperty || '',
+      cls: 'metaflow-settings-mapping-collision-property',
+      attr: {title: 'Property appended to the name, Title - 2024, a counter is appended when it has no value'},
+    });
+    collisionPropertyInput.disabled = !['property', 'prompt'].includes(collisionSelect.value);
+    collisionSelect.addEventListener('change', async () => {
+      mapping.collisionStrategy = collisionSelect.value as CollisionStrategy;
+      collisionPropertyInput.disabled = !['property', 'prompt'].includes(mapping.collisionStrategy);
+      await this.onChange();
+    });
+    collisionPropertyInput.addEventListener('input', async () => {
+      const property = collisionPropertyInput.value.trim();
+      if (property) {
+        mapping.collisionProperty = property;
+      } else {
+        delete mapping.collisionProperty;
+      }
+      await this.onChange();
+    });
+
+    // Previous name kept as alias when MetaFlow renames the note
+    const [keepAliasToggle, keepAliasLabel] = SettingsUtils.createCheckboxWithLabel(controlRow, {
+      label: 'Keep old name as alias',
+      labelClass: 'metaflow-settings-mapping-keep-alias-label',
+      labelTitle: 'Append the previous name of the note to its aliases when MetaFlow renames it',
+      checkboxClass: 'metaflow-settings-mapping-keep-alias-checkbox',
+      checked: mapping.keepOldNameAsAlias || false
+    });
+    keepAliasToggle.addEventListener('change', async () => {
+      if (keepAliasToggle.checked) {
+        mapping.keepOldNameAsAlias = true;
+      } else {
+        delete mapping.keepOldNameAsAlias;
+      }
+      await this.onChange();
+    });
+
+    // Title updated when the user renames the note
+    const titleSyncSelect = controlRow.createEl('select', {
+      cls: 'metaflow-settings-mapping-title-sync',
+      attr: {title: 'Where to write the new name when you rename the note'},
+    });
+    (Object.keys(TITLE_SYNC_TARGET_LABELS) as TitleSyncTarget[]).forEach(target => {
+      titleSyncSelect.createEl('option', {value: target, text: `Sync title on rename: ${TITLE_SYNC_TARGET_LABELS[target]}`});
+    });
+    titleSyncSelect.value = mapping.titleSyncOnRename || 'off';
+    const titlePropertyInput = controlRow.createEl('input', {
+      type: 'text',
+      placeholder: 'Title property: title',
+      value: mapping.titleProperty || '',
+      cls: 'metaflow-settings-mapping-title-property',
+      attr: {title: 'Property set to the new name of the note, default: title'},
+    });
+    titlePropertyInput.disabled = titleSyncSelect.value !== 'property';
+    titleSyncSelect.addEventListener('change', async () => {
+      if (titleSyncSelect.value === 'off') {
+        delete mapping.titleSyncOnRename;
+      } else {
+        mapping.titleSyncOnRename = titleSyncSelect.value as TitleSyncTarget;
+      }
+      titlePropertyInput.disabled = titleSyncSelect.value !== 'property';
+      await this.onChange();
+    });
+    titlePropertyInput.addEventListener('input', async () => {
+      const property = titlePropertyInput.value.trim();
+      if (property) {
+        mapping.titleProperty = property;
+      } else {
+        delete mapping.titleProperty;
+      }
       await this.onChange();
     });
 
@@ -440,6 +657,25 @@ export class FolderFileClassMappingsSection {
         this.updateValidationFeedback(templateInputContainer, template.template, false);
       }
 
+      // Guard input, the template is only tried for the notes matching it
+      const guardInputContainer = templateRow.createEl('div', {cls: 'metaflow-settings-template-input-container metaflow-settings-template-guard-container'});
+      const guardInput = guardInputContainer.createEl('input', {type: 'text', cls: 'metaflow-settings-template-guard-input'});
+      guardInput.value = template.guard ?? '';
+      guardInput.placeholder = 'Only when (e.g., status == "published")';
+      guardInput.title = 'Conditions on the note metadata joined with &&: property == "value", property != "value", property < 10, property, !property';
+      guardInput.addEventListener('input', async () => {
+        if (guardInput.value.trim()) {
+          template.guard = guardInput.value;
+        } else {
+          delete template.guard;
+        }
+        await this.onChange();
+        this.updateGuardValidationFeedback(guardInputContainer, guardInput.value);
+      });
+      if (template.guard) {
+        this.updateGuardValidationFeedback(guardInputContainer, template.guard);
+      }
+
       // Enabled toggle
       const [enabledToggle, enabledLabel] = SettingsUtils.createCheckboxWithLabel(templateRow, {
         label: 'Enabled',
@@ -645,5 +881,13 @@ export class FolderFileClassMappingsSection {
     this.createValidationFeedback(container, validationResult);
   }
 
+  private updateGuardValidationFeedback(container: HTMLElement, guard: string): void {
+    if (!guard.trim()) {
+      container.querySelector('.metaflow-validation-feedback')?.remove();
+      return;
+    }
+    this.createValidationFeedback(container, this.templateLinter.validateGuard(guard));
+  }
+
 
 }
\ No newline at end of file
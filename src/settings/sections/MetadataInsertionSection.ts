@@ -1,5 +1,5 @@
 import {Setting} from "obsidian";
-import {MetaFlowSettings} from "../types";
+import {DefaultValuePrecedence, FileClassSyncOnMove, MetaFlowSettings} from "../types";
 
 export class MetadataInsertionSection {
   constructor(
@@ -15,6 +15,7 @@ export class MetadataInsertionSection {
     let autoSortSetting: Setting;
     let autoMoveNoteToRightFolderSetting: Setting;
     let autoRenameNoteSetting: Setting;
+    let fileClassSyncOnMoveSetting: Setting;
 
     const updateDependentRadioButtons = () => {
       autoSortSetting.components[0].setDisabled(!this.settings.autoMetadataInsertion);
@@ -23,6 +24,8 @@ export class MetadataInsertionSection {
       autoMoveNoteToRightFolderSetting.controlEl.setAttribute('title', this.settings.autoMetadataInsertion ? '' : 'Disabled when auto-insert is off');
       autoRenameNoteSetting.components[0].setDisabled(!this.settings.autoMetadataInsertion);
       autoRenameNoteSetting.controlEl.setAttribute('title', this.settings.autoMetadataInsertion ? '' : 'Disabled when auto-insert is off');
+      fileClassSyncOnMoveSetting.components[0].setDisabled(!this.settings.autoMetadataInsertion);
+      fileClassSyncOnMoveSetting.controlEl.setAttribute('title', this.settings.autoMetadataInsertion ? '' : 'Disabled when auto-insert is off');
     };
 
     new Setting(this.container)
@@ -36,6 +39,7 @@ export class MetadataInsertionSection {
             this.settings.autoSort = false;
             this.settings.autoMoveNoteToRightFolder = false;
             this.settings.autoRenameNote = false;
+            this.settings.fileClassSyncOnMove = 'off';
           }
           updateDependentRadioButtons();
           this.onChange();
@@ -74,6 +78,68 @@ export class MetadataInsertionSection {
           this.onChange();
         }));
 
+    // FileClass of the notes moved into a mapped folder setting
+    fileClassSyncOnMoveSetting = new Setting(this.container)
+      .setName('Change the fileClass of notes moved into a mapped folder')
+      .setDesc('When a note is moved into a folder mapped to another fileClass, give it the fileClass of the mapping, then sync its fields, add default values and rename it')
+      .addDropdown(dropdown => dropdown
+        .addOption('off', 'Never')
+        .addOption('ask', 'Ask, listing the fields added or removed')
+        .addOption('apply', 'Always')
+        .setValue(this.settings.fileClassSyncOnMove)
+        .onChange(async (value: FileClassSyncOnMove) => {
+          this.settings.fileClassSyncOnMove = value;
+          this.onChange();
+        }));
+
+    // Preview before update setting
+    new Setting(this.container)
+      .setName('Preview changes before updating')
+      .setDesc('Show a frontmatter diff with the planned rename and move before "Update metadata properties" and mass updates write anything')
+      .addToggle(toggle => toggle
+        .setValue(this.settings.previewBeforeUpdate)
+        .onChange(async (value) => {
+          this.settings.previewBeforeUpdate = value;
+          this.onChange();
+        }));
+
+    // Default value precedence setting
+    new Setting(this.container)
+      .setName('Default value precedence')
+      .setDesc('Source used first to fill an empty property: the property default value script or the MetadataMenu field default value. The other source is used when the first one is not defined.')
+      .addDropdown(dropdown => dropdown
+        .addOption('script', 'Script first')
+        .addOption('metadataMenu', 'MetadataMenu default first')
+        .setValue(this.settings.defaultValuePrecedence)
+        .onChange(async (value: DefaultValuePrecedence) => {
+          this.settings.defaultValuePrecedence = value;
+          this.onChange();
+        }));
+
+    // Field type validation settings
+    let coerceFieldValuesSetting: Setting;
+    new Setting(this.container)
+      .setName('Validate property values against MetadataMenu field types')
+      .setDesc('Report values that do not match their field type (Number, Boolean, Date, Select options, lists for Multi types, ...) when updating metadata')
+      .addToggle(toggle => toggle
+        .setValue(this.settings.validateFieldTypes)
+        .onChange(async (value) => {
+          this.settings.validateFieldTypes = value;
+          coerceFieldValuesSetting.components[0].setDisabled(!value);
+          this.onChange();
+        }));
+
+    coerceFieldValuesSetting = new Setting(this.container)
+      .setName('Coerce invalid property values')
+      .setDesc('Convert invalid values when possible: "42" to 42, "yes" to true, a single value to a list for Multi types and dates to the field date format')
+      .addToggle(toggle => toggle
+        .setValue(this.settings.coerceFieldValues)
+        .setDisabled(!this.settings.validateFieldTypes)
+        .onChange(async (value) => {
+          this.settings.coerceFieldValues = value;
+          this.onChange();
+        }));
+
     // Sort unknown properties setting
     new Setting(this.container)
       .setName('Sort unknown properties alphabetically')
@@ -0,0 +1,86 @@
+import {Setting} from "obsidian";
+import {FieldMigration, MetaFlowSettings, ObsoleteFieldPolicy} from "../types";
+
+export const OBSOLETE_FIELD_POLICY_LABELS: Record<ObsoleteFieldPolicy, string> = {
+  keep: 'Keep',
+  remove: 'Remove',
+  archive: 'Archive under _archived',
+  ask: 'Ask',
+};
+
+export class ObsoleteFieldsSection {
+  constructor(
+    private container: HTMLElement,
+    private settings: MetaFlowSettings,
+    private onChange: () => void
+  ) { }
+
+  render() {
+    this.container.empty();
+
+    new Setting(this.container)
+      .setName('Obsolete fields policy')
+      .setDesc('What to do with the non-empty fields of the old fileClass that the new fileClass does not define. Each folder/fileClass mapping can override this policy.')
+      .addDropdown(dropdown => {
+        (Object.keys(OBSOLETE_FIELD_POLICY_LABELS) as ObsoleteFieldPolicy[])
+          .forEach(policy => dropdown.addOption(policy, OBSOLETE_FIELD_POLICY_LABELS[policy]));
+        dropdown.setValue(this.settings.obsoleteFieldPolicy)
+          .onChange((value: ObsoleteFieldPolicy) => {
+            this.settings.obsoleteFieldPolicy = value;
+            this.onChange();
+          });
+      });
+
+    this.container.createEl('div', {text: 'Field migrations', cls: 'setting-item-name'});
+    this.container.createEl('div', {
+      text: 'Carry the value of a field over to another field when the fileClass of a note changes, e.g. article.writer → book.author.',
+      cls: 'setting-item-description'
+    });
+
+    const migrationsList = this.container.createDiv();
+    this.settings.fieldMigrations.forEach((migration, idx) => {
+      this.addMigrationRow(migrationsList, migration, idx);
+    });
+
+    new Setting(this.container)
+      .addButton(btn => {
+        btn.setButtonText('Add field migration')
+          .setCta()
+          .onClick(() => {
+            this.settings.fieldMigrations.push({fromFileClass: '', fromField: '', toFileClass: '', toField: ''});
+            this.onChange();
+            this.render();
+          });
+      });
+  }
+
+  private addMigrationRow(container: HTMLElement, migration: FieldMigration, idx: number): void {
+    const row = new Setting(container);
+    row.settingEl.addClass('metaflow-settings-no-border');
+    row.settingEl.addClass('metaflow-settings-field-migration');
+    const inputs: [keyof FieldMigration, string][] = [
+      ['fromFileClass', 'Old fileClass'],
+      ['fromField', 'Old field'],
+      ['toFileClass', 'New fileClass'],
+      ['toField', 'New field'],
+    ];
+    inputs.forEach(([key, placeholder]) => {
+      row.addText(text => text
+        .setPlaceholder(placeholder)
+        .setValue(migration[key])
+        .onChange((value) => {
+          migration[key] = value.trim();
+          this.onChange();
+        }));
+    });
+    row.addExtraButton(btn => {
+      btn.setIcon('trash')
+        .setTooltip('Remove field migration')
+        .onClick(() => {
+          this.settings.fieldMigrations.splice(idx, 1);
+          this.onChange();
+          this.render();
+        });
+    });
+  }
+}
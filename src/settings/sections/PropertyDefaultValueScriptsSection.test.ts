@@ -212,6 +212,17 @@ describe('PropertyDefaultValueScriptsSection', () => {
       expect(mockPlugin.settings.propertyDefaultValueScripts[0].script).toBe('return "existing";');
     });
 
+    test('should keep the fileClasses picked for existing scripts', async () => {
+      mockPlugin.settings.propertyDefaultValueScripts = [
+        {propertyName: 'title', script: 'return "";', enabled: true, order: 0, fileClasses: ['novel']}
+      ];
+      propertyDefaultValueScriptsSection = getPropertyDefaultValueScriptsSection();
+
+      await propertyDefaultValueScriptsSection['autoPopulatePropertyScriptsFromMetadataMenu']();
+
+      expect(mockPlugin.settings.propertyDefaultValueScripts[0].fileClasses).toEqual(['novel']);
+    });
+
     test('should handle missing MetadataMenu plugin gracefully', async () => {
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
       mockPlugin.autoInserter.isMetadataMenuAvailable.mockReturnValue(false);
@@ -106,6 +106,11 @@ export class PropertyDefaultValueScriptsSection {
       propertySpan.textContent = script.propertyName || 'Unnamed Property';
       propertySpan.classList.add('metaflow-settings-script-property');
 
+      // FileClasses scope
+      const scopeSpan = readOnlyDiv.createEl('span');
+      scopeSpan.textContent = script.fileClasses?.length ? script.fileClasses.join(', ') : 'All fileClasses';
+      scopeSpan.classList.add('metaflow-settings-script-fileclasses');
+
       // Add a spacer
       const spacer = readOnlyDiv.createDiv();
       spacer.classList.add('metaflow-settings-script-btn-spacer');
@@ -144,6 +149,7 @@ export class PropertyDefaultValueScriptsSection {
       let originalPropertyName = script.propertyName;
       let originalScript = script.script;
       let originalEnabled = script.enabled;
+      let originalFileClasses = script.fileClasses ? [...script.fileClasses] : undefined;
 
       // Property name input
       const propertyRow = editDiv.createEl('div');
@@ -171,14 +177,12 @@ export class PropertyDefaultValueScriptsSection {
       const orderDiv = propertyRow.createEl('div', {cls: 'setting-item-order'});
       orderDiv.createEl('span', {text: `Order: ${index + 1}`});
 
+      // FileClasses picker
+      const fileClassCheckboxes = this.displayFileClassesPicker(editDiv, script);
+
       // Script textarea
       const scriptRow = editDiv.createEl('div');
-      let scriptLabel = 'Script';
-      if (script.fileClasses) {
-        scriptLabel += ` (used by fileClasses: ${script.fileClasses.join(', ')})`;
-      }
-      scriptLabel += ':';
-      scriptRow.createEl('label', {text: scriptLabel});
+      scriptRow.createEl('label', {text: 'Script:'});
 
       // Add help button for completions
       const helpButton = scriptRow.createEl('button', {text: '🛈 Help'});
@@ -243,6 +247,14 @@ export class PropertyDefaultValueScriptsSection {
         script.propertyName = propertyInput.value;
         script.enabled = enabledToggle.checked;
         script.script = scriptEditor.getValue();
+        const selectedFileClasses = [...fileClassCheckboxes.entries()]
+          .filter(([, checkbox]) => checkbox.checked)
+          .map(([fileClass]) => fileClass);
+        if (selectedFileClasses.length > 0) {
+          script.fileClasses = selectedFileClasses;
+        } else {
+          delete script.fileClasses;
+        }
         await this.onChange();
         scriptEditor.destroy();
         this.displayPropertyScripts(container);
@@ -253,6 +265,10 @@ export class PropertyDefaultValueScriptsSection {
         script.propertyName = originalPropertyName;
         script.script = originalScript;
         script.enabled = originalEnabled;
+        script.fileClasses = originalFileClasses;
+        fileClassCheckboxes.forEach((checkbox, fileClass) => {
+          checkbox.checked = originalFileClasses?.includes(fileClass) ?? false;
+        });
         propertyInput.value = originalPropertyName;
         scriptEditor.setValue(originalScript);
         enabledToggle.checked = originalEnabled;
@@ -271,6 +287,54 @@ export class PropertyDefaultValueScriptsSection {
     });
   }
 
+  /**
+   * Checkboxes to scope the script to some fileClasses, none checked means every fileClass
+   */
+  private displayFileClassesPicker(container: HTMLElement, script: PropertyDefaultValueScript): Map<string, HTMLInputElement> {
+    const fileClassesRow = container.createEl('div');
+    fileClassesRow.classList.add('metaflow-settings-script-fileclasses-row');
+    fileClassesRow.createEl('label', {
+      text: 'FileClasses:',
+      title: 'The script applies to the checked fileClasses and their descendants, or to every fileClass when none is checked. ' +
+        'When several scripts target the same property, the script of the fileClass wins over the script of its nearest ancestor, ' +
+        'which wins over a script applying to every fileClass.'
+    });
+
+    let fileClasses: string[] = [];
+    try {
+      if (this.metadataMenuAdapter.isMetadataMenuAvailable()) {
+        fileClasses = this.metadataMenuAdapter.getAllFileClasses();
+      }
+    } catch (error) {
+      console.error('Error getting fileClasses:', error);
+    }
+    // Keep fileClasses of the script unknown to MetadataMenu so they can be unchecked
+    (script.fileClasses || []).forEach(fileClass => {
+      if (!fileClasses.includes(fileClass)) {
+        fileClasses.push(fileClass);
+      }
+    });
+
+    const checkboxes = new Map<string, HTMLInputElement>();
+    if (fileClasses.length === 0) {
+      fileClassesRow.createEl('span', {text: 'No fileClass available, the script applies to every fileClass'});
+      return checkboxes;
+    }
+    const listDiv = fileClassesRow.createEl('div');
+    listDiv.classList.add('metaflow-settings-script-fileclasses-list');
+    fileClasses.forEach(fileClass => {
+      const [checkbox] = SettingsUtils.createCheckboxWithLabel(listDiv, {
+        label: fileClass,
+        labelClass: 'metaflow-settings-script-fileclass-label',
+        labelTitle: `Apply this script to "${fileClass}" notes`,
+        checkboxClass: 'metaflow-settings-script-fileclass-checkbox',
+        checked: script.fileClasses?.includes(fileClass) ?? false,
+      });
+      checkboxes.set(fileClass, checkbox);
+    });
+    return checkboxes;
+  }
+
   private updateMetadataMenuButtonState(): void {
     if (!this.metadataMenuImportButton) return;
 
@@ -313,7 +377,8 @@ export class PropertyDefaultValueScriptsSection {
             fileClasses,
           });
           importedCount++;
-        } else {
+        } else if (!existingScript.fileClasses) {
+          // Do not override the fileClasses picked by the user
           existingScript.fileClasses = fileClasses;
         }
       }
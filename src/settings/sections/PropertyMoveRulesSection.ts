@@ -0,0 +1,200 @@
+import {Setting} from "obsidian";
+import {MetadataMenuAdapter} from "../../externalApi/MetadataMenuAdapter";
+import {MetaFlowSettings, PropertyCondition, PropertyConditionOperator, PropertyMoveRule} from "../types";
+
+const OPERATOR_LABELS: Record<PropertyConditionOperator, string> = {
+  equals: 'is',
+  notEquals: 'is not',
+  lessThan: '<',
+  greaterThan: '>',
+  exists: 'is set',
+  notExists: 'is empty',
+};
+
+export class PropertyMoveRulesSection {
+  constructor(
+    private container: HTMLElement,
+    private settings: MetaFlowSettings,
+    private metadataMenuAdapter: MetadataMenuAdapter,
+    private onChange: () => void
+  ) { }
+
+  render() {
+    this.container.empty();
+
+    const rulesList = this.container.createDiv();
+    this.settings.propertyMoveRules.forEach((rule, idx) => {
+      this.addRuleRow(rulesList, rule, idx);
+    });
+
+    new Setting(this.container)
+      .addButton(btn => {
+        btn.setButtonText('➕ Add move rule')
+          .setCta()
+          .onClick(() => {
+            this.settings.propertyMoveRules.push({
+              name: '',
+              enabled: true,
+              fileClass: '',
+              conditions: [{property: 'status', operator: 'equals', value: 'done'}],
+              targetFolder: '',
+              moveBack: false,
+            });
+            this.onChange();
+            this.render();
+          });
+      });
+  }
+
+  private addRuleRow(container: HTMLElement, rule: PropertyMoveRule, idx: number): void {
+    const ruleDiv = container.createDiv({cls: 'metaflow-settings-move-rule'});
+    const rules = this.settings.propertyMoveRules;
+
+    const row = new Setting(ruleDiv);
+    row.settingEl.addClass('metaflow-settings-no-border');
+    row.setName(`#${idx + 1}`);
+    row.addText(text => text
+      .setPlaceholder('Rule name')
+      .setValue(rule.name)
+      .onChange((value) => {
+        rule.name = value;
+        this.onChange();
+      }));
+    const fileClasses = this.getFileClasses();
+    if (fileClasses.length > 0) {
+      if (rule.fileClass && !fileClasses.includes(rule.fileClass)) {
+        fileClasses.push(rule.fileClass);
+      }
+      row.addDropdown(dropdown => {
+        dropdown.addOption('', 'Any fileClass');
+        fileClasses.forEach(fileClass => dropdown.addOption(fileClass, fileClass));
+        dropdown.setValue(rule.fileClass)
+          .onChange((value) => {
+            rule.fileClass = value;
+            this.onChange();
+          });
+      });
+    } else {
+      row.addText(text => text
+        .setPlaceholder('FileClass (empty: any)')
+        .setValue(rule.fileClass)
+        .onChange((value) => {
+          rule.fileClass = value.trim();
+          this.onChange();
+        }));
+    }
+    row.addText(text => text
+      .setPlaceholder('Move to: Archive/Projects')
+      .setValue(rule.targetFolder)
+      .onChange((value) => {
+        rule.targetFolder = value.trim();
+        this.onChange();
+      }));
+    row.addToggle(toggle => toggle
+      .setTooltip('Move the note back when the conditions no longer hold')
+      .setValue(rule.moveBack)
+      .onChange((value) => {
+        rule.moveBack = value;
+        this.onChange();
+      }));
+    row.addToggle(toggle => toggle
+      .setTooltip('Enabled')
+      .setValue(rule.enabled)
+      .onChange((value) => {
+        rule.enabled = value;
+        this.onChange();
+      }));
+    row.addExtraButton(btn => {
+      btn.setIcon('arrow-up')
+        .setTooltip('Evaluate this rule earlier')
+        .setDisabled(idx === 0)
+        .onClick(() => {
+          [rules[idx - 1], rules[idx]] = [rules[idx], rules[idx - 1]];
+          this.onChange();
+          this.render();
+        });
+    });
+    row.addExtraButton(btn => {
+      btn.setIcon('arrow-down')
+        .setTooltip('Evaluate this rule later')
+        .setDisabled(idx === rules.length - 1)
+        .onClick(() => {
+          [rules[idx + 1], rules[idx]] = [rules[idx], rules[idx + 1]];
+          this.onChange();
+          this.render();
+        });
+    });
+    row.addExtraButton(btn => {
+      btn.setIcon('trash')
+        .setTooltip('Remove rule')
+        .onClick(() => {
+          rules.splice(idx, 1);
+          this.onChange();
+          this.render();
+        });
+    });
+
+    const conditionsDiv = ruleDiv.createDiv({cls: 'metaflow-settings-move-rule-conditions'});
+    rule.conditions.forEach((condition, conditionIdx) => {
+      this.addConditionRow(conditionsDiv, rule, condition, conditionIdx);
+    });
+    const addConditionButton = ruleDiv.createEl('button', {text: '➕ Add condition (all conditions must match)'});
+    addConditionButton.addEventListener('click', () => {
+      rule.conditions.push({property: '', operator: 'equals', value: ''});
+      this.onChange();
+      this.render();
+    });
+  }
+
+  private addConditionRow(container: HTMLElement, rule: PropertyMoveRule, condition: PropertyCondition, idx: number): void {
+    const row = new Setting(container);
+    row.settingEl.addClass('metaflow-settings-no-border');
+    row.settingEl.addClass('metaflow-settings-move-rule-condition');
+    row.addText(text => text
+      .setPlaceholder('Property')
+      .setValue(condition.property)
+      .onChange((value) => {
+        condition.property = value.trim();
+        this.onChange();
+      }));
+    row.addDropdown(dropdown => {
+      (Object.keys(OPERATOR_LABELS) as PropertyConditionOperator[])
+        .forEach(operator => dropdown.addOption(operator, OPERATOR_LABELS[operator]));
+      dropdown.setValue(condition.operator)
+        .onChange((value: PropertyConditionOperator) => {
+          condition.operator = value;
+          this.onChange();
+          this.render();
+        });
+    });
+    if (condition.operator !== 'exists' && condition.operator !== 'notExists') {
+      row.addText(text => text
+        .setPlaceholder(condition.operator === 'lessThan' || condition.operator === 'greaterThan' ? '2020 or 2020-01-01' : 'Value')
+        .setValue(condition.value)
+        .onChange((value) => {
+          condition.value = value;
+          this.onChange();
+        }));
+    }
+    row.addExtraButton(btn => {
+      btn.setIcon('x')
+        .setTooltip('Remove condition')
+        .onClick(() => {
+          rule.conditions.splice(idx, 1);
+          this.onChange();
+          this.render();
+        });
+    });
+  }
+
+  private getFileClasses(): string[] {
+    try {
+      if (this.metadataMenuAdapter.isMetadataMenuAvailable()) {
+        return this.metadataMenuAdapter.getAllFileClasses();
+      }
+    } catch (error) {
+      console.error('Error getting fileClasses:', error);
+    }
+    return [];
+  }
+}
@@ -0,0 +1,127 @@
+import {Setting} from "obsidian";
+import {MetadataMenuAdapter} from "../../externalApi/MetadataMenuAdapter";
+import type {LogManagerInterface} from "../../managers/types";
+import {MetaFlowSettings, PropertyOrderMode, PropertyOrderProfile} from "../types";
+
+const MODE_LABELS: Record<PropertyOrderMode, string> = {
+  inherit: 'Inherit from ancestor',
+  custom: 'Custom order',
+  metadataMenu: 'MetadataMenu field order',
+};
+
+export class PropertyOrderProfilesSection {
+  constructor(
+    private container: HTMLElement,
+    private settings: MetaFlowSettings,
+    private metadataMenuAdapter: MetadataMenuAdapter,
+    private logManager: LogManagerInterface,
+    private onChange: () => void
+  ) { }
+
+  render() {
+    this.container.empty();
+
+    const profilesList = this.container.createDiv();
+    this.settings.propertyOrderProfiles.forEach((profile, idx) => {
+      this.addProfileRow(profilesList, profile, idx);
+    });
+
+    new Setting(this.container)
+      .addButton(btn => {
+        btn.setButtonText('➕ Add profile')
+          .setCta()
+          .onClick(() => {
+            const fileClass = this.getFileClasses().find(
+              name => !this.settings.propertyOrderProfiles.some(p => p.fileClass === name)
+            ) || '';
+            this.settings.propertyOrderProfiles.push({fileClass, mode: 'inherit', properties: []});
+            this.onChange();
+            this.render();
+          });
+      });
+  }
+
+  private addProfileRow(container: HTMLElement, profile: PropertyOrderProfile, idx: number): void {
+    const profileDiv = container.createDiv({cls: 'metaflow-settings-order-profile'});
+    const fileClasses = this.getFileClasses();
+    if (profile.fileClass && !fileClasses.includes(profile.fileClass)) {
+      fileClasses.push(profile.fileClass);
+    }
+
+    const row = new Setting(profileDiv);
+    row.settingEl.addClass('metaflow-settings-no-border');
+    if (fileClasses.length > 0) {
+      row.addDropdown(dropdown => {
+        fileClasses.forEach(fileClass => dropdown.addOption(fileClass, fileClass));
+        dropdown.setValue(profile.fileClass)
+          .onChange((value) => {
+            profile.fileClass = value;
+            this.onChange();
+          });
+      });
+    } else {
+      row.addText(text => text
+        .setPlaceholder('FileClass')
+        .setValue(profile.fileClass)
+        .onChange((value) => {
+          profile.fileClass = value;
+          this.onChange();
+        }));
+    }
+    row.addDropdown(dropdown => {
+      (Object.keys(MODE_LABELS) as PropertyOrderMode[]).forEach(mode => dropdown.addOption(mode, MODE_LABELS[mode]));
+      dropdown.setValue(profile.mode)
+        .onChange((value: PropertyOrderMode) => {
+          profile.mode = value;
+          this.onChange();
+          this.render();
+        });
+    });
+    row.addExtraButton(btn => {
+      btn.setIcon('trash')
+        .setTooltip('Remove profile')
+        .onClick(() => {
+          this.settings.propertyOrderProfiles.splice(idx, 1);
+          this.onChange();
+          this.render();
+        });
+    });
+
+    if (profile.mode !== 'custom') {
+      return;
+    }
+    const propertiesTextarea = profileDiv.createEl('textarea', {
+      cls: 'metaflow-settings-order-profile-properties',
+      attr: {placeholder: 'One property per line', rows: '6'},
+    });
+    propertiesTextarea.value = profile.properties.join('\n');
+    propertiesTextarea.addEventListener('input', () => {
+      profile.properties = propertiesTextarea.value.split('\n').map(p => p.trim()).filter(p => p !== '');
+      this.onChange();
+    });
+    const fillButton = profileDiv.createEl('button', {text: '📥 Fill from MetadataMenu'});
+    fillButton.disabled = !this.metadataMenuAdapter.isMetadataMenuAvailable();
+    fillButton.addEventListener('click', () => {
+      try {
+        const fields = this.metadataMenuAdapter.getFileClassAndAncestorsFields(profile.fileClass, this.logManager);
+        profile.properties = [...new Set(fields.map(field => field.name))];
+        propertiesTextarea.value = profile.properties.join('\n');
+        this.onChange();
+      } catch (error) {
+        console.error('Error getting MetadataMenu fields:', error);
+        this.logManager.addError(`Failed to get fields of fileClass "${profile.fileClass}": ${error.message}`);
+      }
+    });
+  }
+
+  private getFileClasses(): string[] {
+    try {
+      if (this.metadataMenuAdapter.isMetadataMenuAvailable()) {
+        return this.metadataMenuAdapter.getAllFileClasses();
+      }
+    } catch (error) {
+      console.error('Error getting fileClasses:', error);
+    }
+    return [];
+  }
+}
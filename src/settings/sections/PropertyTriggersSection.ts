@@ -0,0 +1,196 @@
+import {Setting} from "obsidian";
+import {MetadataMenuAdapter} from "../../externalApi/MetadataMenuAdapter";
+import {MetaFlowSettings, PropertyTrigger, PropertyTriggerAction, PropertyTriggerActionType} from "../types";
+
+const ACTION_LABELS: Record<PropertyTriggerActionType, string> = {
+  setProperty: 'Set property',
+  runScript: 'Run property script',
+  addTag: 'Add tag',
+  rename: 'Rename by rules',
+  move: 'Move to folder',
+};
+
+const VALUE_PLACEHOLDERS: Partial<Record<PropertyTriggerActionType, string>> = {
+  setProperty: 'Value: now(), {{title}} or text',
+  addTag: 'Tag',
+  move: 'Folder (empty: right folder)',
+};
+
+export class PropertyTriggersSection {
+  constructor(
+    private container: HTMLElement,
+    private settings: MetaFlowSettings,
+    private metadataMenuAdapter: MetadataMenuAdapter,
+    private onChange: () => void
+  ) { }
+
+  render() {
+    this.container.empty();
+
+    const triggersList = this.container.createDiv();
+    this.settings.propertyTriggers.forEach((trigger, idx) => {
+      this.addTriggerRow(triggersList, trigger, idx);
+    });
+
+    new Setting(this.container)
+      .addButton(btn => {
+        btn.setButtonText('➕ Add trigger')
+          .setCta()
+          .onClick(() => {
+            this.settings.propertyTriggers.push({
+              name: '',
+              enabled: true,
+              fileClass: '',
+              property: 'status',
+              from: '',
+              to: 'done',
+              actions: [{type: 'setProperty', property: 'completedDate', value: 'now("YYYY-MM-DD")'}],
+            });
+            this.onChange();
+            this.render();
+          });
+      });
+  }
+
+  private addTriggerRow(container: HTMLElement, trigger: PropertyTrigger, idx: number): void {
+    const triggerDiv = container.createDiv({cls: 'metaflow-settings-trigger'});
+    const triggers = this.settings.propertyTriggers;
+
+    const row = new Setting(triggerDiv);
+    row.settingEl.addClass('metaflow-settings-no-border');
+    row.setName(`#${idx + 1}`);
+    row.addText(text => text
+      .setPlaceholder('Trigger name')
+      .setValue(trigger.name)
+      .onChange((value) => {
+        trigger.name = value;
+        this.onChange();
+      }));
+    const fileClasses = this.getFileClasses();
+    if (fileClasses.length > 0) {
+      if (trigger.fileClass && !fileClasses.includes(trigger.fileClass)) {
+        fileClasses.push(trigger.fileClass);
+      }
+      row.addDropdown(dropdown => {
+        dropdown.addOption('', 'Any fileClass');
+        fileClasses.forEach(fileClass => dropdown.addOption(fileClass, fileClass));
+        dropdown.setValue(trigger.fileClass)
+          .onChange((value) => {
+            trigger.fileClass = value;
+            this.onChange();
+          });
+      });
+    } else {
+      row.addText(text => text
+        .setPlaceholder('FileClass (empty: any)')
+        .setValue(trigger.fileClass)
+        .onChange((value) => {
+          trigger.fileClass = value.trim();
+          this.onChange();
+        }));
+    }
+    row.addText(text => text
+      .setPlaceholder('Watched property')
+      .setValue(trigger.property)
+      .onChange((value) => {
+        trigger.property = value.trim();
+        this.onChange();
+      }));
+    row.addText(text => text
+      .setPlaceholder('From (empty: any)')
+      .setValue(trigger.from)
+      .onChange((value) => {
+        trigger.from = value;
+        this.onChange();
+      }));
+    row.addText(text => text
+      .setPlaceholder('To (empty: any)')
+      .setValue(trigger.to)
+      .onChange((value) => {
+        trigger.to = value;
+        this.onChange();
+      }));
+    row.addToggle(toggle => toggle
+      .setTooltip('Enabled')
+      .setValue(trigger.enabled)
+      .onChange((value) => {
+        trigger.enabled = value;
+        this.onChange();
+      }));
+    row.addExtraButton(btn => {
+      btn.setIcon('trash')
+        .setTooltip('Remove trigger')
+        .onClick(() => {
+          triggers.splice(idx, 1);
+          this.onChange();
+          this.render();
+        });
+    });
+
+    const actionsDiv = triggerDiv.createDiv({cls: 'metaflow-settings-trigger-actions'});
+    trigger.actions.forEach((action, actionIdx) => {
+      this.addActionRow(actionsDiv, trigger, action, actionIdx);
+    });
+    const addActionButton = triggerDiv.createEl('button', {text: '➕ Add action'});
+    addActionButton.addEventListener('click', () => {
+      trigger.actions.push({type: 'setProperty', property: '', value: ''});
+      this.onChange();
+      this.render();
+    });
+  }
+
+  private addActionRow(container: HTMLElement, trigger: PropertyTrigger, action: PropertyTriggerAction, idx: number): void {
+    const row = new Setting(container);
+    row.settingEl.addClass('metaflow-settings-no-border');
+    row.settingEl.addClass('metaflow-settings-trigger-action');
+    row.addDropdown(dropdown => {
+      (Object.keys(ACTION_LABELS) as PropertyTriggerActionType[])
+        .forEach(type => dropdown.addOption(type, ACTION_LABELS[type]));
+      dropdown.setValue(action.type)
+        .onChange((value: PropertyTriggerActionType) => {
+          action.type = value;
+          this.onChange();
+          this.render();
+        });
+    });
+    if (action.type === 'setProperty' || action.type === 'runScript') {
+      row.addText(text => text
+        .setPlaceholder(action.type === 'runScript' ? 'Property of the script' : 'Property')
+        .setValue(action.property)
+        .onChange((value) => {
+          action.property = value.trim();
+          this.onChange();
+        }));
+    }
+    const valuePlaceholder = VALUE_PLACEHOLDERS[action.type];
+    if (valuePlaceholder) {
+      row.addText(text => text
+        .setPlaceholder(valuePlaceholder)
+        .setValue(action.value)
+        .onChange((value) => {
+          action.value = value;
+          this.onChange();
+        }));
+    }
+    row.addExtraButton(btn => {
+      btn.setIcon('x')
+        .setTooltip('Remove action')
+        .onClick(() => {
+          trigger.actions.splice(idx, 1);
+          this.onChange();
+          this.render();
+        });
+    });
+  }
+
+  private getFileClasses(): string[] {
+    try {
+      if (this.metadataMenuAdapter.isMetadataMenuAvailable()) {
+        return this.metadataMenuAdapter.getAllFileClasses();
+      }
+    } catch (error) {
+      console.error('Error getting fileClasses:', error);
+    }
+    return [];
+  }
+}
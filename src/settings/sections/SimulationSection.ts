@@ -142,10 +142,13 @@ This is sample content for testing.`;
 
         // Run the simulation
         const logManager = new LogNoticeManager(this.obsidianAdapter);
-        const result = metaFlowService.processContent(inputContent, mockFile, logManager);
+        const result = await metaFlowService.computeContentUpdate(inputContent, mockFile, logManager);
 
-        // Display results
-        outputTextarea.value = result;
+        // Display results along with the source of each default value
+        const valueSources = Object.entries(result.valueSources)
+          .map(([property, source]) => `${property}: ${source === 'script' ? 'script' : 'MetadataMenu default'}`);
+        outputTextarea.value = result.content +
+          `\n\n# Default value sources\n${valueSources.length > 0 ? valueSources.join('\n') : 'No default value added'}`;
         this.showStatus(statusDiv, `✅ Simulation completed successfully with fileClass: ${selectedFileClass}`, 'success');
 
       } catch (error) {
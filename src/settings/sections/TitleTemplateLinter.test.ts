@@ -7,6 +7,21 @@ describe('TitleTemplateLinter', () => {
     linter = new TitleTemplateLinter();
   });
 
+  describe('validateGuard', () => {
+    it('should accept empty and valid guards', () => {
+      expect(linter.validateGuard('').isValid).toBe(true);
+      expect(linter.validateGuard('status == "published" && volume && !draft && year > 2000').type).toBe('success');
+    });
+
+    it('should reject invalid guards', () => {
+      const result = linter.validateGuard('status = "published"');
+      expect(result.isValid).toBe(false);
+      expect(result.message).toContain('Invalid guard: Invalid condition');
+      expect(result.type).toBe('error');
+      expect(linter.validateGuard('status == "published').message).toContain('Unterminated quote');
+    });
+  });
+
   describe('validateTemplate', () => {
     describe('empty templates', () => {
       it('should reject empty template', () => {
@@ -87,6 +102,64 @@ describe('TitleTemplateLinter', () => {
       });
     });
 
+    describe('filter validation', () => {
+      it('should accept filters with valid arguments', () => {
+        const result = linter.validateTemplate('{{date | format:"YYYY-MM-DD"}} {{title | slugify | truncate:40}} {{tags | join:"-"}} {{series | default:"standalone"}}');
+        expect(result.isValid).toBe(true);
+        expect(result.type).toBe('success');
+      });
+
+      it('should reject unknown filters', () => {
+        const result = linter.validateTemplate('{{title | capitalize}}');
+        expect(result.isValid).toBe(false);
+        expect(result.message).toContain('Unknown filter "capitalize"');
+        expect(result.type).toBe('error');
+      });
+
+      it('should reject missing or invalid filter arguments', () => {
+        expect(linter.validateTemplate('{{date | format}}').message).toContain('Filter "format" expects 1 argument(s), got 0');
+        expect(linter.validateTemplate('{{title | truncate:"ten"}}').message).toContain('Filter "truncate" expects a number argument');
+        expect(linter.validateTemplate('{{title | upper:"x"}}').message).toContain('Filter "upper" expects 0 argument(s), got 1');
+      });
+
+      it('should reject unquoted text arguments and unterminated quotes', () => {
+        expect(linter.validateTemplate('{{series | default:standalone}}').message).toContain('text arguments must be quoted');
+        expect(linter.validateTemplate('{{tags | join:"-}}').message).toContain('Unterminated quote');
+      });
+
+      it('should validate the variable name before the filters', () => {
+        const result = linter.validateTemplate('{{1title | slugify}}');
+        expect(result.isValid).toBe(false);
+        expect(result.message).toContain('Invalid variable names: 1title');
+      });
+    });
+
+    describe('conditional block validation', () => {
+      it('should accept balanced and nested blocks', () => {
+        const result = linter.validateTemplate('{{title}}{{#if volume}} - Vol. {{volume}}{{/if}}{{#if status == "draft"}} (draft){{else}}{{#if year > 2000}} {{year}}{{/if}}{{/if}}');
+        expect(result.isValid).toBe(true);
+        expect(result.type).toBe('success');
+      });
+
+      it('should reject unclosed blocks', () => {
+        const result = linter.validateTemplate('{{title}}{{#if volume}} - Vol. {{volume}}');
+        expect(result.isValid).toBe(false);
+        expect(result.message).toBe('Invalid conditional block: Unclosed {{#if volume}}');
+        expect(result.type).toBe('error');
+      });
+
+      it('should reject closing and else tags without block', () => {
+        expect(linter.validateTemplate('{{title}}{{/if}}').message).toContain('{{/if}} without {{#if}}');
+        expect(linter.validateTemplate('{{title}}{{else}}').message).toContain('{{else}} without {{#if}}');
+        expect(linter.validateTemplate('{{#if a}}a{{else}}b{{else}}c{{/if}}').message).toContain('Duplicate {{else}}');
+      });
+
+      it('should reject invalid block conditions', () => {
+        expect(linter.validateTemplate('{{#if}}x{{/if}}').message).toContain('Missing condition');
+        expect(linter.validateTemplate('{{#if status == draft}}x{{/if}}').message).toContain('text values must be quoted');
+      });
+    });
+
     describe('warning conditions', () => {
       it('should warn about very long templates', () => {
         const longTemplate = '{{title}} - ' + 'a'.repeat(200);
@@ -1,3 +1,7 @@
+import {TemplateExpression, TemplatePlaceholder} from "../../utils/TemplateExpression";
+import {TemplateBlocks} from "../../utils/TemplateBlocks";
+import {PropertyConditions} from "../../utils/PropertyConditions";
+
 /**
  * TitleTemplateLinter provides validation for title templates
  * with user-friendly feedback messages.
@@ -34,6 +38,16 @@ export class TitleTemplateLinter {
       };
     }
 
+    // Check for balanced {{#if}} blocks and their conditions
+    const blockError = TemplateBlocks.getError(template);
+    if (blockError) {
+      return {
+        isValid: false,
+        message: `Invalid conditional block: ${blockError}`,
+        type: 'error'
+      };
+    }
+
     // Check for valid template variables
     const variableValidation = this.validateTemplateVariables(template);
     if (!variableValidation.isValid) {
@@ -57,6 +71,27 @@ export class TitleTemplateLinter {
     };
   }
 
+  /**
+   * Validates the guard of a title template, an empty guard always matches
+   * @param guard The guard predicate to validate
+   * @returns ValidationResult with feedback
+   */
+  validateGuard(guard: string): ValidationResult {
+    const error = guard.trim() ? PropertyConditions.getError(guard) : null;
+    if (error) {
+      return {
+        isValid: false,
+        message: `Invalid guard: ${error}`,
+        type: 'error'
+      };
+    }
+    return {
+      isValid: true,
+      message: 'Guard syntax is valid',
+      type: 'success'
+    };
+  }
+
   /**
    * Checks if braces are balanced in the template
    */
@@ -98,7 +133,10 @@ export class TitleTemplateLinter {
     let match;
 
     while ((match = variablePattern.exec(template)) !== null) {
-      variables.push(match[1].trim());
+      // block tags are checked with the blocks
+      if (!TemplateBlocks.isBlockTag(match[1])) {
+        variables.push(match[1].trim());
+      }
     }
 
     // Check for empty variables
@@ -111,8 +149,34 @@ export class TitleTemplateLinter {
       };
     }
 
-    // Check for invalid variable names
-    const invalidVariables = variables.filter(v => !/^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)*$/.test(v));
+    // Check for invalid variable names and filters
+    const invalidVariables: string[] = [];
+    for (const variable of variables) {
+      let placeholder: TemplatePlaceholder;
+      try {
+        placeholder = TemplateExpression.parse(variable);
+      } catch (error) {
+        return {
+          isValid: false,
+          message: `Invalid placeholder {{${variable}}}: ${error.message}`,
+          type: 'error'
+        };
+      }
+      if (!TemplateExpression.isValidPath(placeholder.path)) {
+        invalidVariables.push(placeholder.path);
+        continue;
+      }
+      const filterError = placeholder.filters
+        .map(filter => TemplateExpression.getFilterError(filter))
+        .find(error => error !== null);
+      if (filterError) {
+        return {
+          isValid: false,
+          message: `Invalid placeholder {{${variable}}}: ${filterError}`,
+          type: 'error'
+        };
+      }
+    }
     if (invalidVariables.length > 0) {
       return {
         isValid: false,
@@ -139,9 +203,9 @@ export class TitleTemplateLinter {
       warnings.push('Template is very long, consider simplifying');
     }
 
-    // Check for special characters that might cause file system issues
+    // Check for special characters that might cause file system issues, outside of the placeholders
     const problematicChars = /[<>:"/\\|?*]/g;
-    if (problematicChars.test(template)) {
+    if (problematicChars.test(template.replace(/\{\{[^}]*\}\}/g, ''))) {
       warnings.push('Contains characters that may cause file system issues');
     }
 
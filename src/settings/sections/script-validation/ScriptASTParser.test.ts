@@ -228,6 +228,14 @@ describe('ScriptASTParser', () => {
 
       expect(result).not.toBeNull();
     });
+
+    it('should handle script fragments awaiting at the top level', () => {
+      const script = 'const author = await prompt("Author"); return author;';
+      const result = parser.parseScript(script);
+
+      expect(result).not.toBeNull();
+      expect(result?.isWrapped).toBe(true);
+    });
   });
 
   describe('memory management', () => {
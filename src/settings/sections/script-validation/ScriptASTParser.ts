@@ -40,7 +40,8 @@ export class ScriptASTParser {
         return result;
       } catch (error) {
         // If that fails, try wrapping in function (for script fragments)
-        const wrappedScript = `function temp() { ${script} }`;
+        // scripts run in an async function, so top-level await is allowed
+        const wrappedScript = `async function temp() { ${script} }`;
         const ast = acorn.parse(wrappedScript, {ecmaVersion: 'latest'});
         const result: ParsedScript = {
           ast,
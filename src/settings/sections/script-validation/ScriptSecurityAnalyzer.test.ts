@@ -162,6 +162,17 @@ describe('ScriptSecurityAnalyzer', () => {
         expect(result.type).toBe('error');
       });
 
+      it('should detect dynamic imports in the parsed AST', () => {
+        const script = 'return import("./module.js").then(module => module.getData());';
+
+        expect(astParser.parseScript(script)).not.toBeNull();
+        const result = analyzer.checkSecurity(script);
+
+        expect(result.isValid).toBe(false);
+        expect(result.message).toBe('Security concern: Dynamic imports may access external resources');
+        expect(result.type).toBe('error');
+      });
+
       it('should detect eval in nested expressions', () => {
         const result = analyzer.checkSecurity(`
           const data = {
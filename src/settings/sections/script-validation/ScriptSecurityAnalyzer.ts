@@ -75,6 +75,11 @@ export class ScriptSecurityAnalyzer {
       }
     }
 
+    // Check for dynamic imports (acorn represents import() as an ImportExpression)
+    if (node.type === 'ImportExpression') {
+      return 'Dynamic imports may access external resources';
+    }
+
     // Check for new Function()
     if (node.type === 'NewExpression' && node.callee.type === 'Identifier' && node.callee.name === 'Function') {
       return 'Dynamic function creation may be unsafe';
@@ -1,6 +1,8 @@
 export interface NoteTitleTemplate {
   template: string;
   enabled: boolean;
+  // predicate on the note metadata, e.g. `status == "published"`, the template is skipped when it does not match
+  guard?: string;
 }
 
 export interface NoteTitleScript {
@@ -8,13 +10,132 @@ export interface NoteTitleScript {
   enabled: boolean;
 }
 
+/**
+ * What to do with the non-empty fields of the old fileClass that the new fileClass does not define
+ * keep: leave them, remove: delete them, archive: move them under the _archived object, ask: open a modal
+ */
+export type ObsoleteFieldPolicy = 'keep' | 'remove' | 'archive' | 'ask';
+
+/**
+ * How the folder of a folder/fileClass mapping is matched against the note path
+ * prefix: the note is in the folder or one of its subfolders, glob: `Books/**`, `Notes/*.md`, regex: `Books/.*`
+ */
+export type FolderPatternKind = 'prefix' | 'glob' | 'regex';
+
+/**
+ * What to do when the note would be renamed or moved over an existing file
+ * counter: append a counter, `Title (2)`, property: append the value of a property, `Title - 2024`,
+ * prompt: show both notes in a modal and ask, skip: leave the note as it is and log a warning
+ */
+export type CollisionStrategy = 'counter' | 'property' | 'prompt' | 'skip';
+
+/**
+ * Where the new name of a note renamed by the user is written back:
+ * off: nowhere, property: the title property of the mapping, heading: the first H1 heading of the note
+ */
+export type TitleSyncTarget = 'off' | 'property' | 'heading';
+
 export interface FolderFileClassMapping {
   folder: string;
+  patternKind?: FolderPatternKind; // Default to 'prefix', mappings are evaluated in list order and the first match wins
   fileClass: string;
   moveToFolder: boolean;
+  moveTargetTemplate?: string; // Templated target folder of auto-move, e.g. Books/{{author}}, default to the mapping folder
   noteTitleTemplates: NoteTitleTemplate[];
   noteTitleScript: NoteTitleScript;
   templateMode: 'template' | 'script'; // Default to 'template' for backward compatibility
+  obsoleteFieldPolicy?: ObsoleteFieldPolicy; // Overrides the global policy for notes getting this fileClass
+  collisionStrategy?: CollisionStrategy; // Default to 'skip'
+  collisionProperty?: string; // Property appended to the title by the 'property' collision strategy
+  keepOldNameAsAlias?: boolean; // Append the previous basename to the aliases when MetaFlow renames the note
+  titleSyncOnRename?: TitleSyncTarget; // Default to 'off'
+  titleProperty?: string; // Property updated by the 'property' title sync, default to 'title'
+}
+
+/**
+ * path: the note path matches a folder pattern, tag: the note has the tag or one of its subtags,
+ * filename: the note name (without extension) matches a regex, property: a frontmatter property is set or has a value,
+ * body: the note body matches a regex
+ */
+export type DeductionConditionType = 'path' | 'tag' | 'filename' | 'property' | 'body';
+
+export interface DeductionCondition {
+  type: DeductionConditionType;
+  value: string; // folder pattern, tag (with or without #), regex or property name depending on the type
+  patternKind?: FolderPatternKind; // path conditions only, default to 'prefix'
+  propertyValue?: string; // property conditions only, empty means the property only has to be set
+}
+
+/**
+ * Rules are evaluated in order before the folder/fileClass mappings, the first enabled rule
+ * whose conditions all match gives the fileClass
+ */
+export interface FileClassDeductionRule {
+  name: string;
+  fileClass: string;
+  enabled: boolean;
+  conditions: DeductionCondition[];
+}
+
+/**
+ * equals / notEquals: the value, or one of the list values, is the expected value
+ * lessThan / greaterThan: compares numbers, or dates, exists / notExists: the property is set or empty
+ */
+export type PropertyConditionOperator = 'equals' | 'notEquals' | 'lessThan' | 'greaterThan' | 'exists' | 'notExists';
+
+export interface PropertyCondition {
+  property: string;
+  operator: PropertyConditionOperator;
+  value: string; // unused by exists and notExists
+}
+
+/**
+ * Rules are evaluated in order before the auto-move of the folder/fileClass mappings, the first enabled rule
+ * whose conditions all match gives the target folder of the note
+ */
+export interface PropertyMoveRule {
+  name: string;
+  enabled: boolean;
+  fileClass: string; // empty for every fileClass
+  conditions: PropertyCondition[];
+  targetFolder: string; // folder or template, e.g. Archive/{{project}}
+  moveBack: boolean; // when the conditions no longer hold, let the mapping auto-move take the note back
+}
+
+/**
+ * setProperty: set the property to the value, runScript: write the result of the default value script of the property,
+ * addTag: add the tag to the tags property, rename: rename the note by the title rules, move: move the note to a folder
+ */
+export type PropertyTriggerActionType = 'setProperty' | 'runScript' | 'addTag' | 'rename' | 'move';
+
+export interface PropertyTriggerAction {
+  type: PropertyTriggerActionType;
+  property: string; // setProperty and runScript only
+  value: string; // setProperty: text, {{placeholders}} or now() / tomorrow() / yesterday(), addTag: tag, move: folder or template, empty for the right folder
+}
+
+/**
+ * Fires when a manual edit changes the watched property, from the optional old value to the optional new value,
+ * the property actions are written first, then the rename and move actions run in order
+ */
+export interface PropertyTrigger {
+  name: string;
+  enabled: boolean;
+  fileClass: string; // empty for every fileClass
+  property: string;
+  from: string; // empty for any old value
+  to: string; // empty for any new value
+  actions: PropertyTriggerAction[];
+}
+
+/**
+ * Carry the value of a field over to another field when a note changes from fromFileClass to toFileClass
+ */
+export interface FieldMigration {
+  fromFileClass: string;
+  fromField: string;
+  toFileClass: string;
+  toField: string;
 }
 
 export interface PropertyDefaultValueScript {
@@ -25,6 +146,31 @@ export interface PropertyDefaultValueScript {
   fileClasses?: string[]; // Optional array of file classes this script applies to
 }
 
+/**
+ * inherit: use the profile of the nearest ancestor fileClass
+ * custom: use the properties list of the profile
+ * metadataMenu: use the field order defined in MetadataMenu for the fileClass and its ancestors
+ */
+export type PropertyOrderMode = 'inherit' | 'custom' | 'metadataMenu';
+
+export interface PropertyOrderProfile {
+  fileClass: string;
+  mode: PropertyOrderMode;
+  properties: string[];
+}
+
+/**
+ * What happens when a note is moved into a folder mapped to another fileClass
+ * off: nothing, ask: confirm the fields that would be added or removed, apply: change the fileClass
+ */
+export type FileClassSyncOnMove = 'off' | 'ask' | 'apply';
+
+/**
+ * script: the property default value script wins over the MetadataMenu field defaultValue
+ * metadataMenu: the MetadataMenu field defaultValue wins, scripts only run for properties without defaultValue
+ */
+export type DefaultValuePrecedence = 'script' | 'metadataMenu';
+
 export interface MetaFlowSettings {
   hidePropertiesInEditor: boolean;
   autoSort: boolean;
@@ -32,10 +178,21 @@ export interface MetaFlowSettings {
   autoMetadataInsertion: boolean;
   insertMissingFieldsOnSort: boolean;
   folderFileClassMappings: FolderFileClassMapping[];
+  fileClassDeductionRules: FileClassDeductionRule[];
   propertyDefaultValueScripts: PropertyDefaultValueScript[];
+  propertyOrderProfiles: PropertyOrderProfile[];
+  defaultValuePrecedence: DefaultValuePrecedence;
+  obsoleteFieldPolicy: ObsoleteFieldPolicy;
+  fieldMigrations: FieldMigration[];
+  propertyMoveRules: PropertyMoveRule[];
+  propertyTriggers: PropertyTrigger[];
   excludeFolders?: string[];
   autoMoveNoteToRightFolder: boolean;
   autoRenameNote: boolean;
+  fileClassSyncOnMove: FileClassSyncOnMove;
+  previewBeforeUpdate: boolean;
+  validateFieldTypes: boolean;
+  coerceFieldValues: boolean;
   debugMode: boolean;
   frontmatterUpdateDelayMs: number;
 }
@@ -15,6 +15,11 @@ declare module 'obsidian' {
     };
   }
 
+  interface MetadataCache {
+    // true once every note has been indexed, the 'resolved' event is not fired again until a note changes
+    resolved?: boolean;
+  }
+
   interface TAbstractFile {
     saving: boolean;
   }
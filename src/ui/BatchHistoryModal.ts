@@ -0,0 +1,89 @@
+import {App, Modal} from "obsidian";
+import type {BatchJournal} from "../services/BatchJournalService";
+
+/**
+ * List of the recorded mass updates, each note of a batch can be selected to be reverted
+ */
+export class BatchHistoryModal extends Modal {
+  private batches: BatchJournal[];
+  private revertCallback: (batch: BatchJournal, paths: string[] | null) => Promise<void>;
+
+  constructor(
+    app: App,
+    batches: BatchJournal[],
+    revertCallback: (batch: BatchJournal, paths: string[] | null) => Promise<void>,
+  ) {
+    super(app);
+    this.batches = batches;
+    this.revertCallback = revertCallback;
+    super.setTitle('MetaFlow batch history');
+  }
+
+  onOpen() {
+    const {contentEl} = this;
+    contentEl.empty();
+    contentEl.addClass('metaflow-batch-history-modal');
+
+    const batchesContainer = contentEl.createDiv({cls: 'metaflow-batch-history'});
+    this.batches.forEach((batch, index) => this.displayBatch(batchesContainer, batch, index === 0));
+
+    const modalButtonContainer = contentEl.createEl('div', {cls: 'modal-button-container'});
+    const closeButton = modalButtonContainer.createEl('button', {text: 'Close'});
+    closeButton.onclick = () => {
+      this.close();
+    };
+  }
+
+  onClose() {
+    const {contentEl} = this;
+    contentEl.empty();
+  }
+
+  private displayBatch(container: HTMLElement, batch: BatchJournal, open: boolean): void {
+    const batchDiv = container.createEl('details', {cls: 'metaflow-batch'});
+    batchDiv.open = open;
+    const summary = batchDiv.createEl('summary', {cls: 'metaflow-batch-summary'});
+    summary.createSpan({text: new Date(batch.date).toLocaleString()});
+    summary.createSpan({cls: 'metaflow-batch-directory', text: `${batch.directory} (${batch.entries.length} files)`});
+    if (batch.revertedAt) {
+      summary.createSpan({cls: 'metaflow-batch-reverted', text: 'reverted'});
+    }
+
+    const checkboxes = new Map<string, HTMLInputElement>();
+    const list = batchDiv.createEl('ul', {cls: 'metaflow-batch-entries'});
+    batch.entries.forEach(entry => {
+      const item = list.createEl('li');
+      const label = item.createEl('label');
+      const checkbox = label.createEl('input', {type: 'checkbox'});
+      checkbox.checked = !entry.reverted;
+      checkbox.disabled = !!entry.reverted;
+      label.appendText(entry.path === entry.originalPath ? entry.path : `${entry.originalPath} → ${entry.path}`);
+      if (entry.reverted) {
+        item.addClass('metaflow-batch-entry-reverted');
+      } else {
+        checkboxes.set(entry.path, checkbox);
+      }
+    });
+
+    if (checkboxes.size === 0) {
+      return;
+    }
+    const buttonContainer = batchDiv.createDiv({cls: 'metaflow-batch-buttons'});
+    const revertSelectedButton = buttonContainer.createEl('button', {text: 'Revert selected'});
+    revertSelectedButton.onclick = async () => {
+      const paths = [...checkboxes.entries()]
+        .filter(([, checkbox]) => checkbox.checked)
+        .map(([path]) => path);
+      await this.revert(batch, paths);
+    };
+    const revertBatchButton = buttonContainer.createEl('button', {text: 'Revert batch', cls: 'mod-warning'});
+    revertBatchButton.onclick = async () => {
+      await this.revert(batch, null);
+    };
+  }
+
+  private async revert(batch: BatchJournal, paths: string[] | null): Promise<void> {
+    this.close();
+    await this.revertCallback(batch, paths);
+  }
+}
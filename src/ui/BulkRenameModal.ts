@@ -0,0 +1,104 @@
+import {App, Modal, TFile} from "obsidian";
+
+/**
+ * rename: the note gets the new name, unchanged: the note already has it,
+ * collision: another note has the new name, or gets it in this batch, the collision strategy of the mapping applies,
+ * untitled: no title template resolves and the note keeps its name, invalid: no fileClass, no mapping or an error
+ */
+export type BulkRenameStatus = 'rename' | 'unchanged' | 'collision' | 'untitled' | 'invalid';
+
+export interface BulkRenameEntry {
+  file: TFile;
+  fileClass: string;
+  metadata: {[key: string]: any};
+  newName: string;
+  status: BulkRenameStatus;
+  // reason of the invalid status
+  message?: string;
+}
+
+export const BULK_RENAME_STATUS_LABELS: Record<BulkRenameStatus, string> = {
+  rename: 'Rename',
+  unchanged: 'Unchanged',
+  collision: 'Collision',
+  untitled: '"Untitled" fallback',
+  invalid: 'Invalid',
+};
+
+/**
+ * Table of the planned renames, the renames are ticked, the collisions can be ticked to apply the collision strategy
+ */
+export class BulkRenameModal extends Modal {
+  private entries: BulkRenameEntry[];
+  private applyCallback: (entries: BulkRenameEntry[]) => Promise<void>;
+  private checkboxes: Map<BulkRenameEntry, HTMLInputElement>;
+
+  constructor(
+    app: App,
+    title: string,
+    entries: BulkRenameEntry[],
+    applyCallback: (entries: BulkRenameEntry[]) => Promise<void>,
+  ) {
+    super(app);
+    this.entries = entries;
+    this.applyCallback = applyCallback;
+    this.checkboxes = new Map();
+    super.setTitle(title);
+  }
+
+  onOpen() {
+    const {contentEl} = this;
+    contentEl.empty();
+    contentEl.addClass('metaflow-bulk-rename-modal');
+
+    const counts = (Object.keys(BULK_RENAME_STATUS_LABELS) as BulkRenameStatus[])
+      .map(status => ({status, count: this.entries.filter(entry => entry.status === status).length}))
+      .filter(({count}) => count > 0)
+      .map(({status, count}) => `${BULK_RENAME_STATUS_LABELS[status]}: ${count}`);
+    contentEl.createEl('p', {text: counts.join(', ')});
+
+    const tableContainer = contentEl.createDiv({cls: 'metaflow-bulk-rename-files'});
+    const table = tableContainer.createEl('table', {cls: 'metaflow-bulk-rename-table'});
+    const headerRow = table.createEl('thead').createEl('tr');
+    headerRow.createEl('th', {text: ''});
+    headerRow.createEl('th', {text: 'Current name'});
+    headerRow.createEl('th', {text: 'New name'});
+    headerRow.createEl('th', {text: 'Status'});
+
+    const tbody = table.createEl('tbody');
+    this.entries.forEach(entry => {
+      const row = tbody.createEl('tr', {cls: `metaflow-bulk-rename-${entry.status}`});
+      const checkboxCell = row.createEl('td');
+      if (entry.status === 'rename' || entry.status === 'collision') {
+        const checkbox = checkboxCell.createEl('input', {type: 'checkbox'});
+        checkbox.checked = entry.status === 'rename';
+        this.checkboxes.set(entry, checkbox);
+      }
+      row.createEl('td', {text: entry.file.path, attr: {title: `fileClass: ${entry.fileClass || '∅'}`}});
+      row.createEl('td', {text: entry.newName});
+      row.createEl('td', {text: entry.message ? `${BULK_RENAME_STATUS_LABELS[entry.status]}: ${entry.message}` : BULK_RENAME_STATUS_LABELS[entry.status]});
+    });
+
+    const modalButtonContainer = contentEl.createEl('div', {cls: 'modal-button-container'});
+    const applyButton = modalButtonContainer.createEl('button', {text: 'Rename selected notes', cls: 'mod-cta'});
+    applyButton.disabled = this.checkboxes.size === 0;
+    applyButton.onclick = async () => {
+      const selectedEntries = this.getSelectedEntries();
+      this.close();
+      await this.applyCallback(selectedEntries);
+    };
+    const cancelButton = modalButtonContainer.createEl('button', {text: 'Cancel'});
+    cancelButton.onclick = () => {
+      this.close();
+    };
+  }
+
+  onClose() {
+    const {contentEl} = this;
+    contentEl.empty();
+  }
+
+  getSelectedEntries(): BulkRenameEntry[] {
+    return this.entries.filter(entry => this.checkboxes.get(entry)?.checked);
+  }
+}
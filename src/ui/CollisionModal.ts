@@ -0,0 +1,85 @@
+import {App, Modal} from "obsidian";
+import type {CollisionStrategy} from "../settings/types";
+
+export type CollisionAction = Exclude<CollisionStrategy, 'prompt'>;
+
+export interface CollisionNote {
+  path: string;
+  content: string;
+}
+
+const EXCERPT_LENGTH = 500;
+
+/**
+ * Shows the note to rename or move next to the existing note holding its target path,
+ * and asks whether to append a counter, append a property or skip the note
+ * Closing the modal skips the note
+ */
+export class CollisionModal extends Modal {
+  private note: CollisionNote;
+  private existingNote: CollisionNote;
+  private actions: CollisionAction[];
+  private chooseCallback: (action: CollisionAction) => void;
+  private chosen = false;
+
+  constructor(
+    app: App,
+    note: CollisionNote,
+    existingNote: CollisionNote,
+    actions: CollisionAction[],
+    chooseCallback: (action: CollisionAction) => void,
+  ) {
+    super(app);
+    this.note = note;
+    this.existingNote = existingNote;
+    this.actions = actions;
+    this.chooseCallback = chooseCallback;
+    super.setTitle(`"${existingNote.path}" already exists`);
+  }
+
+  onOpen() {
+    const {contentEl} = this;
+    contentEl.empty();
+    contentEl.addClass('metaflow-collision-modal');
+
+    const notesDiv = contentEl.createDiv({cls: 'metaflow-collision-notes'});
+    this.displayNote(notesDiv, 'Note to rename or move', this.note);
+    this.displayNote(notesDiv, 'Existing note', this.existingNote);
+
+    const modalButtonContainer = contentEl.createEl('div', {cls: 'modal-button-container'});
+    const labels: Record<CollisionAction, string> = {
+      counter: 'Append a counter',
+      property: 'Append the property',
+      skip: 'Skip',
+    };
+    this.actions.forEach((action, index) => {
+      const button = modalButtonContainer.createEl('button', {text: labels[action], cls: index === 0 ? 'mod-cta' : ''});
+      button.onclick = () => {
+        this.choose(action);
+      };
+    });
+  }
+
+  onClose() {
+    const {contentEl} = this;
+    contentEl.empty();
+    if (!this.chosen) {
+      this.chosen = true;
+      this.chooseCallback('skip');
+    }
+  }
+
+  private displayNote(container: HTMLElement, title: string, note: CollisionNote): void {
+    const noteDiv = container.createDiv({cls: 'metaflow-collision-note'});
+    noteDiv.createEl('h4', {text: title});
+    noteDiv.createEl('code', {text: note.path});
+    const excerpt = note.content.length > EXCERPT_LENGTH ? `${note.content.slice(0, EXCERPT_LENGTH)}…` : note.content;
+    noteDiv.createEl('pre', {text: excerpt, cls: 'metaflow-collision-excerpt'});
+  }
+
+  private choose(action: CollisionAction): void {
+    this.chosen = true;
+    this.close();
+    this.chooseCallback(action);
+  }
+}
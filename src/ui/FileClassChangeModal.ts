@@ -0,0 +1,81 @@
+import {App, Modal} from "obsidian";
+import type {ObsoleteFieldPolicy} from "../settings/types";
+
+export interface FileClassChangeFields {
+  // fields of the new fileClass missing from the note
+  added: string[];
+  // empty fields the new fileClass does not define
+  removed: string[];
+  // non-empty fields of the old fileClass, handled by the obsolete fields policy
+  obsolete: string[];
+  obsoleteFieldPolicy: ObsoleteFieldPolicy;
+}
+
+/**
+ * Asks to confirm the fileClass change of a note, listing the fields that would be added or removed
+ * Closing the modal cancels the change
+ */
+export class FileClassChangeModal extends Modal {
+  private fields: FileClassChangeFields;
+  private confirmCallback: (confirmed: boolean) => void;
+  private answered = false;
+
+  constructor(
+    app: App,
+    title: string,
+    fields: FileClassChangeFields,
+    confirmCallback: (confirmed: boolean) => void,
+  ) {
+    super(app);
+    this.fields = fields;
+    this.confirmCallback = confirmCallback;
+    super.setTitle(title);
+  }
+
+  onOpen() {
+    const {contentEl} = this;
+    contentEl.empty();
+    contentEl.addClass('metaflow-fileclass-change-modal');
+
+    this.displayFields(contentEl, 'Added fields', this.fields.added);
+    this.displayFields(contentEl, 'Removed empty fields', this.fields.removed);
+    this.displayFields(contentEl, `Obsolete fields, ${this.fields.obsoleteFieldPolicy} policy`, this.fields.obsolete);
+    if (this.fields.added.length + this.fields.removed.length + this.fields.obsolete.length === 0) {
+      contentEl.createEl('p', {text: 'No field is added or removed.'});
+    }
+
+    const modalButtonContainer = contentEl.createEl('div', {cls: 'modal-button-container'});
+    const confirmButton = modalButtonContainer.createEl('button', {text: 'Change fileClass', cls: 'mod-cta'});
+    confirmButton.onclick = () => {
+      this.answer(true);
+    };
+    const cancelButton = modalButtonContainer.createEl('button', {text: 'Keep fileClass'});
+    cancelButton.onclick = () => {
+      this.answer(false);
+    };
+  }
+
+  onClose() {
+    const {contentEl} = this;
+    contentEl.empty();
+    if (!this.answered) {
+      this.answered = true;
+      this.confirmCallback(false);
+    }
+  }
+
+  private displayFields(container: HTMLElement, title: string, fields: string[]): void {
+    if (fields.length === 0) {
+      return;
+    }
+    container.createEl('p', {text: `${title}:`});
+    const list = container.createEl('ul', {cls: 'metaflow-fileclass-change-fields'});
+    fields.forEach(field => list.createEl('li').createEl('code', {text: field}));
+  }
+
+  private answer(confirmed: boolean): void {
+    this.answered = true;
+    this.close();
+    this.confirmCallback(confirmed);
+  }
+}
@@ -0,0 +1,33 @@
+import {App, FuzzySuggestModal} from "obsidian";
+
+/**
+ * Fuzzy picker of a fileClass, the callback is not called when the modal is closed without choosing
+ */
+export class FileClassSuggestModal extends FuzzySuggestModal<string> {
+  private fileClasses: string[];
+  private chooseCallback: (fileClass: string) => void;
+
+  constructor(
+    app: App,
+    fileClasses: string[],
+    placeholder: string,
+    chooseCallback: (fileClass: string) => void,
+  ) {
+    super(app);
+    this.fileClasses = fileClasses;
+    this.chooseCallback = chooseCallback;
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): string[] {
+    return this.fileClasses;
+  }
+
+  getItemText(fileClass: string): string {
+    return fileClass;
+  }
+
+  onChooseItem(fileClass: string): void {
+    this.chooseCallback(fileClass);
+  }
+}
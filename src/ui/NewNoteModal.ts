@@ -0,0 +1,176 @@
+import {App, Modal, Setting} from "obsidian";
+import type {MetadataMenuField} from "../externalApi/types.MetadataMenu";
+import type {NewNoteField} from "../services/NewNoteService";
+
+/**
+ * Form of the required and scripted fields of a new note, typed by the MetadataMenu field types,
+ * the empty fields are left to the default value scripts and the MetadataMenu default values
+ */
+export class NewNoteModal extends Modal {
+  private fields: NewNoteField[];
+  // paths of the Templater templates, empty when Templater is not available
+  private templates: string[];
+  private templatePath: string | null;
+  private createCallback: (values: {[key: string]: any}, templatePath: string | null) => Promise<void>;
+  private values: {[key: string]: any} = {};
+  private errorEl: HTMLElement;
+
+  constructor(
+    app: App,
+    title: string,
+    fields: NewNoteField[],
+    templates: string[],
+    defaultTemplate: string | null,
+    createCallback: (values: {[key: string]: any}, templatePath: string | null) => Promise<void>,
+  ) {
+    super(app);
+    this.fields = fields;
+    this.templates = templates;
+    this.templatePath = defaultTemplate && templates.includes(defaultTemplate) ? defaultTemplate : null;
+    this.createCallback = createCallback;
+    super.setTitle(title);
+  }
+
+  onOpen() {
+    const {contentEl} = this;
+    contentEl.empty();
+    contentEl.addClass('metaflow-new-note-modal');
+
+    if (this.fields.length === 0) {
+      contentEl.createEl('p', {text: 'No required or scripted field, the note gets the default values of its fileClass.'});
+    }
+    this.fields.forEach(newNoteField => this.addField(contentEl, newNoteField));
+
+    if (this.templates.length > 0) {
+      new Setting(contentEl)
+        .setName('Templater template')
+        .addDropdown(dropdown => {
+          dropdown.addOption('', 'No template');
+          this.templates.forEach(template => dropdown.addOption(template, template));
+          dropdown.setValue(this.templatePath || '')
+            .onChange(value => {
+              this.templatePath = value || null;
+            });
+        });
+    }
+
+    this.errorEl = contentEl.createEl('p', {cls: 'metaflow-new-note-error'});
+
+    const modalButtonContainer = contentEl.createEl('div', {cls: 'modal-button-container'});
+    const createButton = modalButtonContainer.createEl('button', {text: 'Create note', cls: 'mod-cta'});
+    createButton.onclick = async () => {
+      const missingFields = this.fields
+        .filter(({field, required, scripted}) => required && !scripted && this.isEmpty(this.values[field.name]))
+        .map(({field}) => field.name);
+      if (missingFields.length > 0) {
+        this.errorEl.setText(`Missing required fields: ${missingFields.join(', ')}`);
+        return;
+      }
+      this.close();
+      await this.createCallback(this.getValues(), this.templatePath);
+    };
+    const cancelButton = modalButtonContainer.createEl('button', {text: 'Cancel'});
+    cancelButton.onclick = () => {
+      this.close();
+    };
+  }
+
+  onClose() {
+    const {contentEl} = this;
+    contentEl.empty();
+  }
+
+  private addField(container: HTMLElement, {field, required, scripted}: NewNoteField): void {
+    const setting = new Setting(container)
+      .setName(required ? `${field.name} *` : field.name)
+      .setDesc([field.type, scripted ? 'computed by its script when left empty' : ''].filter(Boolean).join(', '));
+    const name = field.name;
+    switch (field.type) {
+      case 'Boolean':
+        setting.addToggle(toggle => toggle
+          .setValue(false)
+          .onChange(value => {
+            this.values[name] = value;
+          }));
+        break;
+      case 'Select': {
+        const options = this.getSelectValues(field);
+        if (options) {
+          setting.addDropdown(dropdown => {
+            dropdown.addOption('', '');
+            options.forEach(option => dropdown.addOption(option, option));
+            dropdown.onChange(value => {
+              this.values[name] = value;
+            });
+          });
+          break;
+        }
+        this.addTextInput(setting, name, 'text');
+        break;
+      }
+      case 'Number':
+        this.addTextInput(setting, name, 'number');
+        break;
+      case 'Date':
+        this.addTextInput(setting, name, 'date');
+        break;
+      case 'DateTime':
+        this.addTextInput(setting, name, 'datetime-local');
+        break;
+      case 'MultiSelect':
+      case 'MultiFile':
+        this.addTextInput(setting, name, 'text', 'Comma separated values');
+        break;
+      default:
+        this.addTextInput(setting, name, 'text');
+    }
+  }
+
+  private addTextInput(setting: Setting, name: string, type: string, placeholder: string = ''): void {
+    setting.addText(text => {
+      text.inputEl.type = type;
+      text.setPlaceholder(placeholder)
+        .onChange(value => {
+          this.values[name] = value;
+        });
+    });
+  }
+
+  /**
+   * The typed values of the filled fields, the field validation coerces them to the field format afterwards
+   */
+  private getValues(): {[key: string]: any} {
+    const values: {[key: string]: any} = {};
+    this.fields.forEach(({field}) => {
+      const value = this.values[field.name];
+      if (this.isEmpty(value)) {
+        return;
+      }
+      switch (field.type) {
+        case 'Number':
+          values[field.name] = Number(value);
+          break;
+        case 'MultiSelect':
+        case 'MultiFile':
+          values[field.name] = String(value).split(',').map(item => item.trim()).filter(item => item !== '');
+          break;
+        default:
+          values[field.name] = value;
+      }
+    });
+    return values;
+  }
+
+  private getSelectValues(field: MetadataMenuField): string[] | null {
+    const valuesList = field.options?.valuesList;
+    if ((field.options?.sourceType && field.options.sourceType !== 'ValuesList') || !valuesList) {
+      return null;
+    }
+    const values = Array.isArray(valuesList) ? valuesList : Object.values(valuesList);
+    return values.length > 0 ? values.map(String) : null;
+  }
+
+  private isEmpty(value: any): boolean {
+    return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+  }
+}
@@ -0,0 +1,68 @@
+import {App, Modal} from "obsidian";
+import type {ObsoleteFieldPolicy} from "../settings/types";
+
+export type ObsoleteFieldAction = Exclude<ObsoleteFieldPolicy, 'ask'>;
+
+/**
+ * Lists the obsolete fields of a note whose fileClass changed and asks whether to keep, remove or archive them
+ * Closing the modal keeps the fields
+ */
+export class ObsoleteFieldsModal extends Modal {
+  private obsoleteValues: {[key: string]: any};
+  private chooseCallback: (action: ObsoleteFieldAction) => void;
+  private chosen = false;
+
+  constructor(
+    app: App,
+    title: string,
+    obsoleteValues: {[key: string]: any},
+    chooseCallback: (action: ObsoleteFieldAction) => void,
+  ) {
+    super(app);
+    this.obsoleteValues = obsoleteValues;
+    this.chooseCallback = chooseCallback;
+    super.setTitle(title);
+  }
+
+  onOpen() {
+    const {contentEl} = this;
+    contentEl.empty();
+    contentEl.addClass('metaflow-obsolete-fields-modal');
+
+    contentEl.createEl('p', {text: 'These fields are not defined by the new fileClass:'});
+    const list = contentEl.createEl('ul', {cls: 'metaflow-obsolete-fields'});
+    Object.entries(this.obsoleteValues).forEach(([name, value]) => {
+      const item = list.createEl('li');
+      item.createEl('code', {text: name});
+      item.appendText(`: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`);
+    });
+
+    const modalButtonContainer = contentEl.createEl('div', {cls: 'modal-button-container'});
+    const actions: [ObsoleteFieldAction, string][] = [
+      ['keep', 'Keep'],
+      ['archive', 'Archive under _archived'],
+      ['remove', 'Remove'],
+    ];
+    actions.forEach(([action, text]) => {
+      const button = modalButtonContainer.createEl('button', {text, cls: action === 'keep' ? 'mod-cta' : ''});
+      button.onclick = () => {
+        this.choose(action);
+      };
+    });
+  }
+
+  onClose() {
+    const {contentEl} = this;
+    contentEl.empty();
+    if (!this.chosen) {
+      this.chosen = true;
+      this.chooseCallback('keep');
+    }
+  }
+
+  private choose(action: ObsoleteFieldAction): void {
+    this.chosen = true;
+    this.close();
+    this.chooseCallback(action);
+  }
+}
@@ -0,0 +1,79 @@
+import {App, Modal} from "obsidian";
+import type {OfflineFileClassChange} from "../services/FileClassSnapshotService";
+
+/**
+ * List of the fileClass changes made while MetaFlow was not running, the selected notes are processed
+ * like a fileClass change, or dismissed
+ */
+export class OfflineFileClassChangesModal extends Modal {
+  private changes: OfflineFileClassChange[];
+  private processCallback: (changes: OfflineFileClassChange[]) => Promise<void>;
+  private dismissCallback: (changes: OfflineFileClassChange[]) => Promise<void>;
+  private checkboxes: Map<OfflineFileClassChange, HTMLInputElement>;
+
+  constructor(
+    app: App,
+    changes: OfflineFileClassChange[],
+    processCallback: (changes: OfflineFileClassChange[]) => Promise<void>,
+    dismissCallback: (changes: OfflineFileClassChange[]) => Promise<void>,
+  ) {
+    super(app);
+    this.changes = changes;
+    this.processCallback = processCallback;
+    this.dismissCallback = dismissCallback;
+    this.checkboxes = new Map();
+    super.setTitle(`${changes.length} fileClass changes made while MetaFlow was not running`);
+  }
+
+  onOpen() {
+    const {contentEl} = this;
+    contentEl.empty();
+    contentEl.addClass('metaflow-offline-changes-modal');
+
+    const tableContainer = contentEl.createDiv({cls: 'metaflow-offline-changes'});
+    const table = tableContainer.createEl('table', {cls: 'metaflow-offline-changes-table'});
+    const headerRow = table.createEl('thead').createEl('tr');
+    headerRow.createEl('th', {text: ''});
+    headerRow.createEl('th', {text: 'Note'});
+    headerRow.createEl('th', {text: 'Old fileClass'});
+    headerRow.createEl('th', {text: 'New fileClass'});
+
+    const tbody = table.createEl('tbody');
+    this.changes.forEach(change => {
+      const row = tbody.createEl('tr');
+      const checkbox = row.createEl('td').createEl('input', {type: 'checkbox'});
+      checkbox.checked = true;
+      this.checkboxes.set(change, checkbox);
+      row.createEl('td', {text: change.file.path});
+      row.createEl('td', {text: change.oldFileClass || '∅'});
+      row.createEl('td', {text: change.newFileClass || '∅'});
+    });
+
+    const modalButtonContainer = contentEl.createEl('div', {cls: 'modal-button-container'});
+    const processButton = modalButtonContainer.createEl('button', {text: 'Process selected notes', cls: 'mod-cta'});
+    processButton.onclick = async () => {
+      const selectedChanges = this.getSelectedChanges();
+      this.close();
+      await this.processCallback(selectedChanges);
+    };
+    const dismissButton = modalButtonContainer.createEl('button', {text: 'Dismiss selected'});
+    dismissButton.onclick = async () => {
+      const selectedChanges = this.getSelectedChanges();
+      this.close();
+      await this.dismissCallback(selectedChanges);
+    };
+    const cancelButton = modalButtonContainer.createEl('button', {text: 'Cancel'});
+    cancelButton.onclick = () => {
+      this.close();
+    };
+  }
+
+  onClose() {
+    const {contentEl} = this;
+    contentEl.empty();
+  }
+
+  getSelectedChanges(): OfflineFileClassChange[] {
+    return this.changes.filter(change => this.checkboxes.get(change)?.checked);
+  }
+}
@@ -0,0 +1,158 @@
+import {App, Modal} from "obsidian";
+import type {FilePreview, FrontmatterChange} from "../services/PreviewService";
+import {SettingsUtils} from "../settings/SettingsUtils";
+
+export interface PreviewSelection {
+  preview: FilePreview;
+  // null means every change of the preview
+  selectedKeys: Set<string> | null;
+}
+
+/**
+ * Side-by-side frontmatter diff of one or several notes with Apply / Apply selected fields / Cancel actions
+ */
+export class PreviewModal extends Modal {
+  private previews: FilePreview[];
+  private getPlannedPath: (preview: FilePreview) => string;
+  private applyCallback: (selections: PreviewSelection[]) => Promise<void>;
+  private fileCheckboxes: Map<FilePreview, HTMLInputElement>;
+  private fieldCheckboxes: Map<FilePreview, Map<string, HTMLInputElement>>;
+
+  constructor(
+    app: App,
+    title: string,
+    previews: FilePreview[],
+    getPlannedPath: (preview: FilePreview) => string,
+    applyCallback: (selections: PreviewSelection[]) => Promise<void>,
+  ) {
+    super(app);
+    this.previews = previews;
+    this.getPlannedPath = getPlannedPath;
+    this.applyCallback = applyCallback;
+    this.fileCheckboxes = new Map();
+    this.fieldCheckboxes = new Map();
+    super.setTitle(title);
+  }
+
+  onOpen() {
+    const {contentEl} = this;
+    contentEl.empty();
+    contentEl.addClass('metaflow-preview-modal');
+
+    const filesContainer = contentEl.createDiv({cls: 'metaflow-preview-files'});
+    this.previews.forEach(preview => this.displayFilePreview(filesContainer, preview));
+
+    const modalButtonContainer = contentEl.createEl('div', {cls: 'modal-button-container'});
+
+    const applyButton = modalButtonContainer.createEl('button', {text: 'Apply', cls: 'mod-cta'});
+    applyButton.onclick = async () => {
+      await this.apply(this.previews.map(preview => ({preview, selectedKeys: null})));
+    };
+
+    const applySelectedButton = modalButtonContainer.createEl('button', {text: 'Apply selected fields'});
+    applySelectedButton.onclick = async () => {
+      await this.apply(this.getSelections());
+    };
+
+    const cancelButton = modalButtonContainer.createEl('button', {text: 'Cancel'});
+    cancelButton.onclick = () => {
+      this.close();
+    };
+  }
+
+  onClose() {
+    const {contentEl} = this;
+    contentEl.empty();
+  }
+
+  getSelections(): PreviewSelection[] {
+    return this.previews
+      .filter(preview => this.fileCheckboxes.get(preview)?.checked ?? true)
+      .map(preview => {
+        const selectedKeys = new Set<string>();
+        this.fieldCheckboxes.get(preview)?.forEach((checkbox, key) => {
+          if (checkbox.checked) {
+            selectedKeys.add(key);
+          }
+        });
+        return {preview, selectedKeys};
+      });
+  }
+
+  private async apply(selections: PreviewSelection[]): Promise<void> {
+    this.close();
+    await this.applyCallback(selections);
+  }
+
+  private displayFilePreview(container: HTMLElement, preview: FilePreview): void {
+    const fileDiv = container.createEl('details', {cls: 'metaflow-preview-file'});
+    fileDiv.open = this.previews.length === 1;
+    const summary = fileDiv.createEl('summary', {cls: 'metaflow-preview-file-summary'});
+    const [fileCheckbox] = SettingsUtils.createCheckboxWithLabel(summary, {
+      label: preview.file.path,
+      labelClass: 'metaflow-preview-file-label',
+      labelTitle: 'Include this note when applying selected fields',
+      checkboxClass: 'metaflow-preview-file-checkbox',
+      checked: true,
+    });
+    this.fileCheckboxes.set(preview, fileCheckbox);
+    summary.createSpan({cls: 'metaflow-preview-fileclass', text: `fileClass: ${preview.fileClass}`});
+    if (preview.deduction) {
+      fileDiv.createEl('p', {
+        cls: 'metaflow-preview-deduction',
+        text: `🔎 fileClass deduced by ${preview.deduction.source}: ${preview.deduction.reasons.join(', ')}`,
+      });
+    }
+
+    const plannedPath = this.getPlannedPath(preview);
+    if (plannedPath !== preview.file.path) {
+      fileDiv.createEl('p', {cls: 'metaflow-preview-target-path', text: `➡️ ${preview.file.path} → ${plannedPath}`});
+    }
+    if (preview.orderChanged) {
+      fileDiv.createEl('p', {cls: 'metaflow-preview-order-changed', text: '↕️ Properties will be reordered'});
+    }
+
+    if (preview.diagnostics.length > 0) {
+      const diagnosticsList = fileDiv.createEl('ul', {cls: 'metaflow-preview-diagnostics'});
+      preview.diagnostics.forEach(diagnostic => {
+        const text = diagnostic.coerced ?
+          `🔧 ${diagnostic.property} (${diagnostic.fieldType}): ${diagnostic.message}, coerced ${this.formatValue(diagnostic.value)} → ${this.formatValue(diagnostic.coercedValue)}` :
+          `⚠️ ${diagnostic.property} (${diagnostic.fieldType}): ${diagnostic.message}, got ${this.formatValue(diagnostic.value)}`;
+        diagnosticsList.createEl('li', {text});
+      });
+    }
+
+    const table = fileDiv.createEl('table', {cls: 'metaflow-preview-table'});
+    const headerRow = table.createEl('thead').createEl('tr');
+    headerRow.createEl('th', {text: ''});
+    headerRow.createEl('th', {text: 'Property'});
+    headerRow.createEl('th', {text: 'Before'});
+    headerRow.createEl('th', {text: 'After'});
+
+    const checkboxes = new Map<string, HTMLInputElement>();
+    const tbody = table.createEl('tbody');
+    preview.changes.forEach((change: FrontmatterChange) => {
+      const row = tbody.createEl('tr', {cls: `metaflow-preview-${change.status}`});
+      const checkboxCell = row.createEl('td');
+      if (change.status !== 'unchanged') {
+        const checkbox = checkboxCell.createEl('input', {type: 'checkbox'});
+        checkbox.checked = true;
+        checkboxes.set(change.key, checkbox);
+      }
+      row.createEl('td', {text: change.key});
+      row.createEl('td', {text: change.status === 'added' ? '' : this.formatValue(change.before)});
+      row.createEl('td', {text: change.status === 'removed' ? '' : this.formatValue(change.after)});
+    });
+    this.fieldCheckboxes.set(preview, checkboxes);
+  }
+
+  private formatValue(value: any): string {
+    if (value === null || value === undefined) {
+      return '∅';
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+}
@@ -0,0 +1,64 @@
+import {App, Modal} from "obsidian";
+import type {UpdateQueueService} from "../services/UpdateQueueService";
+
+/**
+ * Debug view of the automatic updates: the pending and running jobs, refreshed when the queue changes
+ */
+export class UpdateQueueModal extends Modal {
+  private updateQueueService: UpdateQueueService;
+  private unsubscribe?: () => void;
+
+  constructor(app: App, updateQueueService: UpdateQueueService) {
+    super(app);
+    this.updateQueueService = updateQueueService;
+    super.setTitle('MetaFlow update queue');
+  }
+
+  onOpen() {
+    this.unsubscribe = this.updateQueueService.onChange(() => this.display());
+    this.display();
+  }
+
+  onClose() {
+    this.unsubscribe?.();
+    const {contentEl} = this;
+    contentEl.empty();
+  }
+
+  private display(): void {
+    const {contentEl} = this;
+    contentEl.empty();
+    contentEl.addClass('metaflow-update-queue-modal');
+
+    const jobs = this.updateQueueService.getJobs();
+    if (jobs.length === 0) {
+      contentEl.createEl('p', {text: 'No pending update'});
+    } else {
+      const table = contentEl.createEl('table', {cls: 'metaflow-update-queue-table'});
+      const headerRow = table.createEl('thead').createEl('tr');
+      ['Note', 'Job', 'Status', 'Triggers', 'Queued at', ''].forEach(text => headerRow.createEl('th', {text}));
+      const tbody = table.createEl('tbody');
+      jobs.forEach(job => {
+        const row = tbody.createEl('tr', {cls: `metaflow-update-queue-${job.status}`});
+        row.createEl('td', {text: job.file.path});
+        row.createEl('td', {text: job.kind});
+        row.createEl('td', {text: job.isCancelled() ? `${job.status}, cancelled (${job.cancelReason})` : job.status});
+        row.createEl('td', {text: `${job.triggers}`});
+        row.createEl('td', {text: new Date(job.queuedAt).toLocaleTimeString()});
+        const cancelCell = row.createEl('td');
+        if (!job.isCancelled()) {
+          const cancelButton = cancelCell.createEl('button', {text: 'Cancel'});
+          cancelButton.onclick = () => {
+            this.updateQueueService.cancel(job.id);
+          };
+        }
+      });
+    }
+
+    const modalButtonContainer = contentEl.createEl('div', {cls: 'modal-button-container'});
+    const closeButton = modalButtonContainer.createEl('button', {text: 'Close'});
+    closeButton.onclick = () => {
+      this.close();
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import type {FolderPatternKind} from "../settings/types";
+
+export type PathMatcher = (filePath: string) => boolean;
+
+/**
+ * Folder/fileClass mapping patterns, matched against the vault relative path of the note
+ */
+export class FolderPattern {
+  /**
+   * @throws SyntaxError for an invalid regex pattern
+   */
+  static createMatcher(pattern: string, kind: FolderPatternKind): PathMatcher {
+    switch (kind) {
+      case 'glob': {
+        const regExp = this.globToRegExp(pattern.replace(/^\/+/, ''));
+        return (filePath: string) => regExp.test(filePath);
+      }
+      case 'regex': {
+        // anchored at the start of the path, so that "Books/.*" does not match "Archive/Books/..."
+        const regExp = new RegExp(`^(?:${pattern})`);
+        return (filePath: string) => regExp.test(filePath);
+      }
+      default: {
+        const folder = pattern.replace(/^\/+/, '').replace(/\/+$/, '');
+        if (folder === '') {
+          // root folder matches every note
+          return () => true;
+        }
+        return (filePath: string) => filePath.startsWith(`${folder}/`);
+      }
+    }
+  }
+
+  /**
+   * Match the notes inside the folders a move target template such as `Projects/{{project}}/Meetings` can resolve to,
+   * every placeholder matches a single folder name
+   */
+  static createTemplateMatcher(template: string): PathMatcher {
+    const folder = template.replace(/^\/+/, '').replace(/\/+$/, '');
+    const source = folder.split(/(\{\{[^}]+\}\})/)
+      .map(part => part.startsWith('{{') ? '[^/]+' : this.escapeRegExp(part))
+      .join('');
+    const regExp = new RegExp(`^${source}/`);
+    return (filePath: string) => regExp.test(filePath);
+  }
+
+  /**
+   * @returns the error message of an invalid pattern, null when the pattern is valid
+   */
+  static getPatternError(pattern: string, kind: FolderPatternKind): string | null {
+    try {
+      this.createMatcher(pattern, kind);
+      return null;
+    } catch (error) {
+      return error.message;
+    }
+  }
+
+  /**
+   * `**` matches any number of folders, `*` and `?` do not cross folder boundaries, `{a,b}` matches a or b
+   */
+  static globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (char === '*' && glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '{' && glob.indexOf('}', i) > i) {
+        const end = glob.indexOf('}', i);
+        source += `(?:${glob.slice(i + 1, end).split(',').map(alternative => this.escapeRegExp(alternative)).join('|')})`;
+        i = end;
+      } else {
+        source += this.escapeRegExp(char);
+      }
+    }
+    return new RegExp(`^${source}$`);
+  }
+
+  private static escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,132 @@
+import type {PropertyCondition, PropertyConditionOperator} from "../settings/types";
+import {TemplateExpression} from "./TemplateExpression";
+
+const OPERATORS: Record<string, PropertyConditionOperator> = {
+  '==': 'equals',
+  '!=': 'notEquals',
+  '<': 'lessThan',
+  '>': 'greaterThan',
+};
+
+/**
+ * Conditions on the note metadata, used by the property move rules, the title template guards and `{{#if}}` blocks
+ */
+export class PropertyConditions {
+  static matchAll(conditions: PropertyCondition[], metadata: {[key: string]: any}): boolean {
+    return conditions.every(condition => this.match(condition, metadata));
+  }
+
+  static match(condition: PropertyCondition, metadata: {[key: string]: any}): boolean {
+    const value = TemplateExpression.getValue(metadata ?? {}, condition.property);
+    const values: any[] = Array.isArray(value) ? value : [value];
+    const isEmpty = values.every(v => v === undefined || v === null || v === '');
+    switch (condition.operator) {
+      case 'exists':
+        return !isEmpty;
+      case 'notExists':
+        return isEmpty;
+      case 'equals':
+        return values.some(v => v !== undefined && v !== null && String(v) === condition.value);
+      case 'notEquals':
+        return !values.some(v => v !== undefined && v !== null && String(v) === condition.value);
+      case 'lessThan':
+        return !isEmpty && this.compareValues(value, condition.value) < 0;
+      case 'greaterThan':
+        return !isEmpty && this.compareValues(value, condition.value) > 0;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Parse a predicate such as `status == "published" && volume`,
+   * comparisons (`==`, `!=`, `<`, `>`) against a quoted text or a number, `property` is set, `!property` is empty
+   * @throws SyntaxError for an invalid predicate
+   */
+  static parse(predicate: string): PropertyCondition[] {
+    return this.splitConditions(predicate).map(part => this.parseCondition(part.trim()));
+  }
+
+  /**
+   * @returns the error message of an invalid predicate, null when the predicate is valid
+   */
+  static getError(predicate: string): string | null {
+    try {
+      this.parse(predicate);
+      return null;
+    } catch (error) {
+      return error.message;
+    }
+  }
+
+  private static parseCondition(text: string): PropertyCondition {
+    const presence = text.match(/^(!?)\s*([^\s!=<>"']+)$/);
+    if (presence) {
+      this.checkPath(presence[2]);
+      return {property: presence[2], operator: presence[1] ? 'notExists' : 'exists', value: ''};
+    }
+    const comparison = text.match(/^([^\s!=<>"']+)\s*(==|!=|<|>)\s*([\s\S]*)$/);
+    if (!comparison) {
+      throw new SyntaxError(`Invalid condition ${text || '(empty)'}, expected "property", "!property" or "property == value"`);
+    }
+    this.checkPath(comparison[1]);
+    return {property: comparison[1], operator: OPERATORS[comparison[2]], value: this.parseValue(comparison[3].trim())};
+  }
+
+  private static parseValue(text: string): string {
+    const quoted = text.match(/^(["'])([\s\S]*)\1$/);
+    if (quoted) {
+      return quoted[2];
+    }
+    if (/^-?\d+(\.\d+)?$/.test(text)) {
+      return text;
+    }
+    throw new SyntaxError(`Invalid value ${text || '(empty)'}, text values must be quoted`);
+  }
+
+  private static checkPath(path: string): void {
+    if (!TemplateExpression.isValidPath(path)) {
+      throw new SyntaxError(`Invalid property name "${path}"`);
+    }
+  }
+
+  private static splitConditions(predicate: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+    for (let i = 0; i < predicate.length; i++) {
+      const char = predicate[i];
+      if (quote) {
+        if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '&' && predicate[i + 1] === '&') {
+        parts.push(current);
+        current = '';
+        i++;
+        continue;
+      }
+      current += char;
+    }
+    if (quote) {
+      throw new SyntaxError(`Unterminated quote in "${predicate.trim()}"`);
+    }
+    parts.push(current);
+    return parts;
+  }
+
+  /**
+   * Compare as numbers when both values are numbers, as dates otherwise
+   * @returns NaN when the values cannot be compared
+   */
+  private static compareValues(value: any, expected: string): number {
+    const number = Number(value);
+    const expectedNumber = Number(expected);
+    if (expected.trim() !== '' && !isNaN(number) && !isNaN(expectedNumber)) {
+      return number - expectedNumber;
+    }
+    return Date.parse(String(value)) - Date.parse(expected);
+  }
+}
@@ -0,0 +1,79 @@
+import {PropertyConditions} from "./PropertyConditions";
+
+interface OpenBlock {
+  tag: string;
+  // whether the enclosing blocks are rendered
+  parentRendered: boolean;
+  matched: boolean;
+  inElse: boolean;
+}
+
+const BLOCK_TAG_PATTERN = /\{\{\s*(#if\b[^}]*|else|\/if)\s*\}\}/g;
+
+/**
+ * Conditional sections of title templates, `{{#if volume}} - Vol. {{volume}}{{else}} - Complete{{/if}}`,
+ * the condition has the syntax of the template guards and blocks can be nested
+ */
+export class TemplateBlocks {
+  /**
+   * Keep the content of the blocks whose condition matches the metadata, the placeholders are left as is
+   * @throws SyntaxError for unbalanced blocks or an invalid condition
+   */
+  static resolve(template: string, metadata: {[key: string]: any}): string {
+    const stack: OpenBlock[] = [];
+    let result = '';
+    let lastIndex = 0;
+    const isRendered = () => stack.length === 0 ||
+      (stack[stack.length - 1].parentRendered && stack[stack.length - 1].matched !== stack[stack.length - 1].inElse);
+
+    const tagPattern = new RegExp(BLOCK_TAG_PATTERN.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = tagPattern.exec(template)) !== null) {
+      if (isRendered()) {
+        result += template.substring(lastIndex, match.index);
+      }
+      lastIndex = match.index + match[0].length;
+      const tag = match[1].trim();
+      if (tag.startsWith('#if')) {
+        const condition = tag.substring(3).trim();
+        if (!condition) {
+          throw new SyntaxError('Missing condition in {{#if}}');
+        }
+        const parentRendered = isRendered();
+        stack.push({tag: match[0], parentRendered, matched: PropertyConditions.matchAll(PropertyConditions.parse(condition), metadata), inElse: false});
+      } else if (tag === 'else') {
+        const block = stack[stack.length - 1];
+        if (!block) {
+          throw new SyntaxError('{{else}} without {{#if}}');
+        }
+        if (block.inElse) {
+          throw new SyntaxError(`Duplicate {{else}} in ${block.tag}`);
+        }
+        block.inElse = true;
+      } else if (!stack.pop()) {
+        throw new SyntaxError('{{/if}} without {{#if}}');
+      }
+    }
+    if (stack.length > 0) {
+      throw new SyntaxError(`Unclosed ${stack[stack.length - 1].tag}`);
+    }
+    return result + template.substring(lastIndex);
+  }
+
+  /**
+   * @returns the error message of unbalanced blocks or an invalid condition, null when the blocks are valid
+   */
+  static getError(template: string): string | null {
+    try {
+      this.resolve(template, {});
+      return null;
+    } catch (error) {
+      return error.message;
+    }
+  }
+
+  static isBlockTag(expression: string): boolean {
+    const tag = expression.trim();
+    return tag.startsWith('#') || tag.startsWith('/') || tag === 'else';
+  }
+}
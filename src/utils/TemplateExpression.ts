@@ -0,0 +1,209 @@
+type FilterArgumentType = 'string' | 'number';
+
+interface TemplateFilter {
+  args: FilterArgumentType[];
+  minArgs: number;
+  // whether the filter also applies to empty values, the other filters leave them empty
+  acceptsEmpty?: boolean;
+  apply: (value: any, args: any[]) => any;
+}
+
+export interface TemplateFilterCall {
+  name: string;
+  args: (string | number)[];
+}
+
+/**
+ * Parsed content of a `{{path | filter:"argument" | ...}}` placeholder,
+ * the legacy `{{path:FORMAT}}` syntax is parsed as a format filter
+ */
+export interface TemplatePlaceholder {
+  path: string;
+  filters: TemplateFilterCall[];
+}
+
+const PATH_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*(\.([a-zA-Z_][a-zA-Z0-9_]*|\d+))*$/;
+
+const FILTERS: Record<string, TemplateFilter> = {
+  slugify: {
+    args: [], minArgs: 0,
+    apply: value => TemplateExpression.toText(value)
+      .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, ''),
+  },
+  format: {
+    args: ['string'], minArgs: 1,
+    apply: (value, [format]) => {
+      const date = window.moment ? window.moment(value) : null;
+      return date?.isValid() ? date.format(format) : '';
+    },
+  },
+  first: {
+    args: [], minArgs: 0,
+    apply: value => Array.isArray(value) ? value[0] : value,
+  },
+  join: {
+    args: ['string'], minArgs: 0,
+    apply: (value, [separator = ', ']) => Array.isArray(value) ?
+      value.map(item => TemplateExpression.toText(item)).filter(item => item !== '').join(separator) :
+      value,
+  },
+  default: {
+    args: ['string'], minArgs: 1, acceptsEmpty: true,
+    apply: (value, [fallback]) => TemplateExpression.isEmpty(value) ? fallback : value,
+  },
+  truncate: {
+    args: ['number'], minArgs: 1,
+    apply: (value, [length]) => TemplateExpression.toText(value).substring(0, length).trim(),
+  },
+  upper: {
+    args: [], minArgs: 0,
+    apply: value => TemplateExpression.toText(value).toUpperCase(),
+  },
+  lower: {
+    args: [], minArgs: 0,
+    apply: value => TemplateExpression.toText(value).toLowerCase(),
+  },
+};
+
+/**
+ * Placeholder expressions of title templates and move target templates
+ */
+export class TemplateExpression {
+  static readonly FILTER_NAMES = Object.keys(FILTERS);
+
+  /**
+   * @throws SyntaxError for an unterminated quote or an unquoted text argument
+   */
+  static parse(expression: string): TemplatePlaceholder {
+    const [head, ...filterParts] = this.splitOutsideQuotes(expression, '|');
+    let path = head.trim();
+    const filters: TemplateFilterCall[] = [];
+    const formatIndex = path.indexOf(':');
+    if (formatIndex >= 0) {
+      filters.push({name: 'format', args: [path.substring(formatIndex + 1).trim()]});
+      path = path.substring(0, formatIndex).trim();
+    }
+    filterParts.forEach(part => filters.push(this.parseFilter(part.trim())));
+    return {path, filters};
+  }
+
+  /**
+   * Letters, numbers and underscores separated by dots, list items are reached with their index
+   */
+  static isValidPath(path: string): boolean {
+    return PATH_PATTERN.test(path);
+  }
+
+  /**
+   * Value of the dotted path in the metadata, `author.name`, `authors.0`
+   */
+  static getValue(metadata: {[key: string]: any}, path: string): any {
+    if (metadata && path in metadata) {
+      return metadata[path];
+    }
+    return path.split('.').reduce((value, key) => value === undefined || value === null ? undefined : value[key], metadata);
+  }
+
+  static applyFilters(value: any, filters: TemplateFilterCall[]): any {
+    return filters.reduce((result, filter) => {
+      const definition = FILTERS[filter.name];
+      if (!definition) {
+        throw new Error(`Unknown filter "${filter.name}"`);
+      }
+      return this.isEmpty(result) && !definition.acceptsEmpty ? result : definition.apply(result, filter.args);
+    }, value);
+  }
+
+  /**
+   * Lists are joined with ", ", objects have no text value
+   */
+  static toText(value: any): string {
+    if (this.isEmpty(value)) {
+      return '';
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.toText(item)).filter(item => item !== '').join(', ');
+    }
+    if (typeof value === 'object' && !(value instanceof Date)) {
+      return '';
+    }
+    return String(value);
+  }
+
+  static isEmpty(value: any): boolean {
+    return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+  }
+
+  /**
+   * @returns the error message of an unknown filter or invalid arguments, null when the filter call is valid
+   */
+  static getFilterError(filter: TemplateFilterCall): string | null {
+    const definition = FILTERS[filter.name];
+    if (!definition) {
+      return `Unknown filter "${filter.name}", available filters: ${this.FILTER_NAMES.join(', ')}`;
+    }
+    if (filter.args.length < definition.minArgs || filter.args.length > definition.args.length) {
+      const expected = definition.minArgs === definition.args.length ?
+        `${definition.args.length}` :
+        `${definition.minArgs} to ${definition.args.length}`;
+      return `Filter "${filter.name}" expects ${expected} argument(s), got ${filter.args.length}`;
+    }
+    const invalidIndex = filter.args.findIndex((arg, index) => typeof arg !== definition.args[index]);
+    if (invalidIndex >= 0) {
+      return `Filter "${filter.name}" expects a ${definition.args[invalidIndex]} argument, got ${JSON.stringify(filter.args[invalidIndex])}`;
+    }
+    return null;
+  }
+
+  private static parseFilter(part: string): TemplateFilterCall {
+    const argsIndex = part.indexOf(':');
+    if (argsIndex < 0) {
+      return {name: part, args: []};
+    }
+    return {
+      name: part.substring(0, argsIndex).trim(),
+      args: this.splitOutsideQuotes(part.substring(argsIndex + 1), ',').map(arg => this.parseArgument(arg.trim())),
+    };
+  }
+
+  private static parseArgument(arg: string): string | number {
+    const quoted = arg.match(/^(["'])([\s\S]*)\1$/);
+    if (quoted) {
+      return quoted[2];
+    }
+    if (/^-?\d+(\.\d+)?$/.test(arg)) {
+      return Number(arg);
+    }
+    throw new SyntaxError(`Invalid filter argument ${arg || '(empty)'}, text arguments must be quoted`);
+  }
+
+  private static splitOutsideQuotes(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+    for (const char of text) {
+      if (quote) {
+        if (char === quote) {
+          quote = null;
+        }
+        current += char;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+        current += char;
+      } else if (char === separator) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    if (quote) {
+      throw new SyntaxError(`Unterminated quote in "${text.trim()}"`);
+    }
+    parts.push(current);
+    return parts;
+  }
+}